@@ -8,6 +8,9 @@ import fs from 'fs';
 import path from 'path';
 import { TestRouter } from "./routes/testing";
 import { GameRouter } from "./routes/game/index";
+import { GamesRouter } from "./routes/games";
+import { AnalyticsRouter } from "./routes/analytics";
+import { PartyRouter, attachWatchPartySocket } from "./routes/party";
 import { PerformanceRouter } from "./routes/performance";
 import { MetricsRouter } from "./routes/metrics";
 import { httpLogger, logger } from './core/logging';
@@ -22,6 +25,8 @@ import {
   baseballMetricsCollector
 } from './core/metrics';
 import { config, environment, isFeatureEnabled } from './config/config';
+import { setPlaybackSessionStore, InMemoryPlaybackSessionStore, KnexPlaybackSessionStore } from './services/game/session';
+import { setCommentaryPrefetcher, CommentaryPrefetcher } from './services/game/playback';
 
 // Create logs directory if it doesn't exist
 const logDir = process.env.LOG_DIR || 'logs';
@@ -30,6 +35,18 @@ if (!fs.existsSync(logPath)) {
     fs.mkdirSync(logPath, { recursive: true });
 }
 
+// Persist playback sessions in the database when configured, otherwise keep the most recent in memory
+if (config.playbackSessions.store === 'database') {
+    setPlaybackSessionStore(new KnexPlaybackSessionStore());
+} else {
+    setPlaybackSessionStore(new InMemoryPlaybackSessionStore(config.playbackSessions.maxSessions));
+}
+
+// Prefetch the commentary of upcoming plays unless turned off
+if (config.commentaryPrefetch.plays > 0) {
+    setCommentaryPrefetcher(new CommentaryPrefetcher(config.commentaryPrefetch));
+}
+
 // Initialize Express app
 const app = express();
 const port = config.port; // Use port from validated config
@@ -47,6 +64,9 @@ app.use(metricsMiddleware);
 
 // Routes
 app.use('/api/game', GameRouter);
+app.use('/api/games', GamesRouter);
+app.use('/api/analytics', AnalyticsRouter);
+app.use('/api/party', PartyRouter);
 app.use('/api/performance', PerformanceRouter);
 app.use('/api/metrics', MetricsRouter);
 app.use('/test', TestRouter);
@@ -162,7 +182,7 @@ connectionManager.isConnected()
   });
 
 // Start the server
-app.listen(port, () => {
+const server = app.listen(port, () => {
     logger.info(`Baseball Playback API listening at http://localhost:${port}`);
     
     // Log initial connection pool stats and monitoring status
@@ -183,6 +203,9 @@ app.listen(port, () => {
     });
 });
 
+// Watch parties share playback over WebSocket connections on the same port
+attachWatchPartySocket(server);
+
 // Handle application shutdown
 process.on('SIGINT', async () => {
   logger.info('Received SIGINT signal, shutting down gracefully');
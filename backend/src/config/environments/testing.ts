@@ -17,6 +17,25 @@ export const testConfig = {
     maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || '1000'),
     temperature: parseFloat(process.env.OPENAI_TEMPERATURE || '0.7')
   },
+  openaiCompatible: {
+    baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || '',
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || '',
+    model: process.env.OPENAI_COMPATIBLE_MODEL || '',
+    headers: JSON.parse(process.env.OPENAI_COMPATIBLE_HEADERS || '{}'),
+    timeoutMs: parseInt(process.env.OPENAI_COMPATIBLE_TIMEOUT_MS || '30000')
+  },
+  commentaryCache: {
+    policy: process.env.COMMENTARY_CACHE_POLICY || 'regenerate',
+    maxAgeMs: parseInt(process.env.COMMENTARY_CACHE_MAX_AGE_MS || '604800000')
+  },
+  commentaryPrefetch: {
+    plays: parseInt(process.env.COMMENTARY_PREFETCH_PLAYS || '3'),
+    concurrency: parseInt(process.env.COMMENTARY_PREFETCH_CONCURRENCY || '2')
+  },
+  playbackSessions: {
+    store: process.env.PLAYBACK_SESSION_STORE || 'memory',
+    maxSessions: parseInt(process.env.PLAYBACK_SESSION_MAX_SESSIONS || '1000')
+  },
   logLevel: process.env.LOG_LEVEL || 'debug',
   featureFlags: {
     enhancedCommentary: {
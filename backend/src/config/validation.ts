@@ -22,6 +22,43 @@ const OpenAIConfigSchema = z.object({
   temperature: z.number().min(0).max(1, "Temperature must be between 0 and 1")
 });
 
+/**
+ * Schema for OpenAI-compatible endpoint configuration validation.
+ * An empty base URL leaves the openai-compatible adapter unconfigured.
+ */
+const OpenAICompatibleConfigSchema = z.object({
+  baseUrl: z.union([z.string().url("OpenAI-compatible base URL must be a URL"), z.literal('')]),
+  apiKey: z.string(),
+  model: z.string(),
+  headers: z.record(z.string(), z.string()),
+  timeoutMs: z.number().int().positive("OpenAI-compatible timeout must be a positive integer")
+});
+
+/**
+ * Schema for commentary cache configuration validation
+ */
+const CommentaryCacheConfigSchema = z.object({
+  policy: z.enum(['reuse', 'reuseIfFresh', 'regenerate']),
+  maxAgeMs: z.number().int().positive("Commentary cache max age must be a positive integer")
+});
+
+/**
+ * Schema for commentary prefetch configuration validation.
+ * Zero plays turns prefetching off.
+ */
+const CommentaryPrefetchConfigSchema = z.object({
+  plays: z.number().int().nonnegative("Commentary prefetch plays must be a non-negative integer"),
+  concurrency: z.number().int().positive("Commentary prefetch concurrency must be a positive integer")
+});
+
+/**
+ * Schema for playback session store configuration validation
+ */
+const PlaybackSessionsConfigSchema = z.object({
+  store: z.enum(['memory', 'database']),
+  maxSessions: z.number().int().positive("Playback session max sessions must be a positive integer")
+});
+
 /**
  * Schema for feature flags configuration validation
  */
@@ -47,6 +84,10 @@ const ConfigSchema = z.object({
   database: DatabaseConfigSchema,
   port: z.number().int().positive("Port must be a positive integer"),
   openai: OpenAIConfigSchema,
+  openaiCompatible: OpenAICompatibleConfigSchema.optional().default({ baseUrl: '', apiKey: '', model: '', headers: {}, timeoutMs: 30000 }),
+  commentaryCache: CommentaryCacheConfigSchema.optional().default({ policy: 'regenerate', maxAgeMs: 604800000 }),
+  commentaryPrefetch: CommentaryPrefetchConfigSchema.optional().default({ plays: 3, concurrency: 2 }),
+  playbackSessions: PlaybackSessionsConfigSchema.optional().default({ store: 'memory', maxSessions: 1000 }),
   featureFlags: FeatureFlagsSchema.optional(),
   logLevel: z.enum(['error', 'warn', 'info', 'debug']).optional().default('info')
 });
@@ -75,4 +75,26 @@ export const DEFAULT_VALUES = {
   OUTS: 0,
   TOP_INNING: true,
   RUNS: 0
-} as const;
\ No newline at end of file
+} as const;
+
+/**
+ * Defaults and limits for playback streams
+ */
+export const STREAM_DEFAULTS = {
+  DELAY_MS: 4000,
+  SPEED: 1,
+  MIN_SPEED: 0.25,
+  MAX_SPEED: 8,
+  HEARTBEAT_MS: 15000
+} as const;
+
+/**
+ * Most tokens a play-by-play call may use at each leverage level; high
+ * leverage calls may use the configured maximum. A color analyst's comment
+ * in the two-voice booth is capped at COLOR.
+ */
+export const COMMENTARY_MAX_TOKENS = {
+  LOW: 80,
+  MEDIUM: 250,
+  COLOR: 150
+} as const;
@@ -90,6 +90,53 @@ export class BaseballMetricsCollector {
     });
   }
   
+  /**
+   * Records a lookup of logged commentary to reuse for a play
+   * @param gameId The game ID
+   * @param policy The commentary cache policy of the lookup
+   * @param hit Whether logged commentary was reused
+   * @param metadata Additional metadata
+   */
+  public recordCommentaryCacheLookup(
+    gameId: string,
+    policy: string,
+    hit: boolean,
+    metadata?: Record<string, any>
+  ): void {
+    metricsCollector.incrementCounter('baseball.commentary_cache_lookups', 1, {
+      game_id: gameId,
+      policy,
+      result: hit ? 'hit' : 'miss'
+    });
+    
+    logger.debug(`Recorded commentary cache ${hit ? 'hit' : 'miss'} (${policy}) for game ${gameId}`, {
+      gameId,
+      policy,
+      hit,
+      metadata
+    });
+  }
+  
+  /**
+   * Records what became of prefetched commentary
+   * @param gameId The game ID
+   * @param result hit if a play's commentary was prefetched when asked for,
+   * miss if it was not, waste if prefetched commentary was discarded unused
+   * @param count The number of plays
+   */
+  public recordCommentaryPrefetch(gameId: string, result: 'hit' | 'miss' | 'waste', count: number = 1): void {
+    metricsCollector.incrementCounter('baseball.commentary_prefetch', count, {
+      game_id: gameId,
+      result
+    });
+    
+    logger.debug(`Recorded commentary prefetch ${result} of ${count} plays for game ${gameId}`, {
+      gameId,
+      result,
+      count
+    });
+  }
+  
   /**
    * Records a lineup change
    * @param gameId The game ID
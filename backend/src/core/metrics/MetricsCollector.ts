@@ -144,6 +144,20 @@ export class MetricsCollector extends EventEmitter {
       tags: ['game_id', 'provider']
     });
     
+    this.registerMetric({
+      name: 'baseball.commentary_cache_lookups',
+      description: 'Lookups of logged commentary to reuse for a play',
+      type: 'counter',
+      tags: ['game_id', 'policy', 'result']
+    });
+    
+    this.registerMetric({
+      name: 'baseball.commentary_prefetch',
+      description: 'Prefetched commentary used (hit), not prefetched when asked for (miss) or discarded unused (waste)',
+      type: 'counter',
+      tags: ['game_id', 'result']
+    });
+    
     this.registerMetric({
       name: 'baseball.substitution_count',
       description: 'Number of player substitutions',
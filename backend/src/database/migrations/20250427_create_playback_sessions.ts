@@ -0,0 +1,23 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('playback_sessions', (table) => {
+    table.bigIncrements('id').primary();
+    table.string('game_id', 100).notNullable();
+    table.string('session_id', 100).notNullable();
+    table.integer('current_play').unsigned().notNullable();
+    table.string('announcer_style', 20).notNullable();
+    table.json('state').notNullable();
+    table.json('log').notNullable();
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+    table.timestamp('updated_at').notNullable().defaultTo(knex.fn.now());
+
+    // One row per playback session
+    table.unique(['game_id', 'session_id'], { indexName: 'uniq_playback_game_session' });
+    table.index('updated_at', 'idx_playback_updated');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('playback_sessions');
+}
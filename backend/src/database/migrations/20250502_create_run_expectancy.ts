@@ -0,0 +1,22 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('run_expectancy', (table) => {
+    table.increments('id').primary();
+    table.integer('start_season').unsigned().notNullable();
+    table.integer('end_season').unsigned().notNullable();
+    table.string('bases', 3).notNullable();
+    table.tinyint('outs').unsigned().notNullable();
+    table.integer('occurrences').unsigned().notNullable();
+    table.integer('runs').unsigned().notNullable();
+    table.decimal('run_expectancy', 6, 4).notNullable();
+    table.timestamp('computed_at').notNullable().defaultTo(knex.fn.now());
+
+    // One row per base-out state of a season range
+    table.unique(['start_season', 'end_season', 'bases', 'outs'], { indexName: 'uniq_run_expectancy_state' });
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('run_expectancy');
+}
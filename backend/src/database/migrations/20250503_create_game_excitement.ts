@@ -0,0 +1,21 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('game_excitement', (table) => {
+    // One row per game of the gameinfo table
+    table.string('gid', 12).primary();
+    table.tinyint('score').unsigned().notNullable();
+    table.tinyint('lead_changes').unsigned().notNullable();
+    table.tinyint('comeback_runs').unsigned().notNullable();
+    table.tinyint('extra_innings').unsigned().notNullable();
+    table.decimal('wp_swing', 6, 4).notNullable();
+    table.tinyint('no_hit_innings').unsigned().notNullable();
+    table.timestamp('computed_at').notNullable().defaultTo(knex.fn.now());
+
+    table.index(['score'], 'idx_game_excitement_score');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('game_excitement');
+}
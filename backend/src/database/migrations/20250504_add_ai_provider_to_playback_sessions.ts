@@ -0,0 +1,14 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('playback_sessions', (table) => {
+    // AI adapter last requested for the session; null for the default adapter
+    table.string('ai_provider', 40).nullable().after('announcer_style');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('playback_sessions', (table) => {
+    table.dropColumn('ai_provider');
+  });
+}
@@ -0,0 +1,24 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('openai_completions_log', (table) => {
+    // Announcer style of the call; null for completions without one
+    table.string('announcer_style', 20).nullable().after('play_index');
+    // SHA-256 of the prompt, so a replayed play can find its earlier call
+    table.string('prompt_hash', 64).nullable().after('prompt');
+
+    // Composite index for commentary cache lookups
+    table.index(
+      ['game_id', 'play_index', 'announcer_style', 'prompt_hash', 'model'],
+      'idx_completions_commentary_cache'
+    );
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('openai_completions_log', (table) => {
+    table.dropIndex([], 'idx_completions_commentary_cache');
+    table.dropColumn('prompt_hash');
+    table.dropColumn('announcer_style');
+  });
+}
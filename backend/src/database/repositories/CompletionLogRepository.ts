@@ -0,0 +1,60 @@
+import { CachedRepository } from './CachedRepository';
+import { CacheManager } from '../../core/caching/CacheManager';
+import { DatabaseError } from '../../types/errors/GameErrors';
+import { db } from '../../config/database';
+import { CommentaryCacheKey, CompletionLogRow, ICompletionLogRepository } from '../../services/interfaces';
+
+/**
+ * Repository for the completions the AI adapters log to openai_completions_log
+ *
+ * This is a THIN data access layer - it only handles SQL queries.
+ * Deciding when a logged completion is reused belongs in CommentaryCacheService.
+ * Lookups are not cached in memory, so a call regenerated a moment ago is
+ * found by the next lookup.
+ */
+export class CompletionLogRepository extends CachedRepository<CompletionLogRow, number> implements ICompletionLogRepository {
+  protected tableName = 'openai_completions_log';
+  protected primaryKey = 'id';
+  protected cacheKeyPrefix = 'completion_log';
+  protected entityCache = new CacheManager<number | string, CompletionLogRow | null>({ ttl: 3600000 }); // 1 hour TTL
+  protected collectionCache = new CacheManager<string, CompletionLogRow[]>({ ttl: 3600000 }); // 1 hour TTL
+
+  /**
+   * Finds the latest completion logged for a play
+   * @param key The play, announcer style, prompt hash and model of the completion
+   * @param loggedSince Only completions logged at or after this time
+   * @returns The completion, or null if none was logged
+   */
+  async findLatestCompletion(key: CommentaryCacheKey, loggedSince?: Date): Promise<CompletionLogRow | null> {
+    try {
+      const query = db(this.tableName)
+        .where({
+          game_id: key.gameId,
+          play_index: key.playIndex,
+          announcer_style: key.announcerStyle,
+          prompt_hash: key.promptHash,
+          model: key.model
+        })
+        .whereNot('content', '');
+
+      if (loggedSince) {
+        query.where('created_at', '>=', loggedSince);
+      }
+
+      const row = await query
+        .select('id', 'content', 'created_at')
+        .orderBy('created_at', 'desc')
+        .orderBy('id', 'desc')
+        .first();
+
+      return row || null;
+    } catch (error) {
+      throw new DatabaseError(
+        `Error finding the logged completion of play ${key.playIndex} of ${key.gameId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
+
+// Export a singleton instance
+export const completionLogRepository = new CompletionLogRepository();
@@ -0,0 +1,136 @@
+import { Knex } from 'knex';
+import { CachedRepository } from './CachedRepository';
+import { CacheManager } from '../../core/caching/CacheManager';
+import { DatabaseError } from '../../types/errors/GameErrors';
+import { db } from '../../config/database';
+import { GameExcitementRow, GameInfoRow, IGameExcitementRepository } from '../../services/interfaces';
+
+/**
+ * Innings played, from the plays of the game
+ */
+const INNINGS_SQL = '(SELECT MAX(plays.inning) FROM plays WHERE plays.gid = gameinfo.gid)';
+
+/**
+ * Repository for the excitement scores of games
+ *
+ * This is a THIN data access layer - it only handles SQL queries.
+ * Scoring a game from its plays belongs in ExcitementService.
+ */
+export class GameExcitementRepository extends CachedRepository<GameExcitementRow, string> implements IGameExcitementRepository {
+  protected tableName = 'game_excitement';
+  protected primaryKey = 'gid';
+  protected cacheKeyPrefix = 'game_excitement';
+  protected entityCache = new CacheManager<string, GameExcitementRow | null>({ ttl: 3600000 }); // 1 hour TTL
+  protected collectionCache = new CacheManager<string, GameExcitementRow[]>({ ttl: 3600000 }); // 1 hour TTL
+
+  /**
+   * Finds the games of a season that have no stored excitement score
+   * @param season The season
+   * @param team Only games of this team, home or away
+   * @returns The game IDs
+   */
+  async findUnscoredGameIds(season: number, team?: string): Promise<string[]> {
+    try {
+      const rows = await this.buildSeasonQuery(season, team)
+        .leftJoin(this.tableName, `${this.tableName}.gid`, 'gameinfo.gid')
+        .whereNull(`${this.tableName}.gid`)
+        .select('gameinfo.gid');
+
+      return rows.map((row: { gid: string }) => String(row.gid));
+    } catch (error) {
+      throw new DatabaseError(
+        `Error finding unscored games of ${season}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Stores the excitement of games, replacing any stored for them
+   * @param rows One row per game
+   */
+  async saveExcitement(rows: GameExcitementRow[]): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+
+    try {
+      await db(this.tableName)
+        .insert(rows.map(row => ({ ...row, computed_at: db.fn.now() })))
+        .onConflict('gid')
+        .merge();
+
+      rows.forEach(row => this.entityCache.set(`${this.cacheKeyPrefix}:${row.gid}`, row));
+    } catch (error) {
+      throw new DatabaseError(
+        `Error saving the excitement of ${rows.length} games: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Finds the scored games of a season with the highest excitement scores
+   * @param season The season
+   * @param team Only games of this team, home or away
+   * @param limit The most games to return
+   * @returns The games, most exciting first
+   */
+  async findMostExciting(
+    season: number,
+    team: string | undefined,
+    limit: number
+  ): Promise<(GameInfoRow & GameExcitementRow)[]> {
+    try {
+      const rows = await this.buildSeasonQuery(season, team)
+        .join(this.tableName, `${this.tableName}.gid`, 'gameinfo.gid')
+        .select(
+          'gameinfo.gid',
+          'gameinfo.date',
+          'gameinfo.number',
+          'gameinfo.season',
+          'gameinfo.site',
+          'gameinfo.hometeam',
+          'gameinfo.visteam',
+          'gameinfo.hruns',
+          'gameinfo.vruns',
+          'gameinfo.attendance',
+          db.raw(`${INNINGS_SQL} as innings`),
+          db.raw('ABS(gameinfo.hruns - gameinfo.vruns) as margin'),
+          `${this.tableName}.score`,
+          `${this.tableName}.lead_changes`,
+          `${this.tableName}.comeback_runs`,
+          `${this.tableName}.extra_innings`,
+          `${this.tableName}.wp_swing`,
+          `${this.tableName}.no_hit_innings`
+        )
+        .orderBy(`${this.tableName}.score`, 'desc')
+        .orderBy('gameinfo.date', 'asc')
+        .limit(limit);
+
+      return rows.map((row: GameInfoRow & GameExcitementRow) => ({
+        ...row,
+        wp_swing: Number(row.wp_swing)
+      }));
+    } catch (error) {
+      throw new DatabaseError(
+        `Error finding the most exciting games of ${season}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Builds the gameinfo query for the games of a season, optionally of one team
+   */
+  private buildSeasonQuery(season: number, team?: string): Knex.QueryBuilder {
+    const query = db('gameinfo').where('gameinfo.season', season);
+
+    if (team) {
+      query.where(builder => builder
+        .where('gameinfo.hometeam', team)
+        .orWhere('gameinfo.visteam', team));
+    }
+    return query;
+  }
+}
+
+// Export a singleton instance
+export const gameExcitementRepository = new GameExcitementRepository();
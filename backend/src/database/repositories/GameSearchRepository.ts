@@ -0,0 +1,156 @@
+import { Knex } from 'knex';
+import { CachedRepository } from './CachedRepository';
+import { CacheManager } from '../../core/caching/CacheManager';
+import { DatabaseError } from '../../types/errors/GameErrors';
+import { db } from '../../config/database';
+import { FilterUtils } from '../../utils/FilterUtils';
+import { SortUtils } from '../../utils/SortUtils';
+import {
+  IGameSearchRepository,
+  GameInfoRow,
+  GameSearchCriteria,
+  GameSearchQuery,
+  GameSortField
+} from '../../services/interfaces';
+
+/**
+ * Innings played, from the plays of the game
+ */
+const INNINGS_SQL = '(SELECT MAX(plays.inning) FROM plays WHERE plays.gid = gameinfo.gid)';
+
+/**
+ * Final score margin, in runs
+ */
+const MARGIN_SQL = 'ABS(gameinfo.hruns - gameinfo.vruns)';
+
+/**
+ * Column or alias to order by for each sort field
+ */
+const SORT_COLUMNS: Record<GameSortField, string> = {
+  date: 'gameinfo.date',
+  margin: 'margin',
+  innings: 'innings',
+  attendance: 'gameinfo.attendance'
+};
+
+/**
+ * Repository for searching games in the gameinfo table
+ *
+ * This is a THIN data access layer - it only handles SQL queries.
+ * Team names and paging metadata are added by GameSearchService.
+ */
+export class GameSearchRepository extends CachedRepository<GameInfoRow, string> implements IGameSearchRepository {
+  protected tableName = 'gameinfo';
+  protected primaryKey = 'gid';
+  protected cacheKeyPrefix = 'gamesearch';
+  protected entityCache = new CacheManager<string, GameInfoRow | null>({ ttl: 3600000 }); // 1 hour TTL
+  protected collectionCache = new CacheManager<string, GameInfoRow[]>({ ttl: 3600000 }); // 1 hour TTL
+
+  /**
+   * Cache for the number of games matching a search
+   */
+  private totalCache = new CacheManager<string, number>({ ttl: 3600000 }); // 1 hour TTL
+
+  /**
+   * Finds the games matching the criteria
+   * @param criteria The filters to apply
+   * @param query How to sort the games, and which page to return
+   * @returns One page of matching games and the total number of matches
+   */
+  async searchGames(
+    criteria: GameSearchCriteria,
+    query: GameSearchQuery
+  ): Promise<{ rows: GameInfoRow[]; total: number }> {
+    const criteriaKey = `${this.cacheKeyPrefix}:${JSON.stringify(criteria)}`;
+    const pageKey = `${criteriaKey}:${query.sort.field}:${query.sort.direction}:${query.limit}:${query.offset}`;
+
+    try {
+      const total = await this.totalCache.getOrCompute(criteriaKey, async () => {
+        const result = await this.buildSearchQuery(criteria)
+          .count({ total: '*' })
+          .first();
+        return result?.total ? Number(result.total) : 0;
+      });
+
+      const rows = await this.collectionCache.getOrCompute(pageKey, async () => {
+        return this.buildSearchQuery(criteria)
+          .select(
+            'gameinfo.gid',
+            'gameinfo.date',
+            'gameinfo.number',
+            'gameinfo.season',
+            'gameinfo.site',
+            'gameinfo.hometeam',
+            'gameinfo.visteam',
+            'gameinfo.hruns',
+            'gameinfo.vruns',
+            'gameinfo.attendance',
+            db.raw(`${INNINGS_SQL} as innings`),
+            db.raw(`${MARGIN_SQL} as margin`)
+          )
+          .orderByRaw(SortUtils.buildSqlOrderByClause({
+            field: SORT_COLUMNS[query.sort.field],
+            direction: query.sort.direction
+          }))
+          .orderBy('gameinfo.gid', query.sort.direction)
+          .limit(query.limit)
+          .offset(query.offset);
+      });
+
+      return { rows, total };
+    } catch (error) {
+      throw new DatabaseError(
+        `Error searching games: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Builds the filtered gameinfo query shared by the count and the page
+   */
+  private buildSearchQuery(criteria: GameSearchCriteria): Knex.QueryBuilder {
+    const query = db(this.tableName);
+
+    // Columns matched as is: the ballpark ID by substring, the season exactly
+    const { whereClauses, params } = FilterUtils.buildSqlWhereClauses(
+      { site: criteria.ballpark, season: criteria.season },
+      this.tableName
+    );
+    whereClauses.forEach((clause, i) => query.whereRaw(clause, [params[i]]));
+
+    if (criteria.startDate) {
+      query.where('gameinfo.date', '>=', criteria.startDate);
+    }
+    if (criteria.endDate) {
+      query.where('gameinfo.date', '<=', criteria.endDate);
+    }
+
+    const team = criteria.team ?? criteria.opponent;
+    const opponent = criteria.team ? criteria.opponent : undefined;
+    if (team && opponent) {
+      query.where(builder => builder
+        .where({ 'gameinfo.hometeam': team, 'gameinfo.visteam': opponent })
+        .orWhere({ 'gameinfo.hometeam': opponent, 'gameinfo.visteam': team }));
+    } else if (team) {
+      query.where(builder => builder
+        .where('gameinfo.hometeam', team)
+        .orWhere('gameinfo.visteam', team));
+    }
+
+    if (criteria.minMargin !== undefined) {
+      query.whereRaw(`${MARGIN_SQL} >= ?`, [criteria.minMargin]);
+    }
+    if (criteria.maxMargin !== undefined) {
+      query.whereRaw(`${MARGIN_SQL} <= ?`, [criteria.maxMargin]);
+    }
+
+    if (criteria.extraInnings !== undefined) {
+      query.whereRaw(`${INNINGS_SQL} ${criteria.extraInnings ? '>' : '<='} 9`);
+    }
+
+    return query;
+  }
+}
+
+// Export a singleton instance
+export const gameSearchRepository = new GameSearchRepository();
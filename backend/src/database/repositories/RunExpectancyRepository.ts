@@ -0,0 +1,127 @@
+import { CachedRepository } from './CachedRepository';
+import { CacheManager } from '../../core/caching/CacheManager';
+import { DatabaseError } from '../../types/errors/GameErrors';
+import { db } from '../../config/database';
+import { BaseOutRunsRow, IRunExpectancyRepository, RunExpectancyRow } from '../../services/interfaces';
+
+/**
+ * Base state code of a play's runners before the play, e.g. "1_3"
+ */
+const BASES_SQL = `CONCAT(
+  IF(COALESCE(br1_pre, '') = '', '_', '1'),
+  IF(COALESCE(br2_pre, '') = '', '_', '2'),
+  IF(COALESCE(br3_pre, '') = '', '_', '3')
+)`;
+
+/**
+ * Repository for run expectancy tables
+ *
+ * This is a THIN data access layer - it only handles SQL queries.
+ * Building the 24 base-out states from the run totals belongs in RunExpectancyService.
+ */
+export class RunExpectancyRepository extends CachedRepository<RunExpectancyRow, string> implements IRunExpectancyRepository {
+  protected tableName = 'run_expectancy';
+  protected primaryKey = 'id';
+  protected cacheKeyPrefix = 'run_expectancy';
+  protected entityCache = new CacheManager<string, RunExpectancyRow | null>({ ttl: 3600000 }); // 1 hour TTL
+  protected collectionCache = new CacheManager<string, RunExpectancyRow[]>({ ttl: 3600000 }); // 1 hour TTL
+
+  /**
+   * Sums the runs scored from every base-out state to the end of the
+   * half-inning, over the complete half-innings of a range of seasons.
+   * Half-innings cut short by a walk-off or the end of the game are left out,
+   * since their runs to the end of the inning are not known.
+   * @param startSeason The first season
+   * @param endSeason The last season
+   * @returns One row per base-out state that occurred
+   */
+  async getBaseOutRuns(startSeason: number, endSeason: number): Promise<BaseOutRunsRow[]> {
+    try {
+      const plays = db('plays')
+        .whereIn('gid', db('gameinfo').select('gid').whereBetween('season', [startSeason, endSeason]))
+        .select(
+          'outs_pre',
+          db.raw(`${BASES_SQL} AS bases`),
+          db.raw('SUM(COALESCE(runs, 0)) OVER (PARTITION BY gid, inning, top_bot ORDER BY pn DESC) AS runs_to_end'),
+          db.raw('MAX(outs_post) OVER (PARTITION BY gid, inning, top_bot) AS final_outs')
+        );
+
+      const rows = await db
+        .from(plays.as('p'))
+        .where('final_outs', 3)
+        .where('outs_pre', '<', 3)
+        .select('bases', 'outs_pre as outs')
+        .count('* as occurrences')
+        .sum('runs_to_end as runs')
+        .groupBy('bases', 'outs_pre');
+
+      return rows.map(row => ({
+        bases: String(row.bases),
+        outs: Number(row.outs),
+        occurrences: Number(row.occurrences),
+        runs: Number(row.runs)
+      }));
+    } catch (error) {
+      throw new DatabaseError(
+        `Error summing runs by base-out state for seasons ${startSeason}-${endSeason}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Gets a stored run expectancy table
+   * @param startSeason The first season
+   * @param endSeason The last season
+   * @returns The table's rows; empty if it has not been computed
+   */
+  async getRunExpectancy(startSeason: number, endSeason: number): Promise<RunExpectancyRow[]> {
+    const cacheKey = `${this.cacheKeyPrefix}:${startSeason}:${endSeason}`;
+
+    try {
+      return await this.collectionCache.getOrCompute(cacheKey, async () => {
+        const rows = await db(this.tableName)
+          .where({ start_season: startSeason, end_season: endSeason })
+          .select('start_season', 'end_season', 'bases', 'outs', 'occurrences', 'runs', 'run_expectancy', 'computed_at')
+          .orderBy('outs')
+          .orderBy('bases');
+
+        return rows.map(row => ({
+          ...row,
+          run_expectancy: Number(row.run_expectancy)
+        }));
+      });
+    } catch (error) {
+      throw new DatabaseError(
+        `Error fetching run expectancy for seasons ${startSeason}-${endSeason}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Stores a run expectancy table, replacing any stored for its seasons
+   * @param rows The rows of one season range
+   */
+  async saveRunExpectancy(rows: RunExpectancyRow[]): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+
+    const { start_season: startSeason, end_season: endSeason } = rows[0];
+
+    try {
+      await db.transaction(async (trx) => {
+        await trx(this.tableName).where({ start_season: startSeason, end_season: endSeason }).delete();
+        await trx(this.tableName).insert(rows);
+      });
+
+      this.collectionCache.set(`${this.cacheKeyPrefix}:${startSeason}:${endSeason}`, rows);
+    } catch (error) {
+      throw new DatabaseError(
+        `Error saving run expectancy for seasons ${startSeason}-${endSeason}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
+
+// Export a singleton instance
+export const runExpectancyRepository = new RunExpectancyRepository();
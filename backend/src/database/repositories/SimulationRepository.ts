@@ -0,0 +1,147 @@
+import { CachedRepository } from './CachedRepository';
+import { CacheManager } from '../../core/caching/CacheManager';
+import { DatabaseError } from '../../types/errors/GameErrors';
+import { db } from '../../config/database';
+import { ISimulationRepository, LatestLineupRow, EventCountRow } from '../../services/interfaces';
+
+/**
+ * Starting lineup and fielder columns of the teamstats table
+ */
+const LINEUP_COLUMNS = [
+  'teamstats.start_l1', 'teamstats.start_l2', 'teamstats.start_l3',
+  'teamstats.start_l4', 'teamstats.start_l5', 'teamstats.start_l6',
+  'teamstats.start_l7', 'teamstats.start_l8', 'teamstats.start_l9',
+  'teamstats.start_f1', 'teamstats.start_f2', 'teamstats.start_f3',
+  'teamstats.start_f4', 'teamstats.start_f5', 'teamstats.start_f6',
+  'teamstats.start_f7', 'teamstats.start_f8', 'teamstats.start_f9'
+];
+
+/**
+ * Game ID pattern matching the games of a season: three letters of home team,
+ * then the year (e.g. "CIN2019%")
+ */
+const seasonGamePattern = (season: number): string => `___${season}%`;
+
+/**
+ * Repository for the data simulated games are drawn from
+ *
+ * This is a THIN data access layer - it only handles SQL queries.
+ * Event classification and the simulation itself belong in SimulationService.
+ */
+export class SimulationRepository extends CachedRepository<LatestLineupRow, string> implements ISimulationRepository {
+  protected tableName = 'teamstats';
+  protected primaryKey = 'gid';
+  protected cacheKeyPrefix = 'simulation';
+  protected entityCache = new CacheManager<string, LatestLineupRow | null>({ ttl: 3600000 }); // 1 hour TTL
+  protected collectionCache = new CacheManager<string, LatestLineupRow[]>({ ttl: 3600000 }); // 1 hour TTL
+
+  /**
+   * Cache for event counts, which only change when a season is loaded
+   */
+  private eventCountCache = new CacheManager<string, EventCountRow[]>({ ttl: 3600000 }); // 1 hour TTL
+
+  /**
+   * Gets a team's starting lineup in its most recent game
+   * @param teamId The team ID
+   * @param season Only consider games of this season; omit for the latest game on record
+   * @returns The lineup, or null if the team has no games
+   */
+  async getLatestLineup(teamId: string, season?: number): Promise<LatestLineupRow | null> {
+    const cacheKey = `${this.cacheKeyPrefix}:lineup:${teamId}:${season ?? 'latest'}`;
+
+    try {
+      return await this.entityCache.getOrCompute(cacheKey, async () => {
+        const query = db(this.tableName)
+          .join('gameinfo', 'teamstats.gid', 'gameinfo.gid')
+          .where('teamstats.team', teamId)
+          .select('teamstats.gid', 'teamstats.team', 'gameinfo.season', ...LINEUP_COLUMNS)
+          .orderBy('gameinfo.date', 'desc')
+          .orderBy('gameinfo.number', 'desc');
+
+        if (season !== undefined) {
+          query.where('gameinfo.season', season);
+        }
+
+        const row = await query.first();
+        return row ? (row as LatestLineupRow) : null;
+      });
+    } catch (error) {
+      throw new DatabaseError(
+        `Error fetching latest lineup for team ${teamId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Counts the events of players' plays in a season
+   * @param role Whether to count the plays the players batted or pitched in
+   * @param playerIds The player IDs
+   * @param season The season
+   * @returns One row per player and event string
+   */
+  async getPlayerEventCounts(
+    role: 'batter' | 'pitcher',
+    playerIds: string[],
+    season: number
+  ): Promise<EventCountRow[]> {
+    if (playerIds.length === 0) {
+      return [];
+    }
+
+    const cacheKey = `${this.cacheKeyPrefix}:events:${role}:${season}:${[...playerIds].sort().join(',')}`;
+
+    try {
+      return await this.eventCountCache.getOrCompute(cacheKey, async () => {
+        const rows = await db('plays')
+          .where('gid', 'like', seasonGamePattern(season))
+          .whereIn(role, playerIds)
+          .whereNotNull('event')
+          .select(`${role} as playerId`, 'event')
+          .count('* as count')
+          .groupBy(role, 'event');
+
+        return rows.map(row => ({
+          playerId: String(row.playerId),
+          event: String(row.event),
+          count: Number(row.count)
+        }));
+      });
+    } catch (error) {
+      throw new DatabaseError(
+        `Error fetching ${role} event counts for season ${season}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Counts the events of every play in a season
+   * @param season The season
+   * @returns One row per event string
+   */
+  async getLeagueEventCounts(season: number): Promise<EventCountRow[]> {
+    const cacheKey = `${this.cacheKeyPrefix}:events:league:${season}`;
+
+    try {
+      return await this.eventCountCache.getOrCompute(cacheKey, async () => {
+        const rows = await db('plays')
+          .where('gid', 'like', seasonGamePattern(season))
+          .whereNotNull('event')
+          .select('event')
+          .count('* as count')
+          .groupBy('event');
+
+        return rows.map(row => ({
+          event: String(row.event),
+          count: Number(row.count)
+        }));
+      });
+    } catch (error) {
+      throw new DatabaseError(
+        `Error fetching league event counts for season ${season}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
+
+// Export a singleton instance
+export const simulationRepository = new SimulationRepository();
@@ -5,4 +5,9 @@ export * from './PlayerRepository';
 export * from './PlayRepository';
 export * from './ScoreRepository';
 export * from './GameRepository';
-export * from './TeamStatsRepository';
\ No newline at end of file
+export * from './TeamStatsRepository';
+export * from './GameSearchRepository';
+export * from './SimulationRepository';
+export * from './RunExpectancyRepository';
+export * from './GameExcitementRepository';
+export * from './CompletionLogRepository';
@@ -0,0 +1,86 @@
+import request from 'supertest';
+import express from 'express';
+import { AnalyticsRouter } from '../analytics';
+import { errorMiddleware } from '../../core/errors/ErrorMiddleware';
+import { NotFoundError } from '../../core/errors';
+
+// Mock RunExpectancyService — the route only parses the season and delegates
+const mockGetRunExpectancy = jest.fn();
+jest.mock('../../services/game/analytics', () => ({
+  RunExpectancyService: {
+    getRunExpectancy: (...args: any[]) => mockGetRunExpectancy(...args),
+  }
+}));
+
+// Suppress noisy logs during tests
+beforeAll(() => { jest.spyOn(console, 'log').mockImplementation(() => {}); });
+afterAll(() => { jest.restoreAllMocks(); });
+
+describe('Analytics API Integration Tests', () => {
+  let app: express.Application;
+
+  const matrix = {
+    startSeason: 2019,
+    endSeason: 2019,
+    states: [{ bases: '___', outs: 0, runExpectancy: 0.5439, occurrences: 46012 }],
+    computedAt: '2025-05-02T18:20:11.000Z'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    app = express();
+    app.use(express.json());
+    app.use('/api/analytics', AnalyticsRouter);
+    app.use(errorMiddleware);
+    mockGetRunExpectancy.mockResolvedValue(matrix);
+  });
+
+  describe('GET /api/analytics/run-expectancy', () => {
+    it('should return the table of a season', async () => {
+      const response = await request(app)
+        .get('/api/analytics/run-expectancy?season=2019')
+        .expect(200);
+
+      expect(mockGetRunExpectancy).toHaveBeenCalledWith(2019, 2019);
+      expect(response.body).toEqual(matrix);
+    });
+
+    it('should return the table of a range of seasons', async () => {
+      await request(app)
+        .get('/api/analytics/run-expectancy?season=2010-2019')
+        .expect(200);
+
+      expect(mockGetRunExpectancy).toHaveBeenCalledWith(2010, 2019);
+    });
+
+    it('should return 400 without a season', async () => {
+      await request(app)
+        .get('/api/analytics/run-expectancy')
+        .expect(400);
+
+      expect(mockGetRunExpectancy).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid season', async () => {
+      await request(app)
+        .get('/api/analytics/run-expectancy?season=19')
+        .expect(400);
+    });
+
+    it('should return 400 for a range that ends before it starts', async () => {
+      await request(app)
+        .get('/api/analytics/run-expectancy?season=2019-2010')
+        .expect(400);
+    });
+
+    it('should return 404 when there are no plays in the season', async () => {
+      mockGetRunExpectancy.mockRejectedValue(new NotFoundError('No plays found for season 1850'));
+
+      const response = await request(app)
+        .get('/api/analytics/run-expectancy?season=1850')
+        .expect(404);
+
+      expect(response.body).toHaveProperty('status', 'error');
+    });
+  });
+});
@@ -3,6 +3,7 @@ import express from 'express';
 import { GameRouter } from '../game';
 import { CreateGameRequest } from '../../../../common/types/ApiTypes';
 import { errorMiddleware } from '../../core/errors/ErrorMiddleware';
+import { NotFoundError, BadRequestError } from '../../core/errors';
 
 // =============================================================================
 // Mock database to prevent knex initialization errors
@@ -96,9 +97,63 @@ jest.mock('../../database/repositories/TeamStatsRepository', () => ({
 
 // Mock GamePlaybackService — the main dependency for the nextPlay route
 const mockGetNextPlay = jest.fn();
+const mockGetCurrentGameState = jest.fn();
+const mockSeek = jest.fn();
+const mockGetPreviousPlay = jest.fn();
 jest.mock('../../services/game/playback', () => ({
   GamePlaybackService: {
     getNextPlay: (...args: any[]) => mockGetNextPlay(...args),
+    getCurrentGameState: (...args: any[]) => mockGetCurrentGameState(...args),
+    seek: (...args: any[]) => mockSeek(...args),
+    getPreviousPlay: (...args: any[]) => mockGetPreviousPlay(...args),
+  }
+}));
+
+// Mock PlaybackStreamService — the stream routes only translate HTTP to its calls
+const mockStartStream = jest.fn();
+const mockControlStream = jest.fn();
+const mockStopStream = jest.fn();
+jest.mock('../../services/game/stream', () => ({
+  PlaybackStreamService: {
+    startStream: (...args: any[]) => mockStartStream(...args),
+    controlStream: (...args: any[]) => mockControlStream(...args),
+    stopStream: (...args: any[]) => mockStopStream(...args),
+  }
+}));
+
+// Mock GameTranscriptService — the transcript route only renders and attaches its output
+const mockGenerateTranscript = jest.fn();
+const mockRenderTranscript = jest.fn();
+jest.mock('../../services/game/transcript', () => ({
+  GameTranscriptService: {
+    generateTranscript: (...args: any[]) => mockGenerateTranscript(...args),
+    render: (...args: any[]) => mockRenderTranscript(...args),
+  }
+}));
+
+// Mock BoxScoreService
+const mockGetBoxScore = jest.fn();
+jest.mock('../../services/game/boxScore', () => ({
+  BoxScoreService: {
+    getBoxScore: (...args: any[]) => mockGetBoxScore(...args),
+  }
+}));
+
+// Mock WinProbabilityService
+const mockGetWinProbability = jest.fn();
+jest.mock('../../services/game/analytics', () => ({
+  WinProbabilityService: {
+    getWinProbability: (...args: any[]) => mockGetWinProbability(...args),
+  }
+}));
+
+// Mock SimulationService — createGame and fork only ask it for simulated games
+const mockCreateSimulation = jest.fn();
+const mockForkGame = jest.fn();
+jest.mock('../../services/game/simulation', () => ({
+  SimulationService: {
+    createSimulation: (...args: any[]) => mockCreateSimulation(...args),
+    forkGame: (...args: any[]) => mockForkGame(...args),
   }
 }));
 
@@ -199,6 +254,64 @@ describe('Game Routes Integration Tests', () => {
       expect(response.body.gameState.visitors.id).toBe('AWAY_TEAM');
     });
 
+    it('should start a session for a picked game with the chosen announcer style', async () => {
+      const requestBody: CreateGameRequest = {
+        homeTeamId: 'HOME_TEAM',
+        visitingTeamId: 'AWAY_TEAM',
+        gameId: 'TEST_GAME_001',
+        announcerStyle: 'poetic'
+      };
+
+      const response = await request(app)
+        .post('/api/game/createGame')
+        .send(requestBody)
+        .expect(200);
+
+      expect(response.body.gameId).toBe('TEST_GAME_001');
+      expect(response.body.gameState.gameId).toBe('TEST_GAME_001');
+      expect(response.body.announcerStyle).toBe('poetic');
+      expect(response.body.sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it('should default to the classic announcer style', async () => {
+      const response = await request(app)
+        .post('/api/game/createGame')
+        .send({ homeTeamId: 'HOME_TEAM', visitingTeamId: 'AWAY_TEAM' })
+        .expect(200);
+
+      expect(response.body.announcerStyle).toBe('classic');
+    });
+
+    it('should simulate a game between the two teams', async () => {
+      mockCreateSimulation.mockResolvedValue({ gameId: 'SIM-1234' });
+
+      const response = await request(app)
+        .post('/api/game/createGame')
+        .send({ homeTeamId: 'CIN', visitingTeamId: 'NYA', gameType: 'simulation', season: 2019, seed: 42 })
+        .expect(200);
+
+      expect(mockCreateSimulation).toHaveBeenCalledWith('CIN', 'NYA', { season: 2019, seed: 42 });
+      expect(response.body.gameId).toBe('SIM-1234');
+      expect(response.body.gameState.gameType).toBe('simulation');
+    });
+
+    it('should return 400 when a simulation is given a game ID', async () => {
+      const response = await request(app)
+        .post('/api/game/createGame')
+        .send({ homeTeamId: 'CIN', visitingTeamId: 'NYA', gameType: 'simulation', gameId: 'CIN201904150' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('status', 'error');
+      expect(mockCreateSimulation).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when a replay is given a seed', async () => {
+      await request(app)
+        .post('/api/game/createGame')
+        .send({ homeTeamId: 'CIN', visitingTeamId: 'NYA', seed: 42 })
+        .expect(400);
+    });
+
     it('should return 400 when missing required fields', async () => {
       const response = await request(app)
         .post('/api/game/createGame')
@@ -298,6 +411,62 @@ describe('Game Routes Integration Tests', () => {
       );
     });
 
+    it('should pass the playback mode and highlight criteria to the service', async () => {
+      await request(app)
+        .get('/api/game/next/TEST_GAME_001?currentPlay=1&mode=highlights&criteria=homeRun,finalOut')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(200);
+
+      expect(mockGetNextPlay).toHaveBeenCalledWith(
+        'TEST_GAME_001',
+        VALID_SESSION_ID,
+        1,
+        expect.objectContaining({ mode: 'highlights', highlightCriteria: ['homeRun', 'finalOut'] })
+      );
+    });
+
+    it('should pass the AI provider to the service', async () => {
+      await request(app)
+        .get('/api/game/next/TEST_GAME_001?currentPlay=1&aiProvider=openai-compatible')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(200);
+
+      expect(mockGetNextPlay).toHaveBeenCalledWith(
+        'TEST_GAME_001',
+        VALID_SESSION_ID,
+        1,
+        expect.objectContaining({ aiProvider: 'openai-compatible' })
+      );
+    });
+
+    it('should pass the commentary cache policy to the service', async () => {
+      await request(app)
+        .get('/api/game/next/TEST_GAME_001?currentPlay=1&commentaryCache=regenerate')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(200);
+
+      expect(mockGetNextPlay).toHaveBeenCalledWith(
+        'TEST_GAME_001',
+        VALID_SESSION_ID,
+        1,
+        expect.objectContaining({ commentaryCache: 'regenerate' })
+      );
+    });
+
+    it('should pass the two-voice booth to the service', async () => {
+      await request(app)
+        .get('/api/game/next/TEST_GAME_001?currentPlay=1&booth=true')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(200);
+
+      expect(mockGetNextPlay).toHaveBeenCalledWith(
+        'TEST_GAME_001',
+        VALID_SESSION_ID,
+        1,
+        expect.objectContaining({ booth: true })
+      );
+    });
+
     it('should use default announcerStyle when not specified', async () => {
       await request(app)
         .get('/api/game/next/TEST_GAME_001?currentPlay=1')
@@ -341,6 +510,15 @@ describe('Game Routes Integration Tests', () => {
       expect(response.body).toHaveProperty('status', 'error');
     });
 
+    it('should return 400 for an unknown highlight criterion', async () => {
+      const response = await request(app)
+        .get('/api/game/next/TEST_GAME_001?currentPlay=1&mode=condensed&criteria=homeRun,bunt')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(400);
+
+      expect(response.body).toHaveProperty('status', 'error');
+    });
+
     it('should return 400 when session-id header is missing', async () => {
       const response = await request(app)
         .get('/api/game/next/TEST_GAME_001?currentPlay=1')
@@ -367,6 +545,24 @@ describe('Game Routes Integration Tests', () => {
       expect(response.body).toHaveProperty('status', 'error');
     });
 
+    it('should return 400 for an unknown AI provider', async () => {
+      const response = await request(app)
+        .get('/api/game/next/TEST_GAME_001?currentPlay=1&aiProvider=unknown')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(400);
+
+      expect(response.body).toHaveProperty('status', 'error');
+    });
+
+    it('should return 400 for an unknown commentary cache policy', async () => {
+      const response = await request(app)
+        .get('/api/game/next/TEST_GAME_001?currentPlay=1&commentaryCache=sometimes')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(400);
+
+      expect(response.body).toHaveProperty('status', 'error');
+    });
+
     // ----- Error handling -----
 
     it('should return 500 when service throws an error', async () => {
@@ -390,4 +586,490 @@ describe('Game Routes Integration Tests', () => {
       expect(mockGetNextPlay).not.toHaveBeenCalled();
     });
   });
+
+  describe('GET /api/game/session/:gameId/:sessionId', () => {
+    it('should return the stored session', async () => {
+      mockGetCurrentGameState.mockResolvedValue({
+        gameId: 'TEST_GAME_001',
+        sessionId: VALID_SESSION_ID,
+        currentPlayIndex: 12,
+        baseballState: mockNextPlayResponse({ currentPlay: 12 }),
+        announcerStyle: 'modern',
+        log: ['Welcome to the game!', 'Play description here'],
+        updatedAt: new Date('2025-04-27T18:00:00Z')
+      });
+
+      const response = await request(app)
+        .get(`/api/game/session/TEST_GAME_001/${VALID_SESSION_ID}`)
+        .expect('Content-Type', /json/)
+        .expect(200);
+
+      expect(mockGetCurrentGameState).toHaveBeenCalledWith('TEST_GAME_001', VALID_SESSION_ID);
+      expect(response.body).toHaveProperty('currentPlayIndex', 12);
+      expect(response.body).toHaveProperty('announcerStyle', 'modern');
+      expect(response.body.log).toHaveLength(2);
+      expect(response.body.baseballState).toHaveProperty('currentPlay', 12);
+    });
+
+    it('should return 404 when the session does not exist', async () => {
+      mockGetCurrentGameState.mockRejectedValue(new NotFoundError('No playback session found'));
+
+      const response = await request(app)
+        .get(`/api/game/session/TEST_GAME_001/${VALID_SESSION_ID}`)
+        .expect(404);
+
+      expect(response.body).toHaveProperty('status', 'error');
+    });
+
+    it('should return 400 when sessionId is not a valid UUID', async () => {
+      const response = await request(app)
+        .get('/api/game/session/TEST_GAME_001/not-a-uuid')
+        .expect(400);
+
+      expect(response.body).toHaveProperty('status', 'error');
+      expect(mockGetCurrentGameState).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/game/seek/:gameId', () => {
+    beforeEach(() => {
+      mockSeek.mockResolvedValue(mockNextPlayResponse({ currentPlay: 57 }));
+    });
+
+    it('should seek to a play index', async () => {
+      const response = await request(app)
+        .get('/api/game/seek/TEST_GAME_001?playIndex=57')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(200);
+
+      expect(mockSeek).toHaveBeenCalledWith(
+        'TEST_GAME_001',
+        VALID_SESSION_ID,
+        { playIndex: 57, inning: undefined, half: undefined },
+        expect.objectContaining({ announcerStyle: expect.any(String) })
+      );
+      expect(response.body).toHaveProperty('currentPlay', 57);
+    });
+
+    it('should seek to a half-inning', async () => {
+      await request(app)
+        .get('/api/game/seek/TEST_GAME_001?inning=7&half=bottom&announcerStyle=poetic')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(200);
+
+      expect(mockSeek).toHaveBeenCalledWith(
+        'TEST_GAME_001',
+        VALID_SESSION_ID,
+        { playIndex: undefined, inning: 7, half: 'bottom' },
+        { announcerStyle: 'poetic' }
+      );
+    });
+
+    it('should return 400 when neither playIndex nor inning is given', async () => {
+      await request(app)
+        .get('/api/game/seek/TEST_GAME_001')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(400);
+
+      expect(mockSeek).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when both playIndex and inning are given', async () => {
+      await request(app)
+        .get('/api/game/seek/TEST_GAME_001?playIndex=3&inning=7')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(400);
+    });
+
+    it('should return 400 when half is given without inning', async () => {
+      await request(app)
+        .get('/api/game/seek/TEST_GAME_001?playIndex=3&half=top')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(400);
+    });
+
+    it('should return 400 when half is invalid', async () => {
+      await request(app)
+        .get('/api/game/seek/TEST_GAME_001?inning=7&half=middle')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(400);
+    });
+
+    it('should return 404 when the target does not exist', async () => {
+      mockSeek.mockRejectedValue(new NotFoundError('No play found'));
+
+      const response = await request(app)
+        .get('/api/game/seek/TEST_GAME_001?inning=12')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(404);
+
+      expect(response.body).toHaveProperty('status', 'error');
+    });
+  });
+
+  describe('POST /api/game/fork/:gameId', () => {
+    const fork = {
+      parentGameId: 'TEST_GAME_001',
+      parentSessionId: VALID_SESSION_ID,
+      forkedAtPlay: 42,
+      originalEvent: 'K',
+      alteredEvent: 'HR/F8'
+    };
+
+    beforeEach(() => {
+      mockGetCurrentGameState.mockResolvedValue({ gameId: 'TEST_GAME_001', sessionId: VALID_SESSION_ID });
+      mockForkGame.mockResolvedValue({ gameId: 'SIM-FORK', fork });
+      mockSeek.mockResolvedValue(mockNextPlayResponse({ gameId: 'SIM-FORK', currentPlay: 42 }));
+    });
+
+    it('should fork the game into a new session before the altered play', async () => {
+      const response = await request(app)
+        .post('/api/game/fork/TEST_GAME_001')
+        .set('session-id', VALID_SESSION_ID)
+        .send({ playIndex: 42, event: 'HR/F8', seed: 7 })
+        .expect(200);
+
+      expect(mockForkGame).toHaveBeenCalledWith('TEST_GAME_001', VALID_SESSION_ID, 42, 'HR/F8', { seed: 7 });
+      expect(response.body.gameId).toBe('SIM-FORK');
+      expect(response.body.sessionId).not.toBe(VALID_SESSION_ID);
+      expect(response.body.fork).toEqual(fork);
+      expect(response.body.gameState).toHaveProperty('currentPlay', 42);
+      expect(mockSeek).toHaveBeenCalledWith(
+        'SIM-FORK',
+        response.body.sessionId,
+        { playIndex: 42 },
+        expect.objectContaining({ announcerStyle: expect.any(String) })
+      );
+    });
+
+    it('should return 404 when the session does not exist', async () => {
+      mockGetCurrentGameState.mockRejectedValue(new NotFoundError('No playback session'));
+
+      await request(app)
+        .post('/api/game/fork/TEST_GAME_001')
+        .set('session-id', VALID_SESSION_ID)
+        .send({ playIndex: 42, event: 'HR/F8' })
+        .expect(404);
+
+      expect(mockForkGame).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 without an event', async () => {
+      await request(app)
+        .post('/api/game/fork/TEST_GAME_001')
+        .set('session-id', VALID_SESSION_ID)
+        .send({ playIndex: 42 })
+        .expect(400);
+
+      expect(mockForkGame).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when the play index is not positive', async () => {
+      await request(app)
+        .post('/api/game/fork/TEST_GAME_001')
+        .set('session-id', VALID_SESSION_ID)
+        .send({ playIndex: 0, event: 'HR/F8' })
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/game/prev/:gameId', () => {
+    beforeEach(() => {
+      mockGetPreviousPlay.mockResolvedValue(mockNextPlayResponse({ currentPlay: 42 }));
+    });
+
+    it('should step back to the previous play', async () => {
+      const response = await request(app)
+        .get('/api/game/prev/TEST_GAME_001?currentPlay=43&announcerStyle=modern')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(200);
+
+      expect(mockGetPreviousPlay).toHaveBeenCalledWith(
+        'TEST_GAME_001',
+        VALID_SESSION_ID,
+        43,
+        { announcerStyle: 'modern' }
+      );
+      expect(response.body).toHaveProperty('currentPlay', 42);
+    });
+
+    it('should return 400 when currentPlay is missing or not positive', async () => {
+      await request(app)
+        .get('/api/game/prev/TEST_GAME_001')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(400);
+
+      await request(app)
+        .get('/api/game/prev/TEST_GAME_001?currentPlay=0')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(400);
+
+      expect(mockGetPreviousPlay).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 at the start of the game', async () => {
+      mockGetPreviousPlay.mockRejectedValue(new BadRequestError('There is no previous play'));
+
+      const response = await request(app)
+        .get('/api/game/prev/TEST_GAME_001?currentPlay=1')
+        .set('session-id', VALID_SESSION_ID)
+        .expect(400);
+
+      expect(response.body).toHaveProperty('message', 'There is no previous play');
+    });
+  });
+
+  describe('GET /api/game/stream/:gameId', () => {
+    beforeEach(() => {
+      // Push one play and finish, so that the response ends
+      mockStartStream.mockImplementation((gameId, sessionId, options, sink) => {
+        sink.send('play', mockNextPlayResponse());
+        sink.send('end', { gameId, currentPlay: 1 });
+        sink.close();
+      });
+    });
+
+    it('should stream plays as server-sent events', async () => {
+      const response = await request(app)
+        .get(`/api/game/stream/TEST_GAME_001?sessionId=${VALID_SESSION_ID}&currentPlay=5&pacing=ack&speed=2`)
+        .expect('Content-Type', /text\/event-stream/)
+        .expect(200);
+
+      expect(mockStartStream).toHaveBeenCalledWith(
+        'TEST_GAME_001',
+        VALID_SESSION_ID,
+        {
+          pacing: 'ack',
+          delayMs: 4000,
+          speed: 2,
+          startPlay: 5,
+          skipLLM: false,
+          announcerStyle: 'classic',
+          booth: false
+        },
+        expect.any(Object)
+      );
+      expect(response.text).toContain('event: play\ndata: {');
+      expect(response.text).toContain('event: end\ndata: {"gameId":"TEST_GAME_001","currentPlay":1}');
+    });
+
+    it('should resume from the session when currentPlay is omitted', async () => {
+      mockGetCurrentGameState.mockResolvedValue({ currentPlayIndex: 17 });
+
+      await request(app)
+        .get(`/api/game/stream/TEST_GAME_001?sessionId=${VALID_SESSION_ID}`)
+        .expect(200);
+
+      expect(mockStartStream.mock.calls[0][2]).toMatchObject({ pacing: 'fixed', startPlay: 17 });
+    });
+
+    it('should start from the beginning for a new session', async () => {
+      mockGetCurrentGameState.mockRejectedValue(new NotFoundError('No playback session'));
+
+      await request(app)
+        .get(`/api/game/stream/TEST_GAME_001?sessionId=${VALID_SESSION_ID}`)
+        .expect(200);
+
+      expect(mockStartStream.mock.calls[0][2]).toMatchObject({ startPlay: 0 });
+    });
+
+    it('should return 400 for an invalid session ID or speed', async () => {
+      await request(app)
+        .get('/api/game/stream/TEST_GAME_001?sessionId=not-a-uuid')
+        .expect(400);
+
+      await request(app)
+        .get(`/api/game/stream/TEST_GAME_001?sessionId=${VALID_SESSION_ID}&speed=20`)
+        .expect(400);
+
+      expect(mockStartStream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/game/stream/:gameId/control', () => {
+    it('should apply a control command to the running stream', async () => {
+      const status = {
+        gameId: 'TEST_GAME_001',
+        sessionId: VALID_SESSION_ID,
+        currentPlay: 12,
+        pacing: 'fixed',
+        delayMs: 4000,
+        speed: 2,
+        paused: false
+      };
+      mockControlStream.mockReturnValue(status);
+
+      const response = await request(app)
+        .post('/api/game/stream/TEST_GAME_001/control')
+        .set('session-id', VALID_SESSION_ID)
+        .send({ action: 'speed', speed: 2 })
+        .expect(200);
+
+      expect(mockControlStream).toHaveBeenCalledWith(
+        'TEST_GAME_001',
+        VALID_SESSION_ID,
+        { action: 'speed', speed: 2 }
+      );
+      expect(response.body).toEqual(status);
+    });
+
+    it('should return 400 for an unknown action', async () => {
+      await request(app)
+        .post('/api/game/stream/TEST_GAME_001/control')
+        .set('session-id', VALID_SESSION_ID)
+        .send({ action: 'rewind' })
+        .expect(400);
+
+      expect(mockControlStream).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when no stream is running', async () => {
+      mockControlStream.mockImplementation(() => {
+        throw new NotFoundError('No playback stream running');
+      });
+
+      await request(app)
+        .post('/api/game/stream/TEST_GAME_001/control')
+        .set('session-id', VALID_SESSION_ID)
+        .send({ action: 'pause' })
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/game/transcript/:gameId', () => {
+    const transcript = { gameId: 'TEST_GAME_001', halfInnings: [] };
+
+    beforeEach(() => {
+      mockGenerateTranscript.mockResolvedValue(transcript);
+      mockRenderTranscript.mockReturnValue('# Away Team at Home Team');
+    });
+
+    it('should return a Markdown attachment by default', async () => {
+      const response = await request(app)
+        .get('/api/game/transcript/TEST_GAME_001')
+        .expect(200);
+
+      expect(mockGenerateTranscript).toHaveBeenCalledWith('TEST_GAME_001', {
+        skipLLM: false,
+        announcerStyle: 'classic'
+      }, undefined);
+      expect(mockRenderTranscript).toHaveBeenCalledWith(transcript, 'md');
+      expect(response.headers['content-type']).toContain('text/markdown');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="TEST_GAME_001-transcript.md"');
+      expect(response.text).toBe('# Away Team at Home Team');
+    });
+
+    it('should pass the format and commentary options through', async () => {
+      mockRenderTranscript.mockReturnValue('<!DOCTYPE html>');
+
+      const response = await request(app)
+        .get('/api/game/transcript/TEST_GAME_001?format=html&skipLLM=true&announcerStyle=poetic')
+        .expect(200);
+
+      expect(mockGenerateTranscript).toHaveBeenCalledWith('TEST_GAME_001', {
+        skipLLM: true,
+        announcerStyle: 'poetic'
+      }, undefined);
+      expect(mockRenderTranscript).toHaveBeenCalledWith(transcript, 'html');
+      expect(response.headers['content-type']).toContain('text/html');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="TEST_GAME_001-transcript.html"');
+    });
+
+    it('should return 400 for an unknown format', async () => {
+      await request(app)
+        .get('/api/game/transcript/TEST_GAME_001?format=pdf')
+        .expect(400);
+
+      expect(mockGenerateTranscript).not.toHaveBeenCalled();
+    });
+
+    it('should stop the transcript before upToPlay', async () => {
+      await request(app)
+        .get('/api/game/transcript/TEST_GAME_001?upToPlay=42&spoilerFree=true')
+        .expect(200);
+
+      expect(mockGenerateTranscript).toHaveBeenCalledWith('TEST_GAME_001', {
+        skipLLM: false,
+        announcerStyle: 'classic'
+      }, 42);
+    });
+
+    it('should return 400 for a spoiler-free transcript of the whole game', async () => {
+      await request(app)
+        .get('/api/game/transcript/TEST_GAME_001?spoilerFree=true')
+        .expect(400);
+
+      expect(mockGenerateTranscript).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/game/boxscore/:gameId', () => {
+    const boxScore = { gameId: 'TEST_GAME_001', upToPlay: 42, plays: 41, home: {}, visitors: {} };
+
+    it('should return the box score up to the given play', async () => {
+      mockGetBoxScore.mockResolvedValue(boxScore);
+
+      const response = await request(app)
+        .get('/api/game/boxscore/TEST_GAME_001?upToPlay=42')
+        .expect(200);
+
+      expect(mockGetBoxScore).toHaveBeenCalledWith('TEST_GAME_001', 42);
+      expect(response.body).toEqual(boxScore);
+    });
+
+    it('should count the whole game without upToPlay', async () => {
+      mockGetBoxScore.mockResolvedValue({ ...boxScore, upToPlay: null });
+
+      await request(app)
+        .get('/api/game/boxscore/TEST_GAME_001')
+        .expect(200);
+
+      expect(mockGetBoxScore).toHaveBeenCalledWith('TEST_GAME_001', undefined);
+    });
+
+    it('should return 400 for a negative upToPlay', async () => {
+      await request(app)
+        .get('/api/game/boxscore/TEST_GAME_001?upToPlay=-1')
+        .expect(400);
+
+      expect(mockGetBoxScore).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a spoiler-free box score of the whole game', async () => {
+      await request(app)
+        .get('/api/game/boxscore/TEST_GAME_001?spoilerFree=true')
+        .expect(400);
+
+      expect(mockGetBoxScore).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/game/winprob/:gameId', () => {
+    const series = {
+      gameId: 'TEST_GAME_001',
+      season: 2019,
+      points: [
+        { playIndex: 1, inning: 1, isTopInning: true, event: 'K', homeWinProbabilityBefore: 0.5, homeWinProbability: 0.51, wpa: -0.01, leverageIndex: 0.86 }
+      ]
+    };
+
+    it('should return the win probability series of the game', async () => {
+      mockGetWinProbability.mockResolvedValue(series);
+
+      const response = await request(app)
+        .get('/api/game/winprob/TEST_GAME_001')
+        .expect(200);
+
+      expect(mockGetWinProbability).toHaveBeenCalledWith('TEST_GAME_001');
+      expect(response.body).toEqual(series);
+    });
+
+    it('should return 404 for a game without plays', async () => {
+      mockGetWinProbability.mockRejectedValue(new NotFoundError('No plays found for game TEST_GAME_001'));
+
+      await request(app)
+        .get('/api/game/winprob/TEST_GAME_001')
+        .expect(404);
+    });
+  });
 });
@@ -0,0 +1,158 @@
+import request from 'supertest';
+import express from 'express';
+import { GamesRouter } from '../games';
+import { errorMiddleware } from '../../core/errors/ErrorMiddleware';
+
+// Mock GameSearchService — the route only parses the query and delegates
+const mockSearchGames = jest.fn();
+const mockGetRecommendedGames = jest.fn();
+jest.mock('../../services/game/search', () => ({
+  GameSearchService: {
+    searchGames: (...args: any[]) => mockSearchGames(...args),
+    getRecommendedGames: (...args: any[]) => mockGetRecommendedGames(...args),
+  }
+}));
+
+// Suppress noisy logs during tests
+beforeAll(() => { jest.spyOn(console, 'log').mockImplementation(() => {}); });
+afterAll(() => { jest.restoreAllMocks(); });
+
+describe('Games API Integration Tests', () => {
+  let app: express.Application;
+
+  const page = {
+    data: [],
+    pagination: { total: 0, page: 1, limit: 10, totalPages: 0, hasNext: false, hasPrev: false }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    app = express();
+    app.use(express.json());
+    app.use('/api/games', GamesRouter);
+    app.use(errorMiddleware);
+    mockSearchGames.mockResolvedValue(page);
+    mockGetRecommendedGames.mockResolvedValue({ data: [] });
+  });
+
+  describe('GET /api/games', () => {
+    it('should search with the given filters, sort order and page', async () => {
+      const response = await request(app)
+        .get('/api/games')
+        .query({
+          startDate: '2019-04-01',
+          endDate: '2019-09-30',
+          team: 'CIN',
+          opponent: 'PIT',
+          ballpark: 'CIN09',
+          season: '2019',
+          minMargin: '1',
+          maxMargin: '3',
+          extraInnings: 'true',
+          page: '2',
+          limit: '25',
+          sort: 'margin',
+          direction: 'desc'
+        })
+        .expect(200);
+
+      expect(mockSearchGames).toHaveBeenCalledWith(
+        {
+          startDate: '2019-04-01',
+          endDate: '2019-09-30',
+          team: 'CIN',
+          opponent: 'PIT',
+          ballpark: 'CIN09',
+          season: 2019,
+          minMargin: 1,
+          maxMargin: 3,
+          extraInnings: true
+        },
+        { page: 2, limit: 25, sort: 'margin', direction: 'desc', spoilerFree: false }
+      );
+      expect(response.body).toEqual(page);
+    });
+
+    it('should list every game without filters', async () => {
+      await request(app)
+        .get('/api/games')
+        .expect(200);
+
+      expect(mockSearchGames).toHaveBeenCalledWith(
+        {},
+        { page: undefined, limit: undefined, sort: undefined, direction: undefined, spoilerFree: false }
+      );
+    });
+
+    it('should return 400 for an invalid date', async () => {
+      await request(app)
+        .get('/api/games?startDate=04/15/2019')
+        .expect(400);
+
+      expect(mockSearchGames).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a date range that ends before it starts', async () => {
+      await request(app)
+        .get('/api/games?startDate=2019-09-30&endDate=2019-04-01')
+        .expect(400);
+    });
+
+    it('should return 400 for an unknown sort field', async () => {
+      await request(app)
+        .get('/api/games?sort=gid')
+        .expect(400);
+    });
+
+    it('should return 400 for a page size over 100', async () => {
+      await request(app)
+        .get('/api/games?limit=500')
+        .expect(400);
+    });
+
+    it('should search spoiler-free', async () => {
+      await request(app)
+        .get('/api/games?team=CIN&spoilerFree=true')
+        .expect(200);
+
+      expect(mockSearchGames).toHaveBeenCalledWith({ team: 'CIN' }, expect.objectContaining({ spoilerFree: true }));
+    });
+
+    it('should return 400 for margin filters and sorts in a spoiler-free search', async () => {
+      await request(app)
+        .get('/api/games?spoilerFree=true&minMargin=1')
+        .expect(400);
+      await request(app)
+        .get('/api/games?spoilerFree=true&sort=innings')
+        .expect(400);
+
+      expect(mockSearchGames).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/games/recommended', () => {
+    it('should recommend games of the season and team', async () => {
+      const response = await request(app)
+        .get('/api/games/recommended?team=CIN&season=2019&limit=5')
+        .expect(200);
+
+      expect(mockGetRecommendedGames).toHaveBeenCalledWith({ season: 2019, team: 'CIN', limit: 5, spoilerFree: false });
+      expect(mockSearchGames).not.toHaveBeenCalled();
+      expect(response.body).toEqual({ data: [] });
+    });
+
+    it('should return 400 without a season', async () => {
+      await request(app)
+        .get('/api/games/recommended?team=CIN')
+        .expect(400);
+
+      expect(mockGetRecommendedGames).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for more than 50 games', async () => {
+      await request(app)
+        .get('/api/games/recommended?season=2019&limit=51')
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import request from 'supertest';
+import { WebSocket, WebSocketServer } from 'ws';
+import { PartyRouter, attachWatchPartySocket } from '../party';
+import { errorMiddleware } from '../../core/errors/ErrorMiddleware';
+import { PartyServerMessage } from '../../services/interfaces';
+
+// Mock GamePlaybackService — the party service only needs getNextPlay and seek
+const mockGetNextPlay = jest.fn();
+const mockSeek = jest.fn();
+jest.mock('../../services/game/playback/GamePlaybackService', () => ({
+  GamePlaybackService: {
+    forGame: () => ({
+      getNextPlay: (...args: any[]) => mockGetNextPlay(...args),
+      seek: (...args: any[]) => mockSeek(...args)
+    })
+  }
+}));
+
+// Suppress noisy logs during tests
+beforeAll(() => { jest.spyOn(console, 'log').mockImplementation(() => {}); });
+afterAll(() => { jest.restoreAllMocks(); });
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * WebSocket client that buffers messages so tests can wait for a given type
+ */
+class PartyClient {
+  private messages: PartyServerMessage[] = [];
+  private waiters: Array<() => void> = [];
+  public closeCode: number | null = null;
+
+  constructor(public readonly socket: WebSocket) {
+    socket.on('message', data => {
+      this.messages.push(JSON.parse(data.toString()));
+      this.waiters.splice(0).forEach(wake => wake());
+    });
+    socket.on('close', code => {
+      this.closeCode = code;
+      this.waiters.splice(0).forEach(wake => wake());
+    });
+  }
+
+  static connect(port: number, path: string): Promise<PartyClient> {
+    const client = new PartyClient(new WebSocket(`ws://localhost:${port}${path}`));
+    return new Promise((resolve, reject) => {
+      client.socket.once('open', () => resolve(client));
+      client.socket.once('error', reject);
+    });
+  }
+
+  send(message: unknown): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  /**
+   * Resolves with the first unread message of the given type
+   */
+  async next<T extends PartyServerMessage['type']>(type: T): Promise<Extract<PartyServerMessage, { type: T }>> {
+    for (;;) {
+      const index = this.messages.findIndex(m => m.type === type);
+      if (index >= 0) {
+        return this.messages.splice(index, 1)[0] as Extract<PartyServerMessage, { type: T }>;
+      }
+      if (this.closeCode !== null) {
+        throw new Error(`Connection closed before a ${type} message arrived`);
+      }
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  /**
+   * Resolves with the close code once the server has closed the connection
+   */
+  async closed(): Promise<number> {
+    while (this.closeCode === null) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    return this.closeCode;
+  }
+
+  close(): Promise<void> {
+    if (this.closeCode !== null) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      this.socket.once('close', () => resolve());
+      this.socket.close();
+    });
+  }
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Watch Party Integration Tests', () => {
+  let app: express.Application;
+  let server: http.Server;
+  let wss: WebSocketServer;
+  let port: number;
+  let clients: PartyClient[];
+
+  const connect = async (path: string) => {
+    const client = await PartyClient.connect(port, path);
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/party', PartyRouter);
+    app.use(errorMiddleware);
+    server = http.createServer(app);
+    wss = attachWatchPartySocket(server);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    port = (server.address() as AddressInfo).port;
+    clients = [];
+
+    jest.clearAllMocks();
+    mockGetNextPlay.mockImplementation(async (gameId, sessionId, currentPlay) => ({
+      gameId,
+      sessionId,
+      currentPlay: currentPlay + 1,
+      game: { log: ['Play description here'] }
+    }));
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    wss.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('keeps host and guests on the same state', async () => {
+    const host = await connect('/ws/party/friday-night?name=Sam&gameId=TEST_GAME_001');
+    const hostWelcome = await host.next('welcome');
+    const guest = await connect('/ws/party/friday-night?name=Alex');
+    const guestWelcome = await guest.next('welcome');
+
+    expect(guestWelcome.party.hostId).toBe(hostWelcome.memberId);
+    expect(guestWelcome.party.gameId).toBe('TEST_GAME_001');
+
+    host.send({ type: 'advance' });
+
+    const [hostState, guestState] = await Promise.all([host.next('state'), guest.next('state')]);
+    expect(hostState.state).toEqual(guestState.state);
+    expect(mockGetNextPlay).toHaveBeenCalledTimes(1);
+  });
+
+  it('relays chat and reports errors to the sender', async () => {
+    const host = await connect('/ws/party/chat-party?name=Sam&gameId=TEST_GAME_001');
+    const guest = await connect('/ws/party/chat-party?name=Alex');
+    await guest.next('welcome');
+
+    guest.send({ type: 'chat', text: 'Here we go' });
+    expect((await host.next('chat')).message).toMatchObject({ name: 'Alex', text: 'Here we go' });
+
+    guest.send({ type: 'advance' });
+    expect((await guest.next('error')).message).toBe('Only the host can control playback');
+
+    guest.send({ type: 'seek' });
+    expect((await guest.next('error')).message).toContain('seek requires exactly one of playIndex or inning');
+  });
+
+  it('rejects a connection that would create a party without a game', async () => {
+    const client = await connect('/ws/party/empty-party?name=Sam');
+
+    expect((await client.next('error')).message).toContain('a gameId is required');
+    expect(await client.closed()).toBe(1008);
+  });
+
+  it('exposes the party over REST while members are connected', async () => {
+    const host = await connect('/ws/party/rest-party?name=Sam&gameId=TEST_GAME_001');
+    await host.next('welcome');
+
+    const response = await request(app).get('/api/party/rest-party').expect(200);
+    expect(response.body).toMatchObject({ partyId: 'rest-party', gameId: 'TEST_GAME_001' });
+
+    await request(app).get('/api/party/unknown-party').expect(404);
+    await request(app).get('/api/party/bad%20id').expect(400);
+  });
+});
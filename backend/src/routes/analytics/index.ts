@@ -0,0 +1,58 @@
+import { RequestHandler, Router } from 'express';
+import { RunExpectancyService } from '../../services/game/analytics';
+import { contextLogger } from '../../core/logging';
+import { validateQuery, RunExpectancyQuerySchema } from '../../validation';
+
+/**
+ * Get the run expectancy table of a season or an era
+ *
+ * Returns the runs a team can expect to score from each of the 24 base-out
+ * states to the end of the half-inning, averaged over every play of the
+ * seasons' complete half-innings. The table is computed from the plays table
+ * the first time it is asked for and stored for later requests, so the first
+ * request for a season can take a while.
+ *
+ * @route GET /api/analytics/run-expectancy
+ * @param {string} season - A season ("2019") or a range of seasons ("2010-2019") (query parameter)
+ * @returns {RunExpectancyMatrix} The 24 base-out states, by outs then bases
+ *
+ * @example
+ * // Request
+ * GET /api/analytics/run-expectancy?season=2019
+ *
+ * // Response
+ * {
+ *   "startSeason": 2019,
+ *   "endSeason": 2019,
+ *   "states": [
+ *     { "bases": "___", "outs": 0, "runExpectancy": 0.5439, "occurrences": 46012 },
+ *     { "bases": "1__", "outs": 0, "runExpectancy": 0.9392, "occurrences": 11503 },
+ *     ...
+ *   ],
+ *   "computedAt": "2025-05-02T18:20:11.000Z"
+ * }
+ */
+export const getRunExpectancy: RequestHandler = async (req, res, next) => {
+    const season = req.query.season as string;
+    const routeLogger = contextLogger({
+        route: 'getRunExpectancy',
+        season
+    });
+
+    const [startSeason, endSeason = startSeason] = season.split('-').map(year => parseInt(year, 10));
+
+    routeLogger.info('Processing run expectancy request', { startSeason, endSeason });
+
+    try {
+        const matrix = await RunExpectancyService.getRunExpectancy(startSeason, endSeason);
+        res.json(matrix);
+    } catch (error: unknown) {
+        next(error);
+    }
+};
+
+const router = Router();
+
+router.get('/run-expectancy', validateQuery(RunExpectancyQuerySchema), getRunExpectancy);
+
+export const AnalyticsRouter = router;
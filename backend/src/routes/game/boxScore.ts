@@ -0,0 +1,83 @@
+import { RequestHandler, Router } from 'express';
+import { BoxScoreService } from '../../services/game/boxScore';
+import { contextLogger } from '../../core/logging';
+import {
+    validateParams,
+    validateQuery,
+    GameIdParamSchema,
+    BoxScoreQuerySchema
+} from '../../validation';
+
+/**
+ * Get the box score of a game
+ *
+ * Computes batting lines for every player who batted or scored, team batting
+ * totals, pitching lines, and runs by inning with R/H/E. Pass `upToPlay` to get
+ * the box score as of a point in playback: only plays before that play index
+ * are counted, so the `currentPlay` of the state being displayed can be passed
+ * as is. The win, loss, save and holds are only awarded for the whole game.
+ * With `spoilerFree=true`, `upToPlay` is required so the box score never gives
+ * away the rest of the game.
+ *
+ * @route GET /api/game/boxscore/:gameId
+ * @param {string} gameId - The ID of the game (path parameter)
+ * @param {number} upToPlay - Only count plays before this play index (optional query parameter)
+ * @param {boolean} spoilerFree - Refuse to return the whole game (optional query parameter)
+ * @returns {BoxScore} The box score, with batting and pitching lines
+ *
+ * @example
+ * // Request
+ * GET /api/game/boxscore/CIN201904150?upToPlay=42
+ *
+ * // Response
+ * {
+ *   "gameId": "CIN201904150",
+ *   "upToPlay": 42,
+ *   "plays": 41,
+ *   "decisions": null,
+ *   "home": {
+ *     "teamId": "CIN",
+ *     "name": "Cincinnati Reds",
+ *     "batting": [
+ *       { "playerId": "senzn001", "name": "Nick Senzel", "ab": 2, "r": 1, "h": 1, "doubles": 1, "triples": 0, "hr": 0, "rbi": 0, "bb": 0, "k": 1, "lob": 1 },
+ *       ...
+ *     ],
+ *     "battingTotals": { "ab": 14, "r": 2, "h": 4, ... },
+ *     "pitching": [
+ *       { "playerId": "castl001", "name": "Luis Castillo", "outs": 12, "h": 3, "r": 1, "er": 1, "bb": 2, "k": 6, "hr": 0, "bf": 16, "decision": null }
+ *     ],
+ *     "stats": { "innings": [0, 2, 0, 0], "runs": 2, "hits": 4, "errors": 0 }
+ *   },
+ *   "visitors": { ... }
+ * }
+ */
+export const getBoxScore: RequestHandler = async (req, res, next) => {
+    const gameId = req.params.gameId;
+    const routeLogger = contextLogger({
+        route: 'getBoxScore',
+        gameId
+    });
+
+    const upToPlay = req.query.upToPlay !== undefined ? parseInt(req.query.upToPlay as string, 10) : undefined;
+
+    routeLogger.info('Processing box score request', { upToPlay });
+
+    try {
+        const boxScore = await BoxScoreService.getBoxScore(gameId, upToPlay);
+        res.json(boxScore);
+    } catch (error: unknown) {
+        next(error);
+    }
+};
+
+/**
+ * Create the router for the box score endpoint
+ */
+export const boxScoreRouter = Router();
+
+boxScoreRouter.get(
+    '/:gameId',
+    validateParams(GameIdParamSchema),
+    validateQuery(BoxScoreQuerySchema),
+    getBoxScore
+);
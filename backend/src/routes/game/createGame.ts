@@ -5,23 +5,50 @@ import { CreateGameRequest, CreateGameResponse } from '../../../../common/types/
 import { BadRequestError } from '../../core/errors';
 import { logger, contextLogger } from '../../core/logging';
 import { validateBody, CreateGameRequestSchema } from '../../validation';
+import { DEFAULT_ANNOUNCER_STYLE, GAME_TYPES } from '../../constants/GameConstants';
+import { SimulationService } from '../../services/game/simulation';
 
 /**
  * Create a new game with the specified home and visiting teams
- * @returns {CreateGameResponse} Response data contains gameId, sessionId, and gameState properties
+ *
+ * Pass the `gameId` of a Retrosheet game to start a playback session for it,
+ * e.g. one picked from the game search; otherwise a new game ID is generated.
+ * The announcer style is returned so the client can use it for the session.
+ *
+ * With `gameType: 'simulation'` a new game between the two teams is simulated
+ * from their starting lineups and the players' event distributions in the
+ * given season (the latest by default). Its plays are kept in memory and
+ * played back through the same endpoints as a replay. Pass `seed` to
+ * reproduce a simulated game.
+ *
+ * @returns {CreateGameResponse} Response data contains gameId, sessionId, announcerStyle, and gameState properties
  */
-export const createGame: RequestHandler = (req, res, next) => {
+export const createGame: RequestHandler = async (req, res, next) => {
     // Create a context-specific logger for this route
     const routeLogger = contextLogger({ route: 'createGame' });
     
     try {
         // Body is already validated by middleware
-        const { homeTeamId, visitingTeamId } = req.body as CreateGameRequest;
+        const {
+            homeTeamId,
+            visitingTeamId,
+            gameId: requestedGameId,
+            announcerStyle = DEFAULT_ANNOUNCER_STYLE,
+            gameType = GAME_TYPES.REPLAY,
+            season,
+            seed
+        } = req.body as CreateGameRequest;
         
-        routeLogger.debug('Received request to create game', { homeTeamId, visitingTeamId });
+        routeLogger.debug('Received request to create game', { homeTeamId, visitingTeamId, requestedGameId, announcerStyle, gameType });
         
-        // Generate a unique game ID (for now, using timestamp)
-        const gameId = Date.now().toString();
+        let gameId: string;
+        if (gameType === GAME_TYPES.SIMULATION) {
+            const simulation = await SimulationService.createSimulation(homeTeamId, visitingTeamId, { season, seed });
+            gameId = simulation.gameId;
+        } else {
+            // Use the requested game, or generate a unique game ID (for now, using timestamp)
+            gameId = requestedGameId || Date.now().toString();
+        }
         
         // Generate a unique session ID using UUID
         const sessionId = uuidv4();
@@ -33,6 +60,7 @@ export const createGame: RequestHandler = (req, res, next) => {
             ...createEmptyBaseballState(),
             gameId,
             sessionId,
+            gameType,
             home: {
                 ...createEmptyBaseballState().home,
                 id: homeTeamId
@@ -45,7 +73,8 @@ export const createGame: RequestHandler = (req, res, next) => {
         
         routeLogger.info('Game created successfully', { gameId });
         
-        res.json({ gameId, sessionId, gameState });
+        const response: CreateGameResponse = { gameId, sessionId, announcerStyle, gameState };
+        res.json(response);
     } catch (error) {
         // Pass the error to the error handling middleware
         next(error);
@@ -0,0 +1,98 @@
+import { RequestHandler, Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { ForkGameRequest, ForkGameResponse } from '../../../../common/types/ApiTypes';
+import { GamePlaybackService } from '../../services/game/playback';
+import { SimulationService } from '../../services/game/simulation';
+import { DEFAULT_ANNOUNCER_STYLE } from '../../constants/GameConstants';
+import { contextLogger } from '../../core/logging';
+import {
+    validateParams,
+    validateHeaders,
+    validateBody,
+    GameIdParamSchema,
+    SessionIdHeaderSchema,
+    ForkGameRequestSchema
+} from '../../validation';
+
+/**
+ * Fork a game at a play with a different outcome ("what if")
+ *
+ * The forked game keeps the plays before `playIndex`, plays `event` in place
+ * of the play's actual outcome, and simulates the rest of the game from the
+ * base/out/score situation that leaves. Commentary on the forked game knows
+ * it is an alternate timeline.
+ *
+ * The fork is a new game with a new session, positioned before the altered
+ * play: continue with `/api/game/next/:gameId` using the returned `gameId`,
+ * `sessionId` and `currentPlay`. The session that forked the game, and its
+ * lineup tracking, are left as they were.
+ *
+ * @route POST /api/game/fork/:gameId
+ * @param {string} gameId - The ID of the game to fork, a replay or a simulated game (path parameter)
+ * @param {number} playIndex - The play whose outcome is changed (body)
+ * @param {string} event - The Retrosheet event to play instead (body)
+ * @param {number} seed - Random seed of the simulated rest of the game (optional body)
+ * @param {string} announcerStyle - Announcer style of the new session (optional body)
+ * @param {string} session-id - The session forking the game (header)
+ * @returns {ForkGameResponse} The forked game, its new session and the state before the altered play
+ *
+ * @example
+ * // A home run instead of the strikeout at play 42
+ * POST /api/game/fork/CIN201904150
+ * Headers:
+ *   session-id: 123e4567-e89b-12d3-a456-426614174000
+ * Body:
+ *   { "playIndex": 42, "event": "HR/F8" }
+ */
+export const forkGame: RequestHandler = async (req, res, next) => {
+    const parentGameId = req.params.gameId;
+    const parentSessionId = req.headers['session-id'] as string;
+    const routeLogger = contextLogger({
+        route: 'forkGame',
+        gameId: parentGameId,
+        sessionId: parentSessionId
+    });
+
+    const {
+        playIndex,
+        event,
+        seed,
+        announcerStyle = DEFAULT_ANNOUNCER_STYLE
+    } = req.body as ForkGameRequest;
+
+    routeLogger.info('Processing fork request', { playIndex, event, seed });
+
+    try {
+        // Only a session playing the game can fork it
+        await GamePlaybackService.getCurrentGameState(parentGameId, parentSessionId);
+
+        const game = await SimulationService.forkGame(parentGameId, parentSessionId, playIndex, event, { seed });
+        const sessionId = uuidv4();
+        const gameState = await GamePlaybackService.seek(game.gameId, sessionId, { playIndex }, { announcerStyle });
+
+        routeLogger.info('Successfully forked game', { forkGameId: game.gameId, forkSessionId: sessionId });
+
+        const response: ForkGameResponse = {
+            gameId: game.gameId,
+            sessionId,
+            fork: game.fork!,
+            gameState
+        };
+        res.json(response);
+    } catch (error: unknown) {
+        next(error);
+    }
+};
+
+/**
+ * Create the router for the fork endpoint
+ */
+export const forkRouter = Router();
+
+forkRouter.post(
+    '/:gameId',
+    validateParams(GameIdParamSchema),
+    validateHeaders(SessionIdHeaderSchema),
+    validateBody(ForkGameRequestSchema),
+    forkGame
+);
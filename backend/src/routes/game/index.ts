@@ -5,6 +5,14 @@ import { nextPlayRouter } from './nextPlayWithValidation';
 import { getGameInfo } from './gameInfo';
 import { announceLineups } from './announceLineups';
 import { checkSubstitutions } from './checkSubstitutions';
+import { sessionRouter } from './session';
+import { seekRouter } from './seek';
+import { forkRouter } from './fork';
+import { previousPlayRouter } from './previousPlay';
+import { streamRouter } from './stream';
+import { transcriptRouter } from './transcript';
+import { boxScoreRouter } from './boxScore';
+import { winProbabilityRouter } from './winProbability';
 import {
   getLineupHistory,
   getLineupStateForPlayHandler,
@@ -18,6 +26,14 @@ router.use('/createGame', createGameRouter);
 router.get('/init/:gameId', initGame);
 // Use the nextPlay router which includes validation middleware
 router.use('/next', nextPlayRouter);
+router.use('/prev', previousPlayRouter);
+router.use('/session', sessionRouter);
+router.use('/seek', seekRouter);
+router.use('/fork', forkRouter);
+router.use('/stream', streamRouter);
+router.use('/transcript', transcriptRouter);
+router.use('/boxscore', boxScoreRouter);
+router.use('/winprob', winProbabilityRouter);
 router.get('/info/:gid', getGameInfo);
 router.get('/announceLineups/:gameId', announceLineups);
 router.get('/checkSubstitutions/:gameId', checkSubstitutions);
@@ -3,6 +3,7 @@ import { AnnouncerStyle } from '../../services/game/commentary/CommentaryService
 import { GamePlaybackService } from '../../services/game/playback';
 import { DEFAULT_ANNOUNCER_STYLE } from '../../constants/GameConstants';
 import { contextLogger } from '../../core/logging';
+import { AIProvider, CommentaryCachePolicy, HighlightCriterion, PlaybackMode } from '../../services/interfaces';
 import {
     validateParams,
     validateQuery,
@@ -32,6 +33,11 @@ import {
  * @param {number} currentPlay - The index of the current play (query parameter)
  * @param {string} skipLLM - Set to 'true' to skip LLM calls for testing (optional query parameter)
  * @param {string} announcerStyle - Style of announcer for commentary: 'classic', 'modern', 'enthusiastic', 'poetic' (optional query parameter)
+ * @param {string} aiProvider - AI adapter for the commentary: 'openai', 'openai-compatible', 'template'; kept for the rest of the session (optional query parameter)
+ * @param {string} commentaryCache - When to reuse the commentary logged for the play: 'reuse', 'reuseIfFresh', 'regenerate'; defaults to the configured policy (optional query parameter)
+ * @param {string} booth - Set to 'true' for the two-voice booth: a color analyst joins the announcer and each log entry is tagged with its speaker (optional query parameter)
+ * @param {string} mode - 'condensed' or 'highlights' to skip ahead to the next highlight, summarizing the plays in between (optional query parameter)
+ * @param {string} criteria - Comma-separated kinds of plays the mode stops at: scoringPlay, homeRun, leadChange, outAtHome, pitchingChange, finalOut (optional query parameter)
  * @param {string} session-id - The session identifier (header)
  * @returns {SimplifiedBaseballState} Response data contains a SimplifiedBaseballState object with the next play information
  *
@@ -91,11 +97,20 @@ export const getNextPlay: RequestHandler = async (req, res, next) => {
     const currentPlay = parseInt(req.query.currentPlay as string);
     const skipLLM = req.query.skipLLM === 'true';
     const announcerStyle = (req.query.announcerStyle as AnnouncerStyle) || DEFAULT_ANNOUNCER_STYLE;
+    const aiProvider = req.query.aiProvider as AIProvider | undefined;
+    const commentaryCache = req.query.commentaryCache as CommentaryCachePolicy | undefined;
+    const booth = req.query.booth === 'true';
+    const mode = req.query.mode as PlaybackMode | undefined;
+    const highlightCriteria = (req.query.criteria as string | undefined)?.split(',') as HighlightCriterion[] | undefined;
 
     routeLogger.info('Processing next play request', {
         currentPlay,
         skipLLM,
-        announcerStyle
+        announcerStyle,
+        aiProvider,
+        commentaryCache,
+        booth,
+        mode
     });
 
     try {
@@ -103,7 +118,7 @@ export const getNextPlay: RequestHandler = async (req, res, next) => {
             gameId,
             sessionId,
             currentPlay,
-            { skipLLM, announcerStyle }
+            { skipLLM, announcerStyle, aiProvider, commentaryCache, booth, mode, highlightCriteria }
         );
 
         routeLogger.info('Successfully processed next play', {
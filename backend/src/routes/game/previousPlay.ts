@@ -0,0 +1,84 @@
+import { RequestHandler, Router } from 'express';
+import { GamePlaybackService } from '../../services/game/playback';
+import { AnnouncerStyle } from '../../services/interfaces';
+import { DEFAULT_ANNOUNCER_STYLE } from '../../constants/GameConstants';
+import { contextLogger } from '../../core/logging';
+import {
+    validateParams,
+    validateQuery,
+    validateHeaders,
+    GameIdParamSchema,
+    PreviousPlayQuerySchema,
+    SessionIdHeaderSchema
+} from '../../validation';
+
+/**
+ * Step back to the previous play in a game
+ *
+ * This endpoint is the counterpart of `/api/game/next/:gameId`. It returns the
+ * state the client showed one play earlier, reconstructed without commentary,
+ * and discards the lineup tracking rows the session recorded after that play so
+ * that advancing again does not duplicate lineup history.
+ *
+ * @route GET /api/game/prev/:gameId
+ * @param {string} gameId - The ID of the game (path parameter)
+ * @param {number} currentPlay - The current play index, as returned by the last next/seek call (query parameter)
+ * @param {string} announcerStyle - Announcer style to record on the session (optional query parameter)
+ * @param {string} session-id - The session identifier (header)
+ * @returns {SimplifiedBaseballState} The state before the previous play
+ * @throws {BadRequestError} If the current play is the first play of the game
+ *
+ * @example
+ * // Request
+ * GET /api/game/prev/CIN201904150?currentPlay=43
+ * Headers:
+ *   session-id: 123e4567-e89b-12d3-a456-426614174000
+ *
+ * // Response: the state with currentPlay 42 and an empty log
+ */
+export const getPreviousPlay: RequestHandler = async (req, res, next) => {
+    const gameId = req.params.gameId;
+    const sessionId = req.headers['session-id'] as string;
+    const routeLogger = contextLogger({
+        route: 'getPreviousPlay',
+        gameId,
+        sessionId
+    });
+
+    const currentPlay = parseInt(req.query.currentPlay as string);
+    const announcerStyle = (req.query.announcerStyle as AnnouncerStyle) || DEFAULT_ANNOUNCER_STYLE;
+
+    routeLogger.info('Processing previous play request', { currentPlay, announcerStyle });
+
+    try {
+        const result = await GamePlaybackService.getPreviousPlay(
+            gameId,
+            sessionId,
+            currentPlay,
+            { announcerStyle }
+        );
+
+        routeLogger.info('Successfully processed previous play', {
+            currentPlay: result.currentPlay,
+            inning: result.game.inning,
+            isTopInning: result.game.isTopInning
+        });
+
+        res.json(result);
+    } catch (error: unknown) {
+        next(error);
+    }
+};
+
+/**
+ * Create the router for the previous play endpoint
+ */
+export const previousPlayRouter = Router();
+
+previousPlayRouter.get(
+    '/:gameId',
+    validateParams(GameIdParamSchema),
+    validateQuery(PreviousPlayQuerySchema),
+    validateHeaders(SessionIdHeaderSchema),
+    getPreviousPlay
+);
@@ -0,0 +1,86 @@
+import { RequestHandler, Router } from 'express';
+import { GamePlaybackService } from '../../services/game/playback';
+import { AnnouncerStyle, SeekTarget } from '../../services/interfaces';
+import { DEFAULT_ANNOUNCER_STYLE } from '../../constants/GameConstants';
+import { contextLogger } from '../../core/logging';
+import {
+    validateParams,
+    validateQuery,
+    validateHeaders,
+    GameIdParamSchema,
+    SeekQuerySchema,
+    SessionIdHeaderSchema
+} from '../../validation';
+
+/**
+ * Jump to any play, inning or half-inning of a game
+ *
+ * This endpoint reconstructs the game state at the requested point without
+ * generating commentary for the skipped plays:
+ * - The score comes from the score service
+ * - Lineups come from lineup tracking, which is brought up to date for skipped plays
+ * - Runners and outs come from the play data
+ *
+ * The response has the same shape as `/api/game/next/:gameId`, with an empty log,
+ * so playback can continue from it by passing `currentPlay` to the next endpoint.
+ *
+ * @route GET /api/game/seek/:gameId
+ * @param {string} gameId - The ID of the game (path parameter)
+ * @param {number} playIndex - The play number to jump to (query parameter, or use inning)
+ * @param {number} inning - The inning to jump to the start of (query parameter, or use playIndex)
+ * @param {string} half - 'top' or 'bottom' half of the inning, defaults to 'top' (optional query parameter)
+ * @param {string} announcerStyle - Announcer style to record on the session (optional query parameter)
+ * @param {string} session-id - The session identifier (header)
+ * @returns {SimplifiedBaseballState} The state before the target play
+ *
+ * @example
+ * // Start of the bottom of the 7th
+ * GET /api/game/seek/CIN201904150?inning=7&half=bottom
+ * Headers:
+ *   session-id: 123e4567-e89b-12d3-a456-426614174000
+ */
+export const seek: RequestHandler = async (req, res, next) => {
+    const gameId = req.params.gameId;
+    const sessionId = req.headers['session-id'] as string;
+    const routeLogger = contextLogger({
+        route: 'seek',
+        gameId,
+        sessionId
+    });
+
+    const target: SeekTarget = {
+        playIndex: req.query.playIndex !== undefined ? parseInt(req.query.playIndex as string) : undefined,
+        inning: req.query.inning !== undefined ? parseInt(req.query.inning as string) : undefined,
+        half: req.query.half as SeekTarget['half']
+    };
+    const announcerStyle = (req.query.announcerStyle as AnnouncerStyle) || DEFAULT_ANNOUNCER_STYLE;
+
+    routeLogger.info('Processing seek request', { target, announcerStyle });
+
+    try {
+        const result = await GamePlaybackService.seek(gameId, sessionId, target, { announcerStyle });
+
+        routeLogger.info('Successfully processed seek', {
+            currentPlay: result.currentPlay,
+            inning: result.game.inning,
+            isTopInning: result.game.isTopInning
+        });
+
+        res.json(result);
+    } catch (error: unknown) {
+        next(error);
+    }
+};
+
+/**
+ * Create the router for the seek endpoint
+ */
+export const seekRouter = Router();
+
+seekRouter.get(
+    '/:gameId',
+    validateParams(GameIdParamSchema),
+    validateQuery(SeekQuerySchema),
+    validateHeaders(SessionIdHeaderSchema),
+    seek
+);
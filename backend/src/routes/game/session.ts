@@ -0,0 +1,65 @@
+import { RequestHandler, Router } from 'express';
+import { GamePlaybackService } from '../../services/game/playback';
+import { contextLogger } from '../../core/logging';
+import { validateParams, SessionParamSchema } from '../../validation';
+
+/**
+ * Get the current state of a playback session
+ *
+ * Returns the last state sent to the client for the session, together with the
+ * announcer style and the full commentary log generated so far. This lets a
+ * browser refresh or a second device resume playback exactly where it stopped:
+ * pass `currentPlayIndex` as `currentPlay` to `/api/game/next/:gameId` to continue.
+ *
+ * @route GET /api/game/session/:gameId/:sessionId
+ * @param {string} gameId - The ID of the game (path parameter)
+ * @param {string} sessionId - The session identifier (path parameter)
+ * @returns {GamePlaybackState} The stored session state
+ * @throws {NotFoundError} If the session has not been started
+ *
+ * @example
+ * // Request
+ * GET /api/game/session/CIN201904150/123e4567-e89b-12d3-a456-426614174000
+ *
+ * // Response (simplified)
+ * {
+ *   "gameId": "CIN201904150",
+ *   "sessionId": "123e4567-e89b-12d3-a456-426614174000",
+ *   "currentPlayIndex": 43,
+ *   "announcerStyle": "classic",
+ *   "log": ["Welcome to Great American Ball Park...", "Bryant swings and hits a fly ball to center field..."],
+ *   "baseballState": { "currentPlay": 43, "game": { "inning": 5, ... }, ... },
+ *   "updatedAt": "2025-04-27T18:32:05.000Z"
+ * }
+ */
+export const getSession: RequestHandler = async (req, res, next) => {
+    const { gameId, sessionId } = req.params;
+    const routeLogger = contextLogger({
+        route: 'getSession',
+        gameId,
+        sessionId
+    });
+
+    try {
+        const session = await GamePlaybackService.getCurrentGameState(gameId, sessionId);
+
+        routeLogger.info('Retrieved playback session', {
+            currentPlayIndex: session.currentPlayIndex
+        });
+
+        res.json(session);
+    } catch (error: unknown) {
+        next(error);
+    }
+};
+
+/**
+ * Create the router for the session endpoint
+ */
+export const sessionRouter = Router();
+
+sessionRouter.get(
+    '/:gameId/:sessionId',
+    validateParams(SessionParamSchema),
+    getSession
+);
@@ -0,0 +1,225 @@
+import { RequestHandler, Router } from 'express';
+import { GamePlaybackService } from '../../services/game/playback';
+import { PlaybackStreamService } from '../../services/game/stream';
+import {
+    AIProvider,
+    AnnouncerStyle,
+    CommentaryCachePolicy,
+    HighlightCriterion,
+    PlaybackMode,
+    StreamControl,
+    StreamPacing,
+    StreamSink
+} from '../../services/interfaces';
+import { DEFAULT_ANNOUNCER_STYLE, STREAM_DEFAULTS } from '../../constants/GameConstants';
+import { NotFoundError } from '../../core/errors';
+import { contextLogger } from '../../core/logging';
+import {
+    validateParams,
+    validateQuery,
+    validateHeaders,
+    validateBody,
+    GameIdParamSchema,
+    StreamQuerySchema,
+    StreamControlRequestSchema,
+    SessionIdHeaderSchema
+} from '../../validation';
+
+/**
+ * Stream a game as Server-Sent Events
+ *
+ * Instead of polling `/api/game/next/:gameId` for every play, the client opens a
+ * single EventSource and the server advances the game by itself. Every play is
+ * pushed as a `play` event carrying the same SimplifiedBaseballState that the
+ * next play endpoint returns. Other events:
+ * - `status`: the stream settings after a control command
+ * - `end`: the last play of the game has been sent
+ * - `error`: playback failed; the stream is closed afterwards
+ *
+ * Pacing:
+ * - `fixed` waits `delayMs / speed` milliseconds between plays
+ * - `ack` waits until the client posts an `ack` control command, typically once
+ *   it has finished typing out the play
+ *
+ * Playback starts from `currentPlay` if given, otherwise from the play the
+ * session last reached, otherwise from the start of the game.
+ *
+ * @route GET /api/game/stream/:gameId
+ * @param {string} gameId - The ID of the game (path parameter)
+ * @param {string} sessionId - The session identifier; a query parameter because EventSource cannot send headers
+ * @param {number} currentPlay - The play index to start from (optional query parameter)
+ * @param {string} pacing - 'fixed' (default) or 'ack' (optional query parameter)
+ * @param {number} delayMs - Delay between plays for fixed pacing, defaults to 4000 (optional query parameter)
+ * @param {number} speed - Playback speed multiplier between 0.25 and 8, defaults to 1 (optional query parameter)
+ * @param {boolean} skipLLM - Whether to skip LLM calls (optional query parameter)
+ * @param {string} announcerStyle - The announcer style (optional query parameter)
+ * @param {string} aiProvider - The AI adapter for the commentary, kept for the rest of the session (optional query parameter)
+ * @param {string} commentaryCache - When to reuse the commentary logged for each play (optional query parameter)
+ * @param {boolean} booth - Whether a color analyst joins the announcer (optional query parameter)
+ * @param {string} mode - 'condensed' or 'highlights' to push only the next highlight each time (optional query parameter)
+ * @param {string} criteria - Comma-separated kinds of plays the mode stops at (optional query parameter)
+ * @returns {text/event-stream} One `play` event per play
+ *
+ * @example
+ * // Request
+ * GET /api/game/stream/CIN201904150?sessionId=123e4567-e89b-12d3-a456-426614174000&pacing=ack
+ *
+ * // Response
+ * event: play
+ * data: {"game":{"inning":1,"isTopInning":true,...},"currentPlay":2,...}
+ */
+export const streamGame: RequestHandler = async (req, res, next) => {
+    const gameId = req.params.gameId;
+    const sessionId = req.query.sessionId as string;
+    const routeLogger = contextLogger({
+        route: 'streamGame',
+        gameId,
+        sessionId
+    });
+
+    const pacing = (req.query.pacing as StreamPacing) || 'fixed';
+    const delayMs = req.query.delayMs !== undefined
+        ? parseInt(req.query.delayMs as string)
+        : STREAM_DEFAULTS.DELAY_MS;
+    const speed = req.query.speed !== undefined
+        ? parseFloat(req.query.speed as string)
+        : STREAM_DEFAULTS.SPEED;
+    const skipLLM = req.query.skipLLM === 'true';
+    const announcerStyle = (req.query.announcerStyle as AnnouncerStyle) || DEFAULT_ANNOUNCER_STYLE;
+    const aiProvider = req.query.aiProvider as AIProvider | undefined;
+    const commentaryCache = req.query.commentaryCache as CommentaryCachePolicy | undefined;
+    const booth = req.query.booth === 'true';
+    const mode = req.query.mode as PlaybackMode | undefined;
+    const highlightCriteria = (req.query.criteria as string | undefined)?.split(',') as HighlightCriterion[] | undefined;
+
+    try {
+        const startPlay = req.query.currentPlay !== undefined
+            ? parseInt(req.query.currentPlay as string)
+            : await getResumePlay(gameId, sessionId);
+
+        routeLogger.info('Opening playback stream', { startPlay, pacing, delayMs, speed, announcerStyle, aiProvider, commentaryCache, booth, mode });
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive'
+        });
+
+        // Comments keep proxies from closing an idle connection while a stream is paused
+        const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), STREAM_DEFAULTS.HEARTBEAT_MS);
+
+        const sink: StreamSink = {
+            send: (event, data) => {
+                if (!res.writableEnded) {
+                    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+                }
+            },
+            close: () => {
+                clearInterval(heartbeat);
+                if (!res.writableEnded) {
+                    res.end();
+                }
+            }
+        };
+
+        req.on('close', () => {
+            routeLogger.info('Playback stream connection closed');
+            clearInterval(heartbeat);
+            PlaybackStreamService.stopStream(gameId, sessionId, sink);
+        });
+
+        PlaybackStreamService.startStream(
+            gameId,
+            sessionId,
+            { pacing, delayMs, speed, startPlay, skipLLM, announcerStyle, aiProvider, commentaryCache, booth, mode, highlightCriteria },
+            sink
+        );
+    } catch (error: unknown) {
+        next(error);
+    }
+};
+
+/**
+ * Control a running game stream
+ *
+ * Pauses, resumes, acknowledges the last play (for `ack` pacing) or changes the
+ * speed of the stream opened by the same session.
+ *
+ * @route POST /api/game/stream/:gameId/control
+ * @param {string} gameId - The ID of the game (path parameter)
+ * @param {string} session-id - The session identifier (header)
+ * @param {StreamControl} body - `{ action: 'pause' | 'resume' | 'ack' }` or `{ action: 'speed', speed: number }`
+ * @returns {StreamStatus} The stream settings after the command
+ * @throws {NotFoundError} If the session has no running stream
+ *
+ * @example
+ * // Request
+ * POST /api/game/stream/CIN201904150/control
+ * Headers:
+ *   session-id: 123e4567-e89b-12d3-a456-426614174000
+ * Body:
+ *   { "action": "speed", "speed": 2 }
+ *
+ * // Response
+ * {
+ *   "gameId": "CIN201904150",
+ *   "sessionId": "123e4567-e89b-12d3-a456-426614174000",
+ *   "currentPlay": 12,
+ *   "pacing": "fixed",
+ *   "delayMs": 4000,
+ *   "speed": 2,
+ *   "paused": false
+ * }
+ */
+export const controlStream: RequestHandler = (req, res, next) => {
+    const gameId = req.params.gameId;
+    const sessionId = req.headers['session-id'] as string;
+    const control = req.body as StreamControl;
+
+    contextLogger({
+        route: 'controlStream',
+        gameId,
+        sessionId
+    }).info('Processing stream control request', { control });
+
+    try {
+        res.json(PlaybackStreamService.controlStream(gameId, sessionId, control));
+    } catch (error: unknown) {
+        next(error);
+    }
+};
+
+/**
+ * Gets the play a session last reached, or 0 for a session that has not started
+ */
+async function getResumePlay(gameId: string, sessionId: string): Promise<number> {
+    try {
+        const session = await GamePlaybackService.getCurrentGameState(gameId, sessionId);
+        return session.currentPlayIndex;
+    } catch (error) {
+        if (error instanceof NotFoundError) {
+            return 0;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Create the router for the stream endpoints
+ */
+export const streamRouter = Router();
+
+streamRouter.get(
+    '/:gameId',
+    validateParams(GameIdParamSchema),
+    validateQuery(StreamQuerySchema),
+    streamGame
+);
+
+streamRouter.post(
+    '/:gameId/control',
+    validateParams(GameIdParamSchema),
+    validateHeaders(SessionIdHeaderSchema),
+    validateBody(StreamControlRequestSchema),
+    controlStream
+);
@@ -0,0 +1,97 @@
+import { RequestHandler, Router } from 'express';
+import { GameTranscriptService } from '../../services/game/transcript';
+import { AnnouncerStyle } from '../../services/interfaces';
+import { TranscriptFormat } from '../../../../common/types/TranscriptTypes';
+import { DEFAULT_ANNOUNCER_STYLE } from '../../constants/GameConstants';
+import { contextLogger } from '../../core/logging';
+import {
+    validateParams,
+    validateQuery,
+    GameIdParamSchema,
+    TranscriptQuerySchema
+} from '../../validation';
+
+/**
+ * Content types of the transcript formats
+ */
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+    md: 'text/markdown; charset=utf-8',
+    html: 'text/html; charset=utf-8',
+    json: 'application/json; charset=utf-8'
+};
+
+/**
+ * Download the transcript of a game
+ *
+ * Plays the game from the first pitch to the last through the same pipeline as
+ * `/api/game/next/:gameId` and returns one document with the pregame
+ * commentary, every play under its inning header, and the final linescore.
+ * With commentary enabled this makes one LLM call per play, so expect the
+ * request to take a while; pass `skipLLM=true` for a quick, description-only
+ * transcript.
+ *
+ * Pass `upToPlay` to stop before a play, such as the `currentPlay` of the state
+ * being displayed, so the transcript does not give away the rest of the game.
+ * With `spoilerFree=true`, `upToPlay` is required.
+ *
+ * @route GET /api/game/transcript/:gameId
+ * @param {string} gameId - The ID of the game (path parameter)
+ * @param {string} format - 'md' (default), 'html' or 'json' (optional query parameter)
+ * @param {string} announcerStyle - The announcer style (optional query parameter)
+ * @param {boolean} skipLLM - Whether to skip LLM commentary (optional query parameter)
+ * @param {number} upToPlay - Only include plays before this play index (optional query parameter)
+ * @param {boolean} spoilerFree - Refuse to return the whole game (optional query parameter)
+ * @returns {string} The transcript as an attachment named `<gameId>-transcript.<format>`
+ *
+ * @example
+ * // Request
+ * GET /api/game/transcript/CIN201904150?format=md&announcerStyle=poetic
+ *
+ * // Response (Content-Disposition: attachment; filename="CIN201904150-transcript.md")
+ * # Pittsburgh Pirates at Cincinnati Reds
+ *
+ * ## Top of the 1st: Pittsburgh Pirates batting
+ * ...
+ */
+export const getTranscript: RequestHandler = async (req, res, next) => {
+    const gameId = req.params.gameId;
+    const routeLogger = contextLogger({
+        route: 'getTranscript',
+        gameId
+    });
+
+    const format = (req.query.format as TranscriptFormat) || 'md';
+    const skipLLM = req.query.skipLLM === 'true';
+    const announcerStyle = (req.query.announcerStyle as AnnouncerStyle) || DEFAULT_ANNOUNCER_STYLE;
+    const upToPlay = req.query.upToPlay !== undefined ? parseInt(req.query.upToPlay as string, 10) : undefined;
+
+    routeLogger.info('Processing transcript request', { format, skipLLM, announcerStyle, upToPlay });
+
+    try {
+        const transcript = await GameTranscriptService.generateTranscript(gameId, { skipLLM, announcerStyle }, upToPlay);
+        const document = GameTranscriptService.render(transcript, format);
+
+        routeLogger.info('Generated transcript', {
+            halfInnings: transcript.halfInnings.length,
+            length: document.length
+        });
+
+        res.attachment(`${gameId}-transcript.${format}`);
+        res.setHeader('Content-Type', CONTENT_TYPES[format]);
+        res.send(document);
+    } catch (error: unknown) {
+        next(error);
+    }
+};
+
+/**
+ * Create the router for the transcript endpoint
+ */
+export const transcriptRouter = Router();
+
+transcriptRouter.get(
+    '/:gameId',
+    validateParams(GameIdParamSchema),
+    validateQuery(TranscriptQuerySchema),
+    getTranscript
+);
@@ -0,0 +1,63 @@
+import { RequestHandler, Router } from 'express';
+import { WinProbabilityService } from '../../services/game/analytics';
+import { contextLogger } from '../../core/logging';
+import {
+    validateParams,
+    GameIdParamSchema
+} from '../../validation';
+
+/**
+ * Get the win probability series of a game
+ *
+ * Computes the home team's probability of winning before and after every play
+ * from the inning, half, outs, runners and score differential, in the run
+ * environment of the game's season. `wpa` is the win probability the play
+ * added for the team that batted: positive when the play helped them.
+ * `homeWinProbabilityBefore` of a play is the `winProbability` of the state
+ * whose `currentPlay` is that play.
+ *
+ * @route GET /api/game/winprob/:gameId
+ * @param {string} gameId - The ID of the game, a replay or a simulated game (path parameter)
+ * @returns {WinProbabilitySeries} One point per play
+ *
+ * @example
+ * // Request
+ * GET /api/game/winprob/CIN201904150
+ *
+ * // Response
+ * {
+ *   "gameId": "CIN201904150",
+ *   "season": 2019,
+ *   "points": [
+ *     { "playIndex": 1, "inning": 1, "isTopInning": true, "event": "K", "homeWinProbabilityBefore": 0.5, "homeWinProbability": 0.5113, "wpa": -0.0113 },
+ *     ...
+ *   ]
+ * }
+ */
+export const getWinProbability: RequestHandler = async (req, res, next) => {
+    const gameId = req.params.gameId;
+    const routeLogger = contextLogger({
+        route: 'getWinProbability',
+        gameId
+    });
+
+    routeLogger.info('Processing win probability request');
+
+    try {
+        const series = await WinProbabilityService.getWinProbability(gameId);
+        res.json(series);
+    } catch (error: unknown) {
+        next(error);
+    }
+};
+
+/**
+ * Create the router for the win probability endpoint
+ */
+export const winProbabilityRouter = Router();
+
+winProbabilityRouter.get(
+    '/:gameId',
+    validateParams(GameIdParamSchema),
+    getWinProbability
+);
@@ -0,0 +1,173 @@
+import { RequestHandler, Router } from 'express';
+import { GameSearchService } from '../../services/game/search';
+import { GameSearchCriteria, RecommendedGamesCriteria } from '../../services/interfaces';
+import { contextLogger } from '../../core/logging';
+import { validateQuery, GameSearchQuerySchema, RecommendedGamesQuerySchema } from '../../validation';
+
+/**
+ * Parses an optional integer query parameter
+ */
+const parseIntParam = (value: unknown): number | undefined =>
+    value !== undefined ? parseInt(value as string, 10) : undefined;
+
+/**
+ * Search and browse games
+ *
+ * Lists games from the gameinfo table, filtered, sorted and paginated, with team
+ * display names and the final score of each game. All filters are optional and
+ * combined; `team` matches either side, and with `opponent` only games between
+ * the two teams are returned.
+ *
+ * @route GET /api/games
+ * @param {string} startDate - Earliest game date, YYYY-MM-DD (optional query parameter)
+ * @param {string} endDate - Latest game date, YYYY-MM-DD (optional query parameter)
+ * @param {string} team - Team ID, home or away (optional query parameter)
+ * @param {string} opponent - Team ID of the other side (optional query parameter)
+ * @param {string} ballpark - Ballpark ID (optional query parameter)
+ * @param {number} season - Season (optional query parameter)
+ * @param {number} minMargin - Smallest final score margin (optional query parameter)
+ * @param {number} maxMargin - Largest final score margin (optional query parameter)
+ * @param {boolean} extraInnings - Only games that did (true) or did not (false) go to extra innings (optional query parameter)
+ * @param {number} page - Page number, starting at 1 (optional query parameter)
+ * @param {number} limit - Games per page, at most 100; defaults to 10 (optional query parameter)
+ * @param {string} sort - date (default), margin, innings or attendance (optional query parameter)
+ * @param {string} direction - asc (default) or desc (optional query parameter)
+ * @param {boolean} spoilerFree - Leave out final scores, margins and innings played; margin and innings filters and sorts are then rejected (optional query parameter)
+ * @returns {GameSearchResponse} One page of games with paging metadata
+ *
+ * @example
+ * // Request
+ * GET /api/games?team=CIN&season=2019&extraInnings=true&sort=date&direction=desc&limit=1
+ *
+ * // Response
+ * {
+ *   "data": [
+ *     {
+ *       "gameId": "CIN201909150",
+ *       "date": "2019-09-15",
+ *       "gameNumber": 0,
+ *       "season": 2019,
+ *       "ballpark": "CIN09",
+ *       "innings": 11,
+ *       "margin": 1,
+ *       "attendance": 24311,
+ *       "home": { "id": "CIN", "displayName": "Cincinnati Reds", "runs": 4 },
+ *       "visitors": { "id": "NYN", "displayName": "New York Mets", "runs": 3 }
+ *     }
+ *   ],
+ *   "pagination": { "total": 12, "page": 1, "limit": 1, "totalPages": 12, "hasNext": true, "hasPrev": false }
+ * }
+ */
+export const searchGames: RequestHandler = async (req, res, next) => {
+    const routeLogger = contextLogger({
+        route: 'searchGames'
+    });
+
+    const criteria: GameSearchCriteria = {
+        startDate: req.query.startDate as string | undefined,
+        endDate: req.query.endDate as string | undefined,
+        team: req.query.team as string | undefined,
+        opponent: req.query.opponent as string | undefined,
+        ballpark: req.query.ballpark as string | undefined,
+        season: parseIntParam(req.query.season),
+        minMargin: parseIntParam(req.query.minMargin),
+        maxMargin: parseIntParam(req.query.maxMargin),
+        extraInnings: req.query.extraInnings !== undefined ? req.query.extraInnings === 'true' : undefined
+    };
+
+    // Leave out filters that were not given so they do not split the search cache
+    Object.keys(criteria).forEach(key => {
+        if (criteria[key as keyof GameSearchCriteria] === undefined) {
+            delete criteria[key as keyof GameSearchCriteria];
+        }
+    });
+
+    routeLogger.info('Processing game search request', { criteria });
+
+    try {
+        const result = await GameSearchService.searchGames(criteria, {
+            page: parseIntParam(req.query.page),
+            limit: parseIntParam(req.query.limit),
+            sort: req.query.sort as string | undefined,
+            direction: req.query.direction as string | undefined,
+            spoilerFree: req.query.spoilerFree === 'true'
+        });
+        res.json(result);
+    } catch (error: unknown) {
+        next(error);
+    }
+};
+
+/**
+ * Recommend the most exciting games of a season
+ *
+ * Ranks games by an excitement score from 0 to 100 built from lead changes,
+ * late comebacks, extra innings, the win probability swung by all plays and
+ * no-hit bids. Games are scored the first time their season is asked for and
+ * the scores are stored, so the first request for a season can take a while.
+ *
+ * @route GET /api/games/recommended
+ * @param {number} season - Season (required query parameter)
+ * @param {string} team - Team ID, home or away (optional query parameter)
+ * @param {number} limit - Games to return, at most 50; defaults to 10 (optional query parameter)
+ * @param {boolean} spoilerFree - Leave out final scores and keep only the excitement score of each game (optional query parameter)
+ * @returns {RecommendedGamesResponse} The games with their excitement, most exciting first
+ *
+ * @example
+ * // Request
+ * GET /api/games/recommended?team=CIN&season=2019&limit=1
+ *
+ * // Response
+ * {
+ *   "data": [
+ *     {
+ *       "gameId": "CIN201909150",
+ *       "date": "2019-09-15",
+ *       "gameNumber": 0,
+ *       "season": 2019,
+ *       "ballpark": "CIN09",
+ *       "innings": 11,
+ *       "margin": 1,
+ *       "attendance": 24311,
+ *       "home": { "id": "CIN", "displayName": "Cincinnati Reds", "runs": 4 },
+ *       "visitors": { "id": "NYN", "displayName": "New York Mets", "runs": 3 },
+ *       "excitement": {
+ *         "gameId": "CIN201909150",
+ *         "score": 71,
+ *         "leadChanges": 3,
+ *         "comebackRuns": 2,
+ *         "extraInnings": 2,
+ *         "wpSwing": 2.8134,
+ *         "noHitInnings": 0
+ *       }
+ *     }
+ *   ]
+ * }
+ */
+export const getRecommendedGames: RequestHandler = async (req, res, next) => {
+    const routeLogger = contextLogger({
+        route: 'getRecommendedGames'
+    });
+
+    const criteria: RecommendedGamesCriteria = {
+        season: parseInt(req.query.season as string, 10),
+        team: req.query.team as string | undefined,
+        limit: parseIntParam(req.query.limit),
+        spoilerFree: req.query.spoilerFree === 'true'
+    };
+
+    routeLogger.info('Processing recommended games request', { criteria });
+
+    try {
+        res.json(await GameSearchService.getRecommendedGames(criteria));
+    } catch (error: unknown) {
+        next(error);
+    }
+};
+
+const router = Router();
+
+router.get('/recommended', validateQuery(RecommendedGamesQuerySchema), getRecommendedGames);
+router.get('/', validateQuery(GameSearchQuerySchema), searchGames);
+
+export const GamesRouter = router;
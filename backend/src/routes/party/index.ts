@@ -0,0 +1,57 @@
+import { RequestHandler, Router } from 'express';
+import { WatchPartyService } from '../../services/game/party';
+import { NotFoundError } from '../../core/errors';
+import { contextLogger } from '../../core/logging';
+import { validateParams, PartyIdParamSchema } from '../../validation';
+
+export { attachWatchPartySocket } from './watchPartySocket';
+
+/**
+ * Get the current state of a watch party
+ *
+ * Lets a client check whether a party exists, and which game it is watching,
+ * before opening the WebSocket at `/ws/party/:partyId`.
+ *
+ * @route GET /api/party/:partyId
+ * @param {string} partyId - The ID of the party (path parameter)
+ * @returns {PartySnapshot} The party's game, host, members, latest state and chat
+ * @throws {NotFoundError} If nobody is connected to the party
+ *
+ * @example
+ * // Request
+ * GET /api/party/friday-night
+ *
+ * // Response (simplified)
+ * {
+ *   "partyId": "friday-night",
+ *   "gameId": "CIN201904150",
+ *   "hostId": "5d3c7c1e-...",
+ *   "announcerStyle": "classic",
+ *   "members": [{ "memberId": "5d3c7c1e-...", "name": "Sam", "isHost": true, "joinedAt": "..." }],
+ *   "state": { "currentPlay": 12, "game": { "inning": 2, ... }, ... },
+ *   "chat": []
+ * }
+ */
+export const getParty: RequestHandler = (req, res, next) => {
+    const { partyId } = req.params;
+
+    try {
+        const party = WatchPartyService.getParty(partyId);
+        if (!party) {
+            throw new NotFoundError(`Watch party ${partyId} not found`);
+        }
+
+        contextLogger({ route: 'getParty', partyId })
+            .info('Retrieved watch party', { members: party.members.length });
+
+        res.json(party);
+    } catch (error: unknown) {
+        next(error);
+    }
+};
+
+const router = Router();
+
+router.get('/:partyId', validateParams(PartyIdParamSchema), getParty);
+
+export const PartyRouter = router;
@@ -0,0 +1,134 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import { ZodError } from 'zod';
+import { WatchPartyService } from '../../services/game/party';
+import { PartyClientMessage, PartyServerMessage } from '../../services/interfaces';
+import { contextLogger, logger } from '../../core/logging';
+import {
+    PartyIdParamSchema,
+    PartyJoinQuerySchema,
+    PartyClientMessageSchema
+} from '../../validation';
+
+/**
+ * Path prefix of watch party WebSocket connections
+ */
+const PARTY_SOCKET_PATH = /^\/ws\/party\/([^/]+)$/;
+
+/**
+ * Policy violation close code, used when a connection is rejected
+ */
+const CLOSE_POLICY_VIOLATION = 1008;
+
+/**
+ * Attach the watch party WebSocket endpoint to an HTTP server
+ *
+ * Clients connect to `/ws/party/:partyId?name=<display name>&gameId=<game>`.
+ * The first member creates the party and becomes its host; the host sends
+ * `advance`, `seek` and `style` messages, and anyone can send `chat`. Every
+ * message is JSON as described in common/types/WatchPartyTypes. Errors are
+ * reported to the sender as `{ type: 'error', message }`.
+ *
+ * @param server The HTTP server the Express app listens on
+ * @returns The WebSocket server handling party connections
+ *
+ * @example
+ * // Client
+ * const socket = new WebSocket('ws://localhost:3001/ws/party/friday-night?name=Sam&gameId=CIN201904150');
+ * socket.onopen = () => socket.send(JSON.stringify({ type: 'advance' }));
+ */
+export function attachWatchPartySocket(server: Server): WebSocketServer {
+    const wss = new WebSocketServer({ noServer: true });
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const match = PARTY_SOCKET_PATH.exec(url.pathname);
+        if (!match) {
+            socket.destroy();
+            return;
+        }
+
+        wss.handleUpgrade(req, socket, head, ws => {
+            handleConnection(ws, decodeURIComponent(match[1]), url.searchParams);
+        });
+    });
+
+    logger.info('Watch party WebSocket endpoint attached', { path: '/ws/party/:partyId' });
+
+    return wss;
+}
+
+/**
+ * Join the party named in the URL and relay the connection's messages to it
+ */
+function handleConnection(ws: WebSocket, partyId: string, params: URLSearchParams): void {
+    const send = (message: PartyServerMessage) => {
+        if (ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify(message));
+        }
+    };
+    const reject = (message: string) => {
+        send({ type: 'error', message });
+        ws.close(CLOSE_POLICY_VIOLATION, message.slice(0, 120));
+    };
+
+    const partyIdResult = PartyIdParamSchema.safeParse({ partyId });
+    const joinResult = PartyJoinQuerySchema.safeParse(Object.fromEntries(params));
+    if (!partyIdResult.success) {
+        reject(formatZodError(partyIdResult.error));
+        return;
+    }
+    if (!joinResult.success) {
+        reject(formatZodError(joinResult.error));
+        return;
+    }
+
+    let memberId: string;
+    try {
+        memberId = WatchPartyService.join(partyId, joinResult.data, { send });
+    } catch (error) {
+        reject(error instanceof Error ? error.message : String(error));
+        return;
+    }
+
+    const socketLogger = contextLogger({
+        route: 'watchPartySocket',
+        partyId,
+        memberId
+    });
+
+    ws.on('message', async (data: RawData) => {
+        let message: PartyClientMessage;
+        try {
+            message = PartyClientMessageSchema.parse(JSON.parse(data.toString())) as PartyClientMessage;
+        } catch (error) {
+            send({
+                type: 'error',
+                message: error instanceof ZodError ? formatZodError(error) : 'Messages must be valid JSON'
+            });
+            return;
+        }
+
+        try {
+            await WatchPartyService.handleMessage(partyId, memberId, message);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            socketLogger.warn('Watch party message failed', { type: message.type, error: errorMessage });
+            send({ type: 'error', message: errorMessage });
+        }
+    });
+
+    ws.on('close', () => {
+        WatchPartyService.leave(partyId, memberId);
+    });
+}
+
+/**
+ * Format a Zod error the same way the validation middleware does
+ */
+function formatZodError(error: ZodError): string {
+    return error.errors
+        .map(err => `${err.path.join('.')}: ${err.message}`)
+        .join(', ');
+}
@@ -46,8 +46,15 @@ export function parseDetailedEvent(eventString: string): DetailedBaseballEvent {
   const primaryEvent = parts[0].trim();
   const modifiers = parts.slice(1).map(p => p.trim());
   
-  // Parse the primary event
-  parsePrimaryEvent(primaryEvent, event);
+  // Parse the primary event; strikeouts and walks can be combined with a
+  // base running event ("K+SB2", "W+WP")
+  const compoundMatch = primaryEvent.match(/^(K\d*|W|IW|I)\+([A-Z].*)$/);
+  if (compoundMatch) {
+    parsePrimaryEvent(compoundMatch[1] === 'I' ? 'IW' : compoundMatch[1], event);
+    parseRunnerEvents(compoundMatch[2], event);
+  } else {
+    parsePrimaryEvent(primaryEvent, event);
+  }
   
   // Parse modifiers
   parseModifiers(modifiers, event);
@@ -75,22 +82,11 @@ function parsePrimaryEvent(primaryEvent: string, event: DetailedBaseballEvent):
   // Handle base running events FIRST (before hits) to avoid SB being parsed as S
   if (/^SB[23H]/.test(primaryEvent)) {
     event.primaryEventType = 'SB';
-    const base = primaryEvent.substring(2);
-    event.baseRunning.push({
-      runner: '',  // Will be filled in from context
-      fromBase: base === '2' ? '1' : base === '3' ? '2' : '3',
-      toBase: base
-    });
+    parseRunnerEvents(primaryEvent, event);
     return;
   } else if (/^CS[23H]/.test(primaryEvent)) {
     event.primaryEventType = 'CS';
-    const base = primaryEvent.substring(2);
-    event.baseRunning.push({
-      runner: '',  // Will be filled in from context
-      fromBase: base === '2' ? '1' : base === '3' ? '2' : '3',
-      toBase: base,
-      isOut: true
-    });
+    parseRunnerEvents(primaryEvent, event);
     return;
   }
 
@@ -117,6 +113,13 @@ function parsePrimaryEvent(primaryEvent: string, event: DetailedBaseballEvent):
     return;
   }
 
+  // Handle defensive indifference and other advances BEFORE doubles (to avoid
+  // DI being parsed as D)
+  if (primaryEvent === 'DI' || primaryEvent === 'OA') {
+    event.primaryEventType = primaryEvent;
+    return;
+  }
+
   // Handle hits (S, D, T, HR, DGR)
   // Note: DGR must be checked before D to prevent false match
   if (/^S\d?/.test(primaryEvent)) {
@@ -209,22 +212,10 @@ function parsePrimaryEvent(primaryEvent: string, event: DetailedBaseballEvent):
   // Handle base running events (SB and CS handled above)
   else if (/^PO[123]/.test(primaryEvent)) {
     event.primaryEventType = 'PO';
-    const base = primaryEvent.substring(2);
-    event.baseRunning.push({
-      runner: '',  // Will be filled in from context
-      fromBase: base,
-      toBase: base,
-      isOut: true
-    });
+    parseRunnerEvents(primaryEvent, event);
   } else if (/^POCS[23H]/.test(primaryEvent)) {
     event.primaryEventType = 'POCS';
-    const base = primaryEvent.substring(4);
-    event.baseRunning.push({
-      runner: '',  // Will be filled in from context
-      fromBase: base === '2' ? '1' : base === '3' ? '2' : '3',
-      toBase: base,
-      isOut: true
-    });
+    parseRunnerEvents(primaryEvent, event);
   }
   
   // Handle miscellaneous events
@@ -238,6 +229,12 @@ function parsePrimaryEvent(primaryEvent: string, event: DetailedBaseballEvent):
     event.primaryEventType = 'NP';
   }
 
+  // Handle fielding plays that put out runners, marked by the base they started
+  // from (e.g., 64(1)3, 54(1), 8(B)84(2))
+  else if (/^([1-9]+\([123B]\))+[1-9]*$/.test(primaryEvent)) {
+    parseRunnerPutouts(primaryEvent, event);
+  }
+
   // Handle fielder-to-fielder plays (e.g., 31, 643) and single fielder plays (e.g., 7)
   else if (/^[1-9]+$/.test(primaryEvent)) {
     // Determine if it's a double play or triple play
@@ -274,6 +271,93 @@ function parsePrimaryEvent(primaryEvent: string, event: DetailedBaseballEvent):
   }
 }
 
+/**
+ * Base a runner on the given base is headed to
+ */
+const NEXT_BASE: Record<string, string> = { B: '1', '1': '2', '2': '3', '3': 'H' };
+
+/**
+ * Base a runner stealing the given base started from
+ */
+const PREVIOUS_BASE: Record<string, string> = { '2': '1', '3': '2', H: '3' };
+
+/**
+ * Parses base running events, alone or after a strikeout or walk, separated by
+ * semicolons (e.g., SB2, SB3;SB2, CS2(24), PO1(E3), POCS2(1361), WP)
+ *
+ * Caught stealing and pickoffs negated by an error ("CS2(2E4)") leave the
+ * runner safe. Wild pitches, passed balls and the like carry no advance of
+ * their own; the runners' advances follow in the advance section.
+ *
+ * @param runnerEvents The base running events
+ * @param event The event object to update
+ */
+function parseRunnerEvents(runnerEvents: string, event: DetailedBaseballEvent): void {
+  for (const runnerEvent of runnerEvents.split(';')) {
+    const match = runnerEvent.match(/^(SB|CS|POCS|PO)([123H])(?:\(([^)]*)\))?/);
+    if (!match) {
+      continue;
+    }
+
+    const [, type, base, details] = match;
+    const isError = details !== undefined && details.includes('E');
+    const fielders = details && /^\d+$/.test(details) ? details.split('').map(f => parseInt(f, 10)) : undefined;
+
+    if (type === 'PO') {
+      event.baseRunning.push({
+        runner: '',  // Will be filled in from context
+        fromBase: base,
+        toBase: base,
+        isOut: !isError,
+        fielders
+      });
+    } else {
+      event.baseRunning.push({
+        runner: '',  // Will be filled in from context
+        fromBase: PREVIOUS_BASE[base],
+        toBase: base,
+        isOut: type !== 'SB' && !isError,
+        fielders
+      });
+    }
+  }
+}
+
+/**
+ * Parses a fielding play that puts out runners, each marked by the base they
+ * started from: "64(1)3" forces the runner from first and retires the batter
+ * at first, "54(1)" forces the runner while the batter reaches first, and
+ * "8(B)84(2)" catches the batter's liner and doubles the runner off second.
+ * @param primaryEvent The primary event string
+ * @param event The event object to update
+ */
+function parseRunnerPutouts(primaryEvent: string, event: DetailedBaseballEvent): void {
+  const markers = [...primaryEvent.matchAll(/\(([123B])\)/g)].map(match => match[1]);
+  // The batter is out when marked, or when the last fielder put them out at first
+  const batterOut = markers.includes('B') || /\d$/.test(primaryEvent);
+
+  for (const base of markers.filter(marker => marker !== 'B')) {
+    event.baseRunning.push({
+      runner: '',  // Will be filled in from context
+      fromBase: base,
+      toBase: NEXT_BASE[base],
+      isOut: true
+    });
+  }
+  if (!batterOut) {
+    event.baseRunning.push({ runner: '', fromBase: 'B', toBase: '1' });
+  }
+
+  parseFielders(primaryEvent.replace(/\([123B]\)/g, ''), event);
+
+  const firstFielder = event.fielders[0]?.position ?? 0;
+  event.primaryEventType = firstFielder >= 7 ? 'F' : 'G';
+  event.isOut = true;
+  event.outCount = markers.length + (batterOut && !markers.includes('B') ? 1 : 0);
+  event.isDoublePlay = event.outCount === 2;
+  event.isTriplePlay = event.outCount === 3;
+}
+
 /**
  * Parses modifiers in the event string
  * @param modifiers Array of modifier strings
@@ -365,6 +449,14 @@ function parseModifiers(modifiers: string[], event: DetailedBaseballEvent): void
 
 /**
  * Parses base advancement information
+ *
+ * Advances are written from the base the runner (or the batter, B) started on
+ * to the base they reached, with "X" instead of "-" when they were put out.
+ * Parenthesized details follow: the fielders making the out ("1X3(25)"), an
+ * error letting the runner advance or negating the out ("1-3(E8)", "2X3(5E6)"),
+ * or notes such as (TH). A run marked (RBI) is batted in and one marked (NR) or
+ * (NORBI) is not, whatever the event; (UR) marks an unearned run.
+ *
  * @param advancementParts Array of advancement strings
  * @param event The event object to update
  */
@@ -373,19 +465,30 @@ function parseBaseAdvancements(advancementParts: string[], event: DetailedBaseba
     const advances = part.split(';');
     
     for (const advance of advances) {
-      const match = advance.match(/^([123])-([123H])(?:\(([1-9]+)\))?$/);
+      const match = advance.match(/^([B123])([-X])([123H])((?:\([^)]*\))*)$/);
       if (match) {
-        const fromBase = match[1];
-        const toBase = match[2];
-        const fielders = match[3] ? match[3].split('').map(f => parseInt(f, 10)) : undefined;
-        
-        event.baseRunning.push({
+        const [, fromBase, separator, toBase, detailGroups] = match;
+        const details = [...detailGroups.matchAll(/\(([^)]*)\)/g)].map(group => group[1]);
+        const fielderDetail = details.find(detail => /^[1-9]+$/.test(detail));
+        const fielders = fielderDetail ? fielderDetail.split('').map(f => parseInt(f, 10)) : undefined;
+        const isError = details.some(detail => /^\d*E\d/.test(detail));
+
+        const baseRunning: BaseRunningInfo = {
           runner: '',  // Will be filled in from context
           fromBase,
           toBase,
-          isOut: fielders !== undefined,
+          isOut: !isError && (separator === 'X' || fielders !== undefined),
           fielders
-        });
+        };
+        if (details.includes('RBI')) {
+          baseRunning.rbi = true;
+        } else if (details.includes('NR') || details.includes('NORBI')) {
+          baseRunning.rbi = false;
+        }
+        if (details.includes('UR')) {
+          baseRunning.unearned = true;
+        }
+        event.baseRunning.push(baseRunning);
       }
     }
   }
@@ -62,6 +62,8 @@ function translatePrimaryEvent(event: DetailedBaseballEvent): string {
     'WP': 'Wild pitch',
     'PB': 'Passed ball',
     'BK': 'Balk',
+    'DI': 'Defensive indifference',
+    'OA': 'Runner advanced',
     'DGR': 'Ground rule double',
     'NP': 'No play',
     'SH': 'Sacrifice bunt',
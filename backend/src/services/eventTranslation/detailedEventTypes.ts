@@ -68,6 +68,8 @@ export enum BasicEventType {
   WildPitch = 'WP',
   PassedBall = 'PB',
   Balk = 'BK',
+  DefensiveIndifference = 'DI',
+  OtherAdvance = 'OA',
   GroundRuleDouble = 'DGR',
   NoPlay = 'NP',
 
@@ -104,6 +106,8 @@ export const EVENT_TYPE_DESCRIPTIONS: Record<string, string> = {
   'WP': 'Wild pitch',
   'PB': 'Passed ball',
   'BK': 'Balk',
+  'DI': 'Defensive indifference',
+  'OA': 'Runner advanced',
   'DGR': 'Ground rule double',
   'NP': 'No play',
   'SH': 'Sacrifice bunt',
@@ -148,11 +152,13 @@ export interface LocationInfo {
  */
 export interface BaseRunningInfo {
   runner: string;  // Runner ID or position
-  fromBase: string;  // 1, 2, 3, H
+  fromBase: string;  // B (the batter), 1, 2, 3
   toBase: string;  // 1, 2, 3, H
   isOut?: boolean;
   outNumber?: number;
   fielders?: number[];  // Fielders involved in the out
+  rbi?: boolean;  // True when marked (RBI), false when marked (NR) or (NORBI)
+  unearned?: boolean;  // True when marked (UR)
 }
 
 /**
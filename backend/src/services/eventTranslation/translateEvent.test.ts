@@ -1062,6 +1062,90 @@ describe('Event Translation', () => {
         expect(event.primaryEventType).toBe('HR');
         expect(event.baseRunning.length).toBe(3);
       });
+
+      it('should parse batter advances (S8.B-2)', () => {
+        const event = parseDetailedEvent('S8.B-2');
+        expect(event.baseRunning[0]).toMatchObject({ fromBase: 'B', toBase: '2', isOut: false });
+      });
+
+      it('should parse runners put out advancing (S9.1X3(95))', () => {
+        const event = parseDetailedEvent('S9.1X3(95)');
+        expect(event.baseRunning[0]).toMatchObject({ fromBase: '1', toBase: '3', isOut: true, fielders: [9, 5] });
+      });
+
+      it('should parse advances on errors (S8.1-3(E8);2X3(5E6))', () => {
+        const event = parseDetailedEvent('S8.1-3(E8);2X3(5E6)');
+        expect(event.baseRunning[0]).toMatchObject({ fromBase: '1', toBase: '3', isOut: false });
+        expect(event.baseRunning[1]).toMatchObject({ fromBase: '2', toBase: '3', isOut: false });
+      });
+
+      it('should parse advances with notes (3-H(UR)(NR))', () => {
+        const event = parseDetailedEvent('WP.3-H(UR)(NR)');
+        expect(event.baseRunning[0]).toMatchObject({ fromBase: '3', toBase: 'H', isOut: false, rbi: false, unearned: true });
+      });
+
+      it('should parse runs batted in on an error (E6.3-H(RBI);1-2)', () => {
+        const event = parseDetailedEvent('E6.3-H(RBI);1-2');
+        expect(event.baseRunning[0]).toMatchObject({ fromBase: '3', toBase: 'H', rbi: true });
+        expect(event.baseRunning[1]).not.toHaveProperty('rbi');
+        expect(event.baseRunning[1]).not.toHaveProperty('unearned');
+      });
+    });
+
+    // -------------------------------------------------------------------------
+    // 1.24a Runners Put Out in the Fielding Sequence and Combined Events
+    // -------------------------------------------------------------------------
+    describe('runner putouts and combined events', () => {
+      it('should parse 64(1)3/GDP (force at second, batter out at first)', () => {
+        const event = parseDetailedEvent('64(1)3/GDP');
+        expect(event.primaryEventType).toBe('G');
+        expect(event.isDoublePlay).toBe(true);
+        expect(event.outCount).toBe(2);
+        expect(event.fielders.map(f => f.position)).toEqual([6, 4, 3]);
+        expect(event.baseRunning).toEqual([{ runner: '', fromBase: '1', toBase: '2', isOut: true }]);
+      });
+
+      it('should parse 54(1)/FO (force at second, batter safe at first)', () => {
+        const event = parseDetailedEvent('54(1)/FO');
+        expect(event.outCount).toBe(1);
+        expect(event.baseRunning[1]).toMatchObject({ fromBase: 'B', toBase: '1' });
+      });
+
+      it('should parse 8(B)84(2)/LDP (liner caught, runner doubled off)', () => {
+        const event = parseDetailedEvent('8(B)84(2)/LDP');
+        expect(event.primaryEventType).toBe('F');
+        expect(event.outCount).toBe(2);
+        expect(event.baseRunning).toHaveLength(1);
+      });
+
+      it('should parse K+SB2 (strikeout and stolen base)', () => {
+        const event = parseDetailedEvent('K+SB2');
+        expect(event.primaryEventType).toBe('K');
+        expect(event.baseRunning[0]).toMatchObject({ fromBase: '1', toBase: '2', isOut: false });
+      });
+
+      it('should parse W+WP.1-2 (walk and wild pitch)', () => {
+        const event = parseDetailedEvent('W+WP.1-2');
+        expect(event.primaryEventType).toBe('W');
+        expect(event.baseRunning[0]).toMatchObject({ fromBase: '1', toBase: '2' });
+      });
+
+      it('should parse SB3;SB2 (double steal)', () => {
+        const event = parseDetailedEvent('SB3;SB2');
+        expect(event.primaryEventType).toBe('SB');
+        expect(event.baseRunning.map(br => br.fromBase)).toEqual(['2', '1']);
+      });
+
+      it('should parse CS2(2E4) (caught stealing negated by an error)', () => {
+        const event = parseDetailedEvent('CS2(2E4)');
+        expect(event.baseRunning[0]).toMatchObject({ toBase: '2', isOut: false });
+      });
+
+      it('should parse DI.1-2 (defensive indifference, not a double)', () => {
+        const event = parseDetailedEvent('DI.1-2');
+        expect(event.primaryEventType).toBe('DI');
+        expect(event.baseRunning[0]).toMatchObject({ fromBase: '1', toBase: '2' });
+      });
     });
 
     // -------------------------------------------------------------------------
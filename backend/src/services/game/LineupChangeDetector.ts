@@ -712,4 +712,11 @@ export class LineupChangeDetector {
     console.log(`[LINEUP] No lineup state changes needed for this play`);
     return null;
   }
+
+  /**
+   * The lineup changes detected by process(), empty if there were none
+   */
+  public getChanges(): LineupChangeData[] {
+    return this.changes;
+  }
 }
@@ -0,0 +1,191 @@
+import { GameExcitement } from '../../../../../common/types/GameExcitementTypes';
+import {
+  GameExcitementRow,
+  GameInfoRow,
+  IExcitementService,
+  IGameExcitementRepository,
+  IPlayDataService,
+  IWinProbabilityService
+} from '../../interfaces';
+import { BaseService } from '../../BaseService';
+import { PlayDataService } from '../playData/PlayDataService';
+import { WinProbabilityService } from './WinProbabilityService';
+import { gameExcitementRepository } from '../../../database/repositories/GameExcitementRepository';
+import { NotFoundError } from '../../../core/errors';
+import { contextLogger } from '../../../core/logging';
+import { computeExcitement } from './excitement';
+
+/**
+ * Dependencies for ExcitementService
+ */
+export interface ExcitementDependencies {
+  playDataService?: IPlayDataService;
+  winProbabilityService?: IWinProbabilityService;
+  gameExcitementRepository?: IGameExcitementRepository;
+}
+
+/**
+ * Service for the excitement of games: how many lead changes, late comebacks,
+ * extra innings, win probability swings and no-hit bids a game had, and a
+ * score from 0 to 100 that ranks games by them
+ *
+ * Scores are stored in the game_excitement table. The games of a season are
+ * scored the first time its most exciting games are asked for; later requests
+ * only score games added since.
+ *
+ * @example
+ * ```typescript
+ * const top = await ExcitementService.getMostExciting(2019, 'CIN', 10);
+ * ```
+ */
+export class ExcitementService extends BaseService implements IExcitementService {
+  private playDataService: IPlayDataService;
+  private winProbabilityService: IWinProbabilityService;
+  private gameExcitementRepository: IGameExcitementRepository;
+
+  /**
+   * Seasons being scored, so concurrent requests for the same games share the work
+   */
+  private pending = new Map<string, Promise<void>>();
+
+  // Singleton instance for backward compatibility during transition
+  private static instance: ExcitementService;
+
+  /**
+   * Creates a new instance of the ExcitementService
+   * @param dependencies Optional dependencies to inject
+   */
+  constructor(dependencies: ExcitementDependencies = {}) {
+    super(dependencies);
+    this.playDataService = dependencies.playDataService || PlayDataService.getInstance();
+    this.winProbabilityService = dependencies.winProbabilityService || WinProbabilityService.getInstance();
+    this.gameExcitementRepository = dependencies.gameExcitementRepository || gameExcitementRepository;
+  }
+
+  /**
+   * Gets the singleton instance
+   * @returns The singleton instance
+   */
+  public static getInstance(): ExcitementService {
+    if (!ExcitementService.instance) {
+      ExcitementService.instance = new ExcitementService();
+    }
+    return ExcitementService.instance;
+  }
+
+  /**
+   * Computes how exciting a game was
+   * @param gameId The game ID
+   * @returns The game's excitement
+   * @throws {NotFoundError} If the game has no plays
+   */
+  public async getExcitement(gameId: string): Promise<GameExcitement> {
+    const plays = await this.playDataService.fetchAllPlaysForGame(gameId);
+    if (plays.length === 0) {
+      throw new NotFoundError(`No plays found for game ${gameId}`);
+    }
+
+    const { points } = await this.winProbabilityService.getWinProbability(gameId);
+    return { ...computeExcitement(plays, points), gameId };
+  }
+
+  /**
+   * Finds the most exciting games of a season, scoring the games that have
+   * not been scored yet
+   * @param season The season
+   * @param team Only games of this team, home or away
+   * @param limit The most games to return
+   * @returns The games and their excitement, most exciting first
+   */
+  public async getMostExciting(
+    season: number,
+    team: string | undefined,
+    limit: number
+  ): Promise<{ game: GameInfoRow; excitement: GameExcitement }[]> {
+    const key = `${season}:${team ?? ''}`;
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.scoreGames(season, team).finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    await pending;
+
+    const rows = await this.gameExcitementRepository.findMostExciting(season, team, limit);
+    return rows.map(row => ({ game: row, excitement: this.toExcitement(row) }));
+  }
+
+  /**
+   * Scores and stores the games of a season that have no score yet. Games
+   * that cannot be scored (no plays) are logged and left out.
+   */
+  private async scoreGames(season: number, team: string | undefined): Promise<void> {
+    const serviceLogger = contextLogger({
+      service: 'ExcitementService',
+      method: 'scoreGames'
+    });
+
+    const gameIds = await this.gameExcitementRepository.findUnscoredGameIds(season, team);
+    if (gameIds.length === 0) {
+      return;
+    }
+
+    serviceLogger.info('Scoring game excitement', { season, team, games: gameIds.length });
+
+    const rows: GameExcitementRow[] = [];
+    // One game at a time, so scoring a season does not flood the database
+    for (const gameId of gameIds) {
+      try {
+        rows.push(this.toRow(await this.getExcitement(gameId)));
+      } catch (error) {
+        serviceLogger.warn('Error scoring game excitement', { gameId, error });
+      }
+    }
+
+    await this.gameExcitementRepository.saveExcitement(rows);
+
+    serviceLogger.info('Scored game excitement', { season, team, games: rows.length });
+  }
+
+  /**
+   * Converts a game's excitement to a game_excitement row
+   */
+  private toRow(excitement: GameExcitement): GameExcitementRow {
+    return {
+      gid: excitement.gameId,
+      score: excitement.score,
+      lead_changes: excitement.leadChanges,
+      comeback_runs: excitement.comebackRuns,
+      extra_innings: excitement.extraInnings,
+      wp_swing: excitement.wpSwing,
+      no_hit_innings: excitement.noHitInnings
+    };
+  }
+
+  /**
+   * Converts a game_excitement row to a game's excitement
+   */
+  private toExcitement(row: GameExcitementRow): GameExcitement {
+    return {
+      gameId: row.gid,
+      score: Number(row.score),
+      leadChanges: Number(row.lead_changes),
+      comebackRuns: Number(row.comeback_runs),
+      extraInnings: Number(row.extra_innings),
+      wpSwing: Number(row.wp_swing),
+      noHitInnings: Number(row.no_hit_innings)
+    };
+  }
+
+  // Static methods for backward compatibility during transition
+  public static async getExcitement(gameId: string): Promise<GameExcitement> {
+    return ExcitementService.getInstance().getExcitement(gameId);
+  }
+
+  public static async getMostExciting(
+    season: number,
+    team: string | undefined,
+    limit: number
+  ): Promise<{ game: GameInfoRow; excitement: GameExcitement }[]> {
+    return ExcitementService.getInstance().getMostExciting(season, team, limit);
+  }
+}
@@ -0,0 +1,157 @@
+import { RunExpectancyMatrix } from '../../../../../common/types/RunExpectancyTypes';
+import { IRunExpectancyRepository, IRunExpectancyService, RunExpectancyRow } from '../../interfaces';
+import { BaseService } from '../../BaseService';
+import { runExpectancyRepository } from '../../../database/repositories/RunExpectancyRepository';
+import { BadRequestError, NotFoundError } from '../../../core/errors';
+import { contextLogger } from '../../../core/logging';
+import { BASE_STATES, buildRunExpectancyStates } from './runExpectancy';
+
+/**
+ * Dependencies for RunExpectancyService
+ */
+export interface RunExpectancyDependencies {
+  runExpectancyRepository?: IRunExpectancyRepository;
+}
+
+/**
+ * Number of base-out states in a complete table
+ */
+const STATE_COUNT = BASE_STATES.length * 3;
+
+/**
+ * Service for run expectancy: the runs a team can expect to score from each
+ * of the 24 base-out states to the end of the half-inning
+ *
+ * A table is computed once per season or range of seasons from the plays
+ * table, by averaging the runs scored after every play that started in a
+ * state, and stored in the run_expectancy table. Later requests read the
+ * stored table. Win probability, leverage and commentary emphasis build on it.
+ *
+ * @example
+ * ```typescript
+ * const matrix = await RunExpectancyService.getRunExpectancy(2019);
+ * const expected = getExpectedRuns(matrix, toBaseState(onFirst, onSecond, onThird), outs);
+ * ```
+ */
+export class RunExpectancyService extends BaseService implements IRunExpectancyService {
+  private runExpectancyRepository: IRunExpectancyRepository;
+
+  /**
+   * Tables being computed, so concurrent requests for the same seasons share one query
+   */
+  private pending = new Map<string, Promise<RunExpectancyMatrix>>();
+
+  // Singleton instance for backward compatibility during transition
+  private static instance: RunExpectancyService;
+
+  /**
+   * Creates a new instance of the RunExpectancyService
+   * @param dependencies Optional dependencies to inject
+   */
+  constructor(dependencies: RunExpectancyDependencies = {}) {
+    super(dependencies);
+    this.runExpectancyRepository = dependencies.runExpectancyRepository || runExpectancyRepository;
+  }
+
+  /**
+   * Gets the singleton instance
+   * @returns The singleton instance
+   */
+  public static getInstance(): RunExpectancyService {
+    if (!RunExpectancyService.instance) {
+      RunExpectancyService.instance = new RunExpectancyService();
+    }
+    return RunExpectancyService.instance;
+  }
+
+  /**
+   * Gets the run expectancy table of a season or a range of seasons,
+   * computing and storing it the first time it is asked for
+   * @param startSeason The first season
+   * @param endSeason The last season; defaults to startSeason
+   * @returns The 24 base-out states and their run expectancies
+   * @throws {BadRequestError} If the range ends before it starts
+   * @throws {NotFoundError} If there are no plays in the seasons
+   */
+  public async getRunExpectancy(startSeason: number, endSeason: number = startSeason): Promise<RunExpectancyMatrix> {
+    if (endSeason < startSeason) {
+      throw new BadRequestError(`Season range ${startSeason}-${endSeason} ends before it starts`);
+    }
+
+    const stored = await this.runExpectancyRepository.getRunExpectancy(startSeason, endSeason);
+    if (stored.length === STATE_COUNT) {
+      return this.toMatrix(stored);
+    }
+
+    const key = `${startSeason}:${endSeason}`;
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.computeRunExpectancy(startSeason, endSeason).finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Computes a run expectancy table from the plays table and stores it.
+   * A table that cannot be stored is still returned, and computed again next time.
+   */
+  private async computeRunExpectancy(startSeason: number, endSeason: number): Promise<RunExpectancyMatrix> {
+    const serviceLogger = contextLogger({
+      service: 'RunExpectancyService',
+      method: 'computeRunExpectancy'
+    });
+
+    serviceLogger.info('Computing run expectancy', { startSeason, endSeason });
+
+    const totals = await this.runExpectancyRepository.getBaseOutRuns(startSeason, endSeason);
+    if (totals.length === 0) {
+      throw new NotFoundError(
+        `No plays found for ${startSeason === endSeason ? `season ${startSeason}` : `seasons ${startSeason}-${endSeason}`}`
+      );
+    }
+
+    const computedAt = new Date();
+    const rows: RunExpectancyRow[] = buildRunExpectancyStates(totals).map(state => ({
+      start_season: startSeason,
+      end_season: endSeason,
+      bases: state.bases,
+      outs: state.outs,
+      occurrences: state.occurrences,
+      runs: totals.find(total => total.bases === state.bases && total.outs === state.outs)?.runs ?? 0,
+      run_expectancy: state.runExpectancy,
+      computed_at: computedAt
+    }));
+
+    try {
+      await this.runExpectancyRepository.saveRunExpectancy(rows);
+    } catch (error) {
+      serviceLogger.warn('Error saving run expectancy', { startSeason, endSeason, error });
+    }
+
+    serviceLogger.info('Computed run expectancy', {
+      startSeason,
+      endSeason,
+      plays: rows.reduce((sum, row) => sum + row.occurrences, 0)
+    });
+
+    return this.toMatrix(rows);
+  }
+
+  /**
+   * Turns the rows of a table into a run expectancy matrix
+   */
+  private toMatrix(rows: RunExpectancyRow[]): RunExpectancyMatrix {
+    return {
+      startSeason: rows[0].start_season,
+      endSeason: rows[0].end_season,
+      states: buildRunExpectancyStates(rows),
+      computedAt: new Date(rows[0].computed_at).toISOString()
+    };
+  }
+
+  // Static methods for backward compatibility during transition
+  public static async getRunExpectancy(startSeason: number, endSeason?: number): Promise<RunExpectancyMatrix> {
+    return RunExpectancyService.getInstance().getRunExpectancy(startSeason, endSeason);
+  }
+}
@@ -0,0 +1,123 @@
+import { PlayData } from '../../../../../common/types/PlayData';
+import { RunExpectancyMatrix } from '../../../../../common/types/RunExpectancyTypes';
+import { WinProbabilitySeries } from '../../../../../common/types/WinProbabilityTypes';
+import { IPlayDataService, IRunExpectancyService, IWinProbabilityService } from '../../interfaces';
+import { BaseService } from '../../BaseService';
+import { PlayDataService } from '../playData/PlayDataService';
+import { simulatedGameStore, SimulatedGameStore } from '../simulation/SimulatedGameStore';
+import { RunExpectancyService } from './RunExpectancyService';
+import { CacheManager } from '../../../core/caching';
+import { NotFoundError } from '../../../core/errors';
+import { contextLogger } from '../../../core/logging';
+import { buildWinProbabilityPoints, createWinProbabilityModel } from './winProbability';
+
+/**
+ * Dependencies for WinProbabilityService
+ */
+export interface WinProbabilityDependencies {
+  playDataService?: IPlayDataService;
+  runExpectancyService?: IRunExpectancyService;
+  simulatedGameStore?: SimulatedGameStore;
+}
+
+/**
+ * First season whose extra innings start with a runner on second
+ */
+const EXTRA_INNINGS_RUNNER_SEASON = 2020;
+
+/**
+ * Service for win probability: the home team's chances of winning before and
+ * after every play of a game, and the win probability each play added
+ *
+ * Probabilities come from the inning, half, outs, runners and score
+ * differential (see createWinProbabilityModel), in the run environment of the
+ * game's season. Without a run expectancy table for the season, league
+ * averages are used. A game's plays do not change, so series are cached.
+ *
+ * @example
+ * ```typescript
+ * const series = await WinProbabilityService.getWinProbability('CIN201904150');
+ * const swing = series.points.find(point => point.playIndex === 42)?.wpa;
+ * ```
+ */
+export class WinProbabilityService extends BaseService implements IWinProbabilityService {
+  private playDataService: IPlayDataService;
+  private runExpectancyService: IRunExpectancyService;
+  private simulatedGameStore: SimulatedGameStore;
+  private seriesCache = new CacheManager<string, WinProbabilitySeries>({ ttl: 3600000 }); // 1 hour TTL
+
+  // Singleton instance for backward compatibility during transition
+  private static instance: WinProbabilityService;
+
+  /**
+   * Creates a new instance of the WinProbabilityService
+   * @param dependencies Optional dependencies to inject
+   */
+  constructor(dependencies: WinProbabilityDependencies = {}) {
+    super(dependencies);
+    this.playDataService = dependencies.playDataService || PlayDataService.getInstance();
+    this.runExpectancyService = dependencies.runExpectancyService || RunExpectancyService.getInstance();
+    this.simulatedGameStore = dependencies.simulatedGameStore || simulatedGameStore;
+  }
+
+  /**
+   * Gets the singleton instance
+   * @returns The singleton instance
+   */
+  public static getInstance(): WinProbabilityService {
+    if (!WinProbabilityService.instance) {
+      WinProbabilityService.instance = new WinProbabilityService();
+    }
+    return WinProbabilityService.instance;
+  }
+
+  /**
+   * Gets the home team's win probability before and after every play of a game
+   * @param gameId The game ID, of a replay or a simulated game
+   * @returns One point per play
+   * @throws {NotFoundError} If the game has no plays
+   */
+  public async getWinProbability(gameId: string): Promise<WinProbabilitySeries> {
+    return this.seriesCache.getOrCompute(gameId, async () => {
+      const simulated = this.simulatedGameStore.get(gameId);
+      const plays: PlayData[] = simulated?.plays ?? await this.playDataService.fetchAllPlaysForGame(gameId);
+      if (plays.length === 0) {
+        throw new NotFoundError(`No plays found for game ${gameId}`);
+      }
+
+      const season = simulated?.season ?? Number(gameId.slice(3, 7));
+      const model = createWinProbabilityModel(
+        await this.getRunExpectancy(gameId, season),
+        { extraInningsRunner: season >= EXTRA_INNINGS_RUNNER_SEASON }
+      );
+
+      return {
+        gameId,
+        season,
+        points: buildWinProbabilityPoints(plays, model)
+      };
+    });
+  }
+
+  /**
+   * Gets the run expectancy table of a season. Without one, the model falls
+   * back to league averages, so a failure is logged rather than thrown.
+   */
+  private async getRunExpectancy(gameId: string, season: number): Promise<RunExpectancyMatrix | undefined> {
+    try {
+      return await this.runExpectancyService.getRunExpectancy(season);
+    } catch (error) {
+      contextLogger({
+        service: 'WinProbabilityService',
+        method: 'getRunExpectancy',
+        gameId
+      }).warn('No run expectancy table for season, using league averages', { season, error });
+      return undefined;
+    }
+  }
+
+  // Static methods for backward compatibility during transition
+  public static async getWinProbability(gameId: string): Promise<WinProbabilitySeries> {
+    return WinProbabilityService.getInstance().getWinProbability(gameId);
+  }
+}
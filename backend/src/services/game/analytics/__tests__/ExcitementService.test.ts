@@ -0,0 +1,198 @@
+/**
+ * ExcitementService Unit Tests
+ *
+ * These tests check what counts toward a game's excitement (lead changes, a
+ * late comeback, extra innings, win probability swings, no-hit bids), that a
+ * close, back-and-forth game outscores a blowout, and that the service scores
+ * and stores only the games that have no score yet.
+ */
+
+import { PlayData } from '../../../../../../common/types/PlayData';
+import { WinProbabilityPoint } from '../../../../../../common/types/WinProbabilityTypes';
+import {
+  GameExcitementRow,
+  GameInfoRow,
+  IGameExcitementRepository,
+  IPlayDataService,
+  IWinProbabilityService
+} from '../../../interfaces';
+
+// Keep the real repositories (and their database connection) out of the test
+jest.mock('../../../../database/repositories/GameExcitementRepository', () => ({
+  gameExcitementRepository: {}
+}));
+
+jest.mock('../WinProbabilityService', () => ({
+  WinProbabilityService: {
+    getInstance: jest.fn(() => ({}))
+  }
+}));
+
+jest.mock('../../playData/PlayDataService', () => ({
+  PlayDataService: {
+    getInstance: jest.fn(() => ({}))
+  }
+}));
+
+import { ExcitementService } from '../ExcitementService';
+import { computeExcitement } from '../excitement';
+import { NotFoundError } from '../../../../core/errors';
+
+/**
+ * Builds a play between PIT (visitors) and CIN (home)
+ */
+function play(pn: number, inning: number, topBot: number, event: string, runs = 0): PlayData {
+  return {
+    gid: 'CIN201904150',
+    pn,
+    inning,
+    top_bot: topBot,
+    batteam: topBot === 0 ? 'PIT' : 'CIN',
+    pitteam: topBot === 0 ? 'CIN' : 'PIT',
+    batter: `b${pn}`,
+    pitcher: 'p',
+    outs_pre: 0,
+    outs_post: 1,
+    event,
+    runs
+  };
+}
+
+function points(...wpas: number[]): WinProbabilityPoint[] {
+  return wpas.map(wpa => ({ wpa } as WinProbabilityPoint));
+}
+
+// PIT leads 1-0 and 3-1, CIN ties it in the 8th and wins it in the 11th
+const comeback: PlayData[] = [
+  play(1, 1, 0, 'S8', 1),
+  play(2, 2, 1, 'HR/F7', 1),
+  play(3, 3, 1, 'K'),
+  play(4, 7, 0, 'D9', 2),
+  play(5, 8, 1, 'HR/F8', 2),
+  play(6, 11, 1, 'S7', 1)
+];
+
+describe('computeExcitement', () => {
+  it('counts lead changes, the late deficit the winner overcame and extra innings', () => {
+    const excitement = computeExcitement(comeback, points(0.1, -0.1, 0.2, -0.3, 0.4, 0.5));
+
+    expect(excitement).toMatchObject({
+      gameId: 'CIN201904150',
+      leadChanges: 1,
+      comebackRuns: 2,
+      extraInnings: 2,
+      wpSwing: 1.6,
+      noHitInnings: 1
+    });
+  });
+
+  it('counts the innings a team went without a hit from the start of the game', () => {
+    const noHitter = [
+      play(1, 1, 0, 'K'),
+      play(2, 1, 1, 'S8'),
+      play(3, 5, 0, 'W'),
+      play(4, 8, 0, 'S7')
+    ];
+
+    expect(computeExcitement(noHitter, []).noHitInnings).toBe(7);
+  });
+
+  it('scores a back-and-forth game above a blowout', () => {
+    const blowout = [
+      play(1, 1, 0, 'S8'),
+      play(2, 1, 1, 'HR/F7', 4),
+      play(3, 3, 1, 'D8', 3),
+      play(4, 9, 0, 'K')
+    ];
+
+    const close = computeExcitement(comeback, points(0.2, -0.3, 0.4, -0.5, 0.6, 0.5));
+    const lopsided = computeExcitement(blowout, points(0.02, 0.3, 0.15, 0.01));
+
+    expect(close.score).toBeGreaterThan(40);
+    expect(lopsided.score).toBe(0);
+  });
+});
+
+describe('ExcitementService', () => {
+  const game = { gid: 'CIN201904150', hometeam: 'CIN', visteam: 'PIT' } as GameInfoRow;
+  const row: GameExcitementRow = {
+    gid: 'CIN201904150',
+    score: 48,
+    lead_changes: 1,
+    comeback_runs: 2,
+    extra_innings: 2,
+    wp_swing: 1.6,
+    no_hit_innings: 0
+  };
+
+  let playDataService: jest.Mocked<Pick<IPlayDataService, 'fetchAllPlaysForGame'>>;
+  let winProbabilityService: jest.Mocked<IWinProbabilityService>;
+  let repository: jest.Mocked<IGameExcitementRepository>;
+  let service: ExcitementService;
+
+  beforeEach(() => {
+    playDataService = {
+      fetchAllPlaysForGame: jest.fn(async (gameId: string) => comeback.map(play => ({ ...play, gid: gameId })))
+    };
+    winProbabilityService = {
+      getWinProbability: jest.fn(async (gameId: string) => ({ gameId, season: 2019, points: points(0.5, 0.5) }))
+    };
+    repository = {
+      findUnscoredGameIds: jest.fn().mockResolvedValue([]),
+      saveExcitement: jest.fn().mockResolvedValue(undefined),
+      findMostExciting: jest.fn().mockResolvedValue([{ ...game, ...row }])
+    };
+    service = new ExcitementService({
+      playDataService: playDataService as unknown as IPlayDataService,
+      winProbabilityService,
+      gameExcitementRepository: repository
+    });
+  });
+
+  it('returns stored scores without scoring games again', async () => {
+    const games = await service.getMostExciting(2019, 'CIN', 10);
+
+    expect(repository.findUnscoredGameIds).toHaveBeenCalledWith(2019, 'CIN');
+    expect(repository.saveExcitement).not.toHaveBeenCalled();
+    expect(repository.findMostExciting).toHaveBeenCalledWith(2019, 'CIN', 10);
+    expect(games).toEqual([{
+      game: expect.objectContaining({ gid: 'CIN201904150' }),
+      excitement: {
+        gameId: 'CIN201904150',
+        score: 48,
+        leadChanges: 1,
+        comebackRuns: 2,
+        extraInnings: 2,
+        wpSwing: 1.6,
+        noHitInnings: 0
+      }
+    }]);
+  });
+
+  it('scores and stores the games that have no score yet', async () => {
+    repository.findUnscoredGameIds.mockResolvedValue(['CIN201904150', 'CIN201904160']);
+
+    await service.getMostExciting(2019, undefined, 10);
+
+    expect(repository.saveExcitement).toHaveBeenCalledWith([
+      expect.objectContaining({ gid: 'CIN201904150', lead_changes: 1, extra_innings: 2 }),
+      expect.objectContaining({ gid: 'CIN201904160', lead_changes: 1, extra_innings: 2 })
+    ]);
+  });
+
+  it('leaves out games without plays', async () => {
+    repository.findUnscoredGameIds.mockResolvedValue(['CIN201904150', 'XXX201904150']);
+    playDataService.fetchAllPlaysForGame.mockImplementation(async gameId =>
+      gameId === 'XXX201904150' ? [] : comeback);
+
+    await service.getMostExciting(2019, undefined, 10);
+
+    expect(repository.saveExcitement).toHaveBeenCalledWith([expect.objectContaining({ gid: 'CIN201904150' })]);
+  });
+
+  it('throws NotFoundError for the excitement of a game without plays', async () => {
+    playDataService.fetchAllPlaysForGame.mockResolvedValue([]);
+
+    await expect(service.getExcitement('XXX201904150')).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * RunExpectancyService Unit Tests
+ *
+ * These tests check how the 24 base-out states are built from the runs
+ * scored from them, and when tables are computed, stored and read back.
+ */
+
+import { BaseOutRunsRow, IRunExpectancyRepository, RunExpectancyRow } from '../../../interfaces';
+
+// Keep the real repository (and its database connection) out of the test
+jest.mock('../../../../database/repositories/RunExpectancyRepository', () => ({
+  runExpectancyRepository: {}
+}));
+
+import { RunExpectancyService } from '../RunExpectancyService';
+import { BASE_STATES, buildRunExpectancyStates, getExpectedRuns, toBaseState } from '../runExpectancy';
+import { BadRequestError, NotFoundError } from '../../../../core/errors';
+
+const totals: BaseOutRunsRow[] = [
+  { bases: '___', outs: 0, occurrences: 1000, runs: 544 },
+  { bases: '1__', outs: 0, occurrences: 300, runs: 282 },
+  { bases: '123', outs: 2, occurrences: 40, runs: 31 }
+];
+
+describe('runExpectancy', () => {
+  it('codes the base state of the runners on base', () => {
+    expect(toBaseState(null, null, null)).toBe('___');
+    expect(toBaseState('r1', '', 'r3')).toBe('1_3');
+    expect(toBaseState('r1', 'r2', 'r3')).toBe('123');
+  });
+
+  it('builds all 24 states by outs, then bases', () => {
+    const states = buildRunExpectancyStates(totals);
+
+    expect(states).toHaveLength(24);
+    expect(states.slice(0, 8).map(state => state.bases)).toEqual(BASE_STATES);
+    expect(states[8]).toMatchObject({ bases: '___', outs: 1 });
+  });
+
+  it('averages the runs scored from each state', () => {
+    const states = buildRunExpectancyStates(totals);
+
+    expect(states[0]).toEqual({ bases: '___', outs: 0, runExpectancy: 0.544, occurrences: 1000 });
+    expect(states[1].runExpectancy).toBe(0.94);
+    expect(states[23]).toMatchObject({ bases: '123', outs: 2, runExpectancy: 0.775 });
+  });
+
+  it('gives states that never occurred no run expectancy', () => {
+    expect(buildRunExpectancyStates(totals)[9]).toEqual({ bases: '1__', outs: 1, runExpectancy: 0, occurrences: 0 });
+  });
+
+  it('looks up the expected runs of a state, and none with three outs', () => {
+    const matrix = { startSeason: 2019, endSeason: 2019, states: buildRunExpectancyStates(totals), computedAt: '' };
+
+    expect(getExpectedRuns(matrix, '1__', 0)).toBe(0.94);
+    expect(getExpectedRuns(matrix, '123', 3)).toBe(0);
+  });
+});
+
+describe('RunExpectancyService', () => {
+  let repository: jest.Mocked<IRunExpectancyRepository>;
+  let service: RunExpectancyService;
+
+  beforeEach(() => {
+    repository = {
+      getBaseOutRuns: jest.fn().mockResolvedValue(totals),
+      getRunExpectancy: jest.fn().mockResolvedValue([]),
+      saveRunExpectancy: jest.fn().mockResolvedValue(undefined)
+    };
+    service = new RunExpectancyService({ runExpectancyRepository: repository });
+  });
+
+  it('computes a table from the plays and stores it', async () => {
+    const matrix = await service.getRunExpectancy(2019);
+
+    expect(repository.getBaseOutRuns).toHaveBeenCalledWith(2019, 2019);
+    expect(matrix).toMatchObject({ startSeason: 2019, endSeason: 2019 });
+    expect(matrix.states).toHaveLength(24);
+
+    const saved = repository.saveRunExpectancy.mock.calls[0][0];
+    expect(saved).toHaveLength(24);
+    expect(saved[0]).toMatchObject({
+      start_season: 2019,
+      end_season: 2019,
+      bases: '___',
+      outs: 0,
+      occurrences: 1000,
+      runs: 544,
+      run_expectancy: 0.544
+    });
+  });
+
+  it('reads a stored table without computing it again', async () => {
+    const computedAt = new Date('2025-05-02T12:00:00Z');
+    const stored: RunExpectancyRow[] = buildRunExpectancyStates(totals).map(state => ({
+      start_season: 2010,
+      end_season: 2019,
+      bases: state.bases,
+      outs: state.outs,
+      occurrences: state.occurrences,
+      runs: Math.round(state.runExpectancy * state.occurrences),
+      run_expectancy: state.runExpectancy,
+      computed_at: computedAt
+    }));
+    repository.getRunExpectancy.mockResolvedValue(stored);
+
+    const matrix = await service.getRunExpectancy(2010, 2019);
+
+    expect(repository.getBaseOutRuns).not.toHaveBeenCalled();
+    expect(matrix).toMatchObject({ startSeason: 2010, endSeason: 2019, computedAt: computedAt.toISOString() });
+    expect(getExpectedRuns(matrix, '___', 0)).toBe(0.544);
+  });
+
+  it('computes a table once for concurrent requests', async () => {
+    await Promise.all([service.getRunExpectancy(2019), service.getRunExpectancy(2019)]);
+
+    expect(repository.getBaseOutRuns).toHaveBeenCalledTimes(1);
+  });
+
+  it('still returns a table it could not store', async () => {
+    repository.saveRunExpectancy.mockRejectedValue(new Error('Table is read-only'));
+
+    await expect(service.getRunExpectancy(2019)).resolves.toMatchObject({ startSeason: 2019 });
+  });
+
+  it('throws when there are no plays in the seasons', async () => {
+    repository.getBaseOutRuns.mockResolvedValue([]);
+
+    await expect(service.getRunExpectancy(1850)).rejects.toThrow(NotFoundError);
+    expect(repository.saveRunExpectancy).not.toHaveBeenCalled();
+  });
+
+  it('rejects a range that ends before it starts', async () => {
+    await expect(service.getRunExpectancy(2019, 2010)).rejects.toThrow(BadRequestError);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * WinProbabilityService Unit Tests
+ *
+ * These tests check the win probability model against the situations it must
+ * get right (a tie at the start, decided games, walk-offs, big leads), the
+ * leverage index of a situation, the per-play series built from a game's
+ * plays, and where the service reads plays and run expectancy from.
+ */
+
+import { PlayData } from '../../../../../../common/types/PlayData';
+import { IPlayDataService, IRunExpectancyService, SimulatedGame } from '../../../interfaces';
+
+// Keep the real repositories (and their database connection) out of the test
+jest.mock('../../../../database/repositories/RunExpectancyRepository', () => ({
+  runExpectancyRepository: {}
+}));
+
+jest.mock('../../playData/PlayDataService', () => ({
+  PlayDataService: {
+    getInstance: jest.fn(() => ({}))
+  }
+}));
+
+import { WinProbabilityService } from '../WinProbabilityService';
+import {
+  buildWinProbabilityPoints,
+  classifyMoment,
+  createWinProbabilityModel,
+  runsDistribution,
+  WinProbabilitySituation
+} from '../winProbability';
+import { classifyLeverage, createLeverageModel } from '../leverage';
+import { SimulatedGameStore } from '../../simulation/SimulatedGameStore';
+import { createRandom, simulateGame } from '../../simulation/simulateGame';
+import { DEFAULT_LEAGUE_DISTRIBUTION } from '../../simulation/eventDistribution';
+import { NotFoundError } from '../../../../core/errors';
+
+function situation(overrides: Partial<WinProbabilitySituation> = {}): WinProbabilitySituation {
+  return { inning: 1, isTopInning: true, outs: 0, bases: '___', scoreDiff: 0, ...overrides };
+}
+
+// A short game: the visitors score one in the first, the home team two in the ninth
+const base = { gid: 'CIN201904150', pitcher: 'p' };
+const plays: PlayData[] = [
+  { ...base, pn: 1, inning: 1, top_bot: 0, batteam: 'PIT', pitteam: 'CIN', batter: 'a', outs_pre: 0, outs_post: 0, event: 'HR/F8', runs: 1 },
+  { ...base, pn: 2, inning: 1, top_bot: 0, batteam: 'PIT', pitteam: 'CIN', batter: 'b', outs_pre: 0, outs_post: 1, event: 'K', runs: 0 },
+  { ...base, pn: 3, inning: 9, top_bot: 1, batteam: 'CIN', pitteam: 'PIT', batter: 'c', outs_pre: 2, outs_post: 2, br1_pre: 'x', event: 'HR/F7.1-H', runs: 2 }
+];
+
+describe('winProbability', () => {
+  const model = createWinProbabilityModel();
+
+  it('distributes the runs of a half-inning around the run expectancy', () => {
+    const distribution = runsDistribution(0.5, 0.3);
+    const mean = distribution.reduce((sum, probability, runs) => sum + probability * runs, 0);
+
+    expect(distribution[0]).toBeCloseTo(0.7);
+    expect(distribution.reduce((sum, probability) => sum + probability, 0)).toBeCloseTo(1);
+    expect(mean).toBeCloseTo(0.5, 1);
+  });
+
+  it('gives two league-average teams an even game at the start', () => {
+    expect(model(situation())).toBeCloseTo(0.5, 2);
+  });
+
+  it('decides games that are over', () => {
+    expect(model(situation({ inning: 9, isTopInning: false, scoreDiff: 1 }))).toBe(1);
+    expect(model(situation({ inning: 10, isTopInning: false, outs: 3, scoreDiff: -2 }))).toBe(0);
+    expect(model(situation({ inning: 9, isTopInning: true, outs: 3, scoreDiff: 1 }))).toBe(1);
+  });
+
+  it('moves with the score, the inning, the outs and the runners', () => {
+    expect(model(situation({ inning: 5, scoreDiff: 3 }))).toBeGreaterThan(model(situation({ inning: 5, scoreDiff: 1 })));
+    expect(model(situation({ inning: 8, scoreDiff: 1 }))).toBeGreaterThan(model(situation({ inning: 2, scoreDiff: 1 })));
+
+    const trailing = { inning: 9, isTopInning: false, scoreDiff: -1 };
+    expect(model(situation({ ...trailing, bases: '_23', outs: 1 })))
+      .toBeGreaterThan(model(situation({ ...trailing, outs: 1 })));
+    expect(model(situation({ ...trailing, outs: 2 }))).toBeLessThan(model(situation({ ...trailing, outs: 0 })));
+    expect(model(situation({ ...trailing, outs: 2 }))).toBeLessThan(0.1);
+  });
+
+  it('starts extra innings with a runner on second when asked to', () => {
+    // The visitors took the lead in the top of the tenth; the home team bats
+    const afterTopOfTenth = situation({ inning: 10, isTopInning: true, outs: 3, scoreDiff: -1 });
+    const withRunner = createWinProbabilityModel(undefined, { extraInningsRunner: true });
+
+    expect(withRunner(afterTopOfTenth)).toBeGreaterThan(model(afterTopOfTenth));
+  });
+
+  it('builds a point per play, ending at the final result', () => {
+    const points = buildWinProbabilityPoints(plays, model);
+
+    expect(points).toHaveLength(3);
+    expect(points[0].homeWinProbability).toBe(points[1].homeWinProbabilityBefore);
+    expect(points[0].wpa).toBeGreaterThan(0);
+    expect(points[2]).toMatchObject({ playIndex: 3, inning: 9, isTopInning: false, event: 'HR/F7.1-H', homeWinProbability: 1 });
+    expect(points[2].wpa).toBeGreaterThan(0.8);
+  });
+
+  it('credits the batting team with the win probability a play added', () => {
+    const [homeRun] = buildWinProbabilityPoints(plays, model);
+
+    expect(homeRun.wpa).toBeCloseTo(homeRun.homeWinProbabilityBefore - homeRun.homeWinProbability, 4);
+  });
+
+  it('sizes moments by the win probability swung either way', () => {
+    expect(classifyMoment(0.01)).toBe('routine');
+    expect(classifyMoment(-0.05)).toBe('notable');
+    expect(classifyMoment(0.12)).toBe('big');
+    expect(classifyMoment(-0.6)).toBe('huge');
+  });
+});
+
+describe('leverage', () => {
+  const model = createWinProbabilityModel();
+  const leverage = createLeverageModel(model);
+
+  it('is high late in a close game with runners on and low in a blowout', () => {
+    const bigSpot = leverage(situation({ inning: 9, isTopInning: false, outs: 2, bases: '123' }));
+    const blowout = leverage(situation({ inning: 8, scoreDiff: 10 }));
+
+    expect(bigSpot).toBeGreaterThan(4);
+    expect(blowout).toBeLessThan(0.1);
+    expect(classifyLeverage(bigSpot)).toBe('high');
+    expect(classifyLeverage(blowout)).toBe('low');
+    expect(classifyLeverage(1)).toBe('medium');
+  });
+
+  it('averages about 1 over the plate appearances of typical games', () => {
+    const team = (id: string) => ({
+      id,
+      battingOrder: Array.from({ length: 9 }, (_, i) => `${id}b${i + 1}`),
+      pitcher: `${id}p`,
+      fielders: {}
+    });
+    const indexes = [1, 2, 3, 4, 5].flatMap(seed => {
+      const plays = simulateGame(
+        { gameId: 'SIM-TEST', home: team('cin'), visitors: team('nya'), getDistribution: () => DEFAULT_LEAGUE_DISTRIBUTION },
+        createRandom(seed)
+      );
+      return buildWinProbabilityPoints(plays, model).map(point => point.leverageIndex);
+    });
+    const average = indexes.reduce((sum, index) => sum + index, 0) / indexes.length;
+
+    expect(average).toBeGreaterThan(0.7);
+    expect(average).toBeLessThan(1.3);
+  });
+});
+
+describe('WinProbabilityService', () => {
+  let playDataService: jest.Mocked<Pick<IPlayDataService, 'fetchAllPlaysForGame'>>;
+  let runExpectancyService: jest.Mocked<IRunExpectancyService>;
+  let store: SimulatedGameStore;
+  let service: WinProbabilityService;
+
+  beforeEach(() => {
+    playDataService = { fetchAllPlaysForGame: jest.fn(async (_gameId: string) => plays) };
+    runExpectancyService = { getRunExpectancy: jest.fn().mockRejectedValue(new NotFoundError('No plays found for season 2019')) };
+    store = new SimulatedGameStore();
+    service = new WinProbabilityService({
+      playDataService: playDataService as unknown as IPlayDataService,
+      runExpectancyService,
+      simulatedGameStore: store
+    });
+  });
+
+  it('computes the series of a replayed game in its season', async () => {
+    const series = await service.getWinProbability('CIN201904150');
+
+    expect(series).toMatchObject({ gameId: 'CIN201904150', season: 2019 });
+    expect(series.points).toHaveLength(3);
+    expect(runExpectancyService.getRunExpectancy).toHaveBeenCalledWith(2019);
+  });
+
+  it('reads the plays of a simulated game from the store', async () => {
+    store.save({ gameId: 'SIM-1', season: 2021, plays: plays.slice(0, 2) } as SimulatedGame);
+
+    const series = await service.getWinProbability('SIM-1');
+
+    expect(series).toMatchObject({ gameId: 'SIM-1', season: 2021 });
+    expect(series.points).toHaveLength(2);
+    expect(playDataService.fetchAllPlaysForGame).not.toHaveBeenCalled();
+  });
+
+  it('caches the series of a game', async () => {
+    await service.getWinProbability('CIN201904150');
+    await service.getWinProbability('CIN201904150');
+
+    expect(playDataService.fetchAllPlaysForGame).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws NotFoundError for a game without plays', async () => {
+    playDataService.fetchAllPlaysForGame.mockResolvedValue([]);
+
+    await expect(service.getWinProbability('XXX201904150')).rejects.toThrow(NotFoundError);
+  });
+});
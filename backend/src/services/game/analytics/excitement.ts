@@ -0,0 +1,132 @@
+import { PlayData } from '../../../../../common/types/PlayData';
+import { GameExcitement } from '../../../../../common/types/GameExcitementTypes';
+import { WinProbabilityPoint } from '../../../../../common/types/WinProbabilityTypes';
+import { isHitEvent } from '../../../utils/LinescoreUtils';
+
+/**
+ * Points each part of a game adds to its excitement score, and the most it
+ * can add; the score is capped at 100
+ */
+const EXCITEMENT_POINTS = {
+  LEAD_CHANGE: { each: 8, max: 24 },
+  COMEBACK_RUN: { each: 6, max: 24 },
+  EXTRA_INNING: { first: 8, each: 3, max: 17 },
+  WP_SWING: { from: 1.5, each: 15, max: 35 }, // Per unit of swing beyond a routine game's
+  NO_HIT_INNINGS: { from: 6, first: 8, each: 6, max: 26 } // From the sixth hitless inning on
+};
+
+/**
+ * Inning from which a deficit the winner overcame counts as a late comeback
+ */
+const LATE_INNING = 7;
+
+/**
+ * Measures how exciting a game was and scores it from 0 to 100
+ *
+ * The score adds points for lead changes, a late comeback by the winner,
+ * extra innings, the win probability swung by all plays (a blowout swings
+ * little, a back-and-forth game a lot) and a team held hitless deep into the
+ * game. See EXCITEMENT_POINTS for the weights.
+ *
+ * @param plays The game's plays, in order
+ * @param points The game's win probability points (see buildWinProbabilityPoints)
+ * @returns The game's excitement
+ */
+export function computeExcitement(plays: PlayData[], points: WinProbabilityPoint[]): GameExcitement {
+  const scores: { home: number; visitors: number }[] = [];
+  let home = 0;
+  let visitors = 0;
+  let leader: 'home' | 'visitors' | null = null;
+  let leadChanges = 0;
+
+  for (const play of plays) {
+    scores.push({ home, visitors });
+    if (play.top_bot === 0) {
+      visitors += Number(play.runs ?? 0);
+    } else {
+      home += Number(play.runs ?? 0);
+    }
+
+    const ahead = home === visitors ? null : home > visitors ? 'home' : 'visitors';
+    if (ahead && leader && ahead !== leader) {
+      leadChanges++;
+    }
+    leader = ahead ?? leader;
+  }
+  scores.push({ home, visitors });
+
+  const lastInning = plays.length > 0 ? plays[plays.length - 1].inning : 0;
+  const excitement = {
+    gameId: plays[0]?.gid ?? '',
+    leadChanges,
+    comebackRuns: lateComebackRuns(plays, scores),
+    extraInnings: Math.max(0, lastInning - 9),
+    wpSwing: round(points.reduce((sum, point) => sum + Math.abs(point.wpa), 0)),
+    noHitInnings: Math.max(noHitInnings(plays, 0), noHitInnings(plays, 1))
+  };
+
+  return { ...excitement, score: scoreExcitement(excitement) };
+}
+
+/**
+ * Finds the largest deficit the winner faced from the late innings on
+ * @param scores The score before each play, and the final score last
+ */
+function lateComebackRuns(plays: PlayData[], scores: { home: number; visitors: number }[]): number {
+  const final = scores[scores.length - 1];
+  if (final.home === final.visitors) {
+    return 0;
+  }
+
+  const winner = final.home > final.visitors ? 'home' : 'visitors';
+  const loser = winner === 'home' ? 'visitors' : 'home';
+  let deficit = 0;
+
+  plays.forEach((play, index) => {
+    if (play.inning >= LATE_INNING) {
+      const score = scores[index];
+      deficit = Math.max(deficit, score[loser] - score[winner]);
+    }
+  });
+  return deficit;
+}
+
+/**
+ * Counts the innings a team went without a hit from the start of the game:
+ * those before its first hit, or every inning it batted if it had none
+ * @param topBot 0 for the visitors, 1 for the home team
+ */
+function noHitInnings(plays: PlayData[], topBot: number): number {
+  const batting = plays.filter(play => play.top_bot === topBot);
+  const firstHit = batting.find(play => isHitEvent(play.event));
+
+  if (firstHit) {
+    return firstHit.inning - 1;
+  }
+  return batting.length > 0 ? batting[batting.length - 1].inning : 0;
+}
+
+/**
+ * Adds up the excitement score of a game
+ */
+function scoreExcitement(excitement: Omit<GameExcitement, 'score' | 'gameId'>): number {
+  const { LEAD_CHANGE, COMEBACK_RUN, EXTRA_INNING, WP_SWING, NO_HIT_INNINGS } = EXCITEMENT_POINTS;
+
+  const points = [
+    Math.min(LEAD_CHANGE.max, excitement.leadChanges * LEAD_CHANGE.each),
+    Math.min(COMEBACK_RUN.max, excitement.comebackRuns * COMEBACK_RUN.each),
+    excitement.extraInnings > 0
+      ? Math.min(EXTRA_INNING.max, EXTRA_INNING.first + (excitement.extraInnings - 1) * EXTRA_INNING.each)
+      : 0,
+    Math.min(WP_SWING.max, Math.max(0, (excitement.wpSwing - WP_SWING.from) * WP_SWING.each)),
+    excitement.noHitInnings >= NO_HIT_INNINGS.from
+      ? Math.min(NO_HIT_INNINGS.max, NO_HIT_INNINGS.first + (excitement.noHitInnings - NO_HIT_INNINGS.from) * NO_HIT_INNINGS.each)
+      : 0
+  ];
+
+  return Math.min(100, Math.round(points.reduce((sum, point) => sum + point, 0)));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,14 @@
+export { RunExpectancyService, RunExpectancyDependencies } from './RunExpectancyService';
+export { WinProbabilityService, WinProbabilityDependencies } from './WinProbabilityService';
+export { ExcitementService, ExcitementDependencies } from './ExcitementService';
+export { BASE_STATES, toBaseState, buildRunExpectancyStates, getExpectedRuns } from './runExpectancy';
+export {
+  MomentSize,
+  WinProbabilityModel,
+  WinProbabilitySituation,
+  createWinProbabilityModel,
+  buildWinProbabilityPoints,
+  classifyMoment
+} from './winProbability';
+export { LeverageLevel, LeverageModel, AVERAGE_SWING, createLeverageModel, classifyLeverage } from './leverage';
+export { computeExcitement } from './excitement';
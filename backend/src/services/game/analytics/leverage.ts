@@ -0,0 +1,110 @@
+import { DEFAULT_LEAGUE_DISTRIBUTION, SIMULATED_OUTCOMES } from '../simulation/eventDistribution';
+import { resolvePlateAppearance } from '../simulation/simulateGame';
+import { toBaseState } from './runExpectancy';
+import type { WinProbabilityModel, WinProbabilitySituation } from './winProbability';
+
+/**
+ * How much a plate appearance can swing the game
+ */
+export type LeverageLevel = 'low' | 'medium' | 'high';
+
+/**
+ * Computes the leverage index of a situation
+ */
+export type LeverageModel = (situation: WinProbabilitySituation) => number;
+
+/**
+ * Win probability a plate appearance swings on average, either way, over a
+ * season; a situation with this expected swing has a leverage index of 1
+ */
+export const AVERAGE_SWING = 0.035;
+
+/**
+ * Leverage indexes at which plate appearances become medium and high leverage
+ */
+const LEVERAGE_THRESHOLDS: [LeverageLevel, number][] = [
+  ['high', 2],
+  ['medium', 0.85]
+];
+
+/**
+ * Random draws the runner advances of each outcome are averaged over, from
+ * aggressive (low) to conservative (high) base running
+ */
+const ADVANCE_DRAWS = [0.1, 0.3, 0.5, 0.7, 0.9];
+
+/**
+ * Creates a model of the leverage index: how much a plate appearance in a
+ * situation is expected to swing the game, relative to an average one
+ *
+ * Every outcome of the plate appearance is played out with league-average
+ * rates and runner advances (see resolvePlateAppearance), and the absolute
+ * change in win probability it makes is averaged. A tie game in the ninth
+ * with the bases loaded and two outs is around 6; a blowout is close to 0.
+ *
+ * @param model The win probability model the swings are measured with
+ * @returns The leverage model, memoized by situation
+ *
+ * @example
+ * ```typescript
+ * const leverage = createLeverageModel(createWinProbabilityModel(matrix));
+ * const index = leverage({ inning: 9, isTopInning: false, outs: 2, bases: '123', scoreDiff: 0 });
+ * ```
+ */
+export function createLeverageModel(model: WinProbabilityModel): LeverageModel {
+  const indexes = new Map<string, number>();
+
+  return (situation: WinProbabilitySituation): number => {
+    if (situation.outs >= 3) {
+      return 0;
+    }
+
+    const key = `${situation.inning}:${situation.isTopInning}:${situation.outs}:${situation.bases}:${situation.scoreDiff}`;
+    let index = indexes.get(key);
+    if (index === undefined) {
+      index = expectedSwing(model, situation) / AVERAGE_SWING;
+      indexes.set(key, index);
+    }
+    return index;
+  };
+}
+
+/**
+ * Averages the absolute change in win probability over the outcomes of a
+ * plate appearance
+ */
+function expectedSwing(model: WinProbabilityModel, situation: WinProbabilitySituation): number {
+  const before = model(situation);
+  const bases: [string | null, string | null, string | null] = [
+    situation.bases[0] === '1' ? 'r1' : null,
+    situation.bases[1] === '2' ? 'r2' : null,
+    situation.bases[2] === '3' ? 'r3' : null
+  ];
+
+  let swing = 0;
+  for (const outcome of SIMULATED_OUTCOMES) {
+    for (const draw of ADVANCE_DRAWS) {
+      const result = resolvePlateAppearance(outcome, 'bat', bases, situation.outs, () => draw);
+      const outs = Math.min(3, situation.outs + result.outs);
+      const runs = outs < 3 ? result.runs : 0;
+      const after = model({
+        inning: situation.inning,
+        isTopInning: situation.isTopInning,
+        outs,
+        bases: outs < 3 ? toBaseState(...result.bases) : '___',
+        scoreDiff: situation.scoreDiff + (situation.isTopInning ? -runs : runs)
+      });
+      swing += DEFAULT_LEAGUE_DISTRIBUTION[outcome] * Math.abs(after - before) / ADVANCE_DRAWS.length;
+    }
+  }
+  return swing;
+}
+
+/**
+ * Classifies a leverage index
+ * @param index The leverage index
+ * @returns High from 2, medium from 0.85, low below
+ */
+export function classifyLeverage(index: number): LeverageLevel {
+  return LEVERAGE_THRESHOLDS.find(([, threshold]) => index >= threshold)?.[0] ?? 'low';
+}
@@ -0,0 +1,54 @@
+import { BaseState, RunExpectancyMatrix, RunExpectancyState } from '../../../../../common/types/RunExpectancyTypes';
+import { BaseOutRunsRow } from '../../interfaces';
+
+/**
+ * The eight base states, from the bases empty to the bases loaded
+ */
+export const BASE_STATES: BaseState[] = ['___', '1__', '_2_', '12_', '__3', '1_3', '_23', '123'];
+
+/**
+ * Gets the base state code of the runners on base
+ * @param onFirst The runner on first, if any
+ * @param onSecond The runner on second, if any
+ * @param onThird The runner on third, if any
+ * @returns The base state, e.g. "1_3" for runners on first and third
+ */
+export function toBaseState(onFirst: unknown, onSecond: unknown, onThird: unknown): BaseState {
+  return `${onFirst ? '1' : '_'}${onSecond ? '2' : '_'}${onThird ? '3' : '_'}` as BaseState;
+}
+
+/**
+ * Builds the 24 base-out states from the runs scored from them. States that
+ * never occurred have no occurrences and a run expectancy of 0.
+ * @param rows Plays and runs to the end of the half-inning by base-out state
+ * @returns The states by outs, then bases
+ */
+export function buildRunExpectancyStates(rows: BaseOutRunsRow[]): RunExpectancyState[] {
+  const totals = new Map(rows.map(row => [`${row.bases}:${row.outs}`, row]));
+
+  return [0, 1, 2].flatMap(outs => BASE_STATES.map(bases => {
+    const row = totals.get(`${bases}:${outs}`);
+    const occurrences = row?.occurrences ?? 0;
+    return {
+      bases,
+      outs,
+      runExpectancy: occurrences > 0 ? Math.round((row!.runs / occurrences) * 10000) / 10000 : 0,
+      occurrences
+    };
+  }));
+}
+
+/**
+ * Looks up the runs a team can expect to score from a base-out state to the
+ * end of the half-inning
+ * @param matrix The run expectancy table
+ * @param bases The base state
+ * @param outs The outs; the half-inning is over at three
+ * @returns The expected runs; 0 with three outs
+ */
+export function getExpectedRuns(matrix: RunExpectancyMatrix, bases: BaseState, outs: number): number {
+  if (outs >= 3) {
+    return 0;
+  }
+  return matrix.states.find(state => state.bases === bases && state.outs === outs)?.runExpectancy ?? 0;
+}
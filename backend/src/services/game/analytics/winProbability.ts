@@ -0,0 +1,291 @@
+import { PlayData } from '../../../../../common/types/PlayData';
+import { BaseState, RunExpectancyMatrix } from '../../../../../common/types/RunExpectancyTypes';
+import { WinProbabilityPoint } from '../../../../../common/types/WinProbabilityTypes';
+import { getExpectedRuns, toBaseState } from './runExpectancy';
+import { createLeverageModel } from './leverage';
+
+/**
+ * The base/out/score situation a win probability is computed for
+ */
+export interface WinProbabilitySituation {
+  inning: number;
+  isTopInning: boolean;
+  outs: number;             // 3 once the half-inning is over
+  bases: BaseState;
+  scoreDiff: number;        // Home runs minus visitors' runs
+}
+
+/**
+ * Options of a win probability model
+ */
+export interface WinProbabilityModelOptions {
+  extraInningsRunner?: boolean; // Extra half-innings start with a runner on second (2020 on)
+}
+
+/**
+ * Computes the home team's probability of winning from a situation
+ */
+export type WinProbabilityModel = (situation: WinProbabilitySituation) => number;
+
+/**
+ * How much a play changed the game, by the win probability it added
+ */
+export type MomentSize = 'routine' | 'notable' | 'big' | 'huge';
+
+/**
+ * Run expectancy by base-out state ("bases:outs") used when no table has
+ * been computed for the season (2010-2015 averages)
+ */
+export const DEFAULT_RUN_EXPECTANCY: Record<string, number> = {
+  '___:0': 0.481, '1__:0': 0.859, '_2_:0': 1.100, '12_:0': 1.437,
+  '__3:0': 1.350, '1_3:0': 1.784, '_23:0': 1.964, '123:0': 2.292,
+  '___:1': 0.254, '1__:1': 0.509, '_2_:1': 0.664, '12_:1': 0.884,
+  '__3:1': 0.950, '1_3:1': 1.130, '_23:1': 1.376, '123:1': 1.541,
+  '___:2': 0.098, '1__:2': 0.224, '_2_:2': 0.319, '12_:2': 0.429,
+  '__3:2': 0.353, '1_3:2': 0.478, '_23:2': 0.580, '123:2': 0.752
+};
+
+/**
+ * Probability of scoring at least once from each base-out state ("bases:outs")
+ * to the end of the half-inning (2010-2015 averages)
+ */
+export const SCORING_PROBABILITY: Record<string, number> = {
+  '___:0': 0.268, '1__:0': 0.416, '_2_:0': 0.614, '12_:0': 0.617,
+  '__3:0': 0.843, '1_3:0': 0.860, '_23:0': 0.848, '123:0': 0.862,
+  '___:1': 0.155, '1__:1': 0.265, '_2_:1': 0.398, '12_:1': 0.411,
+  '__3:1': 0.653, '1_3:1': 0.634, '_23:1': 0.682, '123:1': 0.654,
+  '___:2': 0.067, '1__:2': 0.127, '_2_:2': 0.224, '12_:2': 0.226,
+  '__3:2': 0.261, '1_3:2': 0.277, '_23:2': 0.264, '123:2': 0.318
+};
+
+/**
+ * Most runs a half-inning is modeled to score; the rest of the tail is
+ * counted as this many
+ */
+const MAX_RUNS = 10;
+
+/**
+ * Leads beyond this are treated as this lead
+ */
+const MAX_LEAD = 15;
+
+/**
+ * A game still tied after this many innings counts as a coin flip
+ */
+const MAX_INNINGS = 20;
+
+/**
+ * Smallest win probability added by a play of each size
+ */
+const MOMENT_THRESHOLDS: [MomentSize, number][] = [
+  ['huge', 0.2],
+  ['big', 0.1],
+  ['notable', 0.04]
+];
+
+/**
+ * Distributes the runs scored to the end of a half-inning: none with the
+ * probability of not scoring, and a geometric number of runs otherwise, with
+ * the mean that gives the state's run expectancy
+ * @param expectedRuns The state's run expectancy
+ * @param scoringProbability The probability of scoring at least once
+ * @returns The probability of scoring 0 to MAX_RUNS runs
+ */
+export function runsDistribution(expectedRuns: number, scoringProbability: number): number[] {
+  const distribution = new Array<number>(MAX_RUNS + 1).fill(0);
+  distribution[0] = 1 - scoringProbability;
+  if (scoringProbability <= 0) {
+    return distribution;
+  }
+
+  // Runs given that at least one scores: 1, 2, ... with mean expectedRuns / scoringProbability
+  const mean = Math.max(1, expectedRuns / scoringProbability);
+  const more = 1 - 1 / mean;
+  let remaining = scoringProbability;
+  for (let runs = 1; runs < MAX_RUNS; runs++) {
+    distribution[runs] = scoringProbability * (1 / mean) * more ** (runs - 1);
+    remaining -= distribution[runs];
+  }
+  distribution[MAX_RUNS] = Math.max(0, remaining);
+  return distribution;
+}
+
+/**
+ * Creates a model of the home team's win probability in a season's run
+ * environment
+ *
+ * The runs a half-inning still scores are drawn from the current base-out
+ * state's run expectancy (see runsDistribution), and every later half-inning
+ * starts from the bases empty and nobody out. The home team wins once it leads
+ * in the bottom of the ninth or later, or the visitors lead after a complete
+ * extra inning; both teams are taken to be league average.
+ *
+ * Probabilities are memoized, so a model is meant to be reused for every play
+ * of a game.
+ *
+ * @param matrix The season's run expectancy table; defaults to DEFAULT_RUN_EXPECTANCY
+ * @param options Model options
+ * @returns The model
+ *
+ * @example
+ * ```typescript
+ * const model = createWinProbabilityModel(matrix);
+ * const homeWins = model({ inning: 9, isTopInning: false, outs: 2, bases: '_2_', scoreDiff: -1 });
+ * ```
+ */
+export function createWinProbabilityModel(
+  matrix?: RunExpectancyMatrix,
+  options: WinProbabilityModelOptions = {}
+): WinProbabilityModel {
+  const distributions = new Map<string, number[]>();
+  const halfInnings = new Map<string, number>();
+
+  // Runs to the end of the half-inning from a base-out state
+  const distributionFrom = (bases: BaseState, outs: number): number[] => {
+    const key = `${bases}:${outs}`;
+    let distribution = distributions.get(key);
+    if (!distribution) {
+      const expectedRuns = matrix ? getExpectedRuns(matrix, bases, outs) : DEFAULT_RUN_EXPECTANCY[key];
+      distribution = runsDistribution(expectedRuns, SCORING_PROBABILITY[key]);
+      distributions.set(key, distribution);
+    }
+    return distribution;
+  };
+
+  // Home win probability at the end of a half-inning in which `runs` more score
+  const afterHalfInning = (inning: number, isTopInning: boolean, scoreDiff: number, runs: number): number => {
+    if (isTopInning) {
+      return atHalfInning(inning, false, scoreDiff - runs);
+    }
+    return atHalfInning(inning + 1, true, scoreDiff + runs);
+  };
+
+  // Home win probability from the rest of a half-inning
+  const fromDistribution = (inning: number, isTopInning: boolean, scoreDiff: number, distribution: number[]): number =>
+    distribution.reduce(
+      (sum, probability, runs) => sum + (probability > 0 ? probability * afterHalfInning(inning, isTopInning, scoreDiff, runs) : 0),
+      0
+    );
+
+  // Home win probability at the start of a half-inning
+  const atHalfInning = (inning: number, isTopInning: boolean, scoreDiff: number): number => {
+    const diff = Math.max(-MAX_LEAD, Math.min(MAX_LEAD, scoreDiff));
+    const over = gameOver(inning, isTopInning, diff);
+    if (over !== null) {
+      return over;
+    }
+
+    const key = `${inning}:${isTopInning}:${diff}`;
+    let probability = halfInnings.get(key);
+    if (probability === undefined) {
+      const start = options.extraInningsRunner && inning > 9 ? distributionFrom('_2_', 0) : distributionFrom('___', 0);
+      probability = fromDistribution(inning, isTopInning, diff, start);
+      halfInnings.set(key, probability);
+    }
+    return probability;
+  };
+
+  return (situation: WinProbabilitySituation): number => {
+    // A lead in the middle of an extra top half is not final yet, but a home lead late in a bottom half is
+    if (!situation.isTopInning && situation.inning >= 9 && situation.scoreDiff > 0) {
+      return 1;
+    }
+    if (situation.outs >= 3) {
+      return afterHalfInning(situation.inning, situation.isTopInning, situation.scoreDiff, 0);
+    }
+    return fromDistribution(
+      situation.inning,
+      situation.isTopInning,
+      situation.scoreDiff,
+      distributionFrom(situation.bases, situation.outs)
+    );
+  };
+}
+
+/**
+ * Gets the home team's win probability if the game is over before a half-inning
+ * @returns 1 or 0 for a decided game, 0.5 for a game tied too long, or null if it goes on
+ */
+function gameOver(inning: number, isTopInning: boolean, scoreDiff: number): number | null {
+  if (!isTopInning && inning >= 9 && scoreDiff > 0) {
+    return 1;
+  }
+  if (isTopInning && inning > 9 && scoreDiff !== 0) {
+    return scoreDiff > 0 ? 1 : 0;
+  }
+  if (isTopInning && inning > MAX_INNINGS) {
+    return 0.5;
+  }
+  return null;
+}
+
+/**
+ * Computes the home team's win probability before and after every play of a
+ * game, and the leverage index of the situation each play started in
+ *
+ * The probability after a play is the one before the next play, and the final
+ * result (1, 0, or 0.5 for a game that ended tied) after the last play.
+ *
+ * @param plays The game's plays, in order
+ * @param model The win probability model
+ * @returns One point per play
+ */
+export function buildWinProbabilityPoints(plays: PlayData[], model: WinProbabilityModel): WinProbabilityPoint[] {
+  const leverage = createLeverageModel(model);
+  const before: number[] = [];
+  const leverageIndexes: number[] = [];
+  let home = 0;
+  let visitors = 0;
+
+  for (const play of plays) {
+    const situation: WinProbabilitySituation = {
+      inning: play.inning,
+      isTopInning: play.top_bot === 0,
+      outs: play.outs_pre,
+      bases: toBaseState(play.br1_pre, play.br2_pre, play.br3_pre),
+      scoreDiff: home - visitors
+    };
+    before.push(model(situation));
+    leverageIndexes.push(leverage(situation));
+    if (play.top_bot === 0) {
+      visitors += play.runs ?? 0;
+    } else {
+      home += play.runs ?? 0;
+    }
+  }
+
+  const final = home > visitors ? 1 : home < visitors ? 0 : 0.5;
+
+  return plays.map((play, index) => {
+    const homeWinProbabilityBefore = round(before[index]);
+    const homeWinProbability = round(index + 1 < plays.length ? before[index + 1] : final);
+    const homeAdded = homeWinProbability - homeWinProbabilityBefore;
+    return {
+      playIndex: play.pn,
+      inning: play.inning,
+      isTopInning: play.top_bot === 0,
+      event: play.event ?? '',
+      homeWinProbabilityBefore,
+      homeWinProbability,
+      wpa: round(play.top_bot === 0 ? -homeAdded : homeAdded),
+      leverageIndex: Math.round(leverageIndexes[index] * 100) / 100
+    };
+  });
+}
+
+/**
+ * Sizes a moment by the win probability a play added or took away
+ * @param wpa The win probability added, for either team
+ * @returns The size of the moment
+ */
+export function classifyMoment(wpa: number): MomentSize {
+  const swing = Math.abs(wpa);
+  return MOMENT_THRESHOLDS.find(([, threshold]) => swing >= threshold)?.[0] ?? 'routine';
+}
+
+/**
+ * Rounds a probability to four decimals
+ */
+function round(probability: number): number {
+  return Math.round(probability * 10000) / 10000;
+}
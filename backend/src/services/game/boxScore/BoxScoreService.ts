@@ -0,0 +1,276 @@
+import { IBoxScoreService, IPlayDataService, IPlayerService, PlayData } from '../../interfaces';
+import {
+  BattingLine,
+  BattingTotals,
+  BoxScore,
+  PitchingLine,
+  TeamBoxScore
+} from '../../../../../common/types/BoxScoreTypes';
+import { LinescoreLine } from '../../../../../common/types/LinescoreTypes';
+import { BaseService } from '../../BaseService';
+import { PlayDataService } from '../playData/PlayDataService';
+import { PlayerService } from '../player/PlayerService';
+import { gameRepository } from '../../../database/repositories/GameRepository';
+import { buildLinescore, getBatterEventType } from '../../../utils/LinescoreUtils';
+import { parseDetailedEvent } from '../../eventTranslation/translateEvent';
+import { contextLogger } from '../../../core/logging';
+import { buildPitchingReport } from './pitchingReport';
+import { countRbi, getFinalAdvances, getScoredRuns, isPlateAppearance } from './playScoring';
+
+/**
+ * Dependencies for BoxScoreService
+ */
+export interface BoxScoreDependencies {
+  playDataService?: IPlayDataService;
+  playerService?: IPlayerService;
+}
+
+/**
+ * Event types that end in an out for the batter
+ */
+const BATTER_OUT_TYPES = ['K', 'G', 'F', 'L', 'P', 'SH', 'SF'];
+
+/**
+ * Event types that are plate appearances but not at bats
+ */
+const NON_AT_BAT_TYPES = ['W', 'IW', 'HP', 'SH', 'SF', 'C'];
+
+function createBattingTotals(): BattingTotals {
+  return { ab: 0, r: 0, h: 0, doubles: 0, triples: 0, hr: 0, rbi: 0, bb: 0, k: 0, lob: 0 };
+}
+
+/**
+ * Service for computing box scores from the plays table
+ *
+ * Walks a game's plays with the Retrosheet event parser and accumulates batting
+ * lines per player and pitching lines per pitcher, with the win, loss, save and
+ * holds once the whole game is counted. The box score can be cut off at any
+ * play, so the client can show the box score as of the play it is displaying.
+ *
+ * @example
+ * ```typescript
+ * // Box score of the plays narrated so far
+ * const boxScore = await BoxScoreService.getBoxScore("CIN201904150", state.currentPlay);
+ * ```
+ */
+export class BoxScoreService extends BaseService implements IBoxScoreService {
+  private playDataService: IPlayDataService;
+  private playerService: IPlayerService;
+
+  // Singleton instance for backward compatibility during transition
+  private static instance: BoxScoreService;
+
+  /**
+   * Creates a new instance of the BoxScoreService
+   * @param dependencies Optional dependencies to inject
+   */
+  constructor(dependencies: BoxScoreDependencies = {}) {
+    super(dependencies);
+    this.playDataService = dependencies.playDataService || PlayDataService.getInstance();
+    this.playerService = dependencies.playerService || PlayerService.getInstance();
+  }
+
+  /**
+   * Gets the singleton instance
+   * @returns The singleton instance
+   */
+  public static getInstance(): BoxScoreService {
+    if (!BoxScoreService.instance) {
+      BoxScoreService.instance = new BoxScoreService();
+    }
+    return BoxScoreService.instance;
+  }
+
+  /**
+   * Computes the box score of a game
+   * @param gameId The game ID
+   * @param upToPlay Only count plays before this play index; omit for the whole game
+   * @returns The box score
+   * @throws {ResourceNotFoundError} If the game has no plays
+   */
+  public async getBoxScore(gameId: string, upToPlay?: number): Promise<BoxScore> {
+    const serviceLogger = contextLogger({
+      service: 'BoxScoreService',
+      method: 'getBoxScore',
+      gameId
+    });
+
+    const allPlays = await this.playDataService.fetchAllPlaysForGame(gameId);
+    const plays = upToPlay === undefined ? allPlays : allPlays.filter(play => play.pn < upToPlay);
+    const teams = await this.getTeams(allPlays[0]);
+
+    const lines = new Map<string, BattingLine[]>([
+      [teams.home.id, []],
+      [teams.visitors.id, []]
+    ]);
+    const linesByPlayer = new Map<string, BattingLine>();
+    const getLine = (teamId: string, playerId: string): BattingLine => {
+      let line = linesByPlayer.get(playerId);
+      if (!line) {
+        line = { playerId, name: playerId, ...createBattingTotals() };
+        linesByPlayer.set(playerId, line);
+        lines.get(teamId)?.push(line);
+      }
+      return line;
+    };
+
+    for (const play of plays) {
+      this.applyPlay(play, getLine);
+    }
+
+    const isComplete = upToPlay === undefined || upToPlay > allPlays[allPlays.length - 1].pn;
+    const pitching = buildPitchingReport(plays, isComplete);
+    const pitchingLines = [...pitching.lines.values()].flat();
+
+    const players = await this.playerService.getPlayersByIds([
+      ...new Set([...linesByPlayer.keys(), ...pitchingLines.map(line => line.playerId)])
+    ]);
+    for (const line of [...linesByPlayer.values(), ...pitchingLines]) {
+      line.name = players.get(line.playerId)?.fullName || line.playerId;
+    }
+
+    const linescore = buildLinescore(plays, teams, { complete: isComplete });
+
+    serviceLogger.debug('Computed box score', {
+      upToPlay,
+      plays: plays.length,
+      players: linesByPlayer.size,
+      pitchers: pitchingLines.length
+    });
+
+    return {
+      gameId,
+      upToPlay: upToPlay ?? null,
+      plays: plays.length,
+      decisions: pitching.decisions,
+      home: this.createTeamBoxScore(
+        linescore.home,
+        lines.get(teams.home.id) || [],
+        pitching.lines.get(teams.home.id) || []
+      ),
+      visitors: this.createTeamBoxScore(
+        linescore.visitors,
+        lines.get(teams.visitors.id) || [],
+        pitching.lines.get(teams.visitors.id) || []
+      )
+    };
+  }
+
+  /**
+   * Adds one play to the batting lines of the batting team
+   */
+  private applyPlay(play: PlayData, getLine: (teamId: string, playerId: string) => BattingLine): void {
+    if (!play.event || !play.batter) {
+      return;
+    }
+
+    const eventType = getBatterEventType(play.event);
+    const event = parseDetailedEvent(play.event);
+    const scored = getScoredRuns(play, event, eventType);
+
+    for (const run of scored) {
+      getLine(play.batteam, run.runner).r++;
+    }
+
+    if (!isPlateAppearance(eventType)) {
+      return;
+    }
+
+    const line = getLine(play.batteam, play.batter);
+    if (!NON_AT_BAT_TYPES.includes(eventType)) {
+      line.ab++;
+    }
+
+    switch (eventType) {
+      case 'S':
+        line.h++;
+        break;
+      case 'D':
+      case 'DGR':
+        line.h++;
+        line.doubles++;
+        break;
+      case 'T':
+        line.h++;
+        line.triples++;
+        break;
+      case 'HR':
+        line.h++;
+        line.hr++;
+        break;
+      case 'W':
+      case 'IW':
+        line.bb++;
+        break;
+      case 'K':
+        line.k++;
+        break;
+    }
+
+    line.rbi += countRbi(play, eventType, scored);
+
+    const advances = [...getFinalAdvances(event).values()];
+    const batterReached = advances.some(advance => advance.fromBase === 'B' && !advance.isOut);
+    if (BATTER_OUT_TYPES.includes(eventType) && !batterReached) {
+      const runnersOn = [play.br1_pre, play.br2_pre, play.br3_pre].filter(Boolean).length;
+      const runnersOut = advances.filter(advance => advance.fromBase !== 'B' && advance.isOut).length;
+      line.lob += Math.max(0, runnersOn - scored.length - runnersOut);
+    }
+  }
+
+  /**
+   * Builds one team's box score from its linescore line, batting and pitching lines
+   */
+  private createTeamBoxScore(
+    linescoreLine: LinescoreLine,
+    batting: BattingLine[],
+    pitching: PitchingLine[]
+  ): TeamBoxScore {
+    const battingTotals = createBattingTotals();
+    for (const line of batting) {
+      for (const key of Object.keys(battingTotals) as (keyof BattingTotals)[]) {
+        battingTotals[key] += line[key];
+      }
+    }
+
+    return {
+      teamId: linescoreLine.teamId,
+      name: linescoreLine.name,
+      batting,
+      battingTotals,
+      pitching,
+      stats: {
+        innings: linescoreLine.runsByInning.filter((runs): runs is number => runs !== null),
+        runs: linescoreLine.runs,
+        hits: linescoreLine.hits,
+        errors: linescoreLine.errors
+      }
+    };
+  }
+
+  /**
+   * Resolves team IDs from the first play and looks up their display names
+   */
+  private async getTeams(firstPlay: PlayData): Promise<{
+    home: { id: string; name: string };
+    visitors: { id: string; name: string };
+  }> {
+    const homeId = firstPlay.top_bot === 0 ? firstPlay.pitteam : firstPlay.batteam;
+    const visitorsId = firstPlay.top_bot === 0 ? firstPlay.batteam : firstPlay.pitteam;
+
+    const [homeName, visitorsName] = await Promise.all([
+      gameRepository.getTeamDisplayName(homeId),
+      gameRepository.getTeamDisplayName(visitorsId)
+    ]);
+
+    return {
+      home: { id: homeId, name: homeName },
+      visitors: { id: visitorsId, name: visitorsName }
+    };
+  }
+
+  // Static methods for backward compatibility during transition
+  public static async getBoxScore(gameId: string, upToPlay?: number): Promise<BoxScore> {
+    return BoxScoreService.getInstance().getBoxScore(gameId, upToPlay);
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * BoxScoreService Unit Tests
+ *
+ * These tests run a short scripted inning and a half through the box score
+ * service and check the batting lines, team totals and the upToPlay cut-off.
+ */
+
+import { IPlayDataService, IPlayerService, PlayData, PlayerInfo } from '../../../interfaces';
+
+jest.mock('../../../../database/repositories/GameRepository', () => ({
+  gameRepository: {
+    getTeamDisplayName: jest.fn(async (teamId: string) => (teamId === 'CIN' ? 'Cincinnati Reds' : 'Pittsburgh Pirates'))
+  }
+}));
+
+// Keep the real services (and their database dependencies) out of the test
+jest.mock('../../playData/PlayDataService', () => ({
+  PlayDataService: { getInstance: jest.fn() }
+}));
+jest.mock('../../player/PlayerService', () => ({
+  PlayerService: { getInstance: jest.fn() }
+}));
+
+import { BoxScoreService } from '../BoxScoreService';
+
+const GAME_ID = 'CIN201904150';
+
+function createPlay(
+  pn: number,
+  topBot: number,
+  batter: string,
+  event: string,
+  overrides: Partial<PlayData> = {}
+): PlayData {
+  return {
+    gid: GAME_ID,
+    pn,
+    inning: 1,
+    top_bot: topBot,
+    batteam: topBot === 0 ? 'PIT' : 'CIN',
+    pitteam: topBot === 0 ? 'CIN' : 'PIT',
+    batter,
+    pitcher: topBot === 0 ? 'castl001' : 'archc001',
+    outs_pre: 0,
+    outs_post: 0,
+    event,
+    runs: 0,
+    ...overrides
+  };
+}
+
+describe('BoxScoreService', () => {
+  const plays = [
+    // Top of the 1st
+    createPlay(1, 0, 'fraza001', 'S8'),
+    createPlay(2, 0, 'reyep001', 'D7.1-3', { br1_pre: 'fraza001' }),
+    createPlay(3, 0, 'marts002', 'SF9.3-H', { br2_pre: 'reyep001', br3_pre: 'fraza001', outs_post: 1, runs: 1 }),
+    createPlay(4, 0, 'bellj005', 'HR/F78.2-H', { br2_pre: 'reyep001', outs_pre: 1, outs_post: 1, runs: 2 }),
+    createPlay(5, 0, 'cervf001', 'K', { outs_pre: 1, outs_post: 2 }),
+    createPlay(6, 0, 'morac001', 'W', { outs_pre: 2, outs_post: 2 }),
+    createPlay(7, 0, 'kangj001', 'F8', { br1_pre: 'morac001', outs_pre: 2, outs_post: 3 }),
+    // Bottom of the 1st
+    createPlay(8, 1, 'senzn001', 'E6'),
+    createPlay(9, 1, 'winkj001', 'WP.1-2', { br1_pre: 'senzn001' }),
+    createPlay(10, 1, 'winkj001', 'S9.2-H(E9)', { br2_pre: 'senzn001', runs: 1 }),
+    createPlay(11, 1, 'suare001', 'DI.1-2', { br1_pre: 'winkj001' }),
+    createPlay(12, 1, 'suare001', '64(1)3/GDP', { br1_pre: 'winkj001', outs_post: 2 })
+  ];
+
+  let service: BoxScoreService;
+
+  beforeEach(() => {
+    const players = new Map<string, PlayerInfo>([
+      ['bellj005', { id: 'bellj005', firstName: 'Josh', lastName: 'Bell', fullName: 'Josh Bell' }]
+    ]);
+
+    service = new BoxScoreService({
+      playDataService: { fetchAllPlaysForGame: jest.fn().mockResolvedValue(plays) } as unknown as IPlayDataService,
+      playerService: { getPlayersByIds: jest.fn().mockResolvedValue(players) } as unknown as IPlayerService
+    });
+  });
+
+  it('builds batting lines in order of first appearance', async () => {
+    const boxScore = await service.getBoxScore(GAME_ID);
+    const batting = boxScore.visitors.batting;
+
+    expect(batting.map(line => line.playerId)).toEqual([
+      'fraza001', 'reyep001', 'marts002', 'bellj005', 'cervf001', 'morac001', 'kangj001'
+    ]);
+    expect(batting[0]).toMatchObject({ ab: 1, r: 1, h: 1, rbi: 0 });
+    expect(batting[1]).toMatchObject({ ab: 1, r: 1, h: 1, doubles: 1 });
+    // A sacrifice fly is not an at bat but drives in a run; the runner on second is left on
+    expect(batting[2]).toMatchObject({ ab: 0, rbi: 1, lob: 1 });
+    expect(batting[3]).toMatchObject({ name: 'Josh Bell', ab: 1, r: 1, h: 1, hr: 1, rbi: 2 });
+    expect(batting[4]).toMatchObject({ ab: 1, k: 1, lob: 0 });
+    expect(batting[5]).toMatchObject({ ab: 0, bb: 1 });
+    expect(batting[6]).toMatchObject({ ab: 1, lob: 1 });
+  });
+
+  it('sums the batting totals and fills the team stats', async () => {
+    const { visitors, home } = await service.getBoxScore(GAME_ID);
+
+    expect(visitors.battingTotals).toEqual({
+      ab: 5, r: 3, h: 3, doubles: 1, triples: 0, hr: 1, rbi: 3, bb: 1, k: 1, lob: 2
+    });
+    expect(visitors.stats).toEqual({ innings: [3], runs: 3, hits: 3, errors: 2 });
+    expect(home.stats).toEqual({ innings: [1], runs: 1, hits: 1, errors: 0 });
+    expect(home.name).toBe('Cincinnati Reds');
+  });
+
+  it('does not count base running plays as plate appearances', async () => {
+    const { home } = await service.getBoxScore(GAME_ID);
+    const [senzel, winker, suarez] = home.batting;
+
+    expect(senzel).toMatchObject({ playerId: 'senzn001', ab: 1, h: 0, r: 1 });
+    // The wild pitch and defensive indifference come before the batter's result
+    expect(winker).toMatchObject({ playerId: 'winkj001', ab: 1, h: 1, doubles: 0, rbi: 1 });
+    // No RBI and no runner left on base after a double play
+    expect(suarez).toMatchObject({ playerId: 'suare001', ab: 1, rbi: 0, lob: 0 });
+    expect(home.battingTotals.ab).toBe(3);
+  });
+
+  it('includes pitching lines and, for the whole game, decisions', async () => {
+    const boxScore = await service.getBoxScore(GAME_ID);
+
+    expect(boxScore.home.pitching).toEqual([
+      expect.objectContaining({ playerId: 'castl001', outs: 3, h: 3, r: 3, hr: 1, bb: 1, bf: 7, decision: 'L' })
+    ]);
+    expect(boxScore.visitors.pitching).toEqual([
+      expect.objectContaining({ playerId: 'archc001', outs: 2, h: 1, r: 1, bf: 3, decision: 'W' })
+    ]);
+    expect(boxScore.decisions).toEqual({ win: 'archc001', loss: 'castl001', save: null, holds: [] });
+    expect((await service.getBoxScore(GAME_ID, 12)).decisions).toBeNull();
+  });
+
+  it('only counts plays before upToPlay', async () => {
+    const boxScore = await service.getBoxScore(GAME_ID, 4);
+
+    expect(boxScore.upToPlay).toBe(4);
+    expect(boxScore.plays).toBe(3);
+    expect(boxScore.visitors.batting.map(line => line.playerId)).toEqual(['fraza001', 'reyep001', 'marts002']);
+    expect(boxScore.visitors.stats).toEqual({ innings: [1], runs: 1, hits: 2, errors: 0 });
+    expect(boxScore.home.batting).toEqual([]);
+    expect(boxScore.home.stats.innings).toEqual([]);
+  });
+
+  it('reads runs, RBI and runners put out from the parsed advances', async () => {
+    const annotatedPlays = [
+      createPlay(1, 0, 'fraza001', 'S8'),
+      createPlay(2, 0, 'reyep001', 'S7.1-3', { br1_pre: 'fraza001' }),
+      // The runner is safe at home on the catcher's error
+      createPlay(3, 0, 'marts002', 'CSH(E2).1-2', { br1_pre: 'reyep001', br3_pre: 'fraza001', runs: 1 }),
+      createPlay(4, 0, 'marts002', 'E5.2-H(RBI);B-1', { br2_pre: 'reyep001', runs: 1 }),
+      createPlay(5, 0, 'bellj005', 'S9.1-H(NR)(UR)', { br1_pre: 'marts002', runs: 1 }),
+      createPlay(6, 0, 'cervf001', '8(B)83(1)/LDP', { br1_pre: 'bellj005', outs_post: 2 })
+    ];
+    service = new BoxScoreService({
+      playDataService: { fetchAllPlaysForGame: jest.fn().mockResolvedValue(annotatedPlays) } as unknown as IPlayDataService,
+      playerService: { getPlayersByIds: jest.fn().mockResolvedValue(new Map()) } as unknown as IPlayerService
+    });
+
+    const { visitors, home } = await service.getBoxScore(GAME_ID);
+    const [frazier, reyes, martin, bell, cervelli] = visitors.batting;
+
+    expect(frazier).toMatchObject({ r: 1, rbi: 0 });
+    expect(reyes).toMatchObject({ r: 1, rbi: 0 });
+    expect(martin).toMatchObject({ r: 1, rbi: 1 });
+    expect(bell).toMatchObject({ h: 1, rbi: 0 });
+    // The runner doubled off first is not left on base
+    expect(cervelli).toMatchObject({ ab: 1, lob: 0 });
+    expect(home.pitching).toEqual([expect.objectContaining({ playerId: 'castl001', r: 3, er: 2 })]);
+  });
+});
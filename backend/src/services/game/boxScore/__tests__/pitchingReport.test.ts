@@ -0,0 +1,122 @@
+import { PlayData } from '../../../../../../common/types/PlayData';
+import { buildPitchingReport } from '../pitchingReport';
+
+type ScriptedPlay = [event: string, outs: number, overrides?: Partial<PlayData>];
+
+const THREE_OUTS: ScriptedPlay[] = [['K', 1], ['63', 1], ['F8', 1]];
+
+/**
+ * Builds plays for a scripted game between PIT (visitors) and CIN (home)
+ */
+function createGame() {
+  const plays: PlayData[] = [];
+  const half = (inning: number, topBot: number, pitcher: string, events: ScriptedPlay[]) => {
+    let outs = 0;
+    events.forEach(([event, outsOnPlay, overrides], i) => {
+      plays.push({
+        gid: 'CIN201904150',
+        pn: plays.length + 1,
+        inning,
+        top_bot: topBot,
+        batteam: topBot === 0 ? 'PIT' : 'CIN',
+        pitteam: topBot === 0 ? 'CIN' : 'PIT',
+        batter: `${topBot === 0 ? 'pit' : 'cin'}${inning}${i}`,
+        pitcher,
+        outs_pre: outs,
+        outs_post: outs + outsOnPlay,
+        event,
+        ...overrides
+      });
+      outs += outsOnPlay;
+    });
+  };
+  return { plays, half };
+}
+
+describe('buildPitchingReport', () => {
+  /**
+   * PIT wins 3-1: the starter goes six innings and leaves with a 1-0 lead, a
+   * reliever holds it in the 7th, and the closer pitches the 8th and 9th
+   */
+  function createCompleteGame(): PlayData[] {
+    const { plays, half } = createGame();
+    for (let inning = 1; inning <= 5; inning++) {
+      half(inning, 0, 'castl001', THREE_OUTS);
+      half(inning, 1, 'archc001', THREE_OUTS);
+    }
+    half(6, 0, 'castl001', [['HR/F7', 0, { batter: 'bellj005' }], ...THREE_OUTS]);
+    half(6, 1, 'archc001', THREE_OUTS);
+    half(7, 0, 'garca001', THREE_OUTS);
+    half(7, 1, 'kelaj001', [
+      ['W', 0, { batter: 'senzn001' }],
+      ['K', 1, { br1_pre: 'senzn001' }],
+      ['K', 1, { br1_pre: 'senzn001' }],
+      ['F8', 1, { br1_pre: 'senzn001' }]
+    ]);
+    half(8, 0, 'garca001', [
+      ['S8', 0, { batter: 'reyep001' }],
+      ['HR/F9.1-H', 0, { batter: 'marts002', br1_pre: 'reyep001' }],
+      ...THREE_OUTS
+    ]);
+    half(8, 1, 'vazqf001', [
+      ['W', 0, { batter: 'winkj001' }],
+      ['D7.1-H(UR)', 0, { batter: 'suare001', br1_pre: 'winkj001' }],
+      ['K', 1, { br2_pre: 'suare001' }],
+      ['63', 1, { br2_pre: 'suare001' }],
+      ['F8', 1, { br2_pre: 'suare001' }]
+    ]);
+    half(9, 0, 'iglera001', THREE_OUTS);
+    half(9, 1, 'vazqf001', THREE_OUTS);
+    return plays;
+  }
+
+  it('builds pitching lines per team in order of appearance', () => {
+    const { lines } = buildPitchingReport(createCompleteGame(), true);
+
+    expect(lines.get('PIT')?.map(line => line.playerId)).toEqual(['archc001', 'kelaj001', 'vazqf001']);
+    expect(lines.get('CIN')?.map(line => line.playerId)).toEqual(['castl001', 'garca001', 'iglera001']);
+
+    const [archer, kela, vazquez] = lines.get('PIT') || [];
+    expect(archer).toMatchObject({ outs: 18, bf: 18, h: 0, r: 0, k: 6 });
+    expect(kela).toMatchObject({ outs: 3, bf: 4, bb: 1, k: 2 });
+    expect(vazquez).toMatchObject({ outs: 6, bf: 8, h: 1, bb: 1, r: 1, er: 0 });
+
+    const [castillo, garcia] = lines.get('CIN') || [];
+    expect(castillo).toMatchObject({ outs: 18, h: 1, hr: 1, r: 1, er: 1 });
+    expect(garcia).toMatchObject({ outs: 6, h: 2, hr: 1, r: 2, er: 2 });
+  });
+
+  it('awards win, loss, save and hold', () => {
+    const { lines, decisions } = buildPitchingReport(createCompleteGame(), true);
+
+    expect(decisions).toEqual({ win: 'archc001', loss: 'castl001', save: 'vazqf001', holds: ['kelaj001'] });
+    expect(lines.get('PIT')?.map(line => line.decision)).toEqual(['W', 'H', 'SV']);
+    expect(lines.get('CIN')?.map(line => line.decision)).toEqual(['L', null, null]);
+  });
+
+  it('gives the win to the most effective reliever when the starter does not go five innings', () => {
+    const { plays, half } = createGame();
+    for (let inning = 1; inning <= 3; inning++) {
+      half(inning, 0, 'castl001', THREE_OUTS);
+      half(inning, 1, 'archc001', THREE_OUTS);
+    }
+    half(4, 0, 'castl001', [['HR/F7', 0, { batter: 'bellj005' }], ...THREE_OUTS]);
+    half(4, 1, 'kelaj001', THREE_OUTS);
+    half(5, 0, 'castl001', THREE_OUTS);
+    half(5, 1, 'kelaj001', THREE_OUTS);
+    half(6, 0, 'castl001', THREE_OUTS);
+    half(6, 1, 'rodrr001', THREE_OUTS);
+
+    const { decisions } = buildPitchingReport(plays, true);
+
+    expect(decisions).toEqual({ win: 'kelaj001', loss: 'castl001', save: 'rodrr001', holds: [] });
+  });
+
+  it('awards no decisions before the game is over', () => {
+    const plays = createCompleteGame().filter(play => play.inning <= 6);
+    const { lines, decisions } = buildPitchingReport(plays, false);
+
+    expect(decisions).toBeNull();
+    expect(lines.get('CIN')?.[0]).toMatchObject({ playerId: 'castl001', r: 1, decision: null });
+  });
+});
@@ -0,0 +1,2 @@
+export { BoxScoreService, BoxScoreDependencies } from './BoxScoreService';
+export { buildPitchingReport, PitchingReport } from './pitchingReport';
@@ -0,0 +1,268 @@
+import { PlayData } from '../../../../../common/types/PlayData';
+import { PitcherDecisions, PitchingLine } from '../../../../../common/types/BoxScoreTypes';
+import { detectPitchingChange } from '../lineup/detectors';
+import { getBatterEventType, isHitEvent } from '../../../utils/LinescoreUtils';
+import { parseDetailedEvent } from '../../eventTranslation/translateEvent';
+import { getScoredRuns, isEarnedRun, isPlateAppearance } from './playScoring';
+
+/**
+ * One stint of a pitcher on the mound, used to award decisions
+ */
+interface Appearance {
+  pitcherId: string;
+  teamId: string;
+  isStarter: boolean;
+  leadAtEntry: number;       // The team's lead when the pitcher entered (negative when behind)
+  runnersOnAtEntry: number;
+  outs: number;
+  leadLost: boolean;         // The lead was tied or lost while the pitcher was in
+}
+
+/**
+ * A moment a team went ahead
+ */
+interface LeadTaken {
+  teamId: string;
+  pitcherOfRecord: string;   // The batting team's pitcher at the time
+  chargedPitcher: string;    // The pitcher charged with the go-ahead run
+}
+
+/**
+ * Pitching lines and decisions of a game
+ */
+export interface PitchingReport {
+  lines: Map<string, PitchingLine[]>;  // By team ID, in order of appearance
+  decisions: PitcherDecisions | null;
+}
+
+function createPitchingLine(playerId: string): PitchingLine {
+  return { playerId, name: playerId, outs: 0, h: 0, r: 0, er: 0, bb: 0, k: 0, hr: 0, bf: 0, decision: null };
+}
+
+/**
+ * Whether a pitcher entering with this lead and these runners on base is in a
+ * save situation: a lead of three runs or fewer, or the tying run on base, at
+ * bat or on deck
+ */
+function isSaveSituation(lead: number, runnersOn: number): boolean {
+  return lead > 0 && (lead <= 3 || lead <= runnersOn + 2);
+}
+
+/**
+ * Builds pitching lines and, for a finished game, the official decisions
+ *
+ * Each play is charged to its `pitcher` on the `pitteam`; a new appearance
+ * starts whenever PitchingChangeDetector reports a change between two plays
+ * of the same fielding team. Runs are charged to the pitcher who put the
+ * runner on base, so inherited runners who score count against the pitcher
+ * who left them.
+ *
+ * Decisions follow the scoring rules:
+ * - Win: the winning team's pitcher of record when it took the lead for good;
+ *   a starter needs 5 innings (4 in a game shorter than 6 innings), otherwise
+ *   the reliever who recorded the most outs gets the win
+ * - Loss: the pitcher charged with the go-ahead run
+ * - Save: the winning team's finishing pitcher, if not the winner, who entered
+ *   with the lead, kept it, and either entered with a lead of three runs or
+ *   fewer and pitched an inning, entered with the tying run on base, at bat or
+ *   on deck, or pitched three innings
+ * - Hold: a reliever who entered in a save situation, recorded an out and left
+ *   without giving up the lead, without finishing the game
+ *
+ * @param plays The plays to count, in order
+ * @param isComplete Whether the plays are the whole game; decisions are only awarded then
+ * @returns The pitching lines by team, and the decisions
+ */
+export function buildPitchingReport(plays: PlayData[], isComplete: boolean): PitchingReport {
+  const lines = new Map<string, PitchingLine[]>();
+  const linesByPitcher = new Map<string, PitchingLine>();
+  const getLine = (teamId: string, pitcherId: string): PitchingLine => {
+    let line = linesByPitcher.get(pitcherId);
+    if (!line) {
+      line = createPitchingLine(pitcherId);
+      linesByPitcher.set(pitcherId, line);
+      if (!lines.has(teamId)) {
+        lines.set(teamId, []);
+      }
+      lines.get(teamId)?.push(line);
+    }
+    return line;
+  };
+
+  const appearances: Appearance[] = [];
+  const currentAppearance = new Map<string, Appearance>();
+  const lastPlayByTeam = new Map<string, PlayData>();
+  const responsiblePitcher = new Map<string, string>();
+  const score = new Map<string, number>();
+  const leadsTaken: LeadTaken[] = [];
+  const starters = new Map<string, string>();
+  for (const play of plays) {
+    if (!starters.has(play.pitteam)) {
+      starters.set(play.pitteam, play.pitcher);
+    }
+  }
+
+  for (const play of plays) {
+    const fieldingTeam = play.pitteam;
+    const battingTeam = play.batteam;
+    const lead = () => (score.get(fieldingTeam) ?? 0) - (score.get(battingTeam) ?? 0);
+
+    const lastPlay = lastPlayByTeam.get(fieldingTeam);
+    if (!lastPlay || detectPitchingChange(lastPlay, play, false)) {
+      const appearance: Appearance = {
+        pitcherId: play.pitcher,
+        teamId: fieldingTeam,
+        isStarter: !lastPlay,
+        leadAtEntry: lead(),
+        runnersOnAtEntry: [play.br1_pre, play.br2_pre, play.br3_pre].filter(Boolean).length,
+        outs: 0,
+        leadLost: false
+      };
+      appearances.push(appearance);
+      currentAppearance.set(fieldingTeam, appearance);
+    }
+    lastPlayByTeam.set(fieldingTeam, play);
+    const appearance = currentAppearance.get(fieldingTeam) as Appearance;
+
+    const line = getLine(fieldingTeam, play.pitcher);
+    const eventType = getBatterEventType(play.event);
+    if (isPlateAppearance(eventType)) {
+      line.bf++;
+      responsiblePitcher.set(play.batter, play.pitcher);
+      if (isHitEvent(play.event)) {
+        line.h++;
+      }
+      if (eventType === 'HR') {
+        line.hr++;
+      } else if (eventType === 'W' || eventType === 'IW') {
+        line.bb++;
+      } else if (eventType === 'K') {
+        line.k++;
+      }
+    }
+
+    const outs = Math.max(0, play.outs_post - play.outs_pre);
+    line.outs += outs;
+    appearance.outs += outs;
+
+    for (const run of getScoredRuns(play, parseDetailedEvent(play.event || ''), eventType)) {
+      const chargedPitcher = responsiblePitcher.get(run.runner) ?? play.pitcher;
+      const chargedLine = getLine(fieldingTeam, chargedPitcher);
+      chargedLine.r++;
+      if (isEarnedRun(run)) {
+        chargedLine.er++;
+      }
+
+      const wasAhead = lead() < 0;
+      score.set(battingTeam, (score.get(battingTeam) ?? 0) + 1);
+      if (!wasAhead && lead() < 0) {
+        leadsTaken.push({
+          teamId: battingTeam,
+          pitcherOfRecord: currentAppearance.get(battingTeam)?.pitcherId ?? starters.get(battingTeam) ?? '',
+          chargedPitcher
+        });
+      }
+    }
+
+    if (appearance.leadAtEntry > 0 && lead() <= 0) {
+      appearance.leadLost = true;
+    }
+  }
+
+  if (!isComplete || plays.length === 0) {
+    return { lines, decisions: null };
+  }
+
+  const decisions = awardDecisions(plays, appearances, score, leadsTaken);
+  if (decisions) {
+    const award = (pitcherId: string | null, decision: PitchingLine['decision']) => {
+      const line = pitcherId ? linesByPitcher.get(pitcherId) : undefined;
+      if (line) {
+        line.decision = decision;
+      }
+    };
+    decisions.holds.forEach(pitcherId => award(pitcherId, 'H'));
+    award(decisions.save, 'SV');
+    award(decisions.loss, 'L');
+    award(decisions.win, 'W');
+  }
+
+  return { lines, decisions };
+}
+
+/**
+ * Awards win, loss, save and holds for a finished game; null for a tie
+ */
+function awardDecisions(
+  plays: PlayData[],
+  appearances: Appearance[],
+  score: Map<string, number>,
+  leadsTaken: LeadTaken[]
+): PitcherDecisions | null {
+  const [teamA, teamB] = [...new Set(plays.map(play => play.batteam))];
+  const runsA = score.get(teamA) ?? 0;
+  const runsB = score.get(teamB ?? '') ?? 0;
+  if (runsA === runsB) {
+    return null;
+  }
+  const winningTeam = runsA > runsB ? teamA : teamB;
+
+  // The last time the winner went ahead is the lead it never gave up
+  const goAhead = [...leadsTaken].reverse().find(leadTaken => leadTaken.teamId === winningTeam);
+  if (!goAhead) {
+    return null;
+  }
+
+  const winnerAppearances = appearances.filter(appearance => appearance.teamId === winningTeam);
+  const outsFor = (pitcherId: string) => winnerAppearances
+    .filter(appearance => appearance.pitcherId === pitcherId)
+    .reduce((total, appearance) => total + appearance.outs, 0);
+
+  let win = goAhead.pitcherOfRecord;
+  const starter = winnerAppearances.find(appearance => appearance.isStarter);
+  const requiredOuts = plays[plays.length - 1].inning >= 6 ? 15 : 12;
+  if (starter && win === starter.pitcherId && outsFor(win) < requiredOuts) {
+    const relievers = winnerAppearances.filter(appearance => appearance.pitcherId !== starter.pitcherId);
+    const mostEffective = relievers.reduce<Appearance | null>(
+      (best, appearance) => (!best || outsFor(appearance.pitcherId) > outsFor(best.pitcherId) ? appearance : best),
+      null
+    );
+    if (mostEffective) {
+      win = mostEffective.pitcherId;
+    }
+  }
+  const loss = goAhead.chargedPitcher;
+
+  let save: string | null = null;
+  const finisher = winnerAppearances[winnerAppearances.length - 1];
+  if (
+    finisher &&
+    !finisher.isStarter &&
+    finisher.pitcherId !== win &&
+    finisher.outs >= 1 &&
+    !finisher.leadLost &&
+    finisher.leadAtEntry > 0 &&
+    (
+      (finisher.leadAtEntry <= 3 && finisher.outs >= 3) ||
+      finisher.leadAtEntry <= finisher.runnersOnAtEntry + 2 ||
+      finisher.outs >= 9
+    )
+  ) {
+    save = finisher.pitcherId;
+  }
+
+  const lastAppearanceByTeam = new Map<string, Appearance>();
+  appearances.forEach(appearance => lastAppearanceByTeam.set(appearance.teamId, appearance));
+  const holds = appearances
+    .filter(appearance =>
+      !appearance.isStarter &&
+      lastAppearanceByTeam.get(appearance.teamId) !== appearance &&
+      ![win, loss, save].includes(appearance.pitcherId) &&
+      appearance.outs >= 1 &&
+      !appearance.leadLost &&
+      isSaveSituation(appearance.leadAtEntry, appearance.runnersOnAtEntry)
+    )
+    .map(appearance => appearance.pitcherId);
+
+  return { win, loss, save, holds: [...new Set(holds)] };
+}
@@ -0,0 +1,100 @@
+import { PlayData } from '../../../../../common/types/PlayData';
+import { BaseRunningInfo, DetailedBaseballEvent } from '../../eventTranslation/detailedEventTypes';
+
+/**
+ * Helpers for reading who scored, and how, from a parsed Retrosheet event
+ * (see parseDetailedEvent)
+ */
+
+/**
+ * A run scored on a play: the runner's advance home, with the runner's ID
+ */
+export type ScoredRun = BaseRunningInfo;
+
+/**
+ * Event types on which runs are not batted in unless marked "(RBI)"
+ */
+const NO_RBI_TYPES = ['E', 'WP', 'PB', 'BK', 'SB', 'CS', 'PO', 'POCS', 'NP'];
+
+/**
+ * Finds where each runner, and the batter, ended up on a play
+ *
+ * A runner can appear more than once, as in a stolen base followed by an
+ * advance on the catcher's throwing error ("SB2.1-3(E2)"); the last advance is
+ * where they ended up.
+ *
+ * @param event The parsed event
+ * @returns The last advance of each runner, by the base they started from
+ */
+export function getFinalAdvances(event: DetailedBaseballEvent): Map<string, BaseRunningInfo> {
+  const advances = new Map<string, BaseRunningInfo>();
+  for (const advance of event.baseRunning) {
+    advances.set(advance.fromBase, advance);
+  }
+  return advances;
+}
+
+/**
+ * Lists the runs scored on a play: runners reaching home safely, and the batter
+ * on a home run
+ * @param play The play
+ * @param event The parsed event of the play
+ * @param eventType The batter event type from getBatterEventType
+ * @returns The runs, with the ID of the runner who scored each
+ */
+export function getScoredRuns(play: PlayData, event: DetailedBaseballEvent, eventType: string): ScoredRun[] {
+  const advances = getFinalAdvances(event);
+  const scored = [...advances.values()].filter(advance => advance.toBase === 'H' && !advance.isOut);
+  if (eventType === 'HR' && !advances.has('B')) {
+    scored.push({ runner: '', fromBase: 'B', toBase: 'H', isOut: false });
+  }
+
+  const runnerIds: Record<string, string | undefined> = {
+    B: play.batter,
+    1: play.br1_pre,
+    2: play.br2_pre,
+    3: play.br3_pre
+  };
+  return scored
+    .filter(advance => runnerIds[advance.fromBase])
+    .map(advance => ({ ...advance, runner: runnerIds[advance.fromBase] as string }));
+}
+
+/**
+ * Counts the runs batted in on a play
+ *
+ * Runs on errors, on grounded-into double plays and on base running plays that
+ * accompany a strikeout or walk ("K+WP.3-H") are not batted in unless marked
+ * "(RBI)"; otherwise every run counts unless marked "(NR)" or "(NORBI)".
+ *
+ * @param play The play
+ * @param eventType The batter event type from getBatterEventType
+ * @param scored The runs scored on the play
+ * @returns The number of runs batted in
+ */
+export function countRbi(play: PlayData, eventType: string, scored: ScoredRun[]): number {
+  const mainEvent = (play.event || '').split('.')[0];
+  const noRbiByDefault = NO_RBI_TYPES.includes(eventType) ||
+    /GDP/.test(mainEvent) ||
+    (['K', 'W', 'IW'].includes(eventType) && mainEvent.includes('+'));
+
+  return scored.filter(run => noRbiByDefault ? run.rbi === true : run.rbi !== false).length;
+}
+
+/**
+ * Determines whether a run is earned, from the "(UR)" unearned run annotation
+ * @param run The run
+ * @returns True unless the run is marked unearned
+ */
+export function isEarnedRun(run: ScoredRun): boolean {
+  return !run.unearned;
+}
+
+/**
+ * Determines whether the batter's plate appearance ended on this play
+ * @param eventType The batter event type from getBatterEventType
+ * @returns False for base running plays and plays with no batter result
+ */
+export function isPlateAppearance(eventType: string): boolean {
+  return !['NP', 'SB', 'CS', 'PO', 'POCS', 'WP', 'PB', 'BK'].includes(eventType);
+}
@@ -0,0 +1,121 @@
+import { config } from '../../../config/config';
+import {
+  CommentaryCacheKey,
+  CommentaryCachePolicy,
+  ICommentaryCacheService,
+  ICompletionLogRepository
+} from '../../interfaces';
+import { BaseService } from '../../BaseService';
+import { completionLogRepository } from '../../../database/repositories/CompletionLogRepository';
+import { baseballMetricsCollector } from '../../../core/metrics';
+import { logger } from '../../../core/logging';
+
+/**
+ * Settings of the commentary cache, as in config.commentaryCache
+ */
+export interface CommentaryCacheSettings {
+  /**
+   * Policy of lookups that do not name one
+   */
+  policy: CommentaryCachePolicy;
+
+  /**
+   * How old a logged call may be for reuseIfFresh to reuse it
+   */
+  maxAgeMs: number;
+}
+
+/**
+ * Dependencies for CommentaryCacheService
+ */
+export interface CommentaryCacheDependencies {
+  completionLogRepository?: ICompletionLogRepository;
+  settings?: CommentaryCacheSettings;
+}
+
+/**
+ * Service for reusing the calls logged to openai_completions_log, so that
+ * replaying a game with the same announcer does not pay for the same prompts
+ * again
+ *
+ * Reuse is opt-in: the default policy, regenerate, never looks a call up. A
+ * call is reused for the same play of the same game, called by the same
+ * announcer, from the same prompt (by its SHA-256), by the same model. The
+ * announcer's call and the color analyst's comment in the two-voice booth have
+ * different prompts, so one is never reused for the other. A failed lookup is
+ * logged and treated as a miss, so the play is called again.
+ *
+ * @example
+ * ```typescript
+ * const call = await CommentaryCacheService.getInstance().findCommentary(key, 'reuseIfFresh');
+ * ```
+ */
+export class CommentaryCacheService extends BaseService implements ICommentaryCacheService {
+  private completionLogRepository: ICompletionLogRepository;
+  private settings: CommentaryCacheSettings;
+
+  // Singleton instance for backward compatibility during transition
+  private static instance: CommentaryCacheService;
+
+  /**
+   * Creates a new instance of the CommentaryCacheService
+   * @param dependencies Optional dependencies to inject
+   */
+  constructor(dependencies: CommentaryCacheDependencies = {}) {
+    super(dependencies);
+    this.completionLogRepository = dependencies.completionLogRepository || completionLogRepository;
+    this.settings = dependencies.settings || config.commentaryCache;
+  }
+
+  /**
+   * Gets the singleton instance
+   * @returns The singleton instance
+   */
+  public static getInstance(): CommentaryCacheService {
+    if (!CommentaryCacheService.instance) {
+      CommentaryCacheService.instance = new CommentaryCacheService({
+        completionLogRepository
+      });
+    }
+    return CommentaryCacheService.instance;
+  }
+
+  /**
+   * Finds the logged call of a play, if the policy allows reusing it
+   * @param key The play, announcer style, prompt and model of the call
+   * @param policy When to reuse a logged call; defaults to the configured policy
+   * @returns The call, or null to call the play again
+   */
+  public async findCommentary(
+    key: CommentaryCacheKey,
+    policy: CommentaryCachePolicy = this.settings.policy
+  ): Promise<string | null> {
+    if (policy === 'regenerate') {
+      return null;
+    }
+
+    const loggedSince = policy === 'reuseIfFresh'
+      ? new Date(Date.now() - this.settings.maxAgeMs)
+      : undefined;
+
+    let content: string | null;
+    try {
+      const row = await this.completionLogRepository.findLatestCompletion(key, loggedSince);
+      content = row?.content || null;
+    } catch (error) {
+      logger.warn('Error looking up logged commentary', {
+        gameId: key.gameId,
+        playIndex: key.playIndex,
+        error
+      });
+      content = null;
+    }
+
+    baseballMetricsCollector.recordCommentaryCacheLookup(key.gameId, policy, content !== null, {
+      playIndex: key.playIndex,
+      announcerStyle: key.announcerStyle,
+      model: key.model
+    });
+    return content;
+  }
+}
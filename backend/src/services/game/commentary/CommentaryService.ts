@@ -1,13 +1,32 @@
-import { BaseballState } from '../../../../../common/types/BaseballTypes';
+import { BaseballState, BoothSpeaker, LogEntry } from '../../../../../common/types/BaseballTypes';
 import { SimplifiedBaseballState } from '../../../../../common/types/SimplifiedBaseballState';
 import { PlayData } from '../../../../../common/types/PlayData';
-import { generateNextPlayPrompt, generatePlayByPlayPrompt } from '../../../services/prompts';
+import {
+  AlternateTimeline,
+  PlayMoment,
+  generateColorCommentaryPrompt,
+  generateNextPlayPrompt,
+  generatePlayByPlayPrompt
+} from '../../../services/prompts';
 import { translateEvent } from '../../../services/eventTranslation';
 import { gameRepository } from '../../../database/repositories/GameRepository';
 import { PlayerService } from '../player/PlayerService';
+import { simulatedGameStore } from '../simulation/SimulatedGameStore';
+import { WinProbabilityService } from '../analytics/WinProbabilityService';
+import { classifyMoment } from '../analytics/winProbability';
+import { classifyLeverage } from '../analytics/leverage';
+import { COMMENTARY_MAX_TOKENS } from '../../../constants/GameConstants';
+import {
+  AIProvider,
+  CommentaryCachePolicy,
+  ICommentaryCacheService,
+  IWinProbabilityService,
+  SkippedPlays
+} from '../../interfaces';
 import { BaseService } from '../../BaseService';
 import { PlayerUtils } from '../../../utils/PlayerUtils';
-import { AIServiceAdapter, getAIAdapter } from './adapters';
+import { AIServiceAdapter, PlayCallContext, getAIAdapter, hashPrompt } from './adapters';
+import { CommentaryCacheService } from './CommentaryCacheService';
 import { baseballMetricsCollector } from '../../../core/metrics';
 import { logger } from '../../../core/logging';
 
@@ -16,6 +35,18 @@ import { logger } from '../../../core/logging';
  */
 export type AnnouncerStyle = 'classic' | 'modern' | 'enthusiastic' | 'poetic';
 
+/**
+ * The play a call is for and how to make it, shared by both voices of the booth
+ */
+interface CallDetails {
+  gameId: string;
+  playIndex: number;
+  announcerStyle: AnnouncerStyle;
+  play: PlayCallContext;
+  skipLLM: boolean;
+  commentaryCache?: CommentaryCachePolicy;
+}
+
 /**
  * Service for generating play-by-play commentary
  */
@@ -24,6 +55,8 @@ export class CommentaryService extends BaseService {
   private static instance: CommentaryService;
   private playerService: PlayerService;
   private aiAdapter: AIServiceAdapter;
+  private winProbabilityService: IWinProbabilityService;
+  private commentaryCacheService: ICommentaryCacheService;
 
   /**
    * Creates a new instance of the CommentaryService
@@ -33,6 +66,8 @@ export class CommentaryService extends BaseService {
     super(dependencies);
     this.playerService = dependencies.playerService || PlayerService.getInstance();
     this.aiAdapter = dependencies.aiAdapter || getAIAdapter();
+    this.winProbabilityService = dependencies.winProbabilityService || WinProbabilityService.getInstance();
+    this.commentaryCacheService = dependencies.commentaryCacheService || CommentaryCacheService.getInstance();
   }
 
   /**
@@ -43,7 +78,9 @@ export class CommentaryService extends BaseService {
     if (!CommentaryService.instance) {
       CommentaryService.instance = new CommentaryService({
         playerService: PlayerService.getInstance(),
-        aiAdapter: getAIAdapter()
+        aiAdapter: getAIAdapter(),
+        winProbabilityService: WinProbabilityService.getInstance(),
+        commentaryCacheService: CommentaryCacheService.getInstance()
       });
     }
     return CommentaryService.instance;
@@ -62,7 +99,7 @@ export class CommentaryService extends BaseService {
    * @param currentState The current baseball state
    * @param nextPlay The next play data
    * @param currentPlay The current play index
-   * @param skipLLM Whether to skip LLM calls (for testing)
+   * @param skipLLM Whether to skip LLM calls and call the play from templates
    * @param gameId The game ID
    * @returns Array of commentary lines
    */
@@ -75,15 +112,15 @@ export class CommentaryService extends BaseService {
   ): Promise<string[]> {
     const prompt = generateNextPlayPrompt(currentState, nextPlay, currentPlay);
     
+    const play = await this.getPlayContext(currentState, nextPlay, currentPlay);
+    // Without LLM calls, plays are called from templates
+    const aiAdapter = skipLLM ? getAIAdapter('template') : this.aiAdapter;
+
     const startTime = performance.now();
     let completionText: string;
     
     try {
-      if (skipLLM) {
-        completionText = "This is a dummy response for testing purposes. LLM calls are being skipped.";
-      } else {
-        completionText = await this.aiAdapter.generateCompletion(prompt, { gameId });
-      }
+      completionText = await aiAdapter.generateCompletion(prompt, { gameId, play });
       
       const endTime = performance.now();
       const durationMs = endTime - startTime;
@@ -91,7 +128,7 @@ export class CommentaryService extends BaseService {
       // Record metrics for commentary generation
       baseballMetricsCollector.recordCommentaryGeneration(
         gameId,
-        this.aiAdapter.getProviderName(),
+        aiAdapter.getProviderName(),
         durationMs,
         { playIndex: currentPlay, type: 'basic' }
       );
@@ -99,7 +136,7 @@ export class CommentaryService extends BaseService {
       logger.debug(`Generated play commentary in ${durationMs.toFixed(2)}ms`, {
         gameId,
         playIndex: currentPlay,
-        provider: this.aiAdapter.getProviderName(),
+        provider: aiAdapter.getProviderName(),
         durationMs
       });
     } catch (error) {
@@ -121,9 +158,16 @@ export class CommentaryService extends BaseService {
    * @param currentState The current baseball state
    * @param nextPlay The next play data
    * @param currentPlay The current play index
-   * @param skipLLM Whether to skip LLM calls (for testing)
+   * @param skipLLM Whether to skip LLM calls and call the play from templates
    * @param gameId The game ID
    * @param announcerStyle The announcer style to use
+   * @param skippedPlays The plays skipped to reach this one, bridged in the commentary
+   * @param aiProvider The AI adapter to use instead of the service's own
+   * @param commentaryCache When to reuse the call logged for the same play,
+   * announcer, prompt and model instead of calling the adapter
+   * @param booth Whether a color analyst joins the announcer: the call's lines
+   * are then tagged with their speaker, and the analyst comments on the plays
+   * that matter
    * @returns Array of commentary lines
    */
   public async generateDetailedPlayCompletion(
@@ -132,8 +176,12 @@ export class CommentaryService extends BaseService {
     currentPlayIndex: number,
     skipLLM: boolean,
     gameId: string,
-    announcerStyle: AnnouncerStyle = 'classic'
-  ): Promise<string[]> {
+    announcerStyle: AnnouncerStyle = 'classic',
+    skippedPlays?: SkippedPlays,
+    aiProvider?: AIProvider,
+    commentaryCache?: CommentaryCachePolicy,
+    booth = false
+  ): Promise<LogEntry[]> {
     // Create a simplified baseball state for AFTER the play (current state)
     const afterState: SimplifiedBaseballState = {
       gameId: currentState.gameId,
@@ -261,53 +309,233 @@ export class CommentaryService extends BaseService {
     }, null, 2));
     
     // Generate the detailed prompt with both before and after states
-    const prompt = await generatePlayByPlayPrompt(afterState, beforeState, announcerStyle);
+    const moment = await this.getPlayMoment(gameId, currentPlay);
+    const prompt = await generatePlayByPlayPrompt(
+      afterState,
+      beforeState,
+      announcerStyle,
+      this.getAlternateTimeline(gameId, currentPlay),
+      moment,
+      skippedPlays
+    );
     
+    const play = await this.getPlayContext(currentState, currentPlay, currentPlayIndex);
+    // Without LLM calls, plays are called from templates
+    const aiAdapter = skipLLM ? getAIAdapter('template') : aiProvider ? getAIAdapter(aiProvider) : this.aiAdapter;
+    const details: CallDetails = { gameId, playIndex: currentPlayIndex, announcerStyle, play, skipLLM, commentaryCache };
+
+    const callText = await this.completeCall(aiAdapter, prompt, {
+      ...details,
+      voice: 'playByPlay',
+      maxTokens: this.getMaxTokens(moment)
+    });
+    // Fall back to a pause when the call fails
+    const call = this.formatCompletion(callText ?? "The announcer pauses briefly to collect their thoughts.");
+    if (!booth) {
+      return call;
+    }
+
+    const lines: LogEntry[] = call.map(text => ({ speaker: 'playByPlay', text }));
+    if (this.isColorCommentaryPlay(moment, currentPlay)) {
+      const colorPrompt = generateColorCommentaryPrompt(afterState, beforeState, announcerStyle, call, moment);
+      const colorText = await this.completeCall(aiAdapter, colorPrompt, {
+        ...details,
+        voice: 'color',
+        maxTokens: COMMENTARY_MAX_TOKENS.COLOR
+      });
+      // The analyst just stays quiet when the comment fails
+      if (colorText) {
+        lines.push(...this.formatCompletion(colorText).map(text => ({ speaker: 'color' as const, text })));
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Completes a prompt with the AI adapter, or reuses the completion logged
+   * for the same prompt when the cache policy allows
+   * @param aiAdapter The AI adapter
+   * @param prompt The prompt
+   * @param details The play, the voice and how to complete it
+   * @returns The completion text, or null if the adapter failed
+   */
+  private async completeCall(
+    aiAdapter: AIServiceAdapter,
+    prompt: string,
+    details: CallDetails & { voice: BoothSpeaker; maxTokens?: number }
+  ): Promise<string | null> {
+    const { gameId, playIndex, announcerStyle, play, skipLLM, commentaryCache, voice, maxTokens } = details;
+    // Color comments are recorded as their own type of commentary
+    const type = voice === 'color' ? 'color' : 'detailed';
+
+    // Template calls cost nothing, so only model calls are reused
+    const cachedText = skipLLM ? null : await this.commentaryCacheService.findCommentary({
+      gameId,
+      playIndex,
+      announcerStyle,
+      promptHash: hashPrompt(prompt),
+      model: aiAdapter.getModelName()
+    }, commentaryCache);
+    if (cachedText) {
+      logger.debug('Reused logged play commentary', {
+        gameId,
+        playIndex,
+        provider: aiAdapter.getProviderName(),
+        announcerStyle,
+        voice
+      });
+      return cachedText;
+    }
+
     const startTime = performance.now();
-    let completionText: string;
-    
+
     try {
-      if (skipLLM) {
-        completionText = "This is a dummy response for testing purposes. LLM calls are being skipped.";
-      } else {
-        completionText = await this.aiAdapter.generateCompletion(prompt, { gameId, announcerStyle });
-      }
-      
+      const completionText = await aiAdapter.generateCompletion(prompt, {
+        gameId,
+        announcerStyle,
+        maxTokens,
+        play,
+        voice
+      });
+
       const endTime = performance.now();
       const durationMs = endTime - startTime;
-      
+
       // Record metrics for detailed commentary generation
       baseballMetricsCollector.recordCommentaryGeneration(
         gameId,
-        this.aiAdapter.getProviderName(),
+        aiAdapter.getProviderName(),
         durationMs,
         {
-          playIndex: currentPlayIndex,
-          type: 'detailed',
+          playIndex,
+          type,
           announcerStyle
         }
       );
-      
-      logger.debug(`Generated detailed play commentary in ${durationMs.toFixed(2)}ms`, {
+
+      logger.debug(`Generated ${type} play commentary in ${durationMs.toFixed(2)}ms`, {
         gameId,
-        playIndex: currentPlayIndex,
-        provider: this.aiAdapter.getProviderName(),
+        playIndex,
+        provider: aiAdapter.getProviderName(),
         announcerStyle,
         durationMs
       });
+
+      return completionText;
     } catch (error) {
-      logger.error('Error generating detailed play commentary', {
+      logger.error(`Error generating ${type} play commentary`, {
         gameId,
-        playIndex: currentPlayIndex,
+        playIndex,
         announcerStyle,
         error
       });
-      
-      // Return a fallback response
-      completionText = "The announcer pauses briefly to collect their thoughts.";
+      return null;
+    }
+  }
+
+  /**
+   * Whether the color analyst comments on a play in the two-voice booth: plays
+   * that move the batting team's chances of winning, or that score runs when
+   * those chances are unknown
+   */
+  private isColorCommentaryPlay(moment: PlayMoment | undefined, currentPlay: PlayData): boolean {
+    return moment ? moment.size !== 'routine' : Number(currentPlay.runs ?? 0) > 0;
+  }
+
+  /**
+   * Gathers what the announcer knows about a play before calling it, for
+   * adapters that call plays from the play rather than the prompt
+   * @param currentState The baseball state before the play
+   * @param play The play
+   * @param playIndex The play index
+   */
+  private async getPlayContext(currentState: BaseballState, play: PlayData, playIndex: number): Promise<PlayCallContext> {
+    const isTopInning = play.top_bot === 0;
+    const batting = isTopInning ? currentState.visitors : currentState.home;
+    const fielding = isTopInning ? currentState.home : currentState.visitors;
+    const runner = async (playerId?: string) => playerId ? this.getPlayerName(playerId) : '';
+
+    return {
+      playIndex,
+      event: play.event || '',
+      batter: await this.getPlayerName(play.batter),
+      pitcher: await this.getPlayerName(play.pitcher),
+      inning: play.inning,
+      isTopInning,
+      outsBefore: play.outs_pre,
+      outsAfter: play.outs_post,
+      runners: {
+        first: await runner(play.br1_pre),
+        second: await runner(play.br2_pre),
+        third: await runner(play.br3_pre)
+      },
+      battingTeam: batting.displayName || await gameRepository.getTeamDisplayName(batting.id),
+      fieldingTeam: fielding.displayName || await gameRepository.getTeamDisplayName(fielding.id),
+      battingTeamRuns: batting.stats.runs,
+      fieldingTeamRuns: fielding.stats.runs,
+      runsScored: Number(play.runs ?? 0)
+    };
+  }
+
+  /**
+   * Describes how a forked game departs from its parent, for plays from the
+   * fork play on; undefined for plays the fork shares with its parent and for
+   * games that are not forks
+   */
+  private getAlternateTimeline(gameId: string, currentPlay: PlayData): AlternateTimeline | undefined {
+    const fork = simulatedGameStore.get(gameId)?.fork;
+    if (!fork || currentPlay.pn < fork.forkedAtPlay) {
+      return undefined;
+    }
+
+    return {
+      forkedAtPlay: fork.forkedAtPlay,
+      originalPlay: translateEvent(fork.originalEvent),
+      alteredPlay: translateEvent(fork.alteredEvent),
+      isForkPlay: currentPlay.pn === fork.forkedAtPlay
+    };
+  }
+
+  /**
+   * Sizes the play by the win probability it added; undefined if the game's
+   * win probability cannot be computed, which only leaves it out of the prompt
+   */
+  private async getPlayMoment(gameId: string, currentPlay: PlayData): Promise<PlayMoment | undefined> {
+    try {
+      const { points } = await this.winProbabilityService.getWinProbability(gameId);
+      const point = points.find(p => p.playIndex === currentPlay.pn);
+      if (!point) {
+        return undefined;
+      }
+
+      const battingTeam = (homeWinProbability: number) =>
+        Math.round((point.isTopInning ? 1 - homeWinProbability : homeWinProbability) * 100);
+      return {
+        battingTeamBefore: battingTeam(point.homeWinProbabilityBefore),
+        battingTeamAfter: battingTeam(point.homeWinProbability),
+        size: classifyMoment(point.wpa),
+        leverageIndex: point.leverageIndex
+      };
+    } catch (error) {
+      logger.warn('Error computing win probability for commentary', { gameId, playIndex: currentPlay.pn, error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Caps the length of a call by the leverage of the play: low and medium
+   * leverage calls are short, so they need fewer tokens. Undefined leaves the
+   * adapter's configured maximum.
+   */
+  private getMaxTokens(moment: PlayMoment | undefined): number | undefined {
+    switch (moment && classifyLeverage(moment.leverageIndex)) {
+      case 'low':
+        return COMMENTARY_MAX_TOKENS.LOW;
+      case 'medium':
+        return COMMENTARY_MAX_TOKENS.MEDIUM;
+      default:
+        return undefined;
     }
-    
-    return this.formatCompletion(completionText);
   }
 
   /**
@@ -352,10 +580,14 @@ export class CommentaryService extends BaseService {
     currentPlayIndex: number,
     skipLLM: boolean,
     gameId: string,
-    announcerStyle: AnnouncerStyle = 'classic'
-  ): Promise<string[]> {
+    announcerStyle: AnnouncerStyle = 'classic',
+    skippedPlays?: SkippedPlays,
+    aiProvider?: AIProvider,
+    commentaryCache?: CommentaryCachePolicy,
+    booth = false
+  ): Promise<LogEntry[]> {
     return CommentaryService.getInstance().generateDetailedPlayCompletion(
-      currentState, currentPlay, currentPlayIndex, skipLLM, gameId, announcerStyle
+      currentState, currentPlay, currentPlayIndex, skipLLM, gameId, announcerStyle, skippedPlays, aiProvider, commentaryCache, booth
     );
   }
 
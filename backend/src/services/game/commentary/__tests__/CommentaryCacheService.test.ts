@@ -0,0 +1,96 @@
+/**
+ * CommentaryCacheService Unit Tests
+ *
+ * These tests check that each policy reuses the logged call of a play when it
+ * should (always, only if it is fresh, or never), and that a failed lookup
+ * falls back to calling the play again.
+ */
+
+import { CommentaryCacheKey, ICompletionLogRepository } from '../../../interfaces';
+
+jest.mock('../../../../config/config', () => ({
+  config: {
+    commentaryCache: { policy: 'reuse', maxAgeMs: 604800000 }
+  }
+}));
+
+// Keep the real repository (and its database connection) out of the test
+jest.mock('../../../../database/repositories/CompletionLogRepository', () => ({
+  completionLogRepository: {}
+}));
+
+import { CommentaryCacheService, CommentaryCacheSettings } from '../CommentaryCacheService';
+import { baseballMetricsCollector } from '../../../../core/metrics';
+
+describe('CommentaryCacheService', () => {
+  const key: CommentaryCacheKey = {
+    gameId: 'CIN201904150',
+    playIndex: 42,
+    announcerStyle: 'poetic',
+    promptHash: 'a'.repeat(64),
+    model: 'gpt-4o'
+  };
+  const loggedCall = { id: 7, content: 'A high fly ball, and it is gone.', created_at: new Date('2025-05-01T12:00:00Z') };
+
+  let repository: jest.Mocked<ICompletionLogRepository>;
+
+  const createService = (settings: CommentaryCacheSettings = { policy: 'reuse', maxAgeMs: 3600000 }) =>
+    new CommentaryCacheService({ completionLogRepository: repository, settings });
+
+  beforeEach(() => {
+    repository = { findLatestCompletion: jest.fn().mockResolvedValue(loggedCall) };
+    jest.spyOn(baseballMetricsCollector, 'recordCommentaryCacheLookup').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('always reuses a logged call with the reuse policy', async () => {
+    const call = await createService().findCommentary(key, 'reuse');
+
+    expect(call).toBe(loggedCall.content);
+    expect(repository.findLatestCompletion).toHaveBeenCalledWith(key, undefined);
+    expect(baseballMetricsCollector.recordCommentaryCacheLookup).toHaveBeenCalledWith(
+      key.gameId, 'reuse', true, expect.objectContaining({ playIndex: 42 })
+    );
+  });
+
+  it('only reuses calls logged within the max age with the reuseIfFresh policy', async () => {
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await createService({ policy: 'reuse', maxAgeMs: 3600000 }).findCommentary(key, 'reuseIfFresh');
+
+    expect(repository.findLatestCompletion).toHaveBeenCalledWith(key, new Date(now - 3600000));
+  });
+
+  it('never looks up a call with the regenerate policy', async () => {
+    const call = await createService().findCommentary(key, 'regenerate');
+
+    expect(call).toBeNull();
+    expect(repository.findLatestCompletion).not.toHaveBeenCalled();
+  });
+
+  it('uses the configured policy when none is given', async () => {
+    const call = await createService({ policy: 'regenerate', maxAgeMs: 3600000 }).findCommentary(key);
+
+    expect(call).toBeNull();
+    expect(repository.findLatestCompletion).not.toHaveBeenCalled();
+  });
+
+  it('returns null when no call was logged', async () => {
+    repository.findLatestCompletion.mockResolvedValue(null);
+
+    expect(await createService().findCommentary(key)).toBeNull();
+    expect(baseballMetricsCollector.recordCommentaryCacheLookup).toHaveBeenCalledWith(
+      key.gameId, 'reuse', false, expect.any(Object)
+    );
+  });
+
+  it('treats a failed lookup as a miss', async () => {
+    repository.findLatestCompletion.mockRejectedValue(new Error('database unavailable'));
+
+    expect(await createService().findCommentary(key)).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * CommentaryService Unit Tests
+ *
+ * These tests check the two-voice booth: the announcer's call is tagged as
+ * play-by-play, the color analyst comments only on the plays that matter,
+ * and a single announcer's call is left as plain lines.
+ */
+
+import { createMockBaseballState } from '../../../../test/utils';
+import { PlayData } from '../../../../../../common/types/PlayData';
+
+jest.mock('../../../../config/config', () => ({
+  config: {
+    openai: { maxTokens: 1000, temperature: 0.7 },
+    commentaryCache: { policy: 'reuse', maxAgeMs: 604800000 }
+  }
+}));
+
+// Keep the database out of the test
+jest.mock('../../../../config/database', () => ({ db: jest.fn() }));
+jest.mock('../../../../database/repositories/CompletionLogRepository', () => ({
+  completionLogRepository: {}
+}));
+jest.mock('../../../../database/repositories/GameRepository', () => ({
+  gameRepository: {
+    getTeamDisplayName: jest.fn(async (teamId: string) => teamId),
+    getTeamShortName: jest.fn(async (teamId: string) => teamId)
+  }
+}));
+jest.mock('../../player/PlayerService', () => ({
+  PlayerService: { getInstance: jest.fn(() => ({})) }
+}));
+jest.mock('../../analytics/WinProbabilityService', () => ({
+  WinProbabilityService: { getInstance: jest.fn(() => ({})) }
+}));
+
+jest.mock('../../../prompts', () => ({
+  generatePlayByPlayPrompt: jest.fn(async () => 'Call the play'),
+  generateColorCommentaryPrompt: jest.fn(() => 'Comment on the play'),
+  generateNextPlayPrompt: jest.fn(() => 'Call the next play')
+}));
+
+import { CommentaryService } from '../CommentaryService';
+import { generateColorCommentaryPrompt } from '../../../prompts';
+import { AIServiceAdapter } from '../adapters';
+import { hashPrompt } from '../adapters/chatCompletion';
+import { baseballMetricsCollector } from '../../../../core/metrics';
+
+describe('CommentaryService', () => {
+  const gameId = 'CIN201904150';
+  const play: PlayData = {
+    gid: gameId,
+    pn: 42,
+    inning: 3,
+    top_bot: 1,
+    batteam: 'CIN',
+    pitteam: 'PIT',
+    batter: 'vottj001',
+    pitcher: 'willt001',
+    event: 'HR/F7',
+    runs: 1,
+    outs_pre: 1,
+    outs_post: 1
+  };
+
+  let aiAdapter: jest.Mocked<AIServiceAdapter>;
+  let getWinProbability: jest.Mock;
+  let findCommentary: jest.Mock;
+
+  const createService = () => new CommentaryService({
+    playerService: { getPlayerName: jest.fn(async (playerId: string) => playerId) },
+    aiAdapter,
+    winProbabilityService: { getWinProbability },
+    commentaryCacheService: { findCommentary }
+  });
+
+  /**
+   * Win probability of the game in which the play added `wpa` for the team that batted
+   */
+  const withWpa = (wpa: number) => getWinProbability.mockResolvedValue({
+    points: [{
+      playIndex: 42,
+      isTopInning: false,
+      homeWinProbabilityBefore: 0.4,
+      homeWinProbability: 0.4 + wpa,
+      wpa,
+      leverageIndex: 2
+    }]
+  });
+
+  const generate = (service: CommentaryService, booth: boolean) => service.generateDetailedPlayCompletion(
+    createMockBaseballState(), play, 42, false, gameId, 'classic', undefined, undefined, undefined, booth
+  );
+
+  beforeEach(() => {
+    aiAdapter = {
+      generateCompletion: jest.fn(async (_prompt, options) => options?.voice === 'color'
+        ? 'Left it up in the zone. You cannot do that.'
+        : 'A long drive to left. Gone!'),
+      getProviderName: jest.fn(() => 'openai'),
+      getModelName: jest.fn(() => 'gpt-4o')
+    };
+    getWinProbability = jest.fn();
+    findCommentary = jest.fn().mockResolvedValue(null);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(baseballMetricsCollector, 'recordCommentaryGeneration').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('leaves a single announcer\'s call as plain lines', async () => {
+    withWpa(0.2);
+
+    const lines = await generate(createService(), false);
+
+    expect(lines).toEqual(['A long drive to left.', 'Gone!']);
+    expect(aiAdapter.generateCompletion).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows the call with the color analyst on a play that swings the game', async () => {
+    withWpa(0.2);
+
+    const lines = await generate(createService(), true);
+
+    expect(lines).toEqual([
+      { speaker: 'playByPlay', text: 'A long drive to left.' },
+      { speaker: 'playByPlay', text: 'Gone!' },
+      { speaker: 'color', text: 'Left it up in the zone.' },
+      { speaker: 'color', text: 'You cannot do that.' }
+    ]);
+    expect(generateColorCommentaryPrompt).toHaveBeenCalledWith(
+      expect.any(Object), expect.any(Object), 'classic', ['A long drive to left.', 'Gone!'], expect.objectContaining({ size: 'huge' })
+    );
+    expect(aiAdapter.generateCompletion).toHaveBeenLastCalledWith('Comment on the play', expect.objectContaining({ voice: 'color' }));
+  });
+
+  it('leaves routine plays to the announcer', async () => {
+    withWpa(0.01);
+
+    const lines = await generate(createService(), true);
+
+    expect(lines).toEqual([
+      { speaker: 'playByPlay', text: 'A long drive to left.' },
+      { speaker: 'playByPlay', text: 'Gone!' }
+    ]);
+    expect(aiAdapter.generateCompletion).toHaveBeenCalledTimes(1);
+  });
+
+  it('brings in the analyst on scoring plays when win probability is unknown', async () => {
+    getWinProbability.mockRejectedValue(new Error('no plays'));
+
+    const lines = await generate(createService(), true);
+
+    expect(lines).toContainEqual({ speaker: 'color', text: 'Left it up in the zone.' });
+  });
+
+  it('looks up the call and the analyst\'s comment by their own prompts', async () => {
+    withWpa(0.2);
+    findCommentary.mockImplementation(async ({ promptHash }) =>
+      promptHash === hashPrompt('Call the play') ? 'A cached drive. Gone!' : null);
+
+    const lines = await generate(createService(), true);
+
+    expect(findCommentary).toHaveBeenCalledWith(expect.objectContaining({ promptHash: hashPrompt('Comment on the play') }), undefined);
+    expect(lines).toEqual([
+      { speaker: 'playByPlay', text: 'A cached drive.' },
+      { speaker: 'playByPlay', text: 'Gone!' },
+      { speaker: 'color', text: 'Left it up in the zone.' },
+      { speaker: 'color', text: 'You cannot do that.' }
+    ]);
+    expect(aiAdapter.generateCompletion).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the call when the analyst\'s comment fails', async () => {
+    withWpa(0.2);
+    aiAdapter.generateCompletion
+      .mockResolvedValueOnce('A long drive to left. Gone!')
+      .mockRejectedValueOnce(new Error('rate limited'));
+
+    const lines = await generate(createService(), true);
+
+    expect(lines).toEqual([
+      { speaker: 'playByPlay', text: 'A long drive to left.' },
+      { speaker: 'playByPlay', text: 'Gone!' }
+    ]);
+  });
+});
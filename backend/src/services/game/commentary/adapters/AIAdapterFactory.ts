@@ -1,5 +1,7 @@
 import { AIServiceAdapter } from './AIServiceAdapter';
 import { OpenAIAdapter } from './OpenAIAdapter';
+import { OpenAICompatibleAdapter } from './OpenAICompatibleAdapter';
+import { TemplateCommentaryAdapter } from './TemplateCommentaryAdapter';
 
 /**
  * Factory for creating AI service adapters
@@ -33,6 +35,8 @@ export class AIAdapterFactory {
    */
   private registerDefaultAdapters(): void {
     this.adapters.set('openai', new OpenAIAdapter());
+    this.adapters.set('openai-compatible', new OpenAICompatibleAdapter());
+    this.adapters.set('template', new TemplateCommentaryAdapter());
   }
 
   /**
@@ -1,3 +1,5 @@
+import { BoothSpeaker } from '../../../../../../common/types/BaseballTypes';
+
 /**
  * Interface for AI service adapters
  * This abstraction allows for easy switching between different AI providers
@@ -19,6 +21,13 @@ export interface AIServiceAdapter {
    * @returns The provider name (e.g., 'openai', 'anthropic', etc.)
    */
   getProviderName(): string;
+
+  /**
+   * Gets the model that generates the completions, which is part of the key
+   * of cached commentary
+   * @returns The model name
+   */
+  getModelName(): string;
 }
 
 /**
@@ -49,4 +58,54 @@ export interface AICompletionOptions {
    * Temperature for controlling randomness (0-1)
    */
   temperature?: number;
+
+  /**
+   * The play being called, for adapters that build the call from the play
+   * itself rather than from the prompt
+   */
+  play?: PlayCallContext;
+
+  /**
+   * The voice of the two-voice booth the completion is for; the play-by-play
+   * announcer unless set
+   */
+  voice?: BoothSpeaker;
+}
+
+/**
+ * What an announcer knows about a play when calling it. Scores, outs and
+ * runners are as they stood before the play.
+ */
+export interface PlayCallContext {
+  /**
+   * The play number
+   */
+  playIndex: number;
+
+  /**
+   * The Retrosheet event code of the play
+   */
+  event: string;
+
+  batter: string;
+  pitcher: string;
+  inning: number;
+  isTopInning: boolean;
+  outsBefore: number;
+  outsAfter: number;
+
+  /**
+   * Names of the runners on each base, empty if the base is empty
+   */
+  runners: { first: string; second: string; third: string };
+
+  battingTeam: string;
+  fieldingTeam: string;
+  battingTeamRuns: number;
+  fieldingTeamRuns: number;
+
+  /**
+   * Runs scored on the play
+   */
+  runsScored: number;
 }
\ No newline at end of file
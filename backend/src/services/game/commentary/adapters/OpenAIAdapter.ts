@@ -1,8 +1,8 @@
 import { OpenAI } from 'openai';
 import { config, getSecret } from '../../../../config/config';
-import { db } from '../../../../config/database';
 import { performance } from 'perf_hooks';
 import { AIServiceAdapter, AICompletionOptions } from './AIServiceAdapter';
+import { CompletionLogDetails, getAnnouncerSystemMessage, saveCompletionLog } from './chatCompletion';
 import { logger } from '../../../../core/logging';
 
 /**
@@ -42,7 +42,9 @@ export class OpenAIAdapter implements AIServiceAdapter {
       announcerStyle = 'poetic',
       retryCount = 0,
       maxTokens = config.openai.maxTokens,
-      temperature = config.openai.temperature
+      temperature = config.openai.temperature,
+      play,
+      voice
     } = options;
 
     // Check if the model is configured
@@ -63,7 +65,7 @@ export class OpenAIAdapter implements AIServiceAdapter {
           messages: [
             {
               role: 'system',
-              content: this.getSystemMessageForAnnouncer(announcerStyle)
+              content: getAnnouncerSystemMessage(announcerStyle, voice)
             },
             {
               role: 'user',
@@ -77,13 +79,14 @@ export class OpenAIAdapter implements AIServiceAdapter {
         const latencyMs = Math.round(performance.now() - startTime);
         
         // Save completion to database
-        await this.saveCompletionToDb(
+        await this.saveCompletionToDb(response, {
           prompt,
-          response,
           gameId,
           latencyMs,
-          retryCount
-        );
+          retryCount,
+          announcerStyle,
+          play
+        });
 
         return response.choices[0].message.content || '';
       } else {
@@ -98,13 +101,14 @@ export class OpenAIAdapter implements AIServiceAdapter {
         const latencyMs = Math.round(performance.now() - startTime);
         
         // Save completion to database
-        await this.saveCompletionToDb(
+        await this.saveCompletionToDb(response, {
           prompt,
-          response,
           gameId,
           latencyMs,
-          retryCount
-        );
+          retryCount,
+          announcerStyle,
+          play
+        });
 
         return response.choices[0].text || '';
       }
@@ -123,58 +127,25 @@ export class OpenAIAdapter implements AIServiceAdapter {
   }
 
   /**
-   * Helper function to get the system message for an announcer
+   * Gets the model that generates the completions
+   * @returns The configured OpenAI model
    */
-  private getSystemMessageForAnnouncer(announcerStyle: 'classic' | 'modern' | 'enthusiastic' | 'poetic' = 'poetic'): string {
-    const announcers = {
-      'classic': 'Bob Costas',
-      'modern': 'Joe Buck',
-      'enthusiastic': 'Harry Caray',
-      'poetic': 'Vin Scully'
-    };
-    
-    const announcer = announcers[announcerStyle];
-    return `You are a baseball announcer describing plays in the style of ${announcer}.`;
+  public getModelName(): string {
+    return config.openai.model;
   }
 
   /**
    * Save OpenAI completion data to the database
    */
   private async saveCompletionToDb(
-    prompt: string,
     response: any,
-    gameId: string,
-    latencyMs?: number,
-    retryCount: number = 0
+    details: Omit<CompletionLogDetails, 'model' | 'temperature' | 'maxTokens'>
   ) {
-    try {
-      // Determine if this is a chat completion or regular completion
-      const isChatCompletion = response.choices?.[0]?.message !== undefined;
-      
-      await db('openai_completions_log').insert({
-        prompt,
-        model: response.model,
-        temperature: config.openai.temperature,
-        max_tokens: config.openai.maxTokens,
-        
-        completion_id: response.id,
-        content: isChatCompletion ? response.choices[0].message.content : response.choices[0].text,
-        finish_reason: response.choices[0].finish_reason,
-        
-        prompt_tokens: response.usage?.prompt_tokens,
-        completion_tokens: response.usage?.completion_tokens,
-        total_tokens: response.usage?.total_tokens,
-        
-        game_id: gameId,
-        
-        latency_ms: latencyMs,
-        retry_count: retryCount,
-        
-        openai_created_at: response.created
-      });
-    } catch (error) {
-      console.error('Error saving completion to database:', error);
-      // Don't throw here - we don't want to fail the main operation if DB save fails
-    }
+    await saveCompletionLog(response, {
+      ...details,
+      model: config.openai.model,
+      temperature: config.openai.temperature,
+      maxTokens: config.openai.maxTokens
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,152 @@
+import { config } from '../../../../config/config';
+import { performance } from 'perf_hooks';
+import { AIServiceAdapter, AICompletionOptions } from './AIServiceAdapter';
+import { getAnnouncerSystemMessage, saveCompletionLog } from './chatCompletion';
+import { logger } from '../../../../core/logging';
+
+/**
+ * Settings of an OpenAI-compatible endpoint, as in config.openaiCompatible
+ */
+export interface OpenAICompatibleSettings {
+  /**
+   * Base URL of the API, including the version, e.g. http://localhost:8000/v1
+   */
+  baseUrl: string;
+
+  /**
+   * Sent as a bearer token when set
+   */
+  apiKey: string;
+
+  model: string;
+
+  /**
+   * Extra headers sent with every request
+   */
+  headers: Record<string, string>;
+
+  /**
+   * How long to wait for a completion before giving up
+   */
+  timeoutMs: number;
+}
+
+/**
+ * Implementation of the AIServiceAdapter for any server that exposes the
+ * OpenAI chat completions API (POST {baseUrl}/chat/completions), such as a
+ * locally hosted model server
+ *
+ * Completions are logged to openai_completions_log like those of the
+ * OpenAIAdapter.
+ */
+export class OpenAICompatibleAdapter implements AIServiceAdapter {
+  private settings: OpenAICompatibleSettings;
+
+  /**
+   * Creates a new instance of the OpenAICompatibleAdapter
+   * @param settings The endpoint to call; defaults to config.openaiCompatible
+   */
+  constructor(settings: OpenAICompatibleSettings = config.openaiCompatible) {
+    this.settings = settings;
+  }
+
+  /**
+   * Generates text completion using the configured endpoint
+   * @param prompt The prompt to send
+   * @param options Options for the completion
+   * @returns The generated text
+   * @throws Error if the endpoint is not configured, or the request fails or times out
+   */
+  public async generateCompletion(
+    prompt: string,
+    options: AICompletionOptions = {}
+  ): Promise<string> {
+    const {
+      gameId = "-1",
+      announcerStyle = 'poetic',
+      retryCount = 0,
+      maxTokens = config.openai.maxTokens,
+      temperature = config.openai.temperature,
+      play,
+      voice
+    } = options;
+    const { baseUrl, apiKey, model, headers, timeoutMs } = this.settings;
+
+    if (!baseUrl || !model) {
+      logger.error('OpenAI-compatible endpoint is not configured');
+      throw new Error('OpenAI-compatible endpoint is not configured');
+    }
+
+    const startTime = performance.now();
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const httpResponse = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          ...headers
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: getAnnouncerSystemMessage(announcerStyle, voice) },
+            { role: 'user', content: prompt }
+          ],
+          max_tokens: maxTokens,
+          temperature
+        }),
+        signal: controller.signal
+      });
+
+      if (!httpResponse.ok) {
+        throw new Error(`OpenAI-compatible endpoint responded with ${httpResponse.status}: ${await httpResponse.text()}`);
+      }
+
+      const response = await httpResponse.json();
+      const latencyMs = Math.round(performance.now() - startTime);
+
+      await saveCompletionLog(response, {
+        prompt,
+        model,
+        gameId,
+        temperature,
+        maxTokens,
+        latencyMs,
+        retryCount,
+        announcerStyle,
+        play
+      });
+
+      return response.choices?.[0]?.message?.content || '';
+    } catch (error) {
+      logger.error('Error generating completion from OpenAI-compatible endpoint', {
+        baseUrl,
+        model,
+        timedOut: controller.signal.aborted,
+        error
+      });
+      throw new Error('Failed to generate completion');
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Gets the name of the AI provider
+   * @returns The provider name
+   */
+  public getProviderName(): string {
+    return 'openai-compatible';
+  }
+
+  /**
+   * Gets the model that generates the completions
+   * @returns The configured model
+   */
+  public getModelName(): string {
+    return this.settings.model;
+  }
+}
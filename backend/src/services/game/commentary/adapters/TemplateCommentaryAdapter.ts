@@ -0,0 +1,310 @@
+import { AIServiceAdapter, AICompletionOptions, PlayCallContext } from './AIServiceAdapter';
+import {
+  COLOR_TEMPLATE_PHRASES,
+  ColorCommentKind,
+  PhraseBank,
+  PlayCallKind,
+  TEMPLATE_PHRASES
+} from './templatePhrases';
+import { parseDetailedEvent } from '../../../eventTranslation/detailedEventParser';
+import { DetailedBaseballEvent, FIELD_POSITION_NAMES } from '../../../eventTranslation/detailedEventTypes';
+
+/**
+ * Where a hit went, by the fielder it went to
+ */
+const HIT_DIRECTIONS: Record<number, string> = {
+  1: 'back up the middle',
+  2: 'in front of the plate',
+  3: 'down the first-base line',
+  4: 'through the right side',
+  5: 'down the third-base line',
+  6: 'through the left side',
+  7: 'to left',
+  8: 'to center',
+  9: 'to right'
+};
+
+const BASE_NAMES: Record<string, string> = {
+  '1': 'first',
+  '2': 'second',
+  '3': 'third',
+  'H': 'home'
+};
+
+const OUTS = ['no outs', 'one out', 'two outs'];
+
+/**
+ * Base the batter reaches on each kind of play when the event does not say
+ */
+const BATTER_BASES: Record<string, string> = {
+  S: '1',
+  D: '2',
+  DGR: '2',
+  T: '3',
+  HR: 'H',
+  W: '1',
+  IW: '1',
+  HP: '1',
+  E: '1',
+  FC: '1'
+};
+
+/**
+ * Offline implementation of the AIServiceAdapter that calls plays from phrase
+ * templates instead of a language model
+ *
+ * The call is built from the play passed in the options (see PlayCallContext):
+ * the event code is parsed into a DetailedBaseballEvent, and the announcer's
+ * phrase bank supplies a call for that kind of play, the runs that scored, the
+ * score and the runners left on. The prompt is ignored. The same play always
+ * gets the same call, so the output is stable enough to test against.
+ *
+ * Used when LLM calls are skipped, for demos, CI and offline development.
+ */
+export class TemplateCommentaryAdapter implements AIServiceAdapter {
+  /**
+   * Calls a play from the phrase bank of the announcer style, or comments on
+   * it as the color analyst when the voice is 'color'
+   * @param prompt The prompt (not used)
+   * @param options Options for the completion; without a play, a generic line is returned
+   * @returns The call
+   */
+  public async generateCompletion(
+    prompt: string,
+    options: AICompletionOptions = {}
+  ): Promise<string> {
+    const phrases = TEMPLATE_PHRASES[options.announcerStyle ?? 'classic'];
+    const { play, gameId = '' } = options;
+
+    if (!play) {
+      return pick(phrases.noPlay, `${gameId}:${prompt.length}`);
+    }
+    if (options.voice === 'color') {
+      return this.commentOnPlay(play, `${gameId}:${play.playIndex}`);
+    }
+    return this.callPlay(play, phrases, `${gameId}:${play.playIndex}`);
+  }
+
+  /**
+   * Gets the name of the AI provider
+   * @returns The provider name
+   */
+  public getProviderName(): string {
+    return 'template';
+  }
+
+  /**
+   * Gets the model that generates the completions
+   * @returns 'template', as the calls come from the phrase banks
+   */
+  public getModelName(): string {
+    return 'template';
+  }
+
+  /**
+   * Builds the call of a play: what happened, who scored, the score if it
+   * changed, and the outs and runners left on
+   */
+  private callPlay(play: PlayCallContext, phrases: PhraseBank, seed: string): string {
+    const event = parseDetailedEvent(play.event);
+    const kind = playKind(event);
+    const runnerMoves = event.baseRunning.filter(move => move.fromBase !== 'B');
+    const stealing = runnerMoves[0];
+
+    const sentences = [
+      fill(pick(phrases.plays[kind], `${seed}:${kind}`), {
+        batter: play.batter,
+        pitcher: play.pitcher,
+        fielder: FIELD_POSITION_NAMES[event.fielders[0]?.position ?? 0] ?? 'fielder',
+        where: HIT_DIRECTIONS[event.fielders[0]?.position ?? 0] ?? 'into play',
+        runner: stealing ? runnerOn(play, stealing.fromBase) || 'the runner' : 'the runner',
+        base: stealing ? BASE_NAMES[stealing.toBase] ?? 'the next base' : 'the next base'
+      })
+    ];
+
+    runnerMoves
+      .filter(move => move.toBase === 'H' && !move.isOut && runnerOn(play, move.fromBase))
+      .forEach(move => sentences.push(fill(pick(phrases.runScores, `${seed}:${move.fromBase}`), {
+        runner: runnerOn(play, move.fromBase)
+      })));
+
+    if (play.runsScored > 0) {
+      sentences.push(this.callScore(play, phrases, seed));
+    }
+
+    if (play.outsAfter >= 3) {
+      sentences.push(pick(phrases.sideRetired, seed));
+    } else {
+      const bases = basesAfter(play, event);
+      if (bases) {
+        sentences.push(fill(pick(phrases.runnersOn, seed), {
+          bases,
+          outs: OUTS[play.outsAfter] ?? 'two outs',
+          team: play.battingTeam
+        }));
+      }
+    }
+
+    return sentences.map(capitalize).join(' ');
+  }
+
+  /**
+   * Builds the color analyst's comment on a play: why it worked, and what the
+   * runs it scored mean for the batting team
+   */
+  private commentOnPlay(play: PlayCallContext, seed: string): string {
+    const kind = colorKind(playKind(parseDetailedEvent(play.event)));
+    const values = { batter: play.batter, pitcher: play.pitcher, team: play.battingTeam };
+
+    const sentences = [fill(pick(COLOR_TEMPLATE_PHRASES[kind], `${seed}:color:${kind}`), values)];
+    if (play.runsScored > 0) {
+      sentences.push(fill(pick(COLOR_TEMPLATE_PHRASES.runsScored, `${seed}:color`), values));
+    }
+
+    return sentences.map(capitalize).join(' ');
+  }
+
+  /**
+   * Calls the score after a play that scored runs
+   */
+  private callScore(play: PlayCallContext, phrases: PhraseBank, seed: string): string {
+    const batting = play.battingTeamRuns + play.runsScored;
+    const fielding = play.fieldingTeamRuns;
+
+    if (batting === fielding) {
+      return fill(pick(phrases.scoreTied, seed), { runs: String(batting) });
+    }
+
+    const battingLeads = batting > fielding;
+    return fill(pick(phrases.scoreLead, seed), {
+      leader: battingLeads ? play.battingTeam : play.fieldingTeam,
+      leaderRuns: String(Math.max(batting, fielding)),
+      trailer: battingLeads ? play.fieldingTeam : play.battingTeam,
+      trailerRuns: String(Math.min(batting, fielding))
+    });
+  }
+}
+
+/**
+ * Sorts a play into the kinds the phrase banks have calls for
+ */
+function playKind(event: DetailedBaseballEvent): PlayCallKind {
+  if (event.isDoublePlay || event.isTriplePlay) {
+    return 'doublePlay';
+  }
+
+  switch (event.primaryEventType) {
+    case 'HR': return 'homeRun';
+    case 'T': return 'triple';
+    case 'D':
+    case 'DGR': return 'double';
+    case 'S': return 'single';
+    case 'W':
+    case 'IW': return 'walk';
+    case 'HP': return 'hitByPitch';
+    case 'K': return 'strikeout';
+    case 'G': return 'groundOut';
+    case 'F':
+    case 'P': return 'flyOut';
+    case 'L': return 'lineOut';
+    case 'SH':
+    case 'SF': return 'sacrifice';
+    case 'E': return 'error';
+    case 'FC': return 'fieldersChoice';
+    case 'SB': return 'stolenBase';
+    case 'CS':
+    case 'PO':
+    case 'POCS': return 'caughtStealing';
+    case 'WP':
+    case 'PB':
+    case 'BK': return 'wildPitch';
+    default: return 'other';
+  }
+}
+
+/**
+ * Sorts the kinds of play into the fewer kinds the color analyst comments on
+ */
+function colorKind(kind: PlayCallKind): ColorCommentKind {
+  switch (kind) {
+    case 'homeRun': return 'homeRun';
+    case 'triple':
+    case 'double': return 'extraBaseHit';
+    case 'single': return 'single';
+    case 'walk':
+    case 'hitByPitch': return 'freePass';
+    case 'strikeout': return 'strikeout';
+    case 'groundOut':
+    case 'flyOut':
+    case 'lineOut':
+    case 'doublePlay':
+    case 'sacrifice':
+    case 'caughtStealing': return 'out';
+    default: return 'other';
+  }
+}
+
+/**
+ * Gets the runner who was on a base before the play ('1', '2' or '3')
+ */
+function runnerOn(play: PlayCallContext, base: string): string {
+  switch (base) {
+    case '1': return play.runners.first;
+    case '2': return play.runners.second;
+    case '3': return play.runners.third;
+    default: return '';
+  }
+}
+
+/**
+ * Describes the runners on base after the play, e.g. "runners on first and
+ * third"; empty if the bases are empty
+ */
+function basesAfter(play: PlayCallContext, event: DetailedBaseballEvent): string {
+  const occupied = new Set(['1', '2', '3'].filter(base => runnerOn(play, base)));
+
+  for (const move of event.baseRunning) {
+    occupied.delete(move.fromBase);
+  }
+  for (const move of event.baseRunning) {
+    if (!move.isOut) {
+      occupied.add(move.toBase);
+    }
+  }
+
+  const batterBase = BATTER_BASES[event.primaryEventType];
+  if (batterBase && !event.baseRunning.some(move => move.fromBase === 'B')) {
+    occupied.add(batterBase);
+  }
+  occupied.delete('H');
+
+  const bases = ['1', '2', '3'].filter(base => occupied.has(base)).map(base => BASE_NAMES[base]);
+  switch (bases.length) {
+    case 0: return '';
+    case 1: return `a runner on ${bases[0]}`;
+    case 2: return `runners on ${bases[0]} and ${bases[1]}`;
+    default: return 'the bases loaded';
+  }
+}
+
+/**
+ * Picks a phrase from a list, always the same one for the same seed
+ */
+function pick(phrases: string[], seed: string): string {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) >>> 0;
+  }
+  return phrases[hash % phrases.length];
+}
+
+/**
+ * Fills in the {placeholders} of a phrase
+ */
+function fill(phrase: string, values: Record<string, string>): string {
+  return phrase.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+function capitalize(sentence: string): string {
+  return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+}
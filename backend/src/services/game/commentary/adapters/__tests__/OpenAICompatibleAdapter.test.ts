@@ -0,0 +1,218 @@
+/**
+ * OpenAICompatibleAdapter Unit Tests
+ *
+ * These tests run the adapter against a stub chat completions server on
+ * localhost and check the request it sends (URL, headers, model, messages),
+ * the text it returns, the completion it logs and how it fails.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+jest.mock('../../../../../config/config', () => ({
+  config: {
+    openai: { maxTokens: 1000, temperature: 0.7 }
+  }
+}));
+
+const mockInsert = jest.fn();
+jest.mock('../../../../../config/database', () => ({
+  db: jest.fn(() => ({ insert: mockInsert }))
+}));
+
+import { OpenAICompatibleAdapter, OpenAICompatibleSettings } from '../OpenAICompatibleAdapter';
+import { hashPrompt } from '../chatCompletion';
+
+// Suppress noisy logs during tests
+beforeAll(() => { jest.spyOn(console, 'error').mockImplementation(() => {}); });
+afterAll(() => { jest.restoreAllMocks(); });
+
+interface StubRequest {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+describe('OpenAICompatibleAdapter', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: StubRequest[];
+  let reply: (res: http.ServerResponse) => void;
+
+  const completion = {
+    id: 'chatcmpl-1',
+    created: 1714000000,
+    choices: [{ message: { role: 'assistant', content: 'A line drive to center!' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 50, completion_tokens: 6, total_tokens: 56 }
+  };
+
+  const settings = (overrides: Partial<OpenAICompatibleSettings> = {}): OpenAICompatibleSettings => ({
+    baseUrl,
+    apiKey: '',
+    model: 'local-model',
+    headers: {},
+    timeoutMs: 1000,
+    ...overrides
+  });
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+        reply(res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    mockInsert.mockReset().mockResolvedValue([1]);
+    reply = res => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(completion));
+    };
+  });
+
+  it('is registered as the openai-compatible provider', () => {
+    expect(new OpenAICompatibleAdapter(settings()).getProviderName()).toBe('openai-compatible');
+    expect(new OpenAICompatibleAdapter(settings()).getModelName()).toBe('local-model');
+  });
+
+  it('posts a chat completion to the configured endpoint and returns its text', async () => {
+    const adapter = new OpenAICompatibleAdapter(settings({
+      baseUrl: `${baseUrl}/`,
+      apiKey: 'secret',
+      headers: { 'X-Team': 'reds' }
+    }));
+
+    const text = await adapter.generateCompletion('Call the play', {
+      announcerStyle: 'enthusiastic',
+      maxTokens: 120,
+      temperature: 0.4
+    });
+
+    expect(text).toBe('A line drive to center!');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].headers).toMatchObject({ authorization: 'Bearer secret', 'x-team': 'reds' });
+    expect(requests[0].body).toEqual({
+      model: 'local-model',
+      messages: [
+        { role: 'system', content: expect.stringContaining('Harry Caray') },
+        { role: 'user', content: 'Call the play' }
+      ],
+      max_tokens: 120,
+      temperature: 0.4
+    });
+  });
+
+  it('sets the color analyst as the system message of the color voice', async () => {
+    await new OpenAICompatibleAdapter(settings()).generateCompletion('Comment on the play', {
+      announcerStyle: 'classic',
+      voice: 'color'
+    });
+
+    expect(requests[0].body.messages[0]).toEqual({
+      role: 'system',
+      content: expect.stringMatching(/color analyst.*Bob Costas/)
+    });
+  });
+
+  it('logs the completion with the model that answered it', async () => {
+    reply = res => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ...completion, model: 'local-model-q4' }));
+    };
+
+    await new OpenAICompatibleAdapter(settings()).generateCompletion('Call the play', { gameId: 'CIN201904150' });
+
+    expect(mockInsert).toHaveBeenCalledWith(expect.objectContaining({
+      prompt: 'Call the play',
+      model: 'local-model-q4',
+      completion_id: 'chatcmpl-1',
+      content: 'A line drive to center!',
+      total_tokens: 56,
+      game_id: 'CIN201904150'
+    }));
+  });
+
+  it('logs the configured model when the response names none', async () => {
+    await new OpenAICompatibleAdapter(settings()).generateCompletion('Call the play', { gameId: 'CIN201904150' });
+
+    expect(mockInsert).toHaveBeenCalledWith(expect.objectContaining({ model: 'local-model' }));
+  });
+
+  it('logs the play, announcer style and prompt hash that cached commentary is found by', async () => {
+    const play = {
+      playIndex: 42,
+      event: 'S8',
+      batter: 'Joey Votto',
+      pitcher: 'Trevor Williams',
+      inning: 3,
+      isTopInning: false,
+      outsBefore: 1,
+      outsAfter: 1,
+      runners: { first: '', second: '', third: '' },
+      battingTeam: 'Cincinnati Reds',
+      fieldingTeam: 'Pittsburgh Pirates',
+      battingTeamRuns: 1,
+      fieldingTeamRuns: 2,
+      runsScored: 0
+    };
+
+    await new OpenAICompatibleAdapter(settings()).generateCompletion('Call the play', {
+      gameId: 'CIN201904150',
+      announcerStyle: 'classic',
+      play
+    });
+
+    expect(mockInsert).toHaveBeenCalledWith(expect.objectContaining({
+      prompt_hash: hashPrompt('Call the play'),
+      play_index: 42,
+      announcer_style: 'classic',
+      inning: 3,
+      is_top_inning: false,
+      outs: 1
+    }));
+    expect(hashPrompt('Call the play')).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('sends no authorization header without an API key', async () => {
+    await new OpenAICompatibleAdapter(settings()).generateCompletion('Call the play');
+
+    expect(requests[0].headers).not.toHaveProperty('authorization');
+  });
+
+  it('fails when the endpoint responds with an error', async () => {
+    reply = res => {
+      res.writeHead(503);
+      res.end('model is loading');
+    };
+
+    await expect(new OpenAICompatibleAdapter(settings()).generateCompletion('Call the play'))
+      .rejects.toThrow('Failed to generate completion');
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
+  it('gives up after the timeout', async () => {
+    reply = () => { /* never responds */ };
+
+    await expect(new OpenAICompatibleAdapter(settings({ timeoutMs: 50 })).generateCompletion('Call the play'))
+      .rejects.toThrow('Failed to generate completion');
+  });
+
+  it('fails without a configured endpoint', async () => {
+    await expect(new OpenAICompatibleAdapter(settings({ baseUrl: '' })).generateCompletion('Call the play'))
+      .rejects.toThrow('OpenAI-compatible endpoint is not configured');
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * TemplateCommentaryAdapter Unit Tests
+ *
+ * These tests check that plays are called from the announcer's phrase bank
+ * with the players, runs, score and runners of the play, that the same play
+ * always gets the same call, and that the color analyst comments on plays
+ * from a phrase bank of its own.
+ */
+
+import { TemplateCommentaryAdapter } from '../TemplateCommentaryAdapter';
+import { PlayCallContext } from '../AIServiceAdapter';
+import { COLOR_TEMPLATE_PHRASES, TEMPLATE_PHRASES } from '../templatePhrases';
+
+function play(overrides: Partial<PlayCallContext> = {}): PlayCallContext {
+  return {
+    playIndex: 42,
+    event: 'S8',
+    batter: 'Joey Votto',
+    pitcher: 'Trevor Williams',
+    inning: 3,
+    isTopInning: false,
+    outsBefore: 1,
+    outsAfter: 1,
+    runners: { first: '', second: '', third: '' },
+    battingTeam: 'Cincinnati Reds',
+    fieldingTeam: 'Pittsburgh Pirates',
+    battingTeamRuns: 1,
+    fieldingTeamRuns: 2,
+    runsScored: 0,
+    ...overrides
+  };
+}
+
+describe('TemplateCommentaryAdapter', () => {
+  const adapter = new TemplateCommentaryAdapter();
+
+  it('is registered as the template provider', () => {
+    expect(adapter.getProviderName()).toBe('template');
+  });
+
+  it('calls a hit with the batter, where it went and the runner left on', async () => {
+    const call = await adapter.generateCompletion('', { gameId: 'CIN201904150', play: play() });
+
+    expect(call).toContain('Joey Votto');
+    expect(call).toContain('to center');
+    expect(call).toMatch(/a runner on first/i);
+    expect(call).toMatch(/one out/i);
+  });
+
+  it('calls the runners who scored and the new score', async () => {
+    const call = await adapter.generateCompletion('', {
+      gameId: 'CIN201904150',
+      play: play({
+        event: 'HR/F7.2-H;1-H',
+        runners: { first: 'Eugenio Suarez', second: 'Yasiel Puig', third: '' },
+        runsScored: 3
+      })
+    });
+
+    expect(call).toContain('to left');
+    expect(call).toContain('Eugenio Suarez');
+    expect(call).toContain('Yasiel Puig');
+    expect(call).toMatch(/Cincinnati Reds.*4.*Pittsburgh Pirates.*2/);
+    expect(call).not.toMatch(/runners? on/i);
+  });
+
+  it('calls a tie game', async () => {
+    const call = await adapter.generateCompletion('', {
+      play: play({ event: 'D9/L.3-H', runners: { first: '', second: '', third: 'Yasiel Puig' }, runsScored: 1 })
+    });
+
+    expect(call).toContain('2');
+    expect(call).toMatch(/even|ties|tie|square|knotted|apiece/i);
+    expect(call).toMatch(/a runner on second/i);
+  });
+
+  it('calls the end of the inning on the third out', async () => {
+    const call = await adapter.generateCompletion('', {
+      play: play({ event: '64(1)3/GDP', runners: { first: 'Yasiel Puig', second: '', third: '' }, outsAfter: 3 })
+    });
+
+    expect(TEMPLATE_PHRASES.classic.sideRetired.some(phrase => call.endsWith(phrase))).toBe(true);
+    expect(call).not.toMatch(/runners? on/i);
+  });
+
+  it('calls the runner of a stolen base', async () => {
+    const call = await adapter.generateCompletion('', {
+      play: play({ event: 'SB2', runners: { first: 'Billy Hamilton', second: '', third: '' } })
+    });
+
+    expect(call).toContain('Billy Hamilton');
+    expect(call).toContain('second');
+  });
+
+  it('calls plays in the style of the announcer', async () => {
+    const options = { gameId: 'CIN201904150', play: play({ event: 'K', outsAfter: 2 }) };
+
+    const classic = await adapter.generateCompletion('', { ...options, announcerStyle: 'classic' });
+    const enthusiastic = await adapter.generateCompletion('', { ...options, announcerStyle: 'enthusiastic' });
+
+    expect(classic).not.toEqual(enthusiastic);
+    expect(enthusiastic).toContain('!');
+  });
+
+  it('always gives the same play the same call', async () => {
+    const options = { gameId: 'CIN201904150', announcerStyle: 'poetic' as const, play: play({ event: 'F8' }) };
+
+    const first = await adapter.generateCompletion('', options);
+    const second = await adapter.generateCompletion('', options);
+
+    expect(first).toEqual(second);
+    expect(first).toContain('center fielder');
+  });
+
+  it('comments on a play as the color analyst', async () => {
+    const options = { gameId: 'CIN201904150', play: play({ event: 'K', outsAfter: 2 }) };
+
+    const call = await adapter.generateCompletion('', options);
+    const comment = await adapter.generateCompletion('', { ...options, voice: 'color' });
+
+    expect(comment).not.toEqual(call);
+    expect(COLOR_TEMPLATE_PHRASES.strikeout.map(phrase => phrase
+      .replace('{pitcher}', 'Trevor Williams')
+      .replace('{batter}', 'Joey Votto'))).toContain(comment);
+  });
+
+  it('has the color analyst note the runs a play scored', async () => {
+    const comment = await adapter.generateCompletion('', {
+      gameId: 'CIN201904150',
+      voice: 'color',
+      play: play({ event: 'HR/F7', runsScored: 1 })
+    });
+
+    expect(comment).toContain('Cincinnati Reds');
+  });
+
+  it('returns a generic line without a play', async () => {
+    const call = await adapter.generateCompletion('Describe the play', { announcerStyle: 'modern' });
+
+    expect(TEMPLATE_PHRASES.modern.noPlay).toContain(call);
+  });
+});
@@ -0,0 +1,107 @@
+import { createHash } from 'crypto';
+import { db } from '../../../../config/database';
+import { AICompletionOptions, PlayCallContext } from './AIServiceAdapter';
+
+/**
+ * Announcers whose style each announcer style is modeled on
+ */
+const ANNOUNCERS = {
+  'classic': 'Bob Costas',
+  'modern': 'Joe Buck',
+  'enthusiastic': 'Harry Caray',
+  'poetic': 'Vin Scully'
+};
+
+/**
+ * Gets the system message that sets the announcer for a chat completion
+ * @param announcerStyle The announcer style
+ * @param voice The voice of the two-voice booth; the color analyst sits next to the announcer
+ */
+export function getAnnouncerSystemMessage(
+  announcerStyle: NonNullable<AICompletionOptions['announcerStyle']> = 'poetic',
+  voice: NonNullable<AICompletionOptions['voice']> = 'playByPlay'
+): string {
+  if (voice === 'color') {
+    return `You are a baseball color analyst in the booth with an announcer in the style of ${ANNOUNCERS[announcerStyle]}.`;
+  }
+  return `You are a baseball announcer describing plays in the style of ${ANNOUNCERS[announcerStyle]}.`;
+}
+
+/**
+ * Hashes a prompt for the prompt_hash column, which commentary cache lookups match on
+ * @param prompt The prompt
+ * @returns The hex SHA-256 of the prompt
+ */
+export function hashPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex');
+}
+
+/**
+ * What is logged for a completion besides the provider's response
+ */
+export interface CompletionLogDetails {
+  prompt: string;
+
+  /**
+   * The model requested, logged when the response does not name the model
+   * that answered it
+   */
+  model: string;
+
+  gameId: string;
+  temperature: number;
+  maxTokens: number;
+  latencyMs?: number;
+  retryCount?: number;
+  announcerStyle?: AICompletionOptions['announcerStyle'];
+
+  /**
+   * The play called, which fills play_index, inning, is_top_inning and outs
+   */
+  play?: PlayCallContext;
+}
+
+/**
+ * Saves a completion to the openai_completions_log table. Failures are
+ * logged rather than thrown, so a completion is never lost to its logging.
+ * @param response The response of an OpenAI or OpenAI-compatible completions endpoint
+ * @param details The request the response answers
+ */
+export async function saveCompletionLog(response: any, details: CompletionLogDetails): Promise<void> {
+  try {
+    // Determine if this is a chat completion or regular completion
+    const isChatCompletion = response.choices?.[0]?.message !== undefined;
+
+    await db('openai_completions_log').insert({
+      prompt: details.prompt,
+      prompt_hash: hashPrompt(details.prompt),
+      // The model that answered, which for an alias is the model it resolved to
+      model: response.model || details.model,
+      temperature: details.temperature,
+      max_tokens: details.maxTokens,
+
+      completion_id: response.id,
+      content: isChatCompletion ? response.choices[0].message.content : response.choices[0].text,
+      finish_reason: response.choices[0].finish_reason,
+
+      prompt_tokens: response.usage?.prompt_tokens,
+      completion_tokens: response.usage?.completion_tokens,
+      total_tokens: response.usage?.total_tokens,
+
+      game_id: details.gameId,
+      play_index: details.play?.playIndex,
+      announcer_style: details.announcerStyle,
+      inning: details.play?.inning,
+      is_top_inning: details.play?.isTopInning,
+      outs: details.play?.outsBefore,
+
+      latency_ms: details.latencyMs,
+      retry_count: details.retryCount ?? 0,
+
+      openai_created_at: response.created
+    });
+  } catch (error) {
+    console.error('Error saving completion to database:', error);
+    // Don't throw here - we don't want to fail the main operation if DB save fails
+  }
+}
@@ -1,3 +1,6 @@
-export { AIServiceAdapter, AICompletionOptions } from './AIServiceAdapter';
+export { AIServiceAdapter, AICompletionOptions, PlayCallContext } from './AIServiceAdapter';
 export { OpenAIAdapter } from './OpenAIAdapter';
-export { AIAdapterFactory, getAIAdapter } from './AIAdapterFactory';
\ No newline at end of file
+export { OpenAICompatibleAdapter, OpenAICompatibleSettings } from './OpenAICompatibleAdapter';
+export { TemplateCommentaryAdapter } from './TemplateCommentaryAdapter';
+export { AIAdapterFactory, getAIAdapter } from './AIAdapterFactory';
+export { hashPrompt } from './chatCompletion';
\ No newline at end of file
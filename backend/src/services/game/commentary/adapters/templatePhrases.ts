@@ -0,0 +1,512 @@
+/**
+ * Kinds of play the template adapter has calls for
+ */
+export type PlayCallKind =
+  | 'homeRun'
+  | 'triple'
+  | 'double'
+  | 'single'
+  | 'walk'
+  | 'hitByPitch'
+  | 'strikeout'
+  | 'groundOut'
+  | 'flyOut'
+  | 'lineOut'
+  | 'doublePlay'
+  | 'sacrifice'
+  | 'error'
+  | 'fieldersChoice'
+  | 'stolenBase'
+  | 'caughtStealing'
+  | 'wildPitch'
+  | 'other';
+
+/**
+ * An announcer's phrases, one list per kind of play and one per kind of
+ * follow-up sentence. The adapter picks one phrase from a list and fills in
+ * its placeholders:
+ *
+ * - {batter}, {pitcher}: the batter and the pitcher
+ * - {where}: where a hit went, e.g. "to center" ("into play" if unknown)
+ * - {fielder}: the fielder who made the play, e.g. "shortstop"
+ * - {runner}, {base}: the runner of a stolen base, caught stealing or run
+ *   scored, and the base they were headed for
+ * - {leader}, {leaderRuns}, {trailer}, {trailerRuns}, {runs}: the score
+ * - {bases}, {outs}: the runners left on and the outs, e.g. "runners on
+ *   first and third" and "one out"
+ * - {team}: the batting team
+ */
+export interface PhraseBank {
+  plays: Record<PlayCallKind, string[]>;
+  runScores: string[];
+  scoreLead: string[];
+  scoreTied: string[];
+  sideRetired: string[];
+  runnersOn: string[];
+
+  /**
+   * Calls for when the adapter is given no play, only a prompt
+   */
+  noPlay: string[];
+}
+
+/**
+ * Phrase banks by announcer style
+ */
+export const TEMPLATE_PHRASES: Record<'classic' | 'modern' | 'enthusiastic' | 'poetic', PhraseBank> = {
+  classic: {
+    plays: {
+      homeRun: [
+        '{batter} swings, and that ball is going, going, gone {where}!',
+        'There is a high drive {where}, and it is out of here. A home run for {batter}.'
+      ],
+      triple: [
+        '{batter} drives one {where}, around second, into third standing up. A triple.',
+        'Into the gap {where} goes the drive from {batter}, and that will be a triple.'
+      ],
+      double: [
+        '{batter} lines one {where}, and that is a stand-up double.',
+        '{pitcher} deals, and {batter} rips it {where} for two bases.'
+      ],
+      single: [
+        '{batter} lines a base hit {where}.',
+        '{pitcher} delivers, and {batter} slaps a single {where}.'
+      ],
+      walk: [
+        'Ball four, and {batter} takes first.',
+        '{pitcher} misses again, and {batter} draws the walk.'
+      ],
+      hitByPitch: [
+        '{pitcher} comes inside and plunks {batter}, who takes first.',
+        'That one gets {batter}, who will be awarded first base.'
+      ],
+      strikeout: [
+        '{pitcher} sets, delivers, and {batter} goes down on strikes.',
+        'Strike three! {pitcher} gets {batter}.'
+      ],
+      groundOut: [
+        '{batter} hits a ground ball to the {fielder}, who handles it for the out.',
+        'A routine grounder to the {fielder}, and {batter} is retired.'
+      ],
+      flyOut: [
+        '{batter} lifts a fly ball, and the {fielder} settles under it for the out.',
+        'A lazy fly ball off the bat of {batter}, and the {fielder} puts it away.'
+      ],
+      lineOut: [
+        '{batter} hits it hard, but right at the {fielder}.',
+        'A line drive, and the {fielder} snares it. {batter} is out.'
+      ],
+      doublePlay: [
+        'Ground ball to the {fielder}, over to second, on to first, and it is a double play.',
+        '{pitcher} gets the ground ball, and they turn two on {batter}.'
+      ],
+      sacrifice: [
+        '{batter} does the job, giving up an out to move the runner along.',
+        'A productive out from {batter}, and the runners move up.'
+      ],
+      error: [
+        'A ground ball to the {fielder}, who boots it. {batter} is aboard on the error.',
+        'The {fielder} cannot come up with it, and {batter} reaches on the miscue.'
+      ],
+      fieldersChoice: [
+        '{batter} grounds to the {fielder}, who goes for the lead runner. {batter} is safe at first on the fielder\'s choice.',
+        'They get the force, but {batter} reaches on the fielder\'s choice.'
+      ],
+      stolenBase: [
+        '{runner} is off with the pitch, and steals {base}.',
+        'Here goes {runner}, in safely at {base}.'
+      ],
+      caughtStealing: [
+        '{runner} is running, and the throw is in time at {base}.',
+        '{runner} tries for {base}, and is gunned down.'
+      ],
+      wildPitch: [
+        'That pitch gets away, and the runners move up.',
+        'It skips past the catcher, and everybody takes a base.'
+      ],
+      other: [
+        '{pitcher} checks the runners and gets set.',
+        '{batter} steps out, and we are ready to go again.'
+      ]
+    },
+    runScores: [
+      '{runner} comes in to score.',
+      'Here comes {runner} across the plate.'
+    ],
+    scoreLead: [
+      'That makes it {leader} {leaderRuns}, {trailer} {trailerRuns}.',
+      'The score: {leader} {leaderRuns}, {trailer} {trailerRuns}.'
+    ],
+    scoreTied: [
+      'And we are all even at {runs}.',
+      'That ties it up at {runs} apiece.'
+    ],
+    sideRetired: [
+      'And that will retire the side.',
+      'That is the third out, and the inning is over.'
+    ],
+    runnersOn: [
+      'That leaves {bases} with {outs}.',
+      '{outs}, and {bases}.'
+    ],
+    noPlay: [
+      'It is a fine day for baseball, and we are ready for the next pitch.',
+      'A quiet moment here as the pitcher gets ready.'
+    ]
+  },
+
+  modern: {
+    plays: {
+      homeRun: [
+        '{batter} barrels one {where}, and that ball is gone. Home run.',
+        'No doubt about it. {batter} crushes a mistake from {pitcher} {where} for a homer.'
+      ],
+      triple: [
+        '{batter} splits the gap {where} and motors into third with a triple.',
+        'Well struck by {batter} {where}, and the speed turns it into three bases.'
+      ],
+      double: [
+        '{batter} ropes a double {where}.',
+        'Hard contact from {batter}, who lines it {where} for extra bases.'
+      ],
+      single: [
+        '{batter} finds a hole {where} for a base hit.',
+        '{batter} stays on it and drops a single {where}.'
+      ],
+      walk: [
+        'A disciplined at-bat from {batter}, who works the walk.',
+        '{pitcher} cannot find the zone, and {batter} takes the free pass.'
+      ],
+      hitByPitch: [
+        '{pitcher} loses one inside and hits {batter}.',
+        '{batter} wears that one and heads to first.'
+      ],
+      strikeout: [
+        '{pitcher} punches out {batter}.',
+        'Nasty stuff from {pitcher}, and {batter} goes down swinging.'
+      ],
+      groundOut: [
+        '{batter} rolls over on it, and the {fielder} makes the play.',
+        'Weak contact from {batter}, a routine out for the {fielder}.'
+      ],
+      flyOut: [
+        '{batter} gets under it, and the {fielder} makes the catch.',
+        'Not enough launch from {batter}, and the {fielder} squeezes it.'
+      ],
+      lineOut: [
+        'Great contact from {batter}, but it finds the {fielder}\'s glove.',
+        '{batter} smokes a liner, right at the {fielder}.'
+      ],
+      doublePlay: [
+        '{pitcher} gets the ground ball, and the defense turns an easy two.',
+        'Two outs on one pitch for {pitcher}. The {fielder} starts a slick double play.'
+      ],
+      sacrifice: [
+        '{batter} trades an out for a base, and the runners advance.',
+        'Situational hitting from {batter}, moving the runners up.'
+      ],
+      error: [
+        'The {fielder} misplays it, and {batter} is on by way of the error.',
+        'A defensive miscue by the {fielder} puts {batter} on.'
+      ],
+      fieldersChoice: [
+        'The {fielder} takes the out at the lead base, and {batter} is on with a fielder\'s choice.',
+        '{batter} reaches on the fielder\'s choice as the defense gets the lead runner.'
+      ],
+      stolenBase: [
+        '{runner} gets a great jump and swipes {base}.',
+        '{runner} takes {base} without a throw worth worrying about.'
+      ],
+      caughtStealing: [
+        'Strong throw, and {runner} is cut down trying to take {base}.',
+        'The catcher pops up and throws out {runner} at {base}.'
+      ],
+      wildPitch: [
+        'That one gets by, and the runners move up a base.',
+        'A pitch in the dirt gets away, and the runners advance.'
+      ],
+      other: [
+        '{pitcher} resets on the mound.',
+        '{batter} is back in the box.'
+      ]
+    },
+    runScores: [
+      '{runner} scores.',
+      '{runner} comes around to score.'
+    ],
+    scoreLead: [
+      '{leader} {leaderRuns}, {trailer} {trailerRuns}.',
+      '{leader} now lead it, {leaderRuns} to {trailerRuns}.'
+    ],
+    scoreTied: [
+      'Tie game at {runs}.',
+      'We are all square at {runs}.'
+    ],
+    sideRetired: [
+      'That is three outs.',
+      'Side retired.'
+    ],
+    runnersOn: [
+      '{bases}, {outs} for {team}.',
+      '{team} with {bases} and {outs}.'
+    ],
+    noPlay: [
+      'Here is the next one.',
+      'We are set for the next pitch.'
+    ]
+  },
+
+  enthusiastic: {
+    plays: {
+      homeRun: [
+        'OH, {batter} GOT ALL OF THAT ONE! It is going {where}, and it is GONE!',
+        'Swing and a drive {where}! See ya! {batter} goes deep!'
+      ],
+      triple: [
+        'Look at {batter} fly! A drive {where}, and that is a TRIPLE!',
+        '{batter} rips it {where}, rounding second, heading for third, SAFE! What a triple!'
+      ],
+      double: [
+        'Rocket {where} by {batter}! That is a double!',
+        '{batter} smashes one {where}, in at second with a double!'
+      ],
+      single: [
+        'Base hit! {batter} pokes it {where}!',
+        '{batter} gets a piece of it, and it falls in {where}! A single!'
+      ],
+      walk: [
+        'Ball four! {batter} is on, and this crowd is getting loud!',
+        '{batter} lays off the pitch, and that is a walk!'
+      ],
+      hitByPitch: [
+        'Ouch! {pitcher} drills {batter}, who is awarded first!',
+        'Plunked! {batter} takes one for the team!'
+      ],
+      strikeout: [
+        'Strike three! {pitcher} blows it by {batter}!',
+        'GOT THE STRIKEOUT! {pitcher} rings up {batter}!'
+      ],
+      groundOut: [
+        'Chopper to the {fielder}, and they get {batter} at first!',
+        '{batter} grounds it to the {fielder}, and that is an out!'
+      ],
+      flyOut: [
+        'High fly ball, the {fielder} is there, and makes the catch!',
+        '{batter} skies one, and the {fielder} hauls it in!'
+      ],
+      lineOut: [
+        'Line drive, SNAGGED by the {fielder}! What a play!',
+        '{batter} scorched it, but the {fielder} takes away a hit!'
+      ],
+      doublePlay: [
+        'Ground ball, two, one, DOUBLE PLAY! What a turn!',
+        'Around the horn! {pitcher} gets two outs on one pitch!'
+      ],
+      sacrifice: [
+        '{batter} does the little things, and the runners move up!',
+        'That is how you play the game! {batter} moves them over!'
+      ],
+      error: [
+        'Oh no, the {fielder} cannot handle it! {batter} is on!',
+        'It gets away from the {fielder}! {batter} reaches on the error!'
+      ],
+      fieldersChoice: [
+        'They go for the lead runner and get the out, but {batter} is safe at first!',
+        'The {fielder} takes the force, and {batter} hustles into first!'
+      ],
+      stolenBase: [
+        'There goes {runner}! Steals {base}!',
+        '{runner} takes off, and is SAFE at {base}!'
+      ],
+      caughtStealing: [
+        'What a throw! {runner} is OUT at {base}!',
+        '{runner} goes for {base}, and they NAIL the runner!'
+      ],
+      wildPitch: [
+        'It gets away! The runners are moving up!',
+        'Past the catcher! Everybody moves up!'
+      ],
+      other: [
+        'Here we go again, and you can feel the energy in this ballpark!',
+        '{pitcher} is ready, {batter} is ready, let us play!'
+      ]
+    },
+    runScores: [
+      '{runner} scores!',
+      'Here comes {runner}, and that is HOME!'
+    ],
+    scoreLead: [
+      '{leader} {leaderRuns}, {trailer} {trailerRuns}!',
+      'It is {leader} {leaderRuns}, {trailer} {trailerRuns}, and we have got a ballgame!'
+    ],
+    scoreTied: [
+      'TIE GAME! {runs} to {runs}!',
+      'We are all knotted up at {runs}!'
+    ],
+    sideRetired: [
+      'And that is the inning!',
+      'That is three outs! The side is retired!'
+    ],
+    runnersOn: [
+      '{bases} and {outs}! Here we go!',
+      '{bases} for {team}, {outs}!'
+    ],
+    noPlay: [
+      'What a day for a ballgame, folks!',
+      'Here comes the next pitch, and I cannot wait!'
+    ]
+  },
+
+  poetic: {
+    plays: {
+      homeRun: [
+        '{batter} meets the ball, and it rises {where} like a bird set free, over the wall and into memory.',
+        'A long arc into the afternoon {where}, and it does not come back. {batter} trots the bases.'
+      ],
+      triple: [
+        '{batter} sends it {where}, and the bases unspool underfoot until the journey rests at third.',
+        'The ball rolls on forever {where}, and {batter} runs with it all the way to third.'
+      ],
+      double: [
+        'A sharp line {where} from {batter}, gliding into second.',
+        '{batter} answers {pitcher} with a double {where}.'
+      ],
+      single: [
+        '{batter} lays the ball softly {where}, a single, modest and true.',
+        'A quiet hit {where}, and {batter} takes a place at first.'
+      ],
+      walk: [
+        'Four times {pitcher} misses, and {batter} walks to first with nowhere else to be.',
+        'Patience, the oldest virtue. {batter} takes the walk.'
+      ],
+      hitByPitch: [
+        'The pitch strays from its path and finds {batter}, who takes first without complaint.',
+        '{pitcher} comes too close, and {batter} wears the bruise to first.'
+      ],
+      strikeout: [
+        '{pitcher} paints the corner, and {batter} can only watch it go by. Strike three.',
+        'Three strikes, and {batter} walks back to the dugout with the silence of the defeated.'
+      ],
+      groundOut: [
+        'The ball skips along the grass to the {fielder}, who gathers it in like a farmer at harvest.',
+        '{batter} sends a grounder to the {fielder}, and the out is written.'
+      ],
+      flyOut: [
+        'The ball climbs into the sky and falls, gently, into the glove of the {fielder}.',
+        '{batter} lifts one toward the clouds, and the {fielder} waits for it to come home.'
+      ],
+      lineOut: [
+        '{batter} strikes it true, but the {fielder} is there, as if the ball had been sent on purpose.',
+        'A hard line, and a harder fate. The {fielder} catches it.'
+      ],
+      doublePlay: [
+        'Two outs in one breath, the ball dancing from glove to glove.',
+        '{pitcher} gets the grounder, and the infield turns two, a small ballet in the dirt.'
+      ],
+      sacrifice: [
+        '{batter} gives up an out so another may advance. The game is built on such gifts.',
+        'A selfless out from {batter}, and the runners move along.'
+      ],
+      error: [
+        'Even the surest hands betray us. The {fielder} misplays it, and {batter} is on.',
+        'The ball slips from the {fielder}, and {batter} reaches on the error.'
+      ],
+      fieldersChoice: [
+        'The {fielder} chooses the lead runner, and {batter} takes first instead.',
+        'One runner is lost, and {batter} stands at first on the fielder\'s choice.'
+      ],
+      stolenBase: [
+        '{runner} steals away to {base}, quick as a thought.',
+        'With the pitch, {runner} is gone, and {base} is taken.'
+      ],
+      caughtStealing: [
+        '{runner} reaches for {base}, and the throw arrives first. Ambition, punished.',
+        'The throw beats {runner} to {base}, and the dream ends there.'
+      ],
+      wildPitch: [
+        'The pitch wanders away, and the runners drift forward with it.',
+        'A pitch gone astray, and the runners move up.'
+      ],
+      other: [
+        'The game pauses, breathes, and goes on.',
+        '{pitcher} looks in, and the afternoon waits.'
+      ]
+    },
+    runScores: [
+      '{runner} comes home.',
+      '{runner} touches the plate, and a run is written into the book.'
+    ],
+    scoreLead: [
+      'The ledger reads {leader} {leaderRuns}, {trailer} {trailerRuns}.',
+      '{leader} {leaderRuns}, {trailer} {trailerRuns}, and the story goes on.'
+    ],
+    scoreTied: [
+      'And now they stand even, {runs} and {runs}.',
+      'Balance returns. It is {runs} apiece.'
+    ],
+    sideRetired: [
+      'Three outs, and the inning closes like a book.',
+      'And the side is retired.'
+    ],
+    runnersOn: [
+      '{bases}, {outs}, and the inning waits.',
+      '{outs}, with {bases}.'
+    ],
+    noPlay: [
+      'The game goes on, as it always has.',
+      'A moment of stillness before the next pitch.'
+    ]
+  }
+};
+
+/**
+ * Kinds of play the color analyst has comments for
+ */
+export type ColorCommentKind =
+  | 'homeRun'
+  | 'extraBaseHit'
+  | 'single'
+  | 'freePass'
+  | 'strikeout'
+  | 'out'
+  | 'other';
+
+/**
+ * The color analyst's phrases in the two-voice booth, shared by every
+ * announcer style: one list per kind of play, and one for plays that score
+ * runs. The placeholders are those of PhraseBank.
+ */
+export const COLOR_TEMPLATE_PHRASES: Record<ColorCommentKind | 'runsScored', string[]> = {
+  homeRun: [
+    '{pitcher} left that one up, and {batter} did not miss it. You cannot make a mistake there.',
+    'That is a hitter who knew what was coming. {batter} sat on it and drove it.'
+  ],
+  extraBaseHit: [
+    '{batter} kept the hands inside the ball and found the gap. That is a professional at-bat.',
+    'Look at the outfield positioning there. {batter} took advantage of all that open grass.'
+  ],
+  single: [
+    '{batter} did not try to do too much with that pitch. Just put a good swing on it.',
+    'That is what you want in this spot: a short swing and the ball in play.'
+  ],
+  freePass: [
+    '{pitcher} just could not find the zone there, and that is a free runner for {team}.',
+    'A disciplined at-bat from {batter}. Those walks add up.'
+  ],
+  strikeout: [
+    '{pitcher} set that up beautifully, and {batter} had no chance on the last one.',
+    'That is a pitcher changing speeds and changing eye levels. {batter} was off balance all at-bat.'
+  ],
+  out: [
+    '{pitcher} got exactly what was needed there: weak contact.',
+    'The defense was in the right place. That is preparation paying off.'
+  ],
+  other: [
+    'Little things like that decide ballgames.',
+    'You have to stay alert out there. Every base matters.'
+  ],
+  runsScored: [
+    'And that is how {team} puts runs on the board: pressure, pressure, pressure.',
+    'Those are big runs for {team}, and you could feel the dugout come alive.'
+  ]
+};
@@ -2,7 +2,7 @@ import { SimplifiedBaseballState } from '../../../../../common/types/SimplifiedB
 import { PlayData } from '../../../../../common/types/PlayData';
 import { db } from '../../../config/database';
 import { PlayerService } from '../player/PlayerService';
-import { detectAndSaveLineupChanges, getLineupStateForPlay } from '../lineupTracking';
+import { detectAndSaveLineupChanges, getLineupStateForPlay, deleteLineupStatesAfterPlay } from '../lineupTracking';
 import { LineupError } from '../../../types/errors/GameErrors';
 import { BaseService } from '../../BaseService';
 import { LineupUtils } from '../../../utils/LineupUtils';
@@ -151,12 +151,12 @@ export class LineupService extends BaseService {
    * @param sessionId The session ID for tracking the current game session
    * @param currentPlayData The current play data
    * @param nextPlayData The next play data
-   * @returns Promise that resolves when the processing is complete
+   * @returns True if a substitution or other lineup change was detected
    * @throws {LineupError} If there's an error processing lineup changes
    *
    * @example
    * ```typescript
-   * await LineupService.processLineupChanges(
+   * const lineupChanged = await LineupService.processLineupChanges(
    *   "CIN201904150",
    *   "123e4567-e89b-12d3-a456-426614174000",
    *   currentPlayData,
@@ -169,14 +169,40 @@ export class LineupService extends BaseService {
     sessionId: string,
     currentPlayData: PlayData,
     nextPlayData: PlayData
-  ): Promise<void> {
+  ): Promise<boolean> {
     try {
-      await detectAndSaveLineupChanges(gameId, sessionId, currentPlayData, nextPlayData);
+      const { changes } = await detectAndSaveLineupChanges(gameId, sessionId, currentPlayData, nextPlayData);
+      return changes.length > 0;
     } catch (error) {
       throw new LineupError(`Error processing lineup changes for game ${gameId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Rolls back lineup tracking to a play
+   *
+   * This method discards the lineup states, players and changes recorded after the
+   * given play for the session. It is used when playback steps backwards so that
+   * advancing through the same plays again records each lineup change only once.
+   *
+   * @param gameId The game ID (e.g., "CIN201904150")
+   * @param sessionId The session ID for tracking the current game session
+   * @param playIndex The last play index whose lineup state should be kept
+   * @returns The number of lineup states deleted
+   * @throws {LineupError} If there's an error deleting the lineup states
+   */
+  public async rollbackLineupChanges(
+    gameId: string,
+    sessionId: string,
+    playIndex: number
+  ): Promise<number> {
+    try {
+      return await deleteLineupStatesAfterPlay(gameId, sessionId, playIndex);
+    } catch (error) {
+      throw new LineupError(`Error rolling back lineup changes for game ${gameId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Gets the next batter for a team
    *
@@ -255,10 +281,18 @@ export class LineupService extends BaseService {
     sessionId: string,
     currentPlayData: PlayData,
     nextPlayData: PlayData
-  ): Promise<void> {
+  ): Promise<boolean> {
     return LineupService.getInstance().processLineupChanges(gameId, sessionId, currentPlayData, nextPlayData);
   }
 
+  public static async rollbackLineupChanges(
+    gameId: string,
+    sessionId: string,
+    playIndex: number
+  ): Promise<number> {
+    return LineupService.getInstance().rollbackLineupChanges(gameId, sessionId, playIndex);
+  }
+
   public static async getNextBatter(
     gameId: string,
     teamId: string,
@@ -264,6 +264,48 @@ export async function getLineupStateForPlay(gameId: string, sessionId: string, p
   }
 }
 
+/**
+ * Delete the lineup states recorded after a play, with their players and changes.
+ * Used when playback steps backwards, so that replaying the same plays again does
+ * not duplicate lineup history.
+ * @param gameId The game ID
+ * @param sessionId The session ID
+ * @param playIndex The last play index to keep
+ * @returns The number of lineup states deleted
+ */
+export async function deleteLineupStatesAfterPlay(gameId: string, sessionId: string, playIndex: number): Promise<number> {
+  console.log(`[LINEUP] Rolling back lineup states after play ${playIndex} for game ${gameId}`);
+
+  return db.transaction(async (trx) => {
+    try {
+      const lineupStateIds: number[] = await trx('lineup_states')
+        .where({
+          game_id: gameId,
+          session_id: sessionId
+        })
+        .where('play_index', '>', playIndex)
+        .pluck('id');
+
+      if (lineupStateIds.length === 0) {
+        console.log(`[LINEUP] No lineup states to roll back for game ${gameId}`);
+        return 0;
+      }
+
+      // Delete children explicitly rather than relying on ON DELETE CASCADE
+      await trx('lineup_changes').whereIn('lineup_state_id', lineupStateIds).delete();
+      await trx('lineup_players').whereIn('lineup_state_id', lineupStateIds).delete();
+      await trx('lineup_states').whereIn('id', lineupStateIds).delete();
+
+      console.log(`[LINEUP] Deleted ${lineupStateIds.length} lineup states after play ${playIndex} for game ${gameId}`);
+
+      return lineupStateIds.length;
+    } catch (error) {
+      console.error('Error rolling back lineup states:', error);
+      throw error;
+    }
+  });
+}
+
 /**
  * Get all lineup changes for a game
  * @param gameId The game ID
@@ -335,6 +377,7 @@ export async function getAllLineupChanges(gameId: string, sessionId: string) {
  * @param sessionId The session ID
  * @param homeTeam Home team data
  * @param visitingTeam Visiting team data
+ * @param knownFirstPlay The first play, for games without rows in the plays table (simulations); read from the plays table if omitted
  * @returns The ID of the newly created lineup state
  */
 export async function saveInitialLineup(
@@ -349,7 +392,8 @@ export async function saveInitialLineup(
     id: string;
     lineup: Player[];
     currentPitcher: string;
-  }
+  },
+  knownFirstPlay?: PlayData
 ) {
   try {
     console.log(`[LINEUP] Saving initial lineup for game ${gameId}`);
@@ -369,7 +413,7 @@ export async function saveInitialLineup(
     const players: LineupPlayerData[] = [];
     
     // Get the first play to determine the initial state
-    const firstPlay = await db('plays')
+    const firstPlay = knownFirstPlay ?? await db('plays')
       .where({ gid: gameId })
       .orderBy('pn', 'asc')
       .first();
@@ -470,17 +514,18 @@ export async function saveInitialLineup(
  * @param sessionId The session ID
  * @param currentPlay The current play data
  * @param nextPlay The next play data
- * @returns The ID of the newly created lineup state if changes were detected, null otherwise
+ * @returns The ID of the lineup state saved for the next play, if any, and the lineup changes detected
  */
 export async function detectAndSaveLineupChanges(
   gameId: string,
   sessionId: string,
   currentPlay: PlayData,
   nextPlay: PlayData
-) {
+): Promise<{ lineupStateId: number | null; changes: LineupChangeData[] }> {
   try {
     const detector = new LineupChangeDetector(gameId, sessionId, currentPlay, nextPlay);
-    return await detector.process();
+    const lineupStateId = await detector.process();
+    return { lineupStateId, changes: detector.getChanges() };
   } catch (error) {
     console.error('Error detecting and saving lineup changes:', error);
     throw error;
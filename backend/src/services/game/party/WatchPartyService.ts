@@ -0,0 +1,310 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AnnouncerStyle,
+  IGamePlaybackService,
+  IWatchPartyService,
+  PartyClientMessage,
+  PartyConnection,
+  PartyJoinOptions,
+  PartyServerMessage,
+  PartySnapshot,
+  SimplifiedBaseballState
+} from '../../interfaces';
+import { PartyChatMessage, PartyMember } from '../../../../../common/types/WatchPartyTypes';
+import { BaseService } from '../../BaseService';
+import { GamePlaybackService } from '../playback/GamePlaybackService';
+import { DEFAULT_ANNOUNCER_STYLE } from '../../../constants/GameConstants';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../../../core/errors';
+import { contextLogger } from '../../../core/logging';
+
+/**
+ * Number of chat lines kept for members who join later
+ */
+const CHAT_HISTORY_LIMIT = 100;
+
+interface PartyMemberEntry extends PartyMember {
+  connection: PartyConnection;
+}
+
+interface Party {
+  partyId: string;
+  gameId: string;
+  sessionId: string; // Playback session shared by every member
+  hostId: string;
+  announcerStyle: AnnouncerStyle;
+  members: Map<string, PartyMemberEntry>;
+  state: SimplifiedBaseballState | null;
+  chat: PartyChatMessage[];
+  busy: boolean; // A playback request is in flight
+}
+
+/**
+ * Dependencies for WatchPartyService
+ */
+export interface WatchPartyDependencies {
+  gamePlaybackService?: IGamePlaybackService;
+}
+
+/**
+ * Service for synchronized multi-client playback
+ *
+ * A party owns a single playback session. Only the host can advance, seek or
+ * change the announcer style; each of those calls GamePlaybackService once and
+ * broadcasts the resulting state, so commentary is generated once per play no
+ * matter how many members are watching. Presence changes and chat lines are
+ * broadcast as well. The service is transport-agnostic: members are reached
+ * through a PartyConnection.
+ *
+ * @example
+ * ```typescript
+ * const service = WatchPartyService.getInstance();
+ * const hostId = service.join('friday-night', { name: 'Sam', gameId: 'CIN201904150' }, connection);
+ * await service.handleMessage('friday-night', hostId, { type: 'advance' });
+ * ```
+ */
+export class WatchPartyService extends BaseService implements IWatchPartyService {
+  // Overrides the playback service of every game; see getGamePlaybackService
+  private gamePlaybackService?: IGamePlaybackService;
+  private parties = new Map<string, Party>();
+
+  // Singleton instance for backward compatibility during transition
+  private static instance: WatchPartyService;
+
+  /**
+   * Creates a new instance of the WatchPartyService
+   * @param dependencies Optional dependencies to inject
+   */
+  constructor(dependencies: WatchPartyDependencies = {}) {
+    super(dependencies);
+    this.gamePlaybackService = dependencies.gamePlaybackService;
+  }
+
+  /**
+   * Gets the singleton instance
+   * @returns The singleton instance
+   */
+  public static getInstance(): WatchPartyService {
+    if (!WatchPartyService.instance) {
+      WatchPartyService.instance = new WatchPartyService();
+    }
+    return WatchPartyService.instance;
+  }
+
+  /**
+   * Adds a member to a party, creating the party (with the member as host) if needed
+   * @throws {BadRequestError} If a new party is created without a game ID
+   * @throws {ConflictError} If the party is already watching a different game
+   */
+  public join(partyId: string, options: PartyJoinOptions, connection: PartyConnection): string {
+    let party = this.parties.get(partyId);
+    const memberId = uuidv4();
+
+    if (!party) {
+      if (!options.gameId) {
+        throw new BadRequestError(`Watch party ${partyId} does not exist; a gameId is required to create it`);
+      }
+      party = {
+        partyId,
+        gameId: options.gameId,
+        sessionId: uuidv4(),
+        hostId: memberId,
+        announcerStyle: options.announcerStyle ?? DEFAULT_ANNOUNCER_STYLE,
+        members: new Map(),
+        state: null,
+        chat: [],
+        busy: false
+      };
+      this.parties.set(partyId, party);
+    } else if (options.gameId && options.gameId !== party.gameId) {
+      throw new ConflictError(`Watch party ${partyId} is watching game ${party.gameId}, not ${options.gameId}`);
+    }
+
+    party.members.set(memberId, {
+      memberId,
+      name: options.name,
+      isHost: party.hostId === memberId,
+      joinedAt: new Date().toISOString(),
+      connection
+    });
+
+    contextLogger({ service: 'WatchPartyService', partyId, gameId: party.gameId })
+      .info('Member joined watch party', { memberId, name: options.name, members: party.members.size });
+
+    connection.send({ type: 'welcome', memberId, party: this.toSnapshot(party) });
+    this.broadcastPresence(party);
+
+    return memberId;
+  }
+
+  /**
+   * Removes a member; the host role passes to the longest-connected member and
+   * the party is discarded when its last member leaves
+   */
+  public leave(partyId: string, memberId: string): void {
+    const party = this.parties.get(partyId);
+    if (!party || !party.members.delete(memberId)) {
+      return;
+    }
+
+    const partyLogger = contextLogger({ service: 'WatchPartyService', partyId, gameId: party.gameId });
+    partyLogger.info('Member left watch party', { memberId, members: party.members.size });
+
+    if (party.members.size === 0) {
+      this.parties.delete(partyId);
+      partyLogger.info('Watch party closed');
+      return;
+    }
+
+    if (party.hostId === memberId) {
+      // Map iteration follows insertion order, so the first member joined earliest
+      const nextHost = party.members.values().next().value as PartyMemberEntry;
+      nextHost.isHost = true;
+      party.hostId = nextHost.memberId;
+      partyLogger.info('Watch party host changed', { hostId: nextHost.memberId });
+    }
+
+    this.broadcastPresence(party);
+  }
+
+  /**
+   * Handles a message sent by a member
+   * @throws {NotFoundError} If the party or member does not exist
+   * @throws {ForbiddenError} If a member other than the host tries to control playback
+   * @throws {ConflictError} If playback is already being advanced
+   */
+  public async handleMessage(partyId: string, memberId: string, message: PartyClientMessage): Promise<void> {
+    const party = this.parties.get(partyId);
+    const member = party?.members.get(memberId);
+    if (!party || !member) {
+      throw new NotFoundError(`Member ${memberId} is not in watch party ${partyId}`);
+    }
+
+    if (message.type === 'chat') {
+      this.addChatMessage(party, member, message.text);
+      return;
+    }
+
+    if (party.hostId !== memberId) {
+      throw new ForbiddenError('Only the host can control playback');
+    }
+
+    if (message.type === 'style') {
+      party.announcerStyle = message.announcerStyle;
+      this.broadcast(party, { type: 'style', announcerStyle: message.announcerStyle });
+      return;
+    }
+
+    if (party.busy) {
+      throw new ConflictError('Playback is already advancing');
+    }
+
+    party.busy = true;
+    try {
+      const options = { announcerStyle: party.announcerStyle };
+      const gamePlaybackService = this.getGamePlaybackService(party.gameId);
+      const state = message.type === 'advance'
+        ? await gamePlaybackService.getNextPlay(
+            party.gameId,
+            party.sessionId,
+            party.state?.currentPlay ?? 0,
+            options
+          )
+        : await gamePlaybackService.seek(
+            party.gameId,
+            party.sessionId,
+            { playIndex: message.playIndex, inning: message.inning, half: message.half },
+            options
+          );
+
+      party.state = state;
+      this.broadcast(party, { type: 'state', state });
+    } finally {
+      party.busy = false;
+    }
+  }
+
+  /**
+   * Gets the service that plays a game back: the injected one, otherwise the
+   * instance for a replay or a simulated game
+   * @param gameId The game ID
+   */
+  private getGamePlaybackService(gameId: string): IGamePlaybackService {
+    return this.gamePlaybackService ?? GamePlaybackService.forGame(gameId);
+  }
+
+  /**
+   * Gets a snapshot of a party, or null if it does not exist
+   */
+  public getParty(partyId: string): PartySnapshot | null {
+    const party = this.parties.get(partyId);
+    return party ? this.toSnapshot(party) : null;
+  }
+
+  private addChatMessage(party: Party, member: PartyMemberEntry, text: string): void {
+    const chatMessage: PartyChatMessage = {
+      memberId: member.memberId,
+      name: member.name,
+      text,
+      sentAt: new Date().toISOString()
+    };
+
+    party.chat.push(chatMessage);
+    if (party.chat.length > CHAT_HISTORY_LIMIT) {
+      party.chat.shift();
+    }
+
+    this.broadcast(party, { type: 'chat', message: chatMessage });
+  }
+
+  private broadcastPresence(party: Party): void {
+    this.broadcast(party, { type: 'presence', hostId: party.hostId, members: this.listMembers(party) });
+  }
+
+  private broadcast(party: Party, message: PartyServerMessage): void {
+    for (const member of party.members.values()) {
+      try {
+        member.connection.send(message);
+      } catch (error) {
+        contextLogger({ service: 'WatchPartyService', partyId: party.partyId })
+          .warn('Error sending watch party message', { memberId: member.memberId, error });
+      }
+    }
+  }
+
+  private listMembers(party: Party): PartyMember[] {
+    return Array.from(party.members.values()).map(({ connection, ...member }) => member);
+  }
+
+  private toSnapshot(party: Party): PartySnapshot {
+    return {
+      partyId: party.partyId,
+      gameId: party.gameId,
+      hostId: party.hostId,
+      announcerStyle: party.announcerStyle,
+      members: this.listMembers(party),
+      state: party.state,
+      chat: [...party.chat]
+    };
+  }
+
+  // Static methods for backward compatibility during transition
+  public static join(partyId: string, options: PartyJoinOptions, connection: PartyConnection): string {
+    return WatchPartyService.getInstance().join(partyId, options, connection);
+  }
+
+  public static leave(partyId: string, memberId: string): void {
+    WatchPartyService.getInstance().leave(partyId, memberId);
+  }
+
+  public static async handleMessage(
+    partyId: string,
+    memberId: string,
+    message: PartyClientMessage
+  ): Promise<void> {
+    return WatchPartyService.getInstance().handleMessage(partyId, memberId, message);
+  }
+
+  public static getParty(partyId: string): PartySnapshot | null {
+    return WatchPartyService.getInstance().getParty(partyId);
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * WatchPartyService Unit Tests
+ *
+ * These tests use a mock playback service and recording connections to verify
+ * party creation, host-only controls, broadcasting, presence and chat.
+ */
+
+import { IGamePlaybackService, PartyConnection, PartyServerMessage } from '../../../interfaces';
+import { createMockSimplifiedBaseballState } from '../../../../test/utils';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../../../../core/errors';
+
+// Keep the real GamePlaybackService (and its database dependencies) out of the test
+jest.mock('../../playback/GamePlaybackService', () => ({
+  GamePlaybackService: { getInstance: jest.fn(), forGame: jest.fn() }
+}));
+
+import { WatchPartyService } from '../WatchPartyService';
+
+const PARTY_ID = 'friday-night';
+const GAME_ID = 'CIN201904150';
+
+class RecordingConnection implements PartyConnection {
+  public messages: PartyServerMessage[] = [];
+
+  send(message: PartyServerMessage): void {
+    this.messages.push(message);
+  }
+
+  last<T extends PartyServerMessage['type']>(type: T): Extract<PartyServerMessage, { type: T }> | undefined {
+    return [...this.messages].reverse().find(m => m.type === type) as Extract<PartyServerMessage, { type: T }>;
+  }
+}
+
+describe('WatchPartyService', () => {
+  let mockPlayback: { getNextPlay: jest.Mock; seek: jest.Mock };
+  let service: WatchPartyService;
+  let hostConnection: RecordingConnection;
+  let guestConnection: RecordingConnection;
+  let hostId: string;
+  let guestId: string;
+
+  beforeEach(() => {
+    mockPlayback = {
+      getNextPlay: jest.fn().mockImplementation(async (gameId, sessionId, currentPlay: number) =>
+        createMockSimplifiedBaseballState({ gameId, sessionId, currentPlay: currentPlay + 1 })
+      ),
+      seek: jest.fn().mockImplementation(async (gameId, sessionId, target) =>
+        createMockSimplifiedBaseballState({ gameId, sessionId, currentPlay: target.playIndex ?? 30 })
+      )
+    };
+    service = new WatchPartyService({
+      gamePlaybackService: mockPlayback as unknown as IGamePlaybackService
+    });
+
+    hostConnection = new RecordingConnection();
+    guestConnection = new RecordingConnection();
+    hostId = service.join(PARTY_ID, { name: 'Sam', gameId: GAME_ID }, hostConnection);
+    guestId = service.join(PARTY_ID, { name: 'Alex' }, guestConnection);
+  });
+
+  describe('join', () => {
+    it('makes the creator the host and welcomes later members with a snapshot', () => {
+      const welcome = guestConnection.last('welcome');
+
+      expect(welcome?.memberId).toBe(guestId);
+      expect(welcome?.party).toMatchObject({ partyId: PARTY_ID, gameId: GAME_ID, hostId, state: null });
+      expect(welcome?.party.members.map(m => m.name)).toEqual(['Sam', 'Alex']);
+    });
+
+    it('broadcasts presence to existing members', () => {
+      expect(hostConnection.last('presence')?.members.map(m => m.name)).toEqual(['Sam', 'Alex']);
+    });
+
+    it('requires a gameId to create a party', () => {
+      expect(() => service.join('new-party', { name: 'Kim' }, new RecordingConnection())).toThrow(BadRequestError);
+    });
+
+    it('rejects members asking for a different game', () => {
+      expect(() => service.join(PARTY_ID, { name: 'Kim', gameId: 'NYA201904150' }, new RecordingConnection()))
+        .toThrow(ConflictError);
+    });
+  });
+
+  describe('handleMessage', () => {
+    it('generates each play once and broadcasts it to every member', async () => {
+      await service.handleMessage(PARTY_ID, hostId, { type: 'advance' });
+      await service.handleMessage(PARTY_ID, hostId, { type: 'advance' });
+
+      expect(mockPlayback.getNextPlay).toHaveBeenCalledTimes(2);
+      expect(mockPlayback.getNextPlay.mock.calls[0].slice(2)).toEqual([0, { announcerStyle: 'classic' }]);
+      expect(mockPlayback.getNextPlay.mock.calls[1][2]).toBe(1);
+      expect(hostConnection.last('state')?.state.currentPlay).toBe(2);
+      expect(guestConnection.last('state')?.state.currentPlay).toBe(2);
+      expect(service.getParty(PARTY_ID)?.state?.currentPlay).toBe(2);
+    });
+
+    it('seeks the shared session and uses the chosen announcer style', async () => {
+      await service.handleMessage(PARTY_ID, hostId, { type: 'style', announcerStyle: 'poetic' });
+      await service.handleMessage(PARTY_ID, hostId, { type: 'seek', playIndex: 42 });
+
+      const sessionId = mockPlayback.seek.mock.calls[0][1];
+      expect(mockPlayback.seek).toHaveBeenCalledWith(
+        GAME_ID,
+        sessionId,
+        { playIndex: 42, inning: undefined, half: undefined },
+        { announcerStyle: 'poetic' }
+      );
+      expect(guestConnection.last('style')?.announcerStyle).toBe('poetic');
+      expect(guestConnection.last('state')?.state.currentPlay).toBe(42);
+    });
+
+    it('only lets the host control playback', async () => {
+      await expect(service.handleMessage(PARTY_ID, guestId, { type: 'advance' })).rejects.toThrow(ForbiddenError);
+      await expect(service.handleMessage(PARTY_ID, guestId, { type: 'style', announcerStyle: 'modern' }))
+        .rejects.toThrow(ForbiddenError);
+      expect(mockPlayback.getNextPlay).not.toHaveBeenCalled();
+    });
+
+    it('rejects an advance while another one is in flight', async () => {
+      const first = service.handleMessage(PARTY_ID, hostId, { type: 'advance' });
+
+      await expect(service.handleMessage(PARTY_ID, hostId, { type: 'advance' })).rejects.toThrow(ConflictError);
+      await first;
+      expect(mockPlayback.getNextPlay).toHaveBeenCalledTimes(1);
+    });
+
+    it('broadcasts chat from any member', async () => {
+      await service.handleMessage(PARTY_ID, guestId, { type: 'chat', text: 'What a catch!' });
+
+      expect(hostConnection.last('chat')?.message).toMatchObject({ memberId: guestId, name: 'Alex', text: 'What a catch!' });
+      expect(service.getParty(PARTY_ID)?.chat).toHaveLength(1);
+    });
+
+    it('throws NotFoundError for unknown members', async () => {
+      await expect(service.handleMessage(PARTY_ID, 'nobody', { type: 'advance' })).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('leave', () => {
+    it('hands the host role to the longest-connected member', async () => {
+      service.leave(PARTY_ID, hostId);
+
+      expect(guestConnection.last('presence')).toMatchObject({
+        hostId: guestId,
+        members: [expect.objectContaining({ memberId: guestId, isHost: true })]
+      });
+      await service.handleMessage(PARTY_ID, guestId, { type: 'advance' });
+      expect(mockPlayback.getNextPlay).toHaveBeenCalledTimes(1);
+    });
+
+    it('closes the party when the last member leaves', () => {
+      service.leave(PARTY_ID, hostId);
+      service.leave(PARTY_ID, guestId);
+
+      expect(service.getParty(PARTY_ID)).toBeNull();
+    });
+  });
+});
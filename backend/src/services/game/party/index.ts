@@ -0,0 +1 @@
+export { WatchPartyService, WatchPartyDependencies } from './WatchPartyService';
@@ -146,6 +146,22 @@ export class PlayDataService extends BaseService {
     );
   }
 
+  /**
+   * Fetches every play for a game in play order
+   *
+   * Used when a whole game has to be scanned, e.g. to locate the first play of an
+   * inning when seeking. Rows are returned as stored; callers that need strict
+   * validation should use fetchPlayData for the plays they act on.
+   *
+   * @param gameId The game ID (e.g., "CIN201904150")
+   * @returns All plays for the game, ordered by play number
+   * @throws {ResourceNotFoundError} If the game has no plays
+   * @throws {DatabaseError} If there's an error retrieving the data
+   */
+  public async fetchAllPlaysForGame(gameId: string): Promise<PlayData[]> {
+    return playRepository.fetchAllPlaysForGame(gameId);
+  }
+
   // Static methods for backward compatibility during transition
   public static async fetchFirstPlay(gameId: string): Promise<PlayData> {
     return PlayDataService.getInstance().fetchFirstPlay(gameId);
@@ -158,4 +174,8 @@ export class PlayDataService extends BaseService {
   public static async fetchPlayForBatter(gameId: string, batter: string): Promise<PlayData | null> {
     return PlayDataService.getInstance().fetchPlayForBatter(gameId, batter);
   }
+
+  public static async fetchAllPlaysForGame(gameId: string): Promise<PlayData[]> {
+    return PlayDataService.getInstance().fetchAllPlaysForGame(gameId);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,231 @@
+import { ICommentaryPrefetcher, LogEntry } from '../../interfaces';
+import { baseballMetricsCollector } from '../../../core/metrics';
+import { contextLogger } from '../../../core/logging';
+
+/**
+ * Settings of commentary prefetching, as in config.commentaryPrefetch
+ */
+export interface CommentaryPrefetchSettings {
+  /**
+   * How many upcoming plays to prefetch; 0 turns prefetching off
+   */
+  plays: number;
+
+  /**
+   * Most plays of a session generated at once
+   */
+  concurrency: number;
+}
+
+/**
+ * Sessions with a buffer; the least recently advanced is discarded past this
+ */
+const MAX_SESSIONS = 100;
+
+/**
+ * The prefetched commentary of one session
+ */
+interface SessionBuffer {
+  gameId: string;
+  sessionId: string;
+  settingsKey: string;
+
+  /**
+   * Commentary started, by play index; null if it failed
+   */
+  entries: Map<number, Promise<LogEntry[] | null>>;
+
+  /**
+   * Plays waiting for a free generation slot
+   */
+  queue: number[];
+
+  active: number;
+  generate: (playIndex: number) => Promise<LogEntry[]>;
+}
+
+/**
+ * Generates the commentary of the plays a session is about to reach in the
+ * background, so that advancing to them does not wait for the AI adapter
+ *
+ * Each session has a buffer of up to `plays` upcoming plays, at most
+ * `concurrency` of them generated at once. Taking a play also discards the
+ * commentary of the plays before it, which will not be asked for again.
+ * Discarded commentary that was already generated, or is being generated, is
+ * reported as waste.
+ */
+export class CommentaryPrefetcher implements ICommentaryPrefetcher {
+  private settings: CommentaryPrefetchSettings;
+  private buffers = new Map<string, SessionBuffer>();
+
+  /**
+   * Creates a new instance of the CommentaryPrefetcher
+   * @param settings How far ahead to prefetch; defaults to not prefetching
+   */
+  constructor(settings: CommentaryPrefetchSettings = { plays: 0, concurrency: 1 }) {
+    this.settings = settings;
+  }
+
+  /**
+   * Starts generating the commentary of upcoming plays that is not buffered yet
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   * @param settingsKey What the commentary depends on besides the play; a
+   * different key discards what is buffered
+   * @param playIndexes The upcoming plays, in the order they will be reached;
+   * only the first `plays` are prefetched
+   * @param generate Generates the commentary of a play
+   */
+  prefetch(
+    gameId: string,
+    sessionId: string,
+    settingsKey: string,
+    playIndexes: number[],
+    generate: (playIndex: number) => Promise<LogEntry[]>
+  ): void {
+    if (this.settings.plays <= 0) {
+      return;
+    }
+
+    const key = this.getKey(gameId, sessionId);
+    let buffer = this.buffers.get(key);
+
+    if (buffer && buffer.settingsKey !== settingsKey) {
+      this.invalidate(gameId, sessionId);
+      buffer = undefined;
+    }
+    if (!buffer) {
+      buffer = { gameId, sessionId, settingsKey, entries: new Map(), queue: [], active: 0, generate };
+    }
+
+    // Keep the most recently advanced sessions
+    this.buffers.delete(key);
+    this.buffers.set(key, buffer);
+    this.evictSessions();
+
+    buffer.generate = generate;
+    for (const playIndex of playIndexes.slice(0, this.settings.plays)) {
+      if (!buffer.entries.has(playIndex) && !buffer.queue.includes(playIndex)) {
+        buffer.queue.push(playIndex);
+      }
+    }
+    this.startGenerating(buffer);
+  }
+
+  /**
+   * Takes the buffered commentary of a play, waiting for it if it is still
+   * being generated
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   * @param settingsKey The settings the commentary must have been generated with
+   * @param playIndex The play
+   * @returns The commentary, or null if none was prefetched or it failed
+   */
+  async take(gameId: string, sessionId: string, settingsKey: string, playIndex: number): Promise<LogEntry[] | null> {
+    if (this.settings.plays <= 0) {
+      return null;
+    }
+
+    const buffer = this.buffers.get(this.getKey(gameId, sessionId));
+    if (!buffer || buffer.settingsKey !== settingsKey) {
+      this.invalidate(gameId, sessionId);
+      baseballMetricsCollector.recordCommentaryPrefetch(gameId, 'miss');
+      return null;
+    }
+
+    const passed = [...buffer.entries.keys()].filter(index => index < playIndex);
+    passed.forEach(index => buffer.entries.delete(index));
+    if (passed.length > 0) {
+      baseballMetricsCollector.recordCommentaryPrefetch(gameId, 'waste', passed.length);
+    }
+    buffer.queue = buffer.queue.filter(index => index > playIndex);
+
+    const entry = buffer.entries.get(playIndex);
+    buffer.entries.delete(playIndex);
+
+    const commentary = entry ? await entry : null;
+    baseballMetricsCollector.recordCommentaryPrefetch(gameId, commentary ? 'hit' : 'miss');
+    return commentary;
+  }
+
+  /**
+   * Discards the commentary buffered for a session
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   */
+  invalidate(gameId: string, sessionId: string): void {
+    const key = this.getKey(gameId, sessionId);
+    const buffer = this.buffers.get(key);
+    if (!buffer) {
+      return;
+    }
+
+    this.buffers.delete(key);
+    // Generations under way finish, but nothing queued starts
+    buffer.queue = [];
+    if (buffer.entries.size > 0) {
+      baseballMetricsCollector.recordCommentaryPrefetch(gameId, 'waste', buffer.entries.size);
+    }
+  }
+
+  /**
+   * Starts generating queued plays while the session has free slots
+   */
+  private startGenerating(buffer: SessionBuffer): void {
+    while (buffer.active < this.settings.concurrency && buffer.queue.length > 0) {
+      const playIndex = buffer.queue.shift()!;
+      buffer.active++;
+
+      const entry = buffer.generate(playIndex)
+        .catch(error => {
+          contextLogger({
+            service: 'CommentaryPrefetcher',
+            gameId: buffer.gameId,
+            sessionId: buffer.sessionId
+          }).warn('Error prefetching commentary', { playIndex, error });
+          return null;
+        })
+        .finally(() => {
+          buffer.active--;
+          this.startGenerating(buffer);
+        });
+
+      buffer.entries.set(playIndex, entry);
+    }
+  }
+
+  /**
+   * Discards the buffers of the least recently advanced sessions past MAX_SESSIONS
+   */
+  private evictSessions(): void {
+    for (const { gameId, sessionId } of this.buffers.values()) {
+      if (this.buffers.size <= MAX_SESSIONS) {
+        return;
+      }
+      this.invalidate(gameId, sessionId);
+    }
+  }
+
+  private getKey(gameId: string, sessionId: string): string {
+    return `${gameId}:${sessionId}`;
+  }
+}
+
+let commentaryPrefetcher: ICommentaryPrefetcher = new CommentaryPrefetcher();
+
+/**
+ * Gets the commentary prefetcher used by default, which does not prefetch
+ * unless replaced at startup
+ */
+export function getCommentaryPrefetcher(): ICommentaryPrefetcher {
+  return commentaryPrefetcher;
+}
+
+/**
+ * Replaces the default commentary prefetcher.
+ * Must be called during startup, before GamePlaybackService is first used.
+ * @param prefetcher The prefetcher to use
+ */
+export function setCommentaryPrefetcher(prefetcher: ICommentaryPrefetcher): void {
+  commentaryPrefetcher = prefetcher;
+}
@@ -6,15 +6,37 @@ import {
   IScoreService,
   ICommentaryService,
   ILineupService,
+  IPlaybackSessionStore,
+  IGameInitializer,
+  IWinProbabilityService,
+  ICommentaryPrefetcher,
   AnnouncerStyle,
+  AIProvider,
+  LogEntry,
   SimplifiedBaseballState,
-  NextPlayOptions
+  NextPlayOptions,
+  GamePlaybackState,
+  SeekTarget,
+  PlaybackMode,
+  HighlightCriterion,
+  SkippedPlays,
+  PlayData,
+  BaseballState
 } from '../../interfaces';
 import { PlayDataService } from '../playData/PlayDataService';
 import { ScoreService } from '../score/ScoreService';
 import { CommentaryService } from '../commentary/CommentaryService';
 import { LineupService } from '../lineup/LineupService';
 import { BaseballStateService } from '../state/BaseballStateService';
+import { getPlaybackSessionStore } from '../session';
+import { simulatedGameStore } from '../simulation/SimulatedGameStore';
+import { SimulatedPlayDataService } from '../simulation/SimulatedPlayDataService';
+import { SimulatedScoreRepository } from '../simulation/SimulatedScoreRepository';
+import { SimulationGameInitializer } from '../simulation/SimulationGameInitializer';
+import { WinProbabilityService } from '../analytics/WinProbabilityService';
+import { MODE_CRITERIA, findNextHighlight, summarizeSkippedPlays } from './highlights';
+import { getCommentaryPrefetcher } from './CommentaryPrefetcher';
+import { getLatestLineupState } from '../lineupTracking';
 import { translateEvent } from '../../eventTranslation';
 import {
   fetchFirstPlay,
@@ -27,11 +49,12 @@ import {
   updateNextBatterAndPitcher,
   isHomeTeam
 } from '../../../utils/GameUtils';
+import { buildLinescore } from '../../../utils/LinescoreUtils';
 import {
   EXPECTED_EVENT_MAP,
   DEFAULT_ANNOUNCER_STYLE
 } from '../../../constants/GameConstants';
-import { EventTranslationError } from '../../../core/errors';
+import { EventTranslationError, NotFoundError, BadRequestError } from '../../../core/errors';
 
 // Re-export NextPlayOptions for convenience
 export { NextPlayOptions } from '../../interfaces';
@@ -44,6 +67,10 @@ export interface GamePlaybackDependencies {
   scoreService?: IScoreService;
   commentaryService?: ICommentaryService;
   lineupService?: ILineupService;
+  sessionStore?: IPlaybackSessionStore;
+  gameInitializer?: IGameInitializer;
+  winProbabilityService?: IWinProbabilityService;
+  commentaryPrefetcher?: ICommentaryPrefetcher;
 }
 
 /**
@@ -54,18 +81,30 @@ export interface GamePlaybackDependencies {
  *
  * Responsibilities:
  * - Initialize a new game session
- * - Advance to the next play
+ * - Advance to the next play, or skip ahead to the next highlight
+ * - Seek to any play or half-inning without generating commentary
+ * - Step back to the previous play, rolling back lineup tracking
  * - Coordinate between PlayDataService, ScoreService, CommentaryService, etc.
  * - Translate events to human-readable descriptions
  * - Track lineup changes
+ * - Persist the state of each session so playback can be resumed
+ * - Prefetch the commentary of the next plays while the current one is shown
+ *
+ * Simulated games are played back by a second instance whose play data, score
+ * repository and game initializer read the generated plays; see forGame.
  */
 export class GamePlaybackService extends BaseService implements IGamePlaybackService {
   private static instance: GamePlaybackService;
+  private static simulationInstance: GamePlaybackService;
 
   private playDataService: IPlayDataService;
   private scoreService: IScoreService;
   private commentaryService: ICommentaryService;
   private lineupService: ILineupService;
+  private sessionStore: IPlaybackSessionStore;
+  private gameInitializer: IGameInitializer;
+  private winProbabilityService: IWinProbabilityService;
+  private commentaryPrefetcher: ICommentaryPrefetcher;
 
   /**
    * Creates a new instance of GamePlaybackService
@@ -77,6 +116,15 @@ export class GamePlaybackService extends BaseService implements IGamePlaybackSer
     this.scoreService = dependencies.scoreService || ScoreService.getInstance();
     this.commentaryService = dependencies.commentaryService || CommentaryService.getInstance();
     this.lineupService = dependencies.lineupService || LineupService.getInstance();
+    this.sessionStore = dependencies.sessionStore || getPlaybackSessionStore();
+    this.gameInitializer = dependencies.gameInitializer || {
+      fetchFirstPlay,
+      generateInitializationCompletion,
+      initializeLineupTracking,
+      constructInitialGameState
+    };
+    this.winProbabilityService = dependencies.winProbabilityService || WinProbabilityService.getInstance();
+    this.commentaryPrefetcher = dependencies.commentaryPrefetcher || getCommentaryPrefetcher();
   }
 
   /**
@@ -89,6 +137,26 @@ export class GamePlaybackService extends BaseService implements IGamePlaybackSer
     return GamePlaybackService.instance;
   }
 
+  /**
+   * Gets the instance that plays a game back: the singleton for replays of
+   * historical games, or an instance reading the generated plays of a
+   * simulated game from the simulated game store
+   * @param gameId The game ID
+   */
+  public static forGame(gameId: string): GamePlaybackService {
+    if (!simulatedGameStore.has(gameId)) {
+      return GamePlaybackService.getInstance();
+    }
+    if (!GamePlaybackService.simulationInstance) {
+      GamePlaybackService.simulationInstance = new GamePlaybackService({
+        playDataService: new SimulatedPlayDataService(),
+        scoreService: new ScoreService(new SimulatedScoreRepository()),
+        gameInitializer: new SimulationGameInitializer()
+      });
+    }
+    return GamePlaybackService.simulationInstance;
+  }
+
   /**
    * Initializes a new game session
    * Handles currentPlay === 0 case
@@ -110,16 +178,418 @@ export class GamePlaybackService extends BaseService implements IGamePlaybackSer
     serviceLogger.info('Initializing game', { skipLLM });
 
     // Fetch the first play
-    const firstPlay = await fetchFirstPlay(gameId);
+    const firstPlay = await this.gameInitializer.fetchFirstPlay(gameId);
 
     // Generate initialization text
-    const logEntries = await generateInitializationCompletion(gameId, sessionId, skipLLM);
+    const logEntries = await this.gameInitializer.generateInitializationCompletion(gameId, sessionId, skipLLM);
 
     // Initialize lineup tracking
-    await initializeLineupTracking(gameId, sessionId);
+    await this.gameInitializer.initializeLineupTracking(gameId, sessionId);
+
+    const simplifiedState = await this.buildInitialState(gameId, sessionId, firstPlay, logEntries);
+
+    // A new game always starts a fresh session log
+    await this.saveSession(gameId, sessionId, simplifiedState, {
+      announcerStyle: options.announcerStyle ?? DEFAULT_ANNOUNCER_STYLE,
+      aiProvider: options.aiProvider
+    }, true);
+
+    // A restarted session starts a fresh buffer too
+    this.commentaryPrefetcher.invalidate(gameId, sessionId);
+    if (!skipLLM) {
+      this.prefetchCommentary(
+        gameId,
+        sessionId,
+        simplifiedState.currentPlay,
+        options.announcerStyle ?? DEFAULT_ANNOUNCER_STYLE,
+        options.aiProvider,
+        options.booth ?? false
+      );
+    }
+
+    serviceLogger.info('Game initialized successfully', {
+      currentPlay: simplifiedState.currentPlay
+    });
+
+    return simplifiedState;
+  }
+
+  /**
+   * Gets the next play in the game sequence
+   * Handles currentPlay > 0 case
+   *
+   * With a playback mode, the plays before the next highlight are skipped like
+   * a seek and the commentary opens with a summary of what happened in them.
+   *
+   * Otherwise the commentary prefetched for the play is used if there is any,
+   * and the commentary of the plays after it is prefetched. Templates are fast
+   * enough not to need prefetching, and a request naming a commentary cache
+   * policy is always generated as requested.
+   */
+  async getNextPlay(
+    gameId: string,
+    sessionId: string,
+    currentPlayIndex: number,
+    options: NextPlayOptions = {}
+  ): Promise<SimplifiedBaseballState> {
+    const serviceLogger = contextLogger({
+      service: 'GamePlaybackService',
+      method: 'getNextPlay',
+      gameId,
+      sessionId
+    });
+
+    const skipLLM = options.skipLLM ?? false;
+    const announcerStyle = options.announcerStyle ?? DEFAULT_ANNOUNCER_STYLE;
+
+    serviceLogger.info('Processing next play request', {
+      currentPlayIndex,
+      skipLLM,
+      announcerStyle,
+      mode: options.mode
+    });
+
+    // Handle initialization (currentPlay === 0)
+    if (currentPlayIndex === 0) {
+      return this.initializeGame(gameId, sessionId, options);
+    }
+
+    // Skip ahead to the next highlight in the condensed and highlights modes
+    let skippedPlays: SkippedPlays | undefined;
+    if (options.mode) {
+      ({ playIndex: currentPlayIndex, skippedPlays } = await this.skipToHighlight(
+        gameId,
+        sessionId,
+        currentPlayIndex,
+        options.mode,
+        options.highlightCriteria
+      ));
+    }
+
+    // Fetch play data
+    const { currentPlayData, nextPlayData } = await this.playDataService.fetchPlayData(
+      gameId,
+      currentPlayIndex
+    );
+
+    // Reconstruct the game state for the current play
+    const currentState = await this.reconstructState(
+      gameId,
+      sessionId,
+      currentPlayIndex,
+      currentPlayData,
+      nextPlayData
+    );
+
+    // An AI adapter requested earlier in the session is used until another is requested
+    const aiProvider = options.aiProvider ?? await this.getSessionAIProvider(gameId, sessionId);
+
+    const booth = options.booth ?? false;
+    const prefetchable = !skipLLM && !options.mode && !options.commentaryCache;
+    if (options.mode) {
+      // Plays are skipped, as in a seek
+      this.commentaryPrefetcher.invalidate(gameId, sessionId);
+    }
+
+    // Generate detailed play-by-play commentary, unless it was prefetched
+    const prefetched = prefetchable
+      ? await this.commentaryPrefetcher.take(
+        gameId,
+        sessionId,
+        this.getPrefetchSettingsKey(announcerStyle, aiProvider, booth),
+        currentPlayIndex
+      )
+      : null;
+    const logEntries = prefetched ?? await this.commentaryService.generateDetailedPlayCompletion(
+      currentState,
+      currentPlayData,
+      currentPlayIndex,
+      skipLLM,
+      gameId,
+      announcerStyle,
+      skippedPlays,
+      aiProvider,
+      options.commentaryCache,
+      booth
+    );
+
+    // Get the correct event for the current batter
+    const currentBatter = currentPlayData.batter;
+    const correctPlayForBatter = await this.playDataService.fetchPlayForBatter(
+      gameId,
+      currentBatter
+    );
+
+    // Use the correct event if found, otherwise use the current play's event
+    const eventToTranslate = correctPlayForBatter?.event || currentPlayData.event || nextPlayData.event;
+
+    // Generate play description using the event translation service
+    let playDescription: string | undefined;
+    try {
+      if (eventToTranslate) {
+        playDescription = translateEvent(eventToTranslate);
+
+        // Double-check that the play description matches the expected event
+        if (eventToTranslate in EXPECTED_EVENT_MAP && EXPECTED_EVENT_MAP[eventToTranslate] !== playDescription) {
+          playDescription = EXPECTED_EVENT_MAP[eventToTranslate];
+        }
+      }
+    } catch (error) {
+      throw new EventTranslationError('Failed to translate event data');
+    }
+
+    // Create a simplified response
+    const simplifiedState = createSimplifiedState(currentState, nextPlayData, playDescription);
+
+    // Debug log the simplified state
+    serviceLogger.debug('SimplifiedBaseballState team info', {
+      home: {
+        displayName: simplifiedState.home.displayName,
+        shortName: simplifiedState.home.shortName,
+        runs: simplifiedState.home.runs
+      },
+      visitors: {
+        displayName: simplifiedState.visitors.displayName,
+        shortName: simplifiedState.visitors.shortName,
+        runs: simplifiedState.visitors.runs
+      }
+    });
+
+    // Set log entries
+    simplifiedState.game.log = logEntries;
+
+    // Update next batter and pitcher
+    updateNextBatterAndPitcher(simplifiedState, nextPlayData);
+
+    // Set current play to next play number
+    simplifiedState.currentPlay = nextPlayData.pn;
+
+    // Set event string
+    simplifiedState.eventString = eventToTranslate || nextPlayData.event || '';
+
+    // Process lineup changes
+    try {
+      const lineupChanged = await this.lineupService.processLineupChanges(gameId, sessionId, currentPlayData, nextPlayData);
+
+      // The buffered commentary names the players of the lineups before the change
+      if (lineupChanged) {
+        this.commentaryPrefetcher.invalidate(gameId, sessionId);
+      }
+
+      await this.lineupService.updateLineupInfo(gameId, sessionId, nextPlayData, simplifiedState);
+    } catch (error) {
+      // Log the error but don't throw it to avoid breaking the main flow
+      serviceLogger.warn('Error processing lineup changes', { error });
+    }
+
+    await this.updateLinescore(gameId, simplifiedState);
+    await this.updateWinProbability(gameId, simplifiedState);
+
+    await this.saveSession(gameId, sessionId, simplifiedState, { announcerStyle, aiProvider });
+
+    if (prefetchable) {
+      this.prefetchCommentary(gameId, sessionId, simplifiedState.currentPlay, announcerStyle, aiProvider, booth);
+    }
+
+    serviceLogger.info('Successfully processed next play', {
+      currentPlay: simplifiedState.currentPlay,
+      inning: simplifiedState.game.inning,
+      isTopInning: simplifiedState.game.isTopInning
+    });
+
+    return simplifiedState;
+  }
+
+  /**
+   * Jumps to a play, inning or half-inning without generating commentary
+   *
+   * The returned state is the one getNextPlay would have returned on reaching the
+   * target play: the situation before the target play, with the score after the
+   * previous play. Lineup tracking is brought up to date for any skipped plays, or
+   * rolled back when seeking backwards, so that playback can continue from the
+   * target with getNextPlay.
+   */
+  async seek(
+    gameId: string,
+    sessionId: string,
+    target: SeekTarget,
+    options: NextPlayOptions = {}
+  ): Promise<SimplifiedBaseballState> {
+    const serviceLogger = contextLogger({
+      service: 'GamePlaybackService',
+      method: 'seek',
+      gameId,
+      sessionId
+    });
+
+    const announcerStyle = options.announcerStyle ?? DEFAULT_ANNOUNCER_STYLE;
+
+    serviceLogger.info('Processing seek request', { target, announcerStyle });
+
+    // The buffered commentary is for the plays after the one seeked from
+    this.commentaryPrefetcher.invalidate(gameId, sessionId);
+
+    const plays = await this.playDataService.fetchAllPlaysForGame(gameId);
+    const targetIndex = this.findSeekTargetIndex(plays, target);
+
+    if (targetIndex === -1) {
+      throw new NotFoundError(`No play found in game ${gameId} for ${this.describeSeekTarget(target)}`);
+    }
+
+    const targetPlay = plays[targetIndex];
+
+    await this.syncLineupTracking(gameId, sessionId, plays, targetIndex);
+
+    let simplifiedState: SimplifiedBaseballState;
+
+    if (targetIndex === 0) {
+      // Seeking to the first play is a game initialization without the introduction
+      simplifiedState = await this.buildInitialState(gameId, sessionId, targetPlay, []);
+    } else {
+      const previousPlay = plays[targetIndex - 1];
+      const currentState = await this.reconstructState(
+        gameId,
+        sessionId,
+        previousPlay.pn,
+        previousPlay,
+        targetPlay
+      );
+
+      simplifiedState = createSimplifiedState(currentState, targetPlay);
+      simplifiedState.game.log = [];
+      updateNextBatterAndPitcher(simplifiedState, targetPlay);
+      simplifiedState.currentPlay = targetPlay.pn;
+      simplifiedState.eventString = targetPlay.event || '';
+
+      try {
+        await this.lineupService.updateLineupInfo(gameId, sessionId, targetPlay, simplifiedState);
+      } catch (error) {
+        serviceLogger.warn('Error updating lineup info after seek', { error });
+      }
+
+      await this.updateLinescore(gameId, simplifiedState);
+      await this.updateWinProbability(gameId, simplifiedState);
+    }
+
+    await this.saveSession(gameId, sessionId, simplifiedState, { announcerStyle });
+
+    serviceLogger.info('Successfully processed seek', {
+      currentPlay: simplifiedState.currentPlay,
+      inning: simplifiedState.game.inning,
+      isTopInning: simplifiedState.game.isTopInning
+    });
+
+    return simplifiedState;
+  }
+
+  /**
+   * Steps back to the play before the current one
+   *
+   * The state is reconstructed like a seek, without commentary, and the lineup
+   * tracking rows written after that play are discarded for the session.
+   * @throws BadRequestError if the current play is the first play of the game
+   */
+  async getPreviousPlay(
+    gameId: string,
+    sessionId: string,
+    currentPlayIndex: number,
+    options: NextPlayOptions = {}
+  ): Promise<SimplifiedBaseballState> {
+    const serviceLogger = contextLogger({
+      service: 'GamePlaybackService',
+      method: 'getPreviousPlay',
+      gameId,
+      sessionId
+    });
+
+    serviceLogger.info('Processing previous play request', { currentPlayIndex });
+
+    const plays = await this.playDataService.fetchAllPlaysForGame(gameId);
+    const previousPlays = plays.filter(play => play.pn < currentPlayIndex);
+
+    if (previousPlays.length === 0) {
+      throw new BadRequestError(`Play ${currentPlayIndex} is the start of game ${gameId}; there is no previous play`);
+    }
+
+    const previousPlay = previousPlays[previousPlays.length - 1];
+
+    return this.seek(gameId, sessionId, { playIndex: previousPlay.pn }, options);
+  }
+
+  /**
+   * Finds the play a playback mode stops at, from the current play on
+   *
+   * Lineup tracking is brought up to date for the plays skipped on the way, as
+   * in a seek, so that the highlight is reconstructed with the right lineups.
+   * @returns The play number of the highlight, and a summary of the skipped
+   * plays if there were any
+   */
+  private async skipToHighlight(
+    gameId: string,
+    sessionId: string,
+    currentPlayIndex: number,
+    mode: PlaybackMode,
+    criteria: HighlightCriterion[] = MODE_CRITERIA[mode]
+  ): Promise<{ playIndex: number; skippedPlays?: SkippedPlays }> {
+    const plays = await this.playDataService.fetchAllPlaysForGame(gameId);
+    const fromIndex = plays.findIndex(play => play.pn >= currentPlayIndex);
+
+    if (fromIndex === -1) {
+      return { playIndex: currentPlayIndex };
+    }
+
+    const targetIndex = findNextHighlight(plays, fromIndex, criteria);
+    if (targetIndex === fromIndex) {
+      return { playIndex: plays[fromIndex].pn };
+    }
+
+    await this.syncLineupTracking(gameId, sessionId, plays, targetIndex);
+
+    contextLogger({
+      service: 'GamePlaybackService',
+      method: 'skipToHighlight',
+      gameId,
+      sessionId
+    }).debug('Skipped to highlight', { from: plays[fromIndex].pn, to: plays[targetIndex].pn, mode, criteria });
+
+    return {
+      playIndex: plays[targetIndex].pn,
+      skippedPlays: summarizeSkippedPlays(plays.slice(fromIndex, targetIndex))
+    };
+  }
+
+  /**
+   * Gets the current game state of a session from the session store
+   * @throws NotFoundError if the session has not been started
+   */
+  async getCurrentGameState(gameId: string, sessionId: string): Promise<GamePlaybackState> {
+    const session = await this.sessionStore.get(gameId, sessionId);
+
+    if (!session) {
+      throw new NotFoundError(`No playback session ${sessionId} found for game ${gameId}`);
+    }
+
+    return session;
+  }
+
+  /**
+   * Builds the state returned when a game starts, before the first play
+   */
+  private async buildInitialState(
+    gameId: string,
+    sessionId: string,
+    firstPlay: PlayData,
+    logEntries: string[]
+  ): Promise<SimplifiedBaseballState> {
+    const serviceLogger = contextLogger({
+      service: 'GamePlaybackService',
+      method: 'buildInitialState',
+      gameId,
+      sessionId
+    });
 
     // Construct initial game state
-    const gameState = await constructInitialGameState(gameId, sessionId, firstPlay, logEntries);
+    const gameState = await this.gameInitializer.constructInitialGameState(gameId, sessionId, firstPlay, logEntries);
 
     // Convert to SimplifiedBaseballState
     const simplifiedState = createSimplifiedState(gameState, firstPlay);
@@ -169,50 +639,84 @@ export class GamePlaybackService extends BaseService implements IGamePlaybackSer
     // Include event string for the first play
     simplifiedState.eventString = firstPlay.event;
 
-    serviceLogger.info('Game initialized successfully', {
-      currentPlay: simplifiedState.currentPlay
-    });
+    await this.updateLinescore(gameId, simplifiedState);
+    await this.updateWinProbability(gameId, simplifiedState);
 
     return simplifiedState;
   }
 
   /**
-   * Gets the next play in the game sequence
-   * Handles currentPlay > 0 case
+   * Sets the linescore of the plays before the state's current play
+   *
+   * The half-inning of the current play is shown as in progress. The last play
+   * has no next play to advance to, so a state that reaches it ends the game:
+   * its linescore is the final one, of every play. Like lineup updates, a
+   * failure is logged without failing the request.
    */
-  async getNextPlay(
+  private async updateLinescore(gameId: string, state: SimplifiedBaseballState): Promise<void> {
+    try {
+      const plays = await this.playDataService.fetchAllPlaysForGame(gameId);
+      const complete = !plays.some(play => play.pn > state.currentPlay);
+      state.linescore = buildLinescore(
+        complete ? plays : plays.filter(play => play.pn < state.currentPlay),
+        {
+          home: { id: state.home.id, name: state.home.displayName },
+          visitors: { id: state.visitors.id, name: state.visitors.displayName }
+        },
+        complete
+          ? { complete }
+          : { currentHalfInning: { inning: state.game.inning, isTopInning: state.game.isTopInning } }
+      );
+    } catch (error) {
+      contextLogger({
+        service: 'GamePlaybackService',
+        method: 'updateLinescore',
+        gameId
+      }).warn('Error building linescore', { error });
+    }
+  }
+
+  /**
+   * Sets the home team's win probability before the state's current play, and
+   * the win probability added by the play before it
+   *
+   * Like the linescore, a failure is logged without failing the request.
+   */
+  private async updateWinProbability(gameId: string, state: SimplifiedBaseballState): Promise<void> {
+    try {
+      const { points } = await this.winProbabilityService.getWinProbability(gameId);
+      const current = points.find(point => point.playIndex === state.currentPlay);
+      const previous = points.filter(point => point.playIndex < state.currentPlay).pop();
+
+      state.winProbability = current?.homeWinProbabilityBefore ?? previous?.homeWinProbability;
+      state.wpa = previous?.wpa;
+    } catch (error) {
+      contextLogger({
+        service: 'GamePlaybackService',
+        method: 'updateWinProbability',
+        gameId
+      }).warn('Error computing win probability', { error });
+    }
+  }
+
+  /**
+   * Reconstructs the full game state for a play: teams, lineups, runners and
+   * the score after the play
+   */
+  private async reconstructState(
     gameId: string,
     sessionId: string,
     currentPlayIndex: number,
-    options: NextPlayOptions = {}
-  ): Promise<SimplifiedBaseballState> {
+    currentPlayData: PlayData,
+    nextPlayData: PlayData
+  ): Promise<BaseballState> {
     const serviceLogger = contextLogger({
       service: 'GamePlaybackService',
-      method: 'getNextPlay',
+      method: 'reconstructState',
       gameId,
       sessionId
     });
 
-    const skipLLM = options.skipLLM ?? false;
-    const announcerStyle = options.announcerStyle ?? DEFAULT_ANNOUNCER_STYLE;
-
-    serviceLogger.info('Processing next play request', {
-      currentPlayIndex,
-      skipLLM,
-      announcerStyle
-    });
-
-    // Handle initialization (currentPlay === 0)
-    if (currentPlayIndex === 0) {
-      return this.initializeGame(gameId, sessionId, options);
-    }
-
-    // Fetch play data
-    const { currentPlayData, nextPlayData } = await this.playDataService.fetchPlayData(
-      gameId,
-      currentPlayIndex
-    );
-
     // Create initial baseball state
     let currentState = await BaseballStateService.createInitialBaseballState(
       gameId,
@@ -293,100 +797,195 @@ export class GamePlaybackService extends BaseService implements IGamePlaybackSer
       });
     }
 
-    // Generate detailed play-by-play commentary
-    const logEntries = await this.commentaryService.generateDetailedPlayCompletion(
-      currentState,
-      currentPlayData,
-      currentPlayIndex,
-      skipLLM,
-      gameId,
-      announcerStyle
-    );
+    return currentState;
+  }
 
-    // Get the correct event for the current batter
-    const currentBatter = currentPlayData.batter;
-    const correctPlayForBatter = await this.playDataService.fetchPlayForBatter(
-      gameId,
-      currentBatter
-    );
+  /**
+   * Finds the index in plays of the play a seek target refers to
+   * @returns The index, or -1 if no play matches
+   */
+  private findSeekTargetIndex(plays: PlayData[], target: SeekTarget): number {
+    if (target.playIndex !== undefined) {
+      const playIndex = target.playIndex;
+      return plays.findIndex(play => play.pn >= playIndex);
+    }
 
-    // Use the correct event if found, otherwise use the current play's event
-    const eventToTranslate = correctPlayForBatter?.event || currentPlayData.event || nextPlayData.event;
+    const topBot = target.half === 'bottom' ? 1 : 0;
+    return plays.findIndex(play => play.inning === target.inning && play.top_bot === topBot);
+  }
+
+  /**
+   * Describes a seek target for error messages
+   */
+  private describeSeekTarget(target: SeekTarget): string {
+    if (target.playIndex !== undefined) {
+      return `play ${target.playIndex}`;
+    }
+    return `the ${target.half ?? 'top'} of inning ${target.inning}`;
+  }
+
+  /**
+   * Brings the session's lineup tracking in line with the target play.
+   *
+   * Going backwards, lineup states recorded after the target are discarded so
+   * that replaying those plays does not duplicate lineup history. Going forwards,
+   * lineup change detection is run for the skipped plays so that substitutions
+   * made in them are reflected in the lineup. Errors are logged rather than
+   * thrown, matching how getNextPlay treats lineup tracking failures.
+   */
+  private async syncLineupTracking(
+    gameId: string,
+    sessionId: string,
+    plays: PlayData[],
+    targetIndex: number
+  ): Promise<void> {
+    const serviceLogger = contextLogger({
+      service: 'GamePlaybackService',
+      method: 'syncLineupTracking',
+      gameId,
+      sessionId
+    });
 
-    // Generate play description using the event translation service
-    let playDescription: string | undefined;
     try {
-      if (eventToTranslate) {
-        playDescription = translateEvent(eventToTranslate);
+      const latestLineupState = await getLatestLineupState(gameId, sessionId);
 
-        // Double-check that the play description matches the expected event
-        if (eventToTranslate in EXPECTED_EVENT_MAP && EXPECTED_EVENT_MAP[eventToTranslate] !== playDescription) {
-          playDescription = EXPECTED_EVENT_MAP[eventToTranslate];
-        }
+      if (!latestLineupState) {
+        await this.gameInitializer.initializeLineupTracking(gameId, sessionId);
       }
-    } catch (error) {
-      throw new EventTranslationError('Failed to translate event data');
-    }
 
-    // Create a simplified response
-    const simplifiedState = createSimplifiedState(currentState, nextPlayData, playDescription);
+      const trackedUpTo = latestLineupState?.state.playIndex ?? 0;
+      const targetPlay = plays[targetIndex];
 
-    // Debug log the simplified state
-    serviceLogger.debug('SimplifiedBaseballState team info', {
-      home: {
-        displayName: simplifiedState.home.displayName,
-        shortName: simplifiedState.home.shortName,
-        runs: simplifiedState.home.runs
-      },
-      visitors: {
-        displayName: simplifiedState.visitors.displayName,
-        shortName: simplifiedState.visitors.shortName,
-        runs: simplifiedState.visitors.runs
+      if (trackedUpTo > targetPlay.pn) {
+        const deleted = await this.lineupService.rollbackLineupChanges(gameId, sessionId, targetPlay.pn);
+        serviceLogger.debug('Rolled back lineup tracking', { targetPlay: targetPlay.pn, deleted });
+        return;
       }
-    });
-
-    // Set log entries
-    simplifiedState.game.log = logEntries;
 
-    // Update next batter and pitcher
-    updateNextBatterAndPitcher(simplifiedState, nextPlayData);
+      for (let i = 1; i <= targetIndex; i++) {
+        if (plays[i].pn > trackedUpTo) {
+          await this.lineupService.processLineupChanges(gameId, sessionId, plays[i - 1], plays[i]);
+        }
+      }
+    } catch (error) {
+      serviceLogger.warn('Error syncing lineup tracking', { error });
+    }
+  }
 
-    // Set current play to next play number
-    simplifiedState.currentPlay = nextPlayData.pn;
+  /**
+   * Starts prefetching the commentary of the plays from a play on, in the
+   * background. The commentary is generated with the lineups tracked so far.
+   * Not awaited by playback; failures are logged.
+   */
+  private async prefetchCommentary(
+    gameId: string,
+    sessionId: string,
+    fromPlayIndex: number,
+    announcerStyle: AnnouncerStyle,
+    aiProvider: AIProvider | undefined,
+    booth: boolean
+  ): Promise<void> {
+    const generate = async (playIndex: number): Promise<LogEntry[]> => {
+      const { currentPlayData, nextPlayData } = await this.playDataService.fetchPlayData(gameId, playIndex);
+      const currentState = await this.reconstructState(gameId, sessionId, playIndex, currentPlayData, nextPlayData);
 
-    // Set event string
-    simplifiedState.eventString = eventToTranslate || nextPlayData.event || '';
+      return this.commentaryService.generateDetailedPlayCompletion(
+        currentState,
+        currentPlayData,
+        playIndex,
+        false,
+        gameId,
+        announcerStyle,
+        undefined,
+        aiProvider,
+        undefined,
+        booth
+      );
+    };
 
-    // Process lineup changes
     try {
-      await this.lineupService.processLineupChanges(gameId, sessionId, currentPlayData, nextPlayData);
-      await this.lineupService.updateLineupInfo(gameId, sessionId, nextPlayData, simplifiedState);
+      const plays = await this.playDataService.fetchAllPlaysForGame(gameId);
+
+      this.commentaryPrefetcher.prefetch(
+        gameId,
+        sessionId,
+        this.getPrefetchSettingsKey(announcerStyle, aiProvider, booth),
+        plays.filter(play => play.pn >= fromPlayIndex).map(play => play.pn),
+        generate
+      );
     } catch (error) {
-      // Log the error but don't throw it to avoid breaking the main flow
-      serviceLogger.warn('Error processing lineup changes', { error });
+      contextLogger({
+        service: 'GamePlaybackService',
+        method: 'prefetchCommentary',
+        gameId,
+        sessionId
+      }).warn('Error prefetching commentary', { error });
     }
+  }
 
-    serviceLogger.info('Successfully processed next play', {
-      currentPlay: simplifiedState.currentPlay,
-      inning: simplifiedState.game.inning,
-      isTopInning: simplifiedState.game.isTopInning
-    });
+  /**
+   * What prefetched commentary depends on besides the play; a change of
+   * announcer style, AI adapter or booth discards it
+   */
+  private getPrefetchSettingsKey(announcerStyle: AnnouncerStyle, aiProvider: AIProvider | undefined, booth: boolean): string {
+    return `${announcerStyle}:${aiProvider ?? 'default'}${booth ? ':booth' : ''}`;
+  }
 
-    return simplifiedState;
+  /**
+   * Gets the AI adapter last requested for a session; undefined if none was
+   * or the session store cannot be read
+   */
+  private async getSessionAIProvider(gameId: string, sessionId: string): Promise<AIProvider | undefined> {
+    try {
+      const session = await this.sessionStore.get(gameId, sessionId);
+      return session?.aiProvider;
+    } catch (error) {
+      contextLogger({
+        service: 'GamePlaybackService',
+        method: 'getSessionAIProvider',
+        gameId,
+        sessionId
+      }).warn('Error reading playback session', { error });
+      return undefined;
+    }
   }
 
   /**
-   * Gets the current game state (stub for future implementation)
+   * Records the state just returned to the client in the session store.
+   * The session log accumulates across plays unless a new session is started,
+   * and so does the AI adapter last requested.
+   * Store failures are logged rather than thrown so playback keeps working.
    */
-  async getCurrentGameState(gameId: string, sessionId: string): Promise<{
-    gameId: string;
-    sessionId: string;
-    currentPlayIndex: number;
-    baseballState: SimplifiedBaseballState;
-  }> {
-    // This would typically retrieve the current state from a session store
-    // For now, throw an error as this is not yet implemented
-    throw new Error('getCurrentGameState not yet implemented');
+  private async saveSession(
+    gameId: string,
+    sessionId: string,
+    state: SimplifiedBaseballState,
+    settings: { announcerStyle: AnnouncerStyle; aiProvider?: AIProvider },
+    isNewSession = false
+  ): Promise<void> {
+    try {
+      const previous = isNewSession
+        ? null
+        : await this.sessionStore.get(gameId, sessionId);
+
+      await this.sessionStore.save({
+        gameId,
+        sessionId,
+        currentPlayIndex: state.currentPlay,
+        baseballState: state,
+        announcerStyle: settings.announcerStyle,
+        aiProvider: settings.aiProvider ?? previous?.aiProvider,
+        log: [...(previous?.log ?? []), ...state.game.log],
+        updatedAt: new Date()
+      });
+    } catch (error) {
+      contextLogger({
+        service: 'GamePlaybackService',
+        method: 'saveSession',
+        gameId,
+        sessionId
+      }).warn('Error saving playback session', { error });
+    }
   }
 
   // Static methods for backward compatibility during transition
@@ -396,7 +995,7 @@ export class GamePlaybackService extends BaseService implements IGamePlaybackSer
     currentPlayIndex: number,
     options?: NextPlayOptions
   ): Promise<SimplifiedBaseballState> {
-    return GamePlaybackService.getInstance().getNextPlay(
+    return GamePlaybackService.forGame(gameId).getNextPlay(
       gameId,
       sessionId,
       currentPlayIndex,
@@ -409,10 +1008,35 @@ export class GamePlaybackService extends BaseService implements IGamePlaybackSer
     sessionId: string,
     options?: NextPlayOptions
   ): Promise<SimplifiedBaseballState> {
-    return GamePlaybackService.getInstance().initializeGame(
+    return GamePlaybackService.forGame(gameId).initializeGame(
       gameId,
       sessionId,
       options
     );
   }
+
+  public static async seek(
+    gameId: string,
+    sessionId: string,
+    target: SeekTarget,
+    options?: NextPlayOptions
+  ): Promise<SimplifiedBaseballState> {
+    return GamePlaybackService.forGame(gameId).seek(gameId, sessionId, target, options);
+  }
+
+  public static async getPreviousPlay(
+    gameId: string,
+    sessionId: string,
+    currentPlayIndex: number,
+    options?: NextPlayOptions
+  ): Promise<SimplifiedBaseballState> {
+    return GamePlaybackService.forGame(gameId).getPreviousPlay(gameId, sessionId, currentPlayIndex, options);
+  }
+
+  public static async getCurrentGameState(
+    gameId: string,
+    sessionId: string
+  ): Promise<GamePlaybackState> {
+    return GamePlaybackService.forGame(gameId).getCurrentGameState(gameId, sessionId);
+  }
 }
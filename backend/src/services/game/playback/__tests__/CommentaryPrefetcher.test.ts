@@ -0,0 +1,157 @@
+/**
+ * CommentaryPrefetcher Unit Tests
+ *
+ * These tests check how far ahead commentary is prefetched and how many plays
+ * are generated at once, that getNextPlay gets the buffered commentary of the
+ * play it asks for, and that commentary that will not be used is discarded
+ * and reported as waste: plays skipped over, a change of settings, a seek.
+ */
+
+const mockRecordCommentaryPrefetch = jest.fn();
+jest.mock('../../../../core/metrics', () => ({
+  baseballMetricsCollector: {
+    recordCommentaryPrefetch: (...args: unknown[]) => mockRecordCommentaryPrefetch(...args)
+  }
+}));
+
+import { CommentaryPrefetcher } from '../CommentaryPrefetcher';
+
+const gameId = 'CIN201904150';
+const sessionId = 'session-1';
+
+/**
+ * Lets pending promise callbacks run
+ */
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('CommentaryPrefetcher', () => {
+  let generate: jest.Mock<Promise<string[]>, [number]>;
+  let pending: Map<number, (lines: string[]) => void>;
+
+  beforeEach(() => {
+    mockRecordCommentaryPrefetch.mockReset();
+    pending = new Map();
+    generate = jest.fn((playIndex: number) => new Promise<string[]>(resolve => {
+      pending.set(playIndex, resolve);
+    }));
+  });
+
+  const finish = async (playIndex: number) => {
+    pending.get(playIndex)!([`Call of play ${playIndex}.`]);
+    await flush();
+  };
+
+  it('prefetches the next plays, a few at a time', async () => {
+    const prefetcher = new CommentaryPrefetcher({ plays: 3, concurrency: 2 });
+
+    prefetcher.prefetch(gameId, sessionId, 'classic', [5, 6, 7, 8, 9], generate);
+    expect(generate.mock.calls.map(([playIndex]) => playIndex)).toEqual([5, 6]);
+
+    await finish(5);
+    expect(generate.mock.calls.map(([playIndex]) => playIndex)).toEqual([5, 6, 7]);
+
+    await finish(6);
+    await finish(7);
+    expect(generate).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives getNextPlay the prefetched commentary of the play', async () => {
+    const prefetcher = new CommentaryPrefetcher({ plays: 2, concurrency: 2 });
+    prefetcher.prefetch(gameId, sessionId, 'classic', [5, 6], generate);
+    await finish(5);
+
+    expect(await prefetcher.take(gameId, sessionId, 'classic', 5)).toEqual(['Call of play 5.']);
+    expect(mockRecordCommentaryPrefetch).toHaveBeenCalledWith(gameId, 'hit');
+  });
+
+  it('waits for commentary still being generated', async () => {
+    const prefetcher = new CommentaryPrefetcher({ plays: 2, concurrency: 2 });
+    prefetcher.prefetch(gameId, sessionId, 'classic', [5, 6], generate);
+
+    const taken = prefetcher.take(gameId, sessionId, 'classic', 6);
+    await finish(6);
+
+    expect(await taken).toEqual(['Call of play 6.']);
+  });
+
+  it('does not generate a play again while it is buffered', async () => {
+    const prefetcher = new CommentaryPrefetcher({ plays: 2, concurrency: 2 });
+
+    prefetcher.prefetch(gameId, sessionId, 'classic', [5, 6], generate);
+    prefetcher.prefetch(gameId, sessionId, 'classic', [6, 7], generate);
+    await finish(5);
+
+    expect(generate.mock.calls.map(([playIndex]) => playIndex)).toEqual([5, 6, 7]);
+  });
+
+  it('misses a play that was not prefetched', async () => {
+    const prefetcher = new CommentaryPrefetcher({ plays: 2, concurrency: 2 });
+
+    expect(await prefetcher.take(gameId, sessionId, 'classic', 5)).toBeNull();
+    expect(mockRecordCommentaryPrefetch).toHaveBeenCalledWith(gameId, 'miss');
+  });
+
+  it('misses a play whose commentary failed', async () => {
+    const prefetcher = new CommentaryPrefetcher({ plays: 1, concurrency: 1 });
+    generate.mockRejectedValueOnce(new Error('adapter unavailable'));
+    prefetcher.prefetch(gameId, sessionId, 'classic', [5], generate);
+    await flush();
+
+    expect(await prefetcher.take(gameId, sessionId, 'classic', 5)).toBeNull();
+    expect(mockRecordCommentaryPrefetch).toHaveBeenCalledWith(gameId, 'miss');
+  });
+
+  it('discards the plays skipped over as waste', async () => {
+    const prefetcher = new CommentaryPrefetcher({ plays: 3, concurrency: 3 });
+    prefetcher.prefetch(gameId, sessionId, 'classic', [5, 6, 7], generate);
+    await finish(5);
+    await finish(6);
+    await finish(7);
+
+    expect(await prefetcher.take(gameId, sessionId, 'classic', 7)).toEqual(['Call of play 7.']);
+    expect(mockRecordCommentaryPrefetch).toHaveBeenCalledWith(gameId, 'waste', 2);
+    expect(await prefetcher.take(gameId, sessionId, 'classic', 5)).toBeNull();
+  });
+
+  it('discards the buffer when the settings change', async () => {
+    const prefetcher = new CommentaryPrefetcher({ plays: 2, concurrency: 2 });
+    prefetcher.prefetch(gameId, sessionId, 'classic', [5, 6], generate);
+    await finish(5);
+    await finish(6);
+
+    expect(await prefetcher.take(gameId, sessionId, 'poetic', 5)).toBeNull();
+    expect(mockRecordCommentaryPrefetch).toHaveBeenCalledWith(gameId, 'waste', 2);
+    expect(await prefetcher.take(gameId, sessionId, 'classic', 6)).toBeNull();
+  });
+
+  it('stops prefetching for a session when invalidated', async () => {
+    const prefetcher = new CommentaryPrefetcher({ plays: 3, concurrency: 1 });
+    prefetcher.prefetch(gameId, sessionId, 'classic', [5, 6, 7], generate);
+
+    prefetcher.invalidate(gameId, sessionId);
+    await finish(5);
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(mockRecordCommentaryPrefetch).toHaveBeenCalledWith(gameId, 'waste', 1);
+    expect(await prefetcher.take(gameId, sessionId, 'classic', 5)).toBeNull();
+  });
+
+  it('keeps the buffers of sessions apart', async () => {
+    const prefetcher = new CommentaryPrefetcher({ plays: 1, concurrency: 1 });
+    prefetcher.prefetch(gameId, sessionId, 'classic', [5], generate);
+    await finish(5);
+
+    expect(await prefetcher.take(gameId, 'session-2', 'classic', 5)).toBeNull();
+    expect(await prefetcher.take(gameId, sessionId, 'classic', 5)).toEqual(['Call of play 5.']);
+  });
+
+  it('does nothing with prefetching turned off', async () => {
+    const prefetcher = new CommentaryPrefetcher();
+
+    prefetcher.prefetch(gameId, sessionId, 'classic', [5, 6], generate);
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(await prefetcher.take(gameId, sessionId, 'classic', 5)).toBeNull();
+    expect(mockRecordCommentaryPrefetch).not.toHaveBeenCalled();
+  });
+});
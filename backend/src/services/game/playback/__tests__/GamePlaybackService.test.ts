@@ -96,16 +96,26 @@ jest.mock('../../lineup/LineupService', () => ({
     getInstance: jest.fn(() => ({
       updateLineupInfo: jest.fn(),
       processLineupChanges: jest.fn(),
+      rollbackLineupChanges: jest.fn(),
       getNextBatter: jest.fn()
     }))
   }
 }));
 
+jest.mock('../../analytics/WinProbabilityService', () => ({
+  WinProbabilityService: {
+    getInstance: jest.fn(() => ({
+      getWinProbability: jest.fn()
+    }))
+  }
+}));
+
 jest.mock('../../../../core/metrics', () => ({
   baseballMetricsCollector: {
     recordScoreChange: jest.fn(),
     recordDatabaseQuery: jest.fn(),
-    recordCommentaryGeneration: jest.fn()
+    recordCommentaryGeneration: jest.fn(),
+    recordCommentaryPrefetch: jest.fn()
   }
 }));
 
@@ -137,6 +147,13 @@ jest.mock('../../state/BaseballStateService', () => ({
   }
 }));
 
+// Mock lineupTracking
+const mockGetLatestLineupState = jest.fn();
+
+jest.mock('../../lineupTracking', () => ({
+  getLatestLineupState: (...args: unknown[]) => mockGetLatestLineupState(...args)
+}));
+
 // Mock eventTranslation
 const mockTranslateEvent = jest.fn();
 jest.mock('../../../eventTranslation', () => ({
@@ -167,6 +184,18 @@ jest.mock('../../../../core/errors', () => ({
       super(message);
       this.name = 'EventTranslationError';
     }
+  },
+  NotFoundError: class NotFoundError extends Error {
+    constructor(message: string) {
+      super(message);
+      this.name = 'NotFoundError';
+    }
+  },
+  BadRequestError: class BadRequestError extends Error {
+    constructor(message: string) {
+      super(message);
+      this.name = 'BadRequestError';
+    }
   }
 }));
 
@@ -187,6 +216,8 @@ jest.mock('../../../../core/logging', () => ({
 
 // Import GamePlaybackService AFTER mocks are set up
 import { GamePlaybackService } from '../GamePlaybackService';
+import { InMemoryPlaybackSessionStore } from '../../session';
+import { CommentaryPrefetcher } from '../CommentaryPrefetcher';
 
 describe('GamePlaybackService', () => {
   // Test data
@@ -296,7 +327,8 @@ describe('GamePlaybackService', () => {
     mockPlayDataService = {
       fetchFirstPlay: jest.fn(),
       fetchPlayData: jest.fn(),
-      fetchPlayForBatter: jest.fn()
+      fetchPlayForBatter: jest.fn(),
+      fetchAllPlaysForGame: jest.fn()
     };
 
     mockScoreService = {
@@ -314,6 +346,7 @@ describe('GamePlaybackService', () => {
     mockLineupService = {
       updateLineupInfo: jest.fn(),
       processLineupChanges: jest.fn(),
+      rollbackLineupChanges: jest.fn(),
       getNextBatter: jest.fn()
     };
   });
@@ -448,7 +481,7 @@ describe('GamePlaybackService', () => {
       mockIsHomeTeam.mockReturnValue(true);
       mockUpdateNextBatterAndPitcher.mockImplementation(() => {});
 
-      mockLineupService.processLineupChanges.mockResolvedValue(undefined);
+      mockLineupService.processLineupChanges.mockResolvedValue(false);
       mockLineupService.updateLineupInfo.mockResolvedValue(undefined);
 
       const service = new GamePlaybackService({
@@ -489,7 +522,11 @@ describe('GamePlaybackService', () => {
         5,
         true,
         testGameId,
-        'enthusiastic'
+        'enthusiastic',
+        undefined,
+        undefined,
+        undefined,
+        false
       );
 
       // Verify event was translated
@@ -574,7 +611,7 @@ describe('GamePlaybackService', () => {
       mockCreateSimplifiedState.mockReturnValue(simplifiedState);
       mockIsHomeTeam.mockReturnValue(true);
       mockUpdateNextBatterAndPitcher.mockImplementation(() => {});
-      mockLineupService.processLineupChanges.mockResolvedValue(undefined);
+      mockLineupService.processLineupChanges.mockResolvedValue(false);
       mockLineupService.updateLineupInfo.mockResolvedValue(undefined);
 
       const service = new GamePlaybackService({
@@ -616,7 +653,7 @@ describe('GamePlaybackService', () => {
       mockCreateSimplifiedState.mockReturnValue(simplifiedState);
       mockIsHomeTeam.mockReturnValue(false);
       mockUpdateNextBatterAndPitcher.mockImplementation(() => {});
-      mockLineupService.processLineupChanges.mockResolvedValue(undefined);
+      mockLineupService.processLineupChanges.mockResolvedValue(false);
       mockLineupService.updateLineupInfo.mockResolvedValue(undefined);
 
       const service = new GamePlaybackService({
@@ -678,16 +715,727 @@ describe('GamePlaybackService', () => {
   });
 
   describe('getCurrentGameState', () => {
-    it('throws not implemented error', async () => {
+    let sessionStore: InMemoryPlaybackSessionStore;
+
+    const createService = () => new GamePlaybackService({
+      playDataService: mockPlayDataService,
+      scoreService: mockScoreService,
+      commentaryService: mockCommentaryService,
+      lineupService: mockLineupService,
+      sessionStore
+    });
+
+    const setupInitialization = () => {
+      mockFetchFirstPlay.mockResolvedValue(createMockPlayData({ pn: 1 }));
+      mockGenerateInitializationCompletion.mockResolvedValue(['Welcome to the game!']);
+      mockInitializeLineupTracking.mockResolvedValue(undefined);
+      mockConstructInitialGameState.mockResolvedValue(createMockBaseballState());
+      mockCreateSimplifiedState.mockReturnValue({
+        ...createMockSimplifiedState(),
+        game: { ...createMockSimplifiedState().game, log: ['Welcome to the game!'] }
+      });
+    };
+
+    const setupNextPlay = (nextPn: number, log: string[]) => {
+      const currentPlayData = createMockPlayData({ pn: nextPn - 1 });
+      const nextPlayData = createMockPlayData({ pn: nextPn });
+      mockPlayDataService.fetchPlayData.mockResolvedValue({ currentPlayData, nextPlayData });
+      mockPlayDataService.fetchPlayForBatter.mockResolvedValue(currentPlayData);
+      mockCreateInitialBaseballState.mockResolvedValue(createMockBaseballState());
+      mockProcessLineupState.mockResolvedValue(createMockBaseballState());
+      mockScoreService.calculateScore.mockResolvedValue({
+        homeScoreBeforePlay: 0,
+        visitorScoreBeforePlay: 0,
+        homeScoreAfterPlay: 0,
+        visitorScoreAfterPlay: 0
+      });
+      mockCommentaryService.generateDetailedPlayCompletion.mockResolvedValue(log);
+      mockTranslateEvent.mockReturnValue('Single to center field');
+      mockCreateSimplifiedState.mockReturnValue(createMockSimplifiedState());
+      mockIsHomeTeam.mockReturnValue(true);
+    };
+
+    beforeEach(() => {
+      sessionStore = new InMemoryPlaybackSessionStore();
+    });
+
+    it('throws NotFoundError for an unknown session', async () => {
+      await expect(createService().getCurrentGameState(testGameId, testSessionId))
+        .rejects.toThrow(`No playback session ${testSessionId} found for game ${testGameId}`);
+    });
+
+    it('returns the state saved by initializeGame', async () => {
+      setupInitialization();
+      const service = createService();
+
+      await service.initializeGame(testGameId, testSessionId, { announcerStyle: 'poetic' });
+      const session = await service.getCurrentGameState(testGameId, testSessionId);
+
+      expect(session.currentPlayIndex).toBe(1);
+      expect(session.announcerStyle).toBe('poetic');
+      expect(session.log).toEqual(['Welcome to the game!']);
+      expect(session.baseballState.currentPlay).toBe(1);
+    });
+
+    it('accumulates the log and tracks the latest play across getNextPlay calls', async () => {
+      setupInitialization();
+      const service = createService();
+      await service.initializeGame(testGameId, testSessionId);
+
+      setupNextPlay(2, ['Single to center.']);
+      await service.getNextPlay(testGameId, testSessionId, 1, { announcerStyle: 'modern' });
+      setupNextPlay(3, ['Strikeout swinging.']);
+      await service.getNextPlay(testGameId, testSessionId, 2, { announcerStyle: 'modern' });
+
+      const session = await service.getCurrentGameState(testGameId, testSessionId);
+
+      expect(session.currentPlayIndex).toBe(3);
+      expect(session.announcerStyle).toBe('modern');
+      expect(session.log).toEqual(['Welcome to the game!', 'Single to center.', 'Strikeout swinging.']);
+      expect(session.baseballState.game.log).toEqual(['Strikeout swinging.']);
+    });
+
+    it('starts a fresh log when the game is initialized again', async () => {
+      setupInitialization();
+      const service = createService();
+      await service.initializeGame(testGameId, testSessionId);
+      setupNextPlay(2, ['Single to center.']);
+      await service.getNextPlay(testGameId, testSessionId, 1);
+
+      setupInitialization();
+      await service.initializeGame(testGameId, testSessionId);
+
+      const session = await service.getCurrentGameState(testGameId, testSessionId);
+      expect(session.log).toEqual(['Welcome to the game!']);
+    });
+
+    it('keeps using the AI adapter requested for the session until another is requested', async () => {
+      setupInitialization();
+      const service = createService();
+      await service.initializeGame(testGameId, testSessionId, { aiProvider: 'openai-compatible' });
+
+      setupNextPlay(2, ['Single to center.']);
+      await service.getNextPlay(testGameId, testSessionId, 1);
+      expect(mockCommentaryService.generateDetailedPlayCompletion).toHaveBeenLastCalledWith(
+        expect.any(Object), expect.any(Object), 1, false, testGameId, 'classic', undefined, 'openai-compatible', undefined, false
+      );
+
+      setupNextPlay(3, ['Strikeout swinging.']);
+      await service.getNextPlay(testGameId, testSessionId, 2, { aiProvider: 'template' });
+      setupNextPlay(4, ['Fly out to left.']);
+      await service.getNextPlay(testGameId, testSessionId, 3);
+
+      expect(mockCommentaryService.generateDetailedPlayCompletion).toHaveBeenLastCalledWith(
+        expect.any(Object), expect.any(Object), 3, false, testGameId, 'classic', undefined, 'template', undefined, false
+      );
+      expect((await service.getCurrentGameState(testGameId, testSessionId)).aiProvider).toBe('template');
+    });
+
+    it('applies a commentary cache policy to its own request only', async () => {
+      setupInitialization();
+      const service = createService();
+      await service.initializeGame(testGameId, testSessionId);
+
+      setupNextPlay(2, ['Single to center.']);
+      await service.getNextPlay(testGameId, testSessionId, 1, { commentaryCache: 'regenerate' });
+      expect(mockCommentaryService.generateDetailedPlayCompletion).toHaveBeenLastCalledWith(
+        expect.any(Object), expect.any(Object), 1, false, testGameId, 'classic', undefined, undefined, 'regenerate', false
+      );
+
+      setupNextPlay(3, ['Strikeout swinging.']);
+      await service.getNextPlay(testGameId, testSessionId, 2);
+      expect(mockCommentaryService.generateDetailedPlayCompletion).toHaveBeenLastCalledWith(
+        expect.any(Object), expect.any(Object), 2, false, testGameId, 'classic', undefined, undefined, undefined, false
+      );
+    });
+
+    it('does not fail playback when the session store fails', async () => {
+      setupInitialization();
+      jest.spyOn(sessionStore, 'save').mockRejectedValue(new Error('store unavailable'));
+
+      const result = await createService().initializeGame(testGameId, testSessionId);
+
+      expect(result.currentPlay).toBe(1);
+    });
+  });
+
+  describe('commentary prefetching', () => {
+    const plays = [1, 2, 3, 4].map(pn => createMockPlayData({ pn }));
+
+    let prefetcher: CommentaryPrefetcher;
+
+    const createService = () => new GamePlaybackService({
+      playDataService: mockPlayDataService,
+      scoreService: mockScoreService,
+      commentaryService: mockCommentaryService,
+      lineupService: mockLineupService,
+      sessionStore: new InMemoryPlaybackSessionStore(),
+      commentaryPrefetcher: prefetcher
+    });
+
+    /**
+     * Lets the commentary prefetched in the background be generated
+     */
+    const flush = () => new Promise(resolve => setImmediate(resolve));
+
+    const generatedPlays = () =>
+      mockCommentaryService.generateDetailedPlayCompletion.mock.calls.map(call => call[2]);
+
+    beforeEach(() => {
+      prefetcher = new CommentaryPrefetcher({ plays: 2, concurrency: 2 });
+
+      mockFetchFirstPlay.mockResolvedValue(plays[0]);
+      mockGenerateInitializationCompletion.mockResolvedValue(['Welcome to the game!']);
+      mockInitializeLineupTracking.mockResolvedValue(undefined);
+      mockConstructInitialGameState.mockResolvedValue(createMockBaseballState());
+      mockCreateSimplifiedState.mockReturnValue(createMockSimplifiedState());
+
+      mockPlayDataService.fetchAllPlaysForGame.mockResolvedValue(plays);
+      mockPlayDataService.fetchPlayData.mockImplementation(async (_gameId, playIndex) => ({
+        currentPlayData: plays[playIndex - 1],
+        nextPlayData: plays[playIndex]
+      }));
+      mockPlayDataService.fetchPlayForBatter.mockResolvedValue(plays[0]);
+      mockCreateInitialBaseballState.mockResolvedValue(createMockBaseballState());
+      mockProcessLineupState.mockResolvedValue(createMockBaseballState());
+      mockScoreService.calculateScore.mockResolvedValue({
+        homeScoreBeforePlay: 0,
+        visitorScoreBeforePlay: 0,
+        homeScoreAfterPlay: 0,
+        visitorScoreAfterPlay: 0
+      });
+      mockCommentaryService.generateDetailedPlayCompletion.mockImplementation(
+        async (_state, _play, playIndex, _skipLLM, _gameId, announcerStyle) => [`Call of play ${playIndex} (${announcerStyle}).`]
+      );
+      mockTranslateEvent.mockReturnValue('Single to center field');
+      mockIsHomeTeam.mockReturnValue(true);
+    });
+
+    it('prefetches the commentary of the first plays once the game is initialized', async () => {
+      await createService().initializeGame(testGameId, testSessionId);
+      await flush();
+
+      expect(generatedPlays()).toEqual([1, 2]);
+    });
+
+    it('uses the prefetched commentary of the next play and prefetches the plays after it', async () => {
+      const service = createService();
+      await service.initializeGame(testGameId, testSessionId);
+      await flush();
+
+      mockCreateSimplifiedState.mockReturnValue({ ...createMockSimplifiedState(), currentPlay: 2 });
+      await service.getNextPlay(testGameId, testSessionId, 1);
+      await flush();
+
+      const session = await service.getCurrentGameState(testGameId, testSessionId);
+      expect(session.log).toEqual(['Call of play 1 (classic).']);
+      expect(generatedPlays()).toEqual([1, 2, 3]);
+    });
+
+    it('generates the commentary again when the announcer style changes', async () => {
+      const service = createService();
+      await service.initializeGame(testGameId, testSessionId);
+      await flush();
+
+      await service.getNextPlay(testGameId, testSessionId, 1, { announcerStyle: 'poetic' });
+
+      const session = await service.getCurrentGameState(testGameId, testSessionId);
+      expect(session.log).toEqual(['Call of play 1 (poetic).']);
+    });
+
+    it('generates the commentary again when the booth is turned on', async () => {
+      const service = createService();
+      await service.initializeGame(testGameId, testSessionId);
+      await flush();
+
+      mockCreateSimplifiedState.mockReturnValue({ ...createMockSimplifiedState(), currentPlay: 3 });
+      await service.getNextPlay(testGameId, testSessionId, 1, { booth: true });
+
+      expect(mockCommentaryService.generateDetailedPlayCompletion).toHaveBeenCalledWith(
+        expect.any(Object), expect.any(Object), 1, false, testGameId, 'classic', undefined, undefined, undefined, true
+      );
+    });
+
+    it('does not prefetch template commentary', async () => {
+      const service = createService();
+      await service.initializeGame(testGameId, testSessionId, { skipLLM: true });
+      await service.getNextPlay(testGameId, testSessionId, 1, { skipLLM: true });
+      await flush();
+
+      expect(generatedPlays()).toEqual([1]);
+    });
+
+    it('discards the prefetched commentary on a seek', async () => {
+      const service = createService();
+      await service.initializeGame(testGameId, testSessionId);
+      await flush();
+      mockGetLatestLineupState.mockResolvedValue({ state: { playIndex: 0 }, players: [], changes: [] });
+
+      await service.seek(testGameId, testSessionId, { playIndex: 1 });
+
+      expect(await prefetcher.take(testGameId, testSessionId, 'classic:default', 1)).toBeNull();
+    });
+
+    it('generates the prefetched commentary again after a substitution', async () => {
+      const service = createService();
+      await service.initializeGame(testGameId, testSessionId);
+      await flush();
+
+      mockLineupService.processLineupChanges.mockResolvedValueOnce(true);
+      mockCreateSimplifiedState.mockReturnValue({ ...createMockSimplifiedState(), currentPlay: 2 });
+      await service.getNextPlay(testGameId, testSessionId, 1);
+      await flush();
+
+      // Play 2 was prefetched with the lineups before the substitution
+      expect(generatedPlays()).toEqual([1, 2, 2, 3]);
+    });
+  });
+
+  describe('seek', () => {
+    // Two half-innings: plays 1-3 in the top of the 1st, plays 4-5 in the bottom; play 6 opens the 2nd
+    const plays = [
+      createMockPlayData({ pn: 1, inning: 1, top_bot: 0 }),
+      createMockPlayData({ pn: 2, inning: 1, top_bot: 0 }),
+      createMockPlayData({ pn: 3, inning: 1, top_bot: 0 }),
+      createMockPlayData({ pn: 4, inning: 1, top_bot: 1, batteam: 'HOM', pitteam: 'VIS', outs_pre: 0 }),
+      createMockPlayData({ pn: 5, inning: 1, top_bot: 1, batteam: 'HOM', pitteam: 'VIS', outs_pre: 1, br1_pre: 'runner01' }),
+      createMockPlayData({ pn: 6, inning: 2, top_bot: 0 })
+    ];
+
+    let sessionStore: InMemoryPlaybackSessionStore;
+
+    const createService = () => new GamePlaybackService({
+      playDataService: mockPlayDataService,
+      scoreService: mockScoreService,
+      commentaryService: mockCommentaryService,
+      lineupService: mockLineupService,
+      sessionStore
+    });
+
+    beforeEach(() => {
+      sessionStore = new InMemoryPlaybackSessionStore();
+
+      mockPlayDataService.fetchAllPlaysForGame.mockResolvedValue(plays);
+      mockGetLatestLineupState.mockResolvedValue({ state: { playIndex: 0 }, players: [], changes: [] });
+      mockCreateInitialBaseballState.mockResolvedValue(createMockBaseballState());
+      mockProcessLineupState.mockResolvedValue(createMockBaseballState());
+      mockScoreService.calculateScore.mockResolvedValue({
+        homeScoreBeforePlay: 1,
+        visitorScoreBeforePlay: 2,
+        homeScoreAfterPlay: 1,
+        visitorScoreAfterPlay: 2
+      });
+      mockIsHomeTeam.mockReturnValue(true);
+      mockCreateSimplifiedState.mockImplementation(() => createMockSimplifiedState());
+    });
+
+    it('reconstructs the state before a play without generating commentary', async () => {
+      const result = await createService().seek(testGameId, testSessionId, { playIndex: 5 });
+
+      expect(mockCreateInitialBaseballState).toHaveBeenCalledWith(testGameId, testSessionId, 4, plays[3]);
+      expect(mockProcessLineupState).toHaveBeenCalledWith(
+        testGameId,
+        testSessionId,
+        4,
+        expect.any(Object),
+        plays[3],
+        plays[4]
+      );
+      expect(mockScoreService.calculateScore).toHaveBeenCalledWith(testGameId, 4, plays[3], plays[4]);
+      expect(mockCreateSimplifiedState).toHaveBeenCalledWith(expect.any(Object), plays[4]);
+      expect(mockUpdateNextBatterAndPitcher).toHaveBeenCalledWith(expect.any(Object), plays[4]);
+      expect(mockLineupService.updateLineupInfo).toHaveBeenCalledWith(testGameId, testSessionId, plays[4], expect.any(Object));
+      expect(mockCommentaryService.generateDetailedPlayCompletion).not.toHaveBeenCalled();
+      expect(result.currentPlay).toBe(5);
+      expect(result.game.log).toEqual([]);
+    });
+
+    it('seeks to the first play of a half-inning', async () => {
+      const result = await createService().seek(testGameId, testSessionId, { inning: 1, half: 'bottom' });
+
+      expect(mockScoreService.calculateScore).toHaveBeenCalledWith(testGameId, 3, plays[2], plays[3]);
+      expect(result.currentPlay).toBe(4);
+    });
+
+    it('defaults to the top half when only an inning is given', async () => {
+      mockFetchFirstPlay.mockResolvedValue(plays[0]);
+      mockConstructInitialGameState.mockResolvedValue(createMockBaseballState());
+
+      const result = await createService().seek(testGameId, testSessionId, { inning: 1 });
+
+      // The top of the first is the start of the game, built like an initialization without commentary
+      expect(mockConstructInitialGameState).toHaveBeenCalledWith(testGameId, testSessionId, plays[0], []);
+      expect(mockScoreService.calculateScore).not.toHaveBeenCalled();
+      expect(result.currentPlay).toBe(1);
+    });
+
+    it('runs lineup change detection for every skipped play', async () => {
+      mockGetLatestLineupState.mockResolvedValue({ state: { playIndex: 2 }, players: [], changes: [] });
+
+      await createService().seek(testGameId, testSessionId, { playIndex: 5 });
+
+      expect(mockLineupService.processLineupChanges).toHaveBeenCalledTimes(3);
+      expect(mockLineupService.processLineupChanges).toHaveBeenNthCalledWith(1, testGameId, testSessionId, plays[1], plays[2]);
+      expect(mockLineupService.processLineupChanges).toHaveBeenNthCalledWith(3, testGameId, testSessionId, plays[3], plays[4]);
+    });
+
+    it('rolls back lineup tracking when seeking backwards', async () => {
+      mockGetLatestLineupState.mockResolvedValue({ state: { playIndex: 5 }, players: [], changes: [] });
+
+      await createService().seek(testGameId, testSessionId, { playIndex: 3 });
+
+      expect(mockLineupService.rollbackLineupChanges).toHaveBeenCalledWith(testGameId, testSessionId, 3);
+      expect(mockLineupService.processLineupChanges).not.toHaveBeenCalled();
+    });
+
+    it('initializes lineup tracking when the session has none', async () => {
+      mockGetLatestLineupState.mockResolvedValue(null);
+
+      await createService().seek(testGameId, testSessionId, { playIndex: 3 });
+
+      expect(mockInitializeLineupTracking).toHaveBeenCalledWith(testGameId, testSessionId);
+      expect(mockLineupService.processLineupChanges).toHaveBeenCalledTimes(2);
+    });
+
+    it('throws NotFoundError when the target does not exist', async () => {
+      await expect(createService().seek(testGameId, testSessionId, { inning: 9, half: 'bottom' }))
+        .rejects.toThrow(`No play found in game ${testGameId} for the bottom of inning 9`);
+      await expect(createService().seek(testGameId, testSessionId, { playIndex: 99 }))
+        .rejects.toThrow(`No play found in game ${testGameId} for play 99`);
+    });
+
+    it('includes the linescore of the plays before the target', async () => {
+      mockPlayDataService.fetchAllPlaysForGame.mockResolvedValue([
+        plays[0],
+        createMockPlayData({ pn: 2, inning: 1, top_bot: 0, event: 'HR/F7', runs: 1 }),
+        plays[2],
+        createMockPlayData({ pn: 4, inning: 1, top_bot: 1, batteam: 'HOM', pitteam: 'VIS', event: 'E6' }),
+        plays[4],
+        plays[5]
+      ]);
+      mockCreateSimplifiedState.mockImplementation(() => {
+        const state = createMockSimplifiedState();
+        state.game.isTopInning = false;
+        return state;
+      });
+
+      const result = await createService().seek(testGameId, testSessionId, { playIndex: 5 });
+
+      expect(result.linescore).toEqual({
+        innings: 9,
+        complete: false,
+        visitors: {
+          teamId: 'VIS',
+          name: 'Visitor Team',
+          runsByInning: [1, null, null, null, null, null, null, null, null],
+          runs: 1,
+          hits: 3,
+          errors: 1
+        },
+        home: {
+          teamId: 'HOM',
+          name: 'Home Team',
+          runsByInning: [0, null, null, null, null, null, null, null, null],
+          runs: 0,
+          hits: 0,
+          errors: 0
+        }
+      });
+    });
+
+    it('includes the win probability before the target and the play before it', async () => {
+      const point = (playIndex: number, before: number, after: number, wpa: number) => ({
+        playIndex, inning: 1, isTopInning: playIndex < 4, event: 'S8',
+        homeWinProbabilityBefore: before, homeWinProbability: after, wpa, leverageIndex: 1
+      });
+      const winProbabilityService = {
+        getWinProbability: jest.fn().mockResolvedValue({
+          gameId: testGameId,
+          season: 2019,
+          points: [point(3, 0.5, 0.47, 0.03), point(4, 0.47, 0.52, 0.05), point(5, 0.52, 0.55, 0.03)]
+        })
+      };
       const service = new GamePlaybackService({
         playDataService: mockPlayDataService,
         scoreService: mockScoreService,
         commentaryService: mockCommentaryService,
-        lineupService: mockLineupService
+        lineupService: mockLineupService,
+        sessionStore,
+        winProbabilityService
+      });
+
+      const result = await service.seek(testGameId, testSessionId, { playIndex: 5 });
+
+      expect(winProbabilityService.getWinProbability).toHaveBeenCalledWith(testGameId);
+      expect(result.winProbability).toBe(0.52);
+      expect(result.wpa).toBe(0.05);
+    });
+
+    it('leaves out the win probability when it cannot be computed', async () => {
+      const service = new GamePlaybackService({
+        playDataService: mockPlayDataService,
+        scoreService: mockScoreService,
+        commentaryService: mockCommentaryService,
+        lineupService: mockLineupService,
+        sessionStore,
+        winProbabilityService: { getWinProbability: jest.fn().mockRejectedValue(new Error('no plays')) }
+      });
+
+      const result = await service.seek(testGameId, testSessionId, { playIndex: 5 });
+
+      expect(result.currentPlay).toBe(5);
+      expect(result.winProbability).toBeUndefined();
+    });
+
+    it('extends the linescore into extra innings', async () => {
+      mockCreateSimplifiedState.mockImplementation(() => {
+        const state = createMockSimplifiedState();
+        state.game.inning = 11;
+        return state;
+      });
+
+      const result = await createService().seek(testGameId, testSessionId, { playIndex: 5 });
+
+      expect(result.linescore?.innings).toBe(11);
+      expect(result.linescore?.visitors.runsByInning[10]).toBe(0);
+      expect(result.linescore?.home.runsByInning[10]).toBeNull();
+    });
+
+    it('records the seek in the session store', async () => {
+      const service = createService();
+
+      await service.seek(testGameId, testSessionId, { playIndex: 5 }, { announcerStyle: 'poetic' });
+      const session = await service.getCurrentGameState(testGameId, testSessionId);
+
+      expect(session.currentPlayIndex).toBe(5);
+      expect(session.announcerStyle).toBe('poetic');
+    });
+  });
+
+  describe('getPreviousPlay', () => {
+    const plays = [
+      createMockPlayData({ pn: 1 }),
+      createMockPlayData({ pn: 2 }),
+      createMockPlayData({ pn: 3 })
+    ];
+
+    const createService = () => new GamePlaybackService({
+      playDataService: mockPlayDataService,
+      scoreService: mockScoreService,
+      commentaryService: mockCommentaryService,
+      lineupService: mockLineupService,
+      sessionStore: new InMemoryPlaybackSessionStore()
+    });
+
+    beforeEach(() => {
+      mockPlayDataService.fetchAllPlaysForGame.mockResolvedValue(plays);
+      mockGetLatestLineupState.mockResolvedValue({ state: { playIndex: 3 }, players: [], changes: [] });
+      mockCreateInitialBaseballState.mockResolvedValue(createMockBaseballState());
+      mockProcessLineupState.mockResolvedValue(createMockBaseballState());
+      mockScoreService.calculateScore.mockResolvedValue({
+        homeScoreBeforePlay: 0,
+        visitorScoreBeforePlay: 0,
+        homeScoreAfterPlay: 0,
+        visitorScoreAfterPlay: 0
+      });
+      mockIsHomeTeam.mockReturnValue(true);
+      mockCreateSimplifiedState.mockImplementation(() => createMockSimplifiedState());
+    });
+
+    it('restores the state before the previous play', async () => {
+      const result = await createService().getPreviousPlay(testGameId, testSessionId, 3);
+
+      expect(mockScoreService.calculateScore).toHaveBeenCalledWith(testGameId, 1, plays[0], plays[1]);
+      expect(mockCommentaryService.generateDetailedPlayCompletion).not.toHaveBeenCalled();
+      expect(result.currentPlay).toBe(2);
+    });
+
+    it('discards lineup tracking rows written after the previous play', async () => {
+      await createService().getPreviousPlay(testGameId, testSessionId, 3);
+
+      expect(mockLineupService.rollbackLineupChanges).toHaveBeenCalledWith(testGameId, testSessionId, 2);
+    });
+
+    it('throws BadRequestError at the start of the game', async () => {
+      await expect(createService().getPreviousPlay(testGameId, testSessionId, 1))
+        .rejects.toThrow(`Play 1 is the start of game ${testGameId}; there is no previous play`);
+    });
+  });
+
+  describe('getNextPlay in a playback mode', () => {
+    // A home run at play 4 is the only highlight before the last play
+    const plays = [
+      createMockPlayData({ pn: 1, event: 'K' }),
+      createMockPlayData({ pn: 2, event: 'S8' }),
+      createMockPlayData({ pn: 3, event: '63' }),
+      createMockPlayData({ pn: 4, event: 'HR/F7', runs: 1 }),
+      createMockPlayData({ pn: 5, event: '8' })
+    ];
+
+    const createService = () => new GamePlaybackService({
+      playDataService: mockPlayDataService,
+      scoreService: mockScoreService,
+      commentaryService: mockCommentaryService,
+      lineupService: mockLineupService,
+      sessionStore: new InMemoryPlaybackSessionStore()
+    });
+
+    beforeEach(() => {
+      mockPlayDataService.fetchAllPlaysForGame.mockResolvedValue(plays);
+      // Like the play repository, the last play cannot be fetched: it has no next play
+      mockPlayDataService.fetchPlayData.mockImplementation(async (_gameId, currentPlay) => {
+        if (currentPlay >= plays.length) {
+          throw new Error(`No more plays found for the specified game ID: ${testGameId}`);
+        }
+        return { currentPlayData: plays[currentPlay - 1], nextPlayData: plays[currentPlay] };
       });
+      mockPlayDataService.fetchPlayForBatter.mockResolvedValue(null);
+      mockGetLatestLineupState.mockResolvedValue({ state: { playIndex: 2 }, players: [], changes: [] });
+      mockCreateInitialBaseballState.mockResolvedValue(createMockBaseballState());
+      mockProcessLineupState.mockResolvedValue(createMockBaseballState());
+      mockScoreService.calculateScore.mockResolvedValue({
+        homeScoreBeforePlay: 0,
+        visitorScoreBeforePlay: 0,
+        homeScoreAfterPlay: 0,
+        visitorScoreAfterPlay: 1
+      });
+      mockCommentaryService.generateDetailedPlayCompletion.mockResolvedValue(['Gone!']);
+      mockIsHomeTeam.mockReturnValue(true);
+      mockCreateSimplifiedState.mockImplementation(() => createMockSimplifiedState());
+    });
+
+    it('skips ahead to the next highlight and summarizes the plays in between', async () => {
+      const result = await createService().getNextPlay(testGameId, testSessionId, 2, { mode: 'highlights' });
+
+      expect(mockPlayDataService.fetchPlayData).toHaveBeenCalledWith(testGameId, 4);
+      expect(mockCreateInitialBaseballState).toHaveBeenCalledWith(testGameId, testSessionId, 4, plays[3]);
+      expect(mockCommentaryService.generateDetailedPlayCompletion).toHaveBeenCalledWith(
+        expect.any(Object),
+        plays[3],
+        4,
+        false,
+        testGameId,
+        'classic',
+        expect.objectContaining({ count: 2, runs: { home: 0, visitors: 0 }, hits: { home: 0, visitors: 1 } }),
+        undefined,
+        undefined,
+        false
+      );
+      expect(result.currentPlay).toBe(5);
+    });
+
+    it('runs lineup change detection for the skipped plays', async () => {
+      await createService().getNextPlay(testGameId, testSessionId, 2, { mode: 'highlights' });
+
+      expect(mockLineupService.processLineupChanges).toHaveBeenNthCalledWith(1, testGameId, testSessionId, plays[1], plays[2]);
+      expect(mockLineupService.processLineupChanges).toHaveBeenNthCalledWith(2, testGameId, testSessionId, plays[2], plays[3]);
+    });
 
-      await expect(service.getCurrentGameState(testGameId, testSessionId))
-        .rejects.toThrow('getCurrentGameState not yet implemented');
+    it('plays the current play without a summary when it is a highlight', async () => {
+      await createService().getNextPlay(testGameId, testSessionId, 4, { mode: 'highlights' });
+
+      expect(mockPlayDataService.fetchPlayData).toHaveBeenCalledWith(testGameId, 4);
+      expect(mockCommentaryService.generateDetailedPlayCompletion).toHaveBeenCalledWith(
+        expect.any(Object), plays[3], 4, false, testGameId, 'classic', undefined, undefined, undefined, false
+      );
+    });
+
+    it('stops at the plays matching the given criteria', async () => {
+      await createService().getNextPlay(testGameId, testSessionId, 1, { mode: 'condensed', highlightCriteria: ['outAtHome'] });
+
+      // No out at home: the last play called, which brings playback to the last play
+      expect(mockPlayDataService.fetchPlayData).toHaveBeenCalledWith(testGameId, 4);
+    });
+
+    it('finishes the game at the final out', async () => {
+      const result = await createService().getNextPlay(testGameId, testSessionId, 1, {
+        mode: 'condensed',
+        highlightCriteria: ['finalOut']
+      });
+
+      expect(mockPlayDataService.fetchPlayData).toHaveBeenCalledWith(testGameId, 4);
+      expect(result.currentPlay).toBe(5);
+      expect(result.linescore?.complete).toBe(true);
+    });
+
+    it('leaves lineup tracking alone when the game is already over', async () => {
+      await expect(createService().getNextPlay(testGameId, testSessionId, 5, { mode: 'highlights' }))
+        .rejects.toThrow('No more plays found');
+
+      expect(mockLineupService.processLineupChanges).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('linescore at the end of the game', () => {
+    // The visitors lead 2-1 after eight and a half; play 4 is the final out in the top of the 9th
+    const plays = [
+      createMockPlayData({ pn: 1, inning: 1, top_bot: 0, event: 'HR/F7', runs: 1 }),
+      createMockPlayData({ pn: 2, inning: 1, top_bot: 1, batteam: 'HOM', pitteam: 'VIS', event: 'HR/F9', runs: 1 }),
+      createMockPlayData({ pn: 3, inning: 9, top_bot: 0, event: 'HR/F8', runs: 1 }),
+      createMockPlayData({ pn: 4, inning: 9, top_bot: 0, event: '8' })
+    ];
+
+    const createService = () => new GamePlaybackService({
+      playDataService: mockPlayDataService,
+      scoreService: mockScoreService,
+      commentaryService: mockCommentaryService,
+      lineupService: mockLineupService,
+      sessionStore: new InMemoryPlaybackSessionStore()
+    });
+
+    beforeEach(() => {
+      mockFetchFirstPlay.mockResolvedValue(plays[0]);
+      mockGenerateInitializationCompletion.mockResolvedValue(['Welcome to the game!']);
+      mockInitializeLineupTracking.mockResolvedValue(undefined);
+      mockConstructInitialGameState.mockResolvedValue(createMockBaseballState());
+      mockCreateSimplifiedState.mockImplementation(() => createMockSimplifiedState());
+
+      mockPlayDataService.fetchAllPlaysForGame.mockResolvedValue(plays);
+      // Like the play repository, the last play cannot be fetched: it has no next play
+      mockPlayDataService.fetchPlayData.mockImplementation(async (_gameId, currentPlay) => {
+        if (currentPlay >= plays.length) {
+          throw new Error(`No more plays found for the specified game ID: ${testGameId}`);
+        }
+        return { currentPlayData: plays[currentPlay - 1], nextPlayData: plays[currentPlay] };
+      });
+      mockPlayDataService.fetchPlayForBatter.mockResolvedValue(null);
+      mockCreateInitialBaseballState.mockResolvedValue(createMockBaseballState());
+      mockProcessLineupState.mockResolvedValue(createMockBaseballState());
+      mockScoreService.calculateScore.mockResolvedValue({
+        homeScoreBeforePlay: 0,
+        visitorScoreBeforePlay: 0,
+        homeScoreAfterPlay: 0,
+        visitorScoreAfterPlay: 0
+      });
+      mockCommentaryService.generateDetailedPlayCompletion.mockResolvedValue(['And the pitch...']);
+      mockIsHomeTeam.mockReturnValue(true);
+    });
+
+    it('completes the linescore once the game reaches its final play', async () => {
+      const service = createService();
+      const states: SimplifiedBaseballState[] = [await service.getNextPlay(testGameId, testSessionId, 0, { skipLLM: true })];
+      while (states.length < 10) {
+        try {
+          states.push(await service.getNextPlay(testGameId, testSessionId, states[states.length - 1].currentPlay, { skipLLM: true }));
+        } catch {
+          break;
+        }
+      }
+
+      expect(states.map(state => state.currentPlay)).toEqual([1, 2, 3, 4]);
+      expect(states.slice(1, 3).map(state => state.linescore?.complete)).toEqual([false, false]);
+
+      const { linescore } = states[states.length - 1];
+      expect(linescore?.complete).toBe(true);
+      expect(linescore?.visitors).toMatchObject({
+        runsByInning: [1, null, null, null, null, null, null, null, 1],
+        runs: 2
+      });
+      // The home team did not need to bat in the bottom of the 9th, which the scoreboard shows as an X
+      expect(linescore?.home).toMatchObject({
+        runsByInning: [1, null, null, null, null, null, null, null, null],
+        runs: 1
+      });
     });
   });
 });
@@ -0,0 +1,91 @@
+import { PlayData } from '../../../../../../common/types/PlayData';
+import { MODE_CRITERIA, findNextHighlight, summarizeSkippedPlays } from '../highlights';
+
+/**
+ * Builds a play between PIT (visitors) and CIN (home); the visitors' pitcher
+ * is pitp1 and the home team's cinp1 unless overridden
+ */
+function play(pn: number, inning: number, topBot: number, event: string, overrides: Partial<PlayData> = {}): PlayData {
+  return {
+    gid: 'CIN201904150',
+    pn,
+    inning,
+    top_bot: topBot,
+    batteam: topBot === 0 ? 'PIT' : 'CIN',
+    pitteam: topBot === 0 ? 'CIN' : 'PIT',
+    batter: `b${pn}`,
+    pitcher: topBot === 0 ? 'cinp1' : 'pitp1',
+    outs_pre: 0,
+    outs_post: 1,
+    event,
+    runs: 0,
+    ...overrides
+  };
+}
+
+// PIT scores in the 1st, CIN ties it in the 2nd and goes ahead on a home run in
+// the 3rd, PIT changes pitchers and throws a runner out at the plate in the 4th;
+// play 10, the last play, is never called
+const plays: PlayData[] = [
+  play(1, 1, 0, 'K'),
+  play(2, 1, 0, 'S9.2-H', { runs: 1 }),
+  play(3, 1, 1, '63'),
+  play(4, 2, 1, 'D7.3-H', { runs: 1 }),
+  play(5, 3, 0, 'F8'),
+  play(6, 3, 1, 'HR/F7', { runs: 1 }),
+  play(7, 4, 1, 'S8', { pitcher: 'pitp2' }),
+  play(8, 4, 1, 'S7.3XH(72)'),
+  play(9, 4, 1, '43'),
+  play(10, 5, 0, 'K')
+];
+
+describe('findNextHighlight', () => {
+  it('stops at every kind of highlight in a condensed game', () => {
+    const stops: number[] = [];
+    let i = -1;
+    while (i < plays.length - 2) {
+      i = findNextHighlight(plays, i + 1, MODE_CRITERIA.condensed);
+      stops.push(plays[i].pn);
+    }
+
+    expect(stops).toEqual([2, 4, 6, 7, 8, 9]);
+  });
+
+  it('skips scoring plays that do not change the lead in highlights', () => {
+    expect(plays[findNextHighlight(plays, 0, MODE_CRITERIA.highlights)].pn).toBe(2);
+    expect(plays[findNextHighlight(plays, 2, MODE_CRITERIA.highlights)].pn).toBe(6);
+  });
+
+  it('stops at the play it starts from when that play is a highlight', () => {
+    expect(findNextHighlight(plays, 5, ['homeRun'])).toBe(5);
+  });
+
+  it('stops at the last play called when no later play meets the criteria', () => {
+    expect(findNextHighlight(plays, 6, ['homeRun'])).toBe(plays.length - 2);
+  });
+
+  it('never stops at the last play of the game, which has no next play to call it with', () => {
+    const walkOff = [...plays.slice(0, 9), play(10, 4, 1, 'HR/F8', { runs: 1 })];
+
+    expect(findNextHighlight(walkOff, 8, ['homeRun'])).toBe(8);
+  });
+
+  it('only counts runners put out at the plate as outs at home', () => {
+    const safe = [...plays.slice(0, 7), play(8, 4, 1, 'S7.3XH(E2)', { runs: 1 }), ...plays.slice(8)];
+
+    expect(plays[findNextHighlight(plays, 0, ['outAtHome'])].pn).toBe(8);
+    expect(safe[findNextHighlight(safe, 0, ['outAtHome'])].pn).toBe(9);
+  });
+});
+
+describe('summarizeSkippedPlays', () => {
+  it('counts the runs and hits of each team in the skipped plays', () => {
+    expect(summarizeSkippedPlays(plays.slice(2, 5))).toEqual({
+      count: 3,
+      from: { inning: 1, isTopInning: false },
+      to: { inning: 3, isTopInning: true },
+      runs: { home: 1, visitors: 0 },
+      hits: { home: 1, visitors: 0 }
+    });
+  });
+});
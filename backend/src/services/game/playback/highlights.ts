@@ -0,0 +1,126 @@
+import { HighlightCriterion, PlaybackMode, PlayData, SkippedPlays } from '../../interfaces';
+import { parseDetailedEvent } from '../../eventTranslation/translateEvent';
+import { getBatterEventType, isHitEvent } from '../../../utils/LinescoreUtils';
+
+/**
+ * Plays each playback mode stops at: every kind of highlight for a condensed
+ * game, and only the plays that change or decide the game for highlights
+ */
+export const MODE_CRITERIA: Record<PlaybackMode, HighlightCriterion[]> = {
+  condensed: ['scoringPlay', 'homeRun', 'leadChange', 'outAtHome', 'pitchingChange', 'finalOut'],
+  highlights: ['homeRun', 'leadChange', 'outAtHome', 'finalOut']
+};
+
+interface Score {
+  home: number;
+  visitors: number;
+}
+
+/**
+ * Finds the next play at or after a play that meets any of the criteria
+ *
+ * The last play of the game has no next play, so it is never called and never
+ * returned. Its previous play, the last play called, is returned when no later
+ * play meets the criteria, so that playback in a condensed mode always reaches
+ * the end of the game.
+ *
+ * @param plays The plays of the game, in order
+ * @param fromIndex Index in plays of the first play that may be returned
+ * @param criteria The kinds of plays to stop at
+ * @returns The index in plays of the play to stop at; fromIndex when it is
+ * already past the last play called
+ */
+export function findNextHighlight(plays: PlayData[], fromIndex: number, criteria: HighlightCriterion[]): number {
+  const score: Score = { home: 0, visitors: 0 };
+  const lastCalledIndex = plays.length - 2;
+
+  for (let i = 0; i <= lastCalledIndex; i++) {
+    const before = { ...score };
+    addRuns(score, plays[i]);
+
+    if (i >= fromIndex && criteria.some(criterion => meetsCriterion(criterion, plays, i, before, score))) {
+      return i;
+    }
+  }
+  return Math.max(fromIndex, lastCalledIndex);
+}
+
+/**
+ * Determines whether a play meets one criterion
+ * @param criterion The criterion
+ * @param plays The plays of the game, in order
+ * @param index Index in plays of the play
+ * @param before The score before the play
+ * @param after The score after the play
+ */
+function meetsCriterion(
+  criterion: HighlightCriterion,
+  plays: PlayData[],
+  index: number,
+  before: Score,
+  after: Score
+): boolean {
+  const play = plays[index];
+
+  switch (criterion) {
+    case 'scoringPlay':
+      return runsOf(play) > 0;
+    case 'homeRun':
+      return getBatterEventType(play.event) === 'HR';
+    case 'leadChange':
+      // A team takes the lead that it did not have before the play
+      return leader(after) !== null && leader(after) !== leader(before);
+    case 'outAtHome':
+      return parseDetailedEvent(play.event || '').baseRunning
+        .some(advance => advance.toBase === 'H' && advance.isOut);
+    case 'pitchingChange': {
+      const previous = plays.slice(0, index).reverse().find(earlier => earlier.pitteam === play.pitteam);
+      return previous !== undefined && previous.pitcher !== play.pitcher;
+    }
+    case 'finalOut':
+      // Calling the last play called brings playback to the final out
+      return index === plays.length - 2;
+  }
+}
+
+/**
+ * Summarizes the plays skipped to reach a highlight, for the commentary
+ * bridging the gap
+ * @param plays The skipped plays, in order; at least one
+ */
+export function summarizeSkippedPlays(plays: PlayData[]): SkippedPlays {
+  const first = plays[0];
+  const last = plays[plays.length - 1];
+  const runs: Score = { home: 0, visitors: 0 };
+  const hits: Score = { home: 0, visitors: 0 };
+
+  for (const play of plays) {
+    addRuns(runs, play);
+    if (isHitEvent(play.event)) {
+      hits[play.top_bot === 0 ? 'visitors' : 'home']++;
+    }
+  }
+
+  return {
+    count: plays.length,
+    from: { inning: first.inning, isTopInning: first.top_bot === 0 },
+    to: { inning: last.inning, isTopInning: last.top_bot === 0 },
+    runs,
+    hits
+  };
+}
+
+function runsOf(play: PlayData): number {
+  return Number(play.runs ?? 0);
+}
+
+function addRuns(score: Score, play: PlayData): void {
+  score[play.top_bot === 0 ? 'visitors' : 'home'] += runsOf(play);
+}
+
+function leader(score: Score): 'home' | 'visitors' | null {
+  if (score.home === score.visitors) {
+    return null;
+  }
+  return score.home > score.visitors ? 'home' : 'visitors';
+}
@@ -1,2 +1,8 @@
 export { GamePlaybackService, GamePlaybackDependencies } from './GamePlaybackService';
+export {
+  CommentaryPrefetcher,
+  CommentaryPrefetchSettings,
+  getCommentaryPrefetcher,
+  setCommentaryPrefetcher
+} from './CommentaryPrefetcher';
 export { NextPlayOptions } from '../../interfaces';
@@ -0,0 +1,233 @@
+import {
+  IGameSearchService,
+  IGameSearchRepository,
+  IExcitementService,
+  GameInfoRow,
+  GameSearchCriteria,
+  GameSearchOptions,
+  GameSearchResponse,
+  GameSortField,
+  RecommendedGamesCriteria,
+  RecommendedGamesResponse
+} from '../../interfaces';
+import { GameSummary } from '../../../../../common/types/GameSearchTypes';
+import { BaseService } from '../../BaseService';
+import { gameSearchRepository } from '../../../database/repositories/GameSearchRepository';
+import { gameRepository } from '../../../database/repositories/GameRepository';
+import { ExcitementService } from '../analytics/ExcitementService';
+import { PaginationUtils } from '../../../utils/PaginationUtils';
+import { SortUtils } from '../../../utils/SortUtils';
+import { contextLogger } from '../../../core/logging';
+
+/**
+ * Dependencies for GameSearchService
+ */
+export interface GameSearchDependencies {
+  gameSearchRepository?: IGameSearchRepository;
+  excitementService?: IExcitementService;
+}
+
+/**
+ * Fields game search results can be sorted by
+ */
+export const GAME_SORT_FIELDS: GameSortField[] = ['date', 'margin', 'innings', 'attendance'];
+
+/**
+ * Fields spoiler-free results can be sorted by: the order of the others gives
+ * results away
+ */
+const SPOILER_FREE_SORT_FIELDS: GameSortField[] = ['date', 'attendance'];
+
+/**
+ * Games recommended when no limit is given, and the most that can be asked for
+ */
+const RECOMMENDED_LIMIT = { DEFAULT: 10, MAX: 50 };
+
+/**
+ * Formats a gameinfo date, which the driver may return as a Date, as YYYY-MM-DD
+ */
+function formatGameDate(date: string | Date): string {
+  if (date instanceof Date) {
+    return date.toISOString().slice(0, 10);
+  }
+  const digits = String(date).replace(/-/g, '');
+  return /^\d{8}$/.test(digits)
+    ? `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`
+    : String(date);
+}
+
+/**
+ * Service for searching and browsing games
+ *
+ * Filters the gameinfo table through GameSearchRepository, then adds team
+ * display names and paging metadata so a client can offer a game picker
+ * instead of asking for a Retrosheet game ID.
+ *
+ * @example
+ * ```typescript
+ * // Extra-inning Reds games of 2019, most recent first
+ * const page = await GameSearchService.searchGames(
+ *   { team: "CIN", season: 2019, extraInnings: true },
+ *   { sort: "date", direction: "desc" }
+ * );
+ * ```
+ */
+export class GameSearchService extends BaseService implements IGameSearchService {
+  private gameSearchRepository: IGameSearchRepository;
+  private excitementService: IExcitementService;
+
+  // Singleton instance for backward compatibility during transition
+  private static instance: GameSearchService;
+
+  /**
+   * Creates a new instance of the GameSearchService
+   * @param dependencies Optional dependencies to inject
+   */
+  constructor(dependencies: GameSearchDependencies = {}) {
+    super(dependencies);
+    this.gameSearchRepository = dependencies.gameSearchRepository || gameSearchRepository;
+    this.excitementService = dependencies.excitementService || ExcitementService.getInstance();
+  }
+
+  /**
+   * Gets the singleton instance
+   * @returns The singleton instance
+   */
+  public static getInstance(): GameSearchService {
+    if (!GameSearchService.instance) {
+      GameSearchService.instance = new GameSearchService();
+    }
+    return GameSearchService.instance;
+  }
+
+  /**
+   * Finds games matching the criteria, with team display names and final scores
+   *
+   * Results are sorted by date (oldest first) unless another sort field is
+   * given; unknown sort fields and directions fall back to the defaults.
+   * Spoiler-free results leave out the final score, margin and innings played,
+   * and cannot be sorted by margin or innings.
+   *
+   * @param criteria The filters to apply
+   * @param options Page, page size, sort order and whether to hide results
+   * @returns One page of matching games
+   */
+  public async searchGames(
+    criteria: GameSearchCriteria,
+    options: GameSearchOptions = {}
+  ): Promise<GameSearchResponse> {
+    const serviceLogger = contextLogger({
+      service: 'GameSearchService',
+      method: 'searchGames'
+    });
+
+    const pagination = PaginationUtils.normalizePaginationParams(options.page, options.limit);
+    const sort = SortUtils.parseSortParams(
+      options.sort,
+      options.direction,
+      'date',
+      options.spoilerFree ? SPOILER_FREE_SORT_FIELDS : GAME_SORT_FIELDS
+    );
+
+    const { rows, total } = await this.gameSearchRepository.searchGames(criteria, {
+      sort: { field: sort.field as GameSortField, direction: sort.direction },
+      ...PaginationUtils.buildPaginationClauses(pagination)
+    });
+
+    const displayNames = await this.getDisplayNames(rows);
+    const totalPages = Math.ceil(total / pagination.limit);
+
+    serviceLogger.debug('Searched games', { criteria, sort, total, returned: rows.length });
+
+    return {
+      data: rows.map(row => this.toGameSummary(row, displayNames, options.spoilerFree)),
+      pagination: {
+        total,
+        page: pagination.page,
+        limit: pagination.limit,
+        totalPages,
+        hasNext: pagination.page < totalPages,
+        hasPrev: pagination.page > 1
+      }
+    };
+  }
+
+  /**
+   * Recommends the most exciting games of a season, scoring any games that
+   * have not been scored yet (see ExcitementService). Spoiler-free
+   * recommendations keep only the excitement score of each game.
+   * @param criteria The season, and optionally a team, how many games to return
+   * and whether to hide results
+   * @returns The games with their excitement, most exciting first
+   */
+  public async getRecommendedGames(criteria: RecommendedGamesCriteria): Promise<RecommendedGamesResponse> {
+    const limit = Math.min(RECOMMENDED_LIMIT.MAX, criteria.limit || RECOMMENDED_LIMIT.DEFAULT);
+    const games = await this.excitementService.getMostExciting(criteria.season, criteria.team, limit);
+    const displayNames = await this.getDisplayNames(games.map(({ game }) => game));
+
+    contextLogger({
+      service: 'GameSearchService',
+      method: 'getRecommendedGames'
+    }).debug('Recommended games', { criteria, returned: games.length });
+
+    return {
+      data: games.map(({ game, excitement }) => ({
+        ...this.toGameSummary(game, displayNames, criteria.spoilerFree),
+        excitement: criteria.spoilerFree ? { gameId: excitement.gameId, score: excitement.score } : excitement
+      }))
+    };
+  }
+
+  /**
+   * Looks up the display names of the teams in gameinfo rows
+   */
+  private async getDisplayNames(rows: GameInfoRow[]): Promise<Map<string, string>> {
+    const teamIds = [...new Set(rows.flatMap(row => [row.hometeam, row.visteam]))];
+    return new Map(await Promise.all(
+      teamIds.map(async teamId => [teamId, await gameRepository.getTeamDisplayName(teamId)] as const)
+    ));
+  }
+
+  /**
+   * Converts a gameinfo row to a search result, without the final score,
+   * margin and innings played if spoiler-free
+   */
+  private toGameSummary(row: GameInfoRow, displayNames: Map<string, string>, spoilerFree = false): GameSummary {
+    const homeRuns = Number(row.hruns) || 0;
+    const visitorRuns = Number(row.vruns) || 0;
+    const result = <T>(value: T): T | null => (spoilerFree ? null : value);
+
+    return {
+      gameId: row.gid,
+      date: formatGameDate(row.date),
+      gameNumber: Number(row.number) || 0,
+      season: Number(row.season),
+      ballpark: row.site,
+      innings: result(Number(row.innings) || 0),
+      margin: result(Math.abs(homeRuns - visitorRuns)),
+      attendance: row.attendance === null || row.attendance === undefined ? null : Number(row.attendance),
+      home: {
+        id: row.hometeam,
+        displayName: displayNames.get(row.hometeam) || row.hometeam,
+        runs: result(homeRuns)
+      },
+      visitors: {
+        id: row.visteam,
+        displayName: displayNames.get(row.visteam) || row.visteam,
+        runs: result(visitorRuns)
+      }
+    };
+  }
+
+  // Static methods for backward compatibility during transition
+  public static async searchGames(
+    criteria: GameSearchCriteria,
+    options?: GameSearchOptions
+  ): Promise<GameSearchResponse> {
+    return GameSearchService.getInstance().searchGames(criteria, options);
+  }
+
+  public static async getRecommendedGames(criteria: RecommendedGamesCriteria): Promise<RecommendedGamesResponse> {
+    return GameSearchService.getInstance().getRecommendedGames(criteria);
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * GameSearchService Unit Tests
+ *
+ * These tests check how search options are normalized before they reach the
+ * repository, how gameinfo rows are turned into search results, and how the
+ * most exciting games are turned into recommendations.
+ */
+
+import { GameExcitement, GameInfoRow, IExcitementService, IGameSearchRepository } from '../../../interfaces';
+
+jest.mock('../../../../database/repositories/GameRepository', () => ({
+  gameRepository: {
+    getTeamDisplayName: jest.fn(async (teamId: string) => (teamId === 'CIN' ? 'Cincinnati Reds' : 'New York Mets'))
+  }
+}));
+
+// Keep the real repository (and its database connection) out of the test
+jest.mock('../../../../database/repositories/GameSearchRepository', () => ({
+  gameSearchRepository: {}
+}));
+
+jest.mock('../../analytics/ExcitementService', () => ({
+  ExcitementService: {
+    getInstance: jest.fn(() => ({}))
+  }
+}));
+
+import { GameSearchService } from '../GameSearchService';
+
+function createRow(overrides: Partial<GameInfoRow> = {}): GameInfoRow {
+  return {
+    gid: 'CIN201909150',
+    date: new Date('2019-09-15T00:00:00Z'),
+    number: 0,
+    season: 2019,
+    site: 'CIN09',
+    hometeam: 'CIN',
+    visteam: 'NYN',
+    hruns: 4,
+    vruns: 3,
+    attendance: 24311,
+    innings: 11,
+    margin: 1,
+    ...overrides
+  };
+}
+
+describe('GameSearchService', () => {
+  let repository: jest.Mocked<IGameSearchRepository>;
+  let service: GameSearchService;
+
+  beforeEach(() => {
+    repository = {
+      searchGames: jest.fn().mockResolvedValue({ rows: [createRow()], total: 25 })
+    };
+    service = new GameSearchService({ gameSearchRepository: repository });
+  });
+
+  it('returns games with team display names and final scores', async () => {
+    const result = await service.searchGames({ team: 'CIN' });
+
+    expect(result.data).toEqual([{
+      gameId: 'CIN201909150',
+      date: '2019-09-15',
+      gameNumber: 0,
+      season: 2019,
+      ballpark: 'CIN09',
+      innings: 11,
+      margin: 1,
+      attendance: 24311,
+      home: { id: 'CIN', displayName: 'Cincinnati Reds', runs: 4 },
+      visitors: { id: 'NYN', displayName: 'New York Mets', runs: 3 }
+    }]);
+  });
+
+  it('sorts by date and returns the first page by default', async () => {
+    const result = await service.searchGames({});
+
+    expect(repository.searchGames).toHaveBeenCalledWith({}, {
+      sort: { field: 'date', direction: 'asc' },
+      limit: 10,
+      offset: 0
+    });
+    expect(result.pagination).toEqual({
+      total: 25,
+      page: 1,
+      limit: 10,
+      totalPages: 3,
+      hasNext: true,
+      hasPrev: false
+    });
+  });
+
+  it('passes the sort order and page through to the repository', async () => {
+    const result = await service.searchGames(
+      { season: 2019, extraInnings: true },
+      { page: 3, limit: 10, sort: 'margin', direction: 'desc' }
+    );
+
+    expect(repository.searchGames).toHaveBeenCalledWith({ season: 2019, extraInnings: true }, {
+      sort: { field: 'margin', direction: 'desc' },
+      limit: 10,
+      offset: 20
+    });
+    expect(result.pagination).toMatchObject({ page: 3, hasNext: false, hasPrev: true });
+  });
+
+  it('falls back to sorting by date for an unknown sort field', async () => {
+    await service.searchGames({}, { sort: 'gid; DROP TABLE gameinfo' });
+
+    expect(repository.searchGames).toHaveBeenCalledWith({}, expect.objectContaining({
+      sort: { field: 'date', direction: 'asc' }
+    }));
+  });
+
+  it('hides final scores, margins and innings played in spoiler-free results', async () => {
+    const result = await service.searchGames({}, { sort: 'margin', spoilerFree: true });
+
+    expect(repository.searchGames).toHaveBeenCalledWith({}, expect.objectContaining({
+      sort: { field: 'date', direction: 'asc' }
+    }));
+    expect(result.data[0]).toMatchObject({
+      innings: null,
+      margin: null,
+      home: { id: 'CIN', runs: null },
+      visitors: { id: 'NYN', runs: null }
+    });
+  });
+
+  it('formats Retrosheet YYYYMMDD dates', async () => {
+    repository.searchGames.mockResolvedValue({ rows: [createRow({ date: '20190915', attendance: null })], total: 1 });
+
+    const result = await service.searchGames({});
+
+    expect(result.data[0]).toMatchObject({ date: '2019-09-15', attendance: null });
+  });
+});
+
+describe('GameSearchService recommendations', () => {
+  const excitement: GameExcitement = {
+    gameId: 'CIN201909150',
+    score: 71,
+    leadChanges: 3,
+    comebackRuns: 2,
+    extraInnings: 2,
+    wpSwing: 2.8,
+    noHitInnings: 0
+  };
+  let excitementService: jest.Mocked<IExcitementService>;
+  let service: GameSearchService;
+
+  beforeEach(() => {
+    excitementService = {
+      getExcitement: jest.fn(),
+      getMostExciting: jest.fn().mockResolvedValue([{ game: createRow(), excitement }])
+    };
+    service = new GameSearchService({
+      gameSearchRepository: {} as IGameSearchRepository,
+      excitementService
+    });
+  });
+
+  it('returns the most exciting games as search results with their excitement', async () => {
+    const result = await service.getRecommendedGames({ season: 2019, team: 'CIN' });
+
+    expect(excitementService.getMostExciting).toHaveBeenCalledWith(2019, 'CIN', 10);
+    expect(result.data).toEqual([expect.objectContaining({
+      gameId: 'CIN201909150',
+      home: { id: 'CIN', displayName: 'Cincinnati Reds', runs: 4 },
+      excitement
+    })]);
+  });
+
+  it('keeps only the excitement score in spoiler-free recommendations', async () => {
+    const result = await service.getRecommendedGames({ season: 2019, spoilerFree: true });
+
+    expect(result.data[0]).toMatchObject({ margin: null, home: { runs: null } });
+    expect(result.data[0].excitement).toEqual({ gameId: 'CIN201909150', score: 71 });
+  });
+
+  it('recommends at most 50 games', async () => {
+    await service.getRecommendedGames({ season: 2019, limit: 500 });
+
+    expect(excitementService.getMostExciting).toHaveBeenCalledWith(2019, undefined, 50);
+  });
+});
@@ -0,0 +1 @@
+export { GameSearchService, GameSearchDependencies, GAME_SORT_FIELDS } from './GameSearchService';
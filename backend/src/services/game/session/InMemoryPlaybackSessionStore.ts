@@ -0,0 +1,70 @@
+import { GamePlaybackState, IPlaybackSessionStore } from '../../interfaces';
+
+/**
+ * Sessions kept by default; the least recently used is discarded past this
+ */
+const DEFAULT_MAX_SESSIONS = 1000;
+
+/**
+ * Playback session store that keeps sessions in process memory.
+ *
+ * This is the default store, meant for development and tests. Sessions do not
+ * survive a restart and are not shared between server instances, and since
+ * every stream and watch party viewer has a session, only the most recently
+ * used `maxSessions` are kept. Use KnexPlaybackSessionStore in production.
+ */
+export class InMemoryPlaybackSessionStore implements IPlaybackSessionStore {
+  private sessions: Map<string, GamePlaybackState> = new Map();
+  private maxSessions: number;
+
+  /**
+   * Creates a new instance of the InMemoryPlaybackSessionStore
+   * @param maxSessions Most sessions kept, as in config.playbackSessions.maxSessions
+   */
+  constructor(maxSessions: number = DEFAULT_MAX_SESSIONS) {
+    this.maxSessions = maxSessions;
+  }
+
+  async get(gameId: string, sessionId: string): Promise<GamePlaybackState | null> {
+    const key = this.getKey(gameId, sessionId);
+    const state = this.sessions.get(key);
+    if (!state) {
+      return null;
+    }
+
+    // Keep the most recently used sessions
+    this.sessions.delete(key);
+    this.sessions.set(key, state);
+    return structuredClone(state);
+  }
+
+  async save(state: GamePlaybackState): Promise<void> {
+    const key = this.getKey(state.gameId, state.sessionId);
+    // Store a copy so later mutations by the caller do not leak into the store
+    this.sessions.delete(key);
+    this.sessions.set(key, structuredClone(state));
+
+    // Maps iterate in insertion order, so the first key is the least recently used
+    for (const oldestKey of this.sessions.keys()) {
+      if (this.sessions.size <= this.maxSessions) {
+        break;
+      }
+      this.sessions.delete(oldestKey);
+    }
+  }
+
+  async delete(gameId: string, sessionId: string): Promise<boolean> {
+    return this.sessions.delete(this.getKey(gameId, sessionId));
+  }
+
+  /**
+   * Removes all stored sessions
+   */
+  clear(): void {
+    this.sessions.clear();
+  }
+
+  private getKey(gameId: string, sessionId: string): string {
+    return `${gameId}:${sessionId}`;
+  }
+}
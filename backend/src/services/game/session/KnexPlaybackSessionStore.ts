@@ -0,0 +1,100 @@
+import { db } from '../../../config/database';
+import { performanceMonitor } from '../../../core/performance';
+import { DatabaseError } from '../../../types/errors/GameErrors';
+import { AIProvider, AnnouncerStyle, GamePlaybackState, IPlaybackSessionStore } from '../../interfaces';
+
+/**
+ * Row shape of the playback_sessions table
+ */
+interface PlaybackSessionRow {
+  game_id: string;
+  session_id: string;
+  current_play: number;
+  announcer_style: string;
+  ai_provider: string | null;
+  state: string;
+  log: string;
+  updated_at: Date | string;
+}
+
+/**
+ * Playback session store backed by the playback_sessions table.
+ *
+ * Sessions survive restarts and are visible to every server instance,
+ * which allows a second device to pick up a session started elsewhere.
+ */
+export class KnexPlaybackSessionStore implements IPlaybackSessionStore {
+  private readonly tableName = 'playback_sessions';
+
+  async get(gameId: string, sessionId: string): Promise<GamePlaybackState | null> {
+    try {
+      const row: PlaybackSessionRow | undefined = await performanceMonitor.measure(
+        `${this.tableName}.get`,
+        async () => {
+          return db(this.tableName)
+            .where({ game_id: gameId, session_id: sessionId })
+            .first();
+        },
+        { gameId, sessionId }
+      );
+
+      return row ? this.fromRow(row) : null;
+    } catch (error) {
+      throw new DatabaseError(`Error fetching playback session ${sessionId} for game ${gameId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async save(state: GamePlaybackState): Promise<void> {
+    const row = {
+      game_id: state.gameId,
+      session_id: state.sessionId,
+      current_play: state.currentPlayIndex,
+      announcer_style: state.announcerStyle,
+      ai_provider: state.aiProvider ?? null,
+      state: JSON.stringify(state.baseballState),
+      log: JSON.stringify(state.log),
+      updated_at: state.updatedAt
+    };
+
+    try {
+      await performanceMonitor.measure(
+        `${this.tableName}.save`,
+        async () => {
+          return db(this.tableName)
+            .insert(row)
+            .onConflict(['game_id', 'session_id'])
+            .merge();
+        },
+        { gameId: state.gameId, sessionId: state.sessionId }
+      );
+    } catch (error) {
+      throw new DatabaseError(`Error saving playback session ${state.sessionId} for game ${state.gameId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async delete(gameId: string, sessionId: string): Promise<boolean> {
+    try {
+      const deleted = await db(this.tableName)
+        .where({ game_id: gameId, session_id: sessionId })
+        .delete();
+
+      return deleted > 0;
+    } catch (error) {
+      throw new DatabaseError(`Error deleting playback session ${sessionId} for game ${gameId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private fromRow(row: PlaybackSessionRow): GamePlaybackState {
+    return {
+      gameId: row.game_id,
+      sessionId: row.session_id,
+      currentPlayIndex: row.current_play,
+      announcerStyle: row.announcer_style as AnnouncerStyle,
+      aiProvider: (row.ai_provider ?? undefined) as AIProvider | undefined,
+      // mysql2 returns JSON columns already parsed, other drivers return strings
+      baseballState: typeof row.state === 'string' ? JSON.parse(row.state) : row.state,
+      log: typeof row.log === 'string' ? JSON.parse(row.log) : row.log,
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
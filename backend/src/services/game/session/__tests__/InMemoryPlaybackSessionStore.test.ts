@@ -0,0 +1,91 @@
+/**
+ * InMemoryPlaybackSessionStore Unit Tests
+ *
+ * These tests verify that sessions are keyed by (gameId, sessionId), that
+ * stored state is isolated from later mutations by callers, and that the
+ * least recently used sessions are discarded past the maximum.
+ */
+
+import { GamePlaybackState } from '../../../interfaces';
+import { createMockSimplifiedBaseballState } from '../../../../test/utils';
+import { InMemoryPlaybackSessionStore } from '../InMemoryPlaybackSessionStore';
+
+describe('InMemoryPlaybackSessionStore', () => {
+  const createSession = (overrides: Partial<GamePlaybackState> = {}): GamePlaybackState => ({
+    gameId: 'CIN201904150',
+    sessionId: '123e4567-e89b-12d3-a456-426614174000',
+    currentPlayIndex: 12,
+    baseballState: createMockSimplifiedBaseballState(),
+    announcerStyle: 'classic',
+    log: ['Welcome to the game!'],
+    updatedAt: new Date('2025-04-27T18:00:00Z'),
+    ...overrides
+  });
+
+  let store: InMemoryPlaybackSessionStore;
+
+  beforeEach(() => {
+    store = new InMemoryPlaybackSessionStore();
+  });
+
+  it('returns null for an unknown session', async () => {
+    expect(await store.get('CIN201904150', 'unknown')).toBeNull();
+  });
+
+  it('saves and retrieves a session', async () => {
+    const session = createSession();
+    await store.save(session);
+
+    expect(await store.get(session.gameId, session.sessionId)).toEqual(session);
+  });
+
+  it('keeps sessions for different games apart', async () => {
+    await store.save(createSession({ currentPlayIndex: 5 }));
+    await store.save(createSession({ gameId: 'NYA201904150', currentPlayIndex: 40 }));
+
+    expect((await store.get('CIN201904150', '123e4567-e89b-12d3-a456-426614174000'))?.currentPlayIndex).toBe(5);
+    expect((await store.get('NYA201904150', '123e4567-e89b-12d3-a456-426614174000'))?.currentPlayIndex).toBe(40);
+  });
+
+  it('replaces an existing session on save', async () => {
+    await store.save(createSession());
+    await store.save(createSession({ currentPlayIndex: 13, log: ['Welcome to the game!', 'Ball one.'] }));
+
+    const session = await store.get('CIN201904150', '123e4567-e89b-12d3-a456-426614174000');
+    expect(session?.currentPlayIndex).toBe(13);
+    expect(session?.log).toHaveLength(2);
+  });
+
+  it('is not affected by mutations of saved or returned objects', async () => {
+    const session = createSession();
+    await store.save(session);
+    session.log.push('mutated after save');
+
+    const retrieved = await store.get(session.gameId, session.sessionId);
+    retrieved?.log.push('mutated after get');
+
+    expect((await store.get(session.gameId, session.sessionId))?.log).toEqual(['Welcome to the game!']);
+  });
+
+  it('deletes a session', async () => {
+    const session = createSession();
+    await store.save(session);
+
+    expect(await store.delete(session.gameId, session.sessionId)).toBe(true);
+    expect(await store.delete(session.gameId, session.sessionId)).toBe(false);
+    expect(await store.get(session.gameId, session.sessionId)).toBeNull();
+  });
+
+  it('discards the least recently used session past the maximum', async () => {
+    store = new InMemoryPlaybackSessionStore(2);
+    await store.save(createSession({ sessionId: 'session-1' }));
+    await store.save(createSession({ sessionId: 'session-2' }));
+    await store.get('CIN201904150', 'session-1');
+
+    await store.save(createSession({ sessionId: 'session-3' }));
+
+    expect(await store.get('CIN201904150', 'session-1')).not.toBeNull();
+    expect(await store.get('CIN201904150', 'session-2')).toBeNull();
+    expect(await store.get('CIN201904150', 'session-3')).not.toBeNull();
+  });
+});
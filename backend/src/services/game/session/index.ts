@@ -0,0 +1,23 @@
+import { IPlaybackSessionStore } from '../../interfaces';
+import { InMemoryPlaybackSessionStore } from './InMemoryPlaybackSessionStore';
+
+export { InMemoryPlaybackSessionStore } from './InMemoryPlaybackSessionStore';
+export { KnexPlaybackSessionStore } from './KnexPlaybackSessionStore';
+
+let playbackSessionStore: IPlaybackSessionStore = new InMemoryPlaybackSessionStore();
+
+/**
+ * Gets the playback session store used by default
+ */
+export function getPlaybackSessionStore(): IPlaybackSessionStore {
+  return playbackSessionStore;
+}
+
+/**
+ * Replaces the default playback session store.
+ * Must be called during startup, before GamePlaybackService is first used.
+ * @param store The store to use
+ */
+export function setPlaybackSessionStore(store: IPlaybackSessionStore): void {
+  playbackSessionStore = store;
+}
@@ -0,0 +1,55 @@
+import { SimulatedGame } from '../../interfaces';
+
+/**
+ * Keeps simulated games, with their generated plays, in process memory.
+ *
+ * Simulated games have no rows in the plays table, so they are only available
+ * to the server instance that created them and do not survive a restart.
+ */
+export class SimulatedGameStore {
+  private games: Map<string, SimulatedGame> = new Map();
+
+  /**
+   * Gets a simulated game
+   * @param gameId The game ID
+   * @returns The game, or null if no simulation has this ID
+   */
+  get(gameId: string): SimulatedGame | null {
+    return this.games.get(gameId) ?? null;
+  }
+
+  /**
+   * Determines whether a game ID belongs to a simulated game
+   * @param gameId The game ID
+   */
+  has(gameId: string): boolean {
+    return this.games.has(gameId);
+  }
+
+  /**
+   * Stores a simulated game, replacing any game with the same ID
+   * @param game The game
+   */
+  save(game: SimulatedGame): void {
+    this.games.set(game.gameId, game);
+  }
+
+  /**
+   * Deletes a simulated game
+   * @param gameId The game ID
+   * @returns True if a game was deleted
+   */
+  delete(gameId: string): boolean {
+    return this.games.delete(gameId);
+  }
+
+  /**
+   * Removes all simulated games
+   */
+  clear(): void {
+    this.games.clear();
+  }
+}
+
+// Export a singleton instance shared by the simulation services
+export const simulatedGameStore = new SimulatedGameStore();
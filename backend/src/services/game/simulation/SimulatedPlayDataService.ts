@@ -0,0 +1,115 @@
+import { PlayData, PlayDataResult } from '../../../../../common/types/PlayData';
+import { IPlayDataService } from '../../interfaces';
+import { ResourceNotFoundError } from '../../../types/errors/GameErrors';
+import { BaseService } from '../../BaseService';
+import { SimulatedGameStore, simulatedGameStore } from './SimulatedGameStore';
+
+/**
+ * Play data service for simulated games
+ *
+ * Serves the generated plays of a simulated game the way PlayDataService
+ * serves the plays table, so that GamePlaybackService can play a simulation
+ * back exactly like a replay. Plays are returned as copies; callers may modify
+ * them without changing the stored game.
+ */
+export class SimulatedPlayDataService extends BaseService implements IPlayDataService {
+  private store: SimulatedGameStore;
+
+  /**
+   * Creates a new instance of SimulatedPlayDataService
+   * @param store Optional store for dependency injection (defaults to the shared store)
+   */
+  constructor(store: SimulatedGameStore = simulatedGameStore) {
+    super();
+    this.store = store;
+  }
+
+  /**
+   * Fetches the first play of a simulated game
+   * @param gameId The game ID
+   * @returns The first play
+   * @throws {ResourceNotFoundError} If there is no simulated game with this ID
+   */
+  public async fetchFirstPlay(gameId: string): Promise<PlayData> {
+    const plays = this.getPlays(gameId);
+    return { ...plays[0] };
+  }
+
+  /**
+   * Fetches a play and the play after it
+   *
+   * As for replays, play index 0 is the start of the game: the current play
+   * is a placeholder and the next play is the first play.
+   *
+   * @param gameId The game ID
+   * @param currentPlay The current play index
+   * @returns The current and next play
+   * @throws {ResourceNotFoundError} If the play does not exist or is the last play
+   */
+  public async fetchPlayData(gameId: string, currentPlay: number): Promise<PlayDataResult> {
+    const plays = this.getPlays(gameId);
+
+    if (currentPlay === 0) {
+      const firstPlay = plays[0];
+      return {
+        currentPlayData: {
+          gid: gameId,
+          pn: 0,
+          inning: 1,
+          top_bot: 0,
+          outs_pre: 0,
+          outs_post: 0,
+          batteam: firstPlay.batteam,
+          pitteam: firstPlay.pitteam,
+          batter: firstPlay.batter,
+          pitcher: firstPlay.pitcher
+        },
+        nextPlayData: { ...firstPlay }
+      };
+    }
+
+    const currentPlayData = plays.find(play => play.pn === currentPlay);
+    if (!currentPlayData) {
+      throw new ResourceNotFoundError(`Current play not found for the specified game ID: ${gameId}`);
+    }
+
+    const nextPlayData = plays.find(play => play.pn > currentPlay);
+    if (!nextPlayData) {
+      throw new ResourceNotFoundError(`No more plays found for the specified game ID: ${gameId}`);
+    }
+
+    return { currentPlayData: { ...currentPlayData }, nextPlayData: { ...nextPlayData } };
+  }
+
+  /**
+   * Fetches the first play of a batter in a simulated game
+   * @param gameId The game ID
+   * @param batter The batter ID
+   * @returns The play, or null if the batter has not batted
+   */
+  public async fetchPlayForBatter(gameId: string, batter: string): Promise<PlayData | null> {
+    const play = this.getPlays(gameId).find(candidate => candidate.batter === batter);
+    return play ? { ...play } : null;
+  }
+
+  /**
+   * Fetches every play of a simulated game in play order
+   * @param gameId The game ID
+   * @returns All plays of the game
+   */
+  public async fetchAllPlaysForGame(gameId: string): Promise<PlayData[]> {
+    return this.getPlays(gameId).map(play => ({ ...play }));
+  }
+
+  /**
+   * Gets the plays of a simulated game from the store
+   * @throws {ResourceNotFoundError} If there is no simulated game with this ID
+   */
+  private getPlays(gameId: string): PlayData[] {
+    const game = this.store.get(gameId);
+    if (!game || game.plays.length === 0) {
+      throw new ResourceNotFoundError(`No plays found for the specified game ID: ${gameId}`);
+    }
+    return game.plays;
+  }
+}
@@ -0,0 +1,47 @@
+import { IScoreRepository } from '../../interfaces';
+import { SimulatedGameStore, simulatedGameStore } from './SimulatedGameStore';
+
+/**
+ * Score repository for simulated games
+ *
+ * Sums the runs of the generated plays instead of querying the plays table,
+ * so that ScoreService computes simulated scores with the same logic as
+ * replayed ones. An unknown game has no runs.
+ */
+export class SimulatedScoreRepository implements IScoreRepository {
+  private store: SimulatedGameStore;
+
+  /**
+   * Creates a new instance of SimulatedScoreRepository
+   * @param store Optional store for dependency injection (defaults to the shared store)
+   */
+  constructor(store: SimulatedGameStore = simulatedGameStore) {
+    this.store = store;
+  }
+
+  async getRunsForTeam(gameId: string, teamId: string, upToPlay: number): Promise<number> {
+    return this.sumRuns(gameId, teamId, pn => pn <= upToPlay);
+  }
+
+  async getRunsForTeamBefore(gameId: string, teamId: string, beforePlay: number): Promise<number> {
+    return this.sumRuns(gameId, teamId, pn => pn < beforePlay);
+  }
+
+  /**
+   * Nothing to preload: the plays are already in memory
+   */
+  async preloadCumulativeScores(gameId: string): Promise<{ teams: string[]; playCount: number }> {
+    const plays = this.store.get(gameId)?.plays ?? [];
+    return {
+      teams: [...new Set(plays.map(play => play.batteam))],
+      playCount: plays.length
+    };
+  }
+
+  private sumRuns(gameId: string, teamId: string, includePlay: (pn: number) => boolean): number {
+    const plays = this.store.get(gameId)?.plays ?? [];
+    return plays
+      .filter(play => play.batteam === teamId && includePlay(play.pn))
+      .reduce((total, play) => total + (play.runs ?? 0), 0);
+  }
+}
@@ -0,0 +1,121 @@
+import { BaseballState, Player, createEmptyBaseballState } from '../../../../../common/types/BaseballTypes';
+import { PlayData } from '../../../../../common/types/PlayData';
+import { IGameInitializer, SimulatedGame, SimulatedTeam } from '../../interfaces';
+import { generateInitializationCompletion } from '../gameInitialization';
+import { saveInitialLineup } from '../lineupTracking';
+import { ResourceNotFoundError } from '../../../types/errors/GameErrors';
+import { GAME_TYPES } from '../../../constants/GameConstants';
+import { contextLogger } from '../../../core/logging';
+import { SimulatedGameStore, simulatedGameStore } from './SimulatedGameStore';
+
+/**
+ * Full name of a player
+ */
+const fullName = (player: Player): string => `${player.firstName} ${player.lastName}`.trim();
+
+/**
+ * Opens simulated games for GamePlaybackService
+ *
+ * Teams and lineups come from the simulated game instead of the gameinfo and
+ * teamstats rows of a historical game; the introduction is generated the same
+ * way as for replays.
+ */
+export class SimulationGameInitializer implements IGameInitializer {
+  private store: SimulatedGameStore;
+
+  /**
+   * Creates a new instance of SimulationGameInitializer
+   * @param store Optional store for dependency injection (defaults to the shared store)
+   */
+  constructor(store: SimulatedGameStore = simulatedGameStore) {
+    this.store = store;
+  }
+
+  async fetchFirstPlay(gameId: string): Promise<PlayData> {
+    return { ...this.getGame(gameId).plays[0] };
+  }
+
+  async generateInitializationCompletion(gameId: string, sessionId: string, skipLLM: boolean): Promise<string[]> {
+    return generateInitializationCompletion(gameId, sessionId, skipLLM);
+  }
+
+  /**
+   * Saves the simulated starting lineups as the session's initial lineup state.
+   * Like replays, playback continues without lineup tracking if this fails.
+   */
+  async initializeLineupTracking(gameId: string, sessionId: string): Promise<void> {
+    try {
+      const game = this.getGame(gameId);
+      await saveInitialLineup(
+        gameId,
+        sessionId,
+        this.toTrackedTeam(game.home),
+        this.toTrackedTeam(game.visitors),
+        game.plays[0]
+      );
+    } catch (error) {
+      contextLogger({
+        service: 'SimulationGameInitializer',
+        method: 'initializeLineupTracking',
+        gameId,
+        sessionId
+      }).warn('Error initializing lineup tracking', { error });
+    }
+  }
+
+  async constructInitialGameState(
+    gameId: string,
+    sessionId: string,
+    firstPlay: PlayData,
+    logEntries: string[]
+  ): Promise<BaseballState> {
+    const game = this.getGame(gameId);
+    const emptyState = createEmptyBaseballState();
+
+    return {
+      ...emptyState,
+      gameId,
+      sessionId,
+      game: {
+        ...emptyState.game,
+        log: logEntries
+      },
+      home: {
+        ...emptyState.home,
+        id: game.home.id,
+        displayName: game.home.displayName,
+        shortName: game.home.shortName,
+        currentPitcher: fullName(game.home.pitcher),
+        lineup: game.home.lineup,
+        currentBatter: null
+      },
+      visitors: {
+        ...emptyState.visitors,
+        id: game.visitors.id,
+        displayName: game.visitors.displayName,
+        shortName: game.visitors.shortName,
+        currentPitcher: fullName(game.visitors.pitcher),
+        lineup: game.visitors.lineup,
+        // The visitors bat first
+        currentBatter: game.visitors.lineup.length > 0 ? fullName(game.visitors.lineup[0]) : null
+      },
+      currentPlay: firstPlay.pn,
+      gameType: GAME_TYPES.SIMULATION
+    };
+  }
+
+  private toTrackedTeam(team: SimulatedTeam): { id: string; lineup: Player[]; currentPitcher: string } {
+    return { id: team.id, lineup: team.lineup, currentPitcher: fullName(team.pitcher) };
+  }
+
+  /**
+   * @throws {ResourceNotFoundError} If there is no simulated game with this ID
+   */
+  private getGame(gameId: string): SimulatedGame {
+    const game = this.store.get(gameId);
+    if (!game || game.plays.length === 0) {
+      throw new ResourceNotFoundError(`No plays found for the specified game ID: ${gameId}`);
+    }
+    return game;
+  }
+}
@@ -0,0 +1,547 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Player } from '../../../../../common/types/BaseballTypes';
+import { PlayData } from '../../../../../common/types/PlayData';
+import {
+  ForkOptions,
+  ISimulationService,
+  ISimulationRepository,
+  IPlayDataService,
+  IPlayerService,
+  ITeamStatsRepository,
+  LatestLineupRow,
+  PlayerInfo,
+  SimulatedGame,
+  SimulatedTeam,
+  SimulationOptions
+} from '../../interfaces';
+import { BaseService } from '../../BaseService';
+import { simulationRepository } from '../../../database/repositories/SimulationRepository';
+import { gameRepository } from '../../../database/repositories/GameRepository';
+import { teamStatsRepository } from '../../../database/repositories/TeamStatsRepository';
+import { PlayerService } from '../player/PlayerService';
+import { PlayDataService } from '../playData/PlayDataService';
+import { parseDetailedEvent } from '../../eventTranslation';
+import { getBatterEventType } from '../../../utils/LinescoreUtils';
+import { applyEvent, endsPlateAppearance, situationFromPlay } from '../state/gameSituation';
+import { BadRequestError, NotFoundError } from '../../../core/errors';
+import { contextLogger } from '../../../core/logging';
+import { SimulatedGameStore, simulatedGameStore } from './SimulatedGameStore';
+import {
+  EventDistribution,
+  PLAYER_PRIOR_PLATE_APPEARANCES,
+  combineMatchup,
+  countOutcomes,
+  toDistribution
+} from './eventDistribution';
+import { SimulationTeamInput, createRandom, simulateGame } from './simulateGame';
+
+type Side = 'home' | 'visitors';
+
+/**
+ * Dependencies for SimulationService
+ */
+export interface SimulationDependencies {
+  simulationRepository?: ISimulationRepository;
+  playerService?: IPlayerService;
+  playDataService?: IPlayDataService;
+  teamStatsRepository?: ITeamStatsRepository;
+  store?: SimulatedGameStore;
+}
+
+/**
+ * Position names by fielding position number, as used in replay lineups
+ */
+const POSITION_NAMES: Record<number, string> = {
+  1: 'P',
+  2: 'C',
+  3: '1B',
+  4: '2B',
+  5: '3B',
+  6: 'SS',
+  7: 'LF',
+  8: 'CF',
+  9: 'RF'
+};
+
+/**
+ * Prefix of simulated game IDs, which can never match a Retrosheet game ID
+ */
+export const SIMULATED_GAME_ID_PREFIX = 'SIM-';
+
+/**
+ * Service for simulating games between any two teams
+ *
+ * Each team takes the field with the starting lineup of its most recent game
+ * in the season. Every plate appearance is drawn from the batter's and the
+ * pitcher's event distributions, mined from their plays in the plays table
+ * and regressed toward the league, and written as a synthetic play. The plays
+ * are kept in the simulated game store, where GamePlaybackService reads them
+ * to play the game back through the same commentary, score and lineup
+ * pipeline as a replay.
+ *
+ * Forks are alternate timelines of another game: the plays up to a chosen
+ * play are kept, the play's outcome is replaced, and the rest of the game is
+ * simulated from the altered situation.
+ *
+ * @example
+ * ```typescript
+ * const game = await SimulationService.createSimulation("CIN", "NYA", { season: 2019, seed: 42 });
+ * const state = await GamePlaybackService.getNextPlay(game.gameId, sessionId, 0);
+ * ```
+ */
+export class SimulationService extends BaseService implements ISimulationService {
+  private simulationRepository: ISimulationRepository;
+  private playerService: IPlayerService;
+  private playDataService: IPlayDataService;
+  private teamStatsRepository: ITeamStatsRepository;
+  private store: SimulatedGameStore;
+
+  // Singleton instance for backward compatibility during transition
+  private static instance: SimulationService;
+
+  /**
+   * Creates a new instance of the SimulationService
+   * @param dependencies Optional dependencies to inject
+   */
+  constructor(dependencies: SimulationDependencies = {}) {
+    super(dependencies);
+    this.simulationRepository = dependencies.simulationRepository || simulationRepository;
+    this.playerService = dependencies.playerService || PlayerService.getInstance();
+    this.playDataService = dependencies.playDataService || PlayDataService.getInstance();
+    this.teamStatsRepository = dependencies.teamStatsRepository || teamStatsRepository;
+    this.store = dependencies.store || simulatedGameStore;
+  }
+
+  /**
+   * Gets the singleton instance
+   * @returns The singleton instance
+   */
+  public static getInstance(): SimulationService {
+    if (!SimulationService.instance) {
+      SimulationService.instance = new SimulationService();
+    }
+    return SimulationService.instance;
+  }
+
+  /**
+   * Simulates a game and keeps it for playback
+   * @param homeTeamId The home team ID
+   * @param visitingTeamId The visiting team ID
+   * @param options Season and random seed
+   * @returns The simulated game
+   * @throws {BadRequestError} If a team is asked to play itself
+   * @throws {NotFoundError} If a team has no games in the season
+   */
+  public async createSimulation(
+    homeTeamId: string,
+    visitingTeamId: string,
+    options: SimulationOptions = {}
+  ): Promise<SimulatedGame> {
+    if (homeTeamId === visitingTeamId) {
+      throw new BadRequestError('A simulated game needs two different teams');
+    }
+
+    const [homeRow, visitorsRow] = await Promise.all([
+      this.getLineupRow(homeTeamId, options.season),
+      this.getLineupRow(visitingTeamId, options.season)
+    ]);
+    const season = options.season ?? Math.max(homeRow.season, visitorsRow.season);
+    const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+    const gameId = `${SIMULATED_GAME_ID_PREFIX}${uuidv4()}`;
+
+    const serviceLogger = contextLogger({
+      service: 'SimulationService',
+      method: 'createSimulation',
+      gameId
+    });
+
+    serviceLogger.info('Simulating game', { homeTeamId, visitingTeamId, season, seed });
+
+    const home = this.toTeamInput(homeTeamId, homeRow);
+    const visitors = this.toTeamInput(visitingTeamId, visitorsRow);
+    const getDistribution = await this.loadDistributions(season, home, visitors);
+
+    const plays = simulateGame({ gameId, home, visitors, getDistribution }, createRandom(seed));
+
+    const playerIds = [home, visitors].flatMap(team => [
+      ...team.battingOrder,
+      team.pitcher,
+      ...Object.values(team.fielders)
+    ]);
+    const players = await this.playerService.getPlayersByIds([...new Set(playerIds)]);
+
+    const game: SimulatedGame = {
+      gameId,
+      season,
+      seed,
+      home: await this.toSimulatedTeam(home, players),
+      visitors: await this.toSimulatedTeam(visitors, players),
+      plays,
+      createdAt: new Date()
+    };
+
+    this.store.save(game);
+
+    serviceLogger.info('Simulated game', { plays: plays.length });
+
+    return game;
+  }
+
+  /**
+   * Forks a game at a play and simulates the rest of the game from there
+   *
+   * The plays before the fork play are copied as they were, the fork play
+   * gets the new event, and the simulation picks up from the base/out/score
+   * situation the new event leaves. Each team continues with the batting
+   * order, pitcher and fielders it had at the fork play. The fork is a new
+   * game, so sessions playing it back never touch the parent's sessions or
+   * lineup states.
+   *
+   * @param parentGameId The game to fork, a replay or a simulated game
+   * @param parentSessionId The session forking the game
+   * @param playIndex The play whose outcome is replaced
+   * @param event The Retrosheet event to play instead
+   * @param options Random seed
+   * @returns The forked game
+   * @throws {NotFoundError} If the game or the play does not exist
+   * @throws {BadRequestError} If the event cannot be read
+   */
+  public async forkGame(
+    parentGameId: string,
+    parentSessionId: string,
+    playIndex: number,
+    event: string,
+    options: ForkOptions = {}
+  ): Promise<SimulatedGame> {
+    const parent = this.store.get(parentGameId);
+    const parentPlays = parent ? parent.plays : await this.playDataService.fetchAllPlaysForGame(parentGameId);
+
+    const forkIndex = parentPlays.findIndex(play => play.pn === playIndex);
+    if (forkIndex === -1) {
+      throw new NotFoundError(`Play ${playIndex} not found for game ${parentGameId}`);
+    }
+
+    const alteredEvent = parseDetailedEvent(event);
+    if (!alteredEvent.primaryEventType && getBatterEventType(event) === 'NP') {
+      throw new BadRequestError(`Cannot read event "${event}"`);
+    }
+
+    const gameId = `${SIMULATED_GAME_ID_PREFIX}${uuidv4()}`;
+    const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+    const season = parent?.season ?? Number(parentGameId.slice(3, 7));
+
+    const serviceLogger = contextLogger({
+      service: 'SimulationService',
+      method: 'forkGame',
+      gameId
+    });
+
+    serviceLogger.info('Forking game', { parentGameId, parentSessionId, playIndex, event, seed });
+
+    const forkPlay = parentPlays[forkIndex];
+    const score = { home: 0, visitors: 0 };
+    for (const play of parentPlays.slice(0, forkIndex)) {
+      score[play.top_bot === 0 ? 'visitors' : 'home'] += play.runs ?? 0;
+    }
+    const before = situationFromPlay(forkPlay, score);
+    const after = applyEvent(before, alteredEvent);
+    const battingSide: Side = forkPlay.top_bot === 0 ? 'visitors' : 'home';
+
+    const played: PlayData[] = [
+      ...parentPlays.slice(0, forkIndex).map(play => ({ ...play, gid: gameId })),
+      {
+        ...forkPlay,
+        gid: gameId,
+        event,
+        runs: after.score[battingSide] - before.score[battingSide],
+        outs_post: after.inning === before.inning && after.isTopInning === before.isTopInning ? after.outs : 3
+      }
+    ];
+
+    const [homeTeamId, visitingTeamId] = forkPlay.top_bot === 0
+      ? [forkPlay.pitteam, forkPlay.batteam]
+      : [forkPlay.batteam, forkPlay.pitteam];
+    const [homeLineup, visitorsLineup] = await Promise.all([
+      this.getStartingTeam(parentGameId, homeTeamId, parentPlays, parent?.home),
+      this.getStartingTeam(parentGameId, visitingTeamId, parentPlays, parent?.visitors)
+    ]);
+    const home = this.toTeamAtPlay(homeLineup, played);
+    const visitors = this.toTeamAtPlay(visitorsLineup, played);
+
+    const getDistribution = await this.loadDistributions(season, home.team, visitors.team);
+    const simulated = simulateGame(
+      {
+        gameId,
+        home: home.team,
+        visitors: visitors.team,
+        getDistribution,
+        start: {
+          situation: after,
+          nextInOrder: { home: home.nextInOrder, visitors: visitors.nextInOrder },
+          firstPlayNumber: forkPlay.pn + 1
+        }
+      },
+      createRandom(seed)
+    );
+
+    const playerIds = [homeLineup, visitorsLineup].flatMap(team => [
+      ...team.battingOrder,
+      team.pitcher,
+      ...Object.values(team.fielders)
+    ]);
+    const players = await this.playerService.getPlayersByIds([...new Set(playerIds)]);
+
+    const game: SimulatedGame = {
+      gameId,
+      season,
+      seed,
+      home: parent?.home ?? await this.toSimulatedTeam(homeLineup, players),
+      visitors: parent?.visitors ?? await this.toSimulatedTeam(visitorsLineup, players),
+      plays: [...played, ...simulated],
+      createdAt: new Date(),
+      fork: {
+        parentGameId,
+        parentSessionId,
+        forkedAtPlay: forkPlay.pn,
+        originalEvent: forkPlay.event ?? '',
+        alteredEvent: event
+      }
+    };
+
+    this.store.save(game);
+
+    serviceLogger.info('Forked game', { plays: game.plays.length, simulatedPlays: simulated.length });
+
+    return game;
+  }
+
+  /**
+   * Gets a simulated game
+   * @param gameId The game ID
+   * @returns The game, or null if no simulation has this ID
+   */
+  public getSimulation(gameId: string): SimulatedGame | null {
+    return this.store.get(gameId);
+  }
+
+  /**
+   * Gets a team's lineup row for the simulation
+   * @throws {NotFoundError} If the team has no games in the season
+   */
+  private async getLineupRow(teamId: string, season?: number): Promise<LatestLineupRow> {
+    const row = await this.simulationRepository.getLatestLineup(teamId, season);
+    if (!row) {
+      throw new NotFoundError(
+        `No games found for team ${teamId}${season !== undefined ? ` in season ${season}` : ''}`
+      );
+    }
+    return row;
+  }
+
+  /**
+   * Reads the batting order, starting pitcher and fielders from a lineup row
+   */
+  private toTeamInput(teamId: string, row: LatestLineupRow): SimulationTeamInput {
+    const fielders: Record<number, string> = {};
+    for (let position = 2; position <= 9; position++) {
+      fielders[position] = row[`start_f${position}` as keyof LatestLineupRow] as string;
+    }
+
+    return {
+      id: teamId,
+      battingOrder: [
+        row.start_l1, row.start_l2, row.start_l3,
+        row.start_l4, row.start_l5, row.start_l6,
+        row.start_l7, row.start_l8, row.start_l9
+      ].filter(Boolean),
+      pitcher: row.start_f1,
+      fielders
+    };
+  }
+
+  /**
+   * Gets a team's starting lineup in a game: the parent's team for simulated
+   * games, the teamstats row for replays. Fielders are those of the team's
+   * first play in the field.
+   */
+  private async getStartingTeam(
+    gameId: string,
+    teamId: string,
+    plays: PlayData[],
+    simulatedTeam?: SimulatedTeam
+  ): Promise<SimulationTeamInput> {
+    if (simulatedTeam) {
+      return {
+        id: teamId,
+        battingOrder: simulatedTeam.lineup.map(player => player.retrosheet_id ?? ''),
+        pitcher: simulatedTeam.pitcher.retrosheet_id ?? '',
+        fielders: simulatedTeam.fielders
+      };
+    }
+
+    const firstInField = plays.find(play => play.pitteam === teamId);
+    const lineup = await this.teamStatsRepository.getStartingLineup(gameId, teamId);
+    if (lineup.battingOrder.length === 0) {
+      throw new NotFoundError(`No starting lineup found for team ${teamId} in game ${gameId}`);
+    }
+    return {
+      id: teamId,
+      battingOrder: lineup.battingOrder,
+      pitcher: lineup.pitcher ?? firstInField?.pitcher ?? '',
+      fielders: firstInField ? this.readFielders(firstInField) : {}
+    };
+  }
+
+  /**
+   * Brings a team's starting lineup up to a play: substitutes batting in the
+   * plays replace the batter in their slot, and the pitcher and fielders are
+   * those of the team's latest play in the field
+   * @returns The team and the index of its next batter in the batting order
+   */
+  private toTeamAtPlay(
+    starting: SimulationTeamInput,
+    plays: PlayData[]
+  ): { team: SimulationTeamInput; nextInOrder: number } {
+    const battingOrder = [...starting.battingOrder];
+    let slot = 0;
+
+    for (const play of plays.filter(play => play.batteam === starting.id)) {
+      const index = battingOrder.indexOf(play.batter);
+      if (index === -1) {
+        battingOrder[slot] = play.batter;
+      } else {
+        slot = index;
+      }
+      if (endsPlateAppearance(parseDetailedEvent(play.event ?? ''))) {
+        slot = (slot + 1) % battingOrder.length;
+      }
+    }
+
+    const lastInField = [...plays].reverse().find(play => play.pitteam === starting.id);
+
+    return {
+      team: {
+        ...starting,
+        battingOrder,
+        pitcher: lastInField?.pitcher ?? starting.pitcher,
+        fielders: lastInField ? this.readFielders(lastInField) : starting.fielders
+      },
+      nextInOrder: slot
+    };
+  }
+
+  /**
+   * Reads the fielders at positions 2-9 of a play
+   */
+  private readFielders(play: PlayData): Record<number, string> {
+    const fielders: Record<number, string> = {};
+    for (let position = 2; position <= 9; position++) {
+      const fielder = play[`f${position}` as keyof PlayData] as string | undefined;
+      if (fielder) {
+        fielders[position] = fielder;
+      }
+    }
+    return fielders;
+  }
+
+  /**
+   * Mines the season's event distributions of the league and of every player in
+   * the game, and returns a lookup of the distribution of a batter against a pitcher
+   */
+  private async loadDistributions(
+    season: number,
+    home: SimulationTeamInput,
+    visitors: SimulationTeamInput
+  ): Promise<(batterId: string, pitcherId: string) => EventDistribution> {
+    const batterIds = [...home.battingOrder, ...visitors.battingOrder];
+    const pitcherIds = [home.pitcher, visitors.pitcher];
+
+    const [leagueRows, batterRows, pitcherRows] = await Promise.all([
+      this.simulationRepository.getLeagueEventCounts(season),
+      this.simulationRepository.getPlayerEventCounts('batter', batterIds, season),
+      this.simulationRepository.getPlayerEventCounts('pitcher', pitcherIds, season)
+    ]);
+
+    const league = toDistribution(countOutcomes(leagueRows));
+
+    const playerDistribution = (playerId: string, rows: typeof batterRows): EventDistribution =>
+      toDistribution(
+        countOutcomes(rows.filter(row => row.playerId === playerId)),
+        league,
+        PLAYER_PRIOR_PLATE_APPEARANCES
+      );
+
+    const batters = new Map(batterIds.map(id => [id, playerDistribution(id, batterRows)]));
+    const pitchers = new Map(pitcherIds.map(id => [id, playerDistribution(id, pitcherRows)]));
+    const matchups = new Map<string, EventDistribution>();
+
+    return (batterId, pitcherId) => {
+      const key = `${batterId}:${pitcherId}`;
+      let matchup = matchups.get(key);
+      if (!matchup) {
+        matchup = combineMatchup(
+          batters.get(batterId) ?? league,
+          pitchers.get(pitcherId) ?? league,
+          league
+        );
+        matchups.set(key, matchup);
+      }
+      return matchup;
+    };
+  }
+
+  /**
+   * Adds team names and player names to a simulated team
+   */
+  private async toSimulatedTeam(
+    team: SimulationTeamInput,
+    players: Map<string, PlayerInfo>
+  ): Promise<SimulatedTeam> {
+    const positions = new Map<string, number>(
+      Object.entries(team.fielders).map(([position, playerId]) => [playerId, Number(position)])
+    );
+    positions.set(team.pitcher, 1);
+
+    const toPlayer = (playerId: string, position: string): Player => ({
+      position,
+      firstName: players.get(playerId)?.firstName ?? '',
+      lastName: players.get(playerId)?.lastName ?? playerId,
+      retrosheet_id: playerId
+    });
+
+    return {
+      id: team.id,
+      displayName: await gameRepository.getTeamDisplayName(team.id),
+      shortName: await gameRepository.getTeamShortName(team.id),
+      lineup: team.battingOrder.map(playerId => {
+        const position = positions.get(playerId);
+        return toPlayer(playerId, position ? POSITION_NAMES[position] : 'DH');
+      }),
+      pitcher: toPlayer(team.pitcher, 'P'),
+      fielders: team.fielders
+    };
+  }
+
+  // Static methods for backward compatibility during transition
+  public static async createSimulation(
+    homeTeamId: string,
+    visitingTeamId: string,
+    options?: SimulationOptions
+  ): Promise<SimulatedGame> {
+    return SimulationService.getInstance().createSimulation(homeTeamId, visitingTeamId, options);
+  }
+
+  public static async forkGame(
+    parentGameId: string,
+    parentSessionId: string,
+    playIndex: number,
+    event: string,
+    options?: ForkOptions
+  ): Promise<SimulatedGame> {
+    return SimulationService.getInstance().forkGame(parentGameId, parentSessionId, playIndex, event, options);
+  }
+
+  public static getSimulation(gameId: string): SimulatedGame | null {
+    return SimulationService.getInstance().getSimulation(gameId);
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * SimulationService Unit Tests
+ *
+ * These tests check how simulated games are put together from the teams'
+ * latest lineups, kept in the store, and served back as plays.
+ */
+
+import { PlayData } from '../../../../../../common/types/PlayData';
+import {
+  IPlayDataService,
+  ISimulationRepository,
+  IPlayerService,
+  ITeamStatsRepository,
+  LatestLineupRow,
+  PlayerInfo
+} from '../../../interfaces';
+
+jest.mock('../../../../database/repositories/GameRepository', () => ({
+  gameRepository: {
+    getTeamDisplayName: jest.fn(async (teamId: string) => (teamId === 'CIN' ? 'Cincinnati Reds' : 'New York Yankees')),
+    getTeamShortName: jest.fn(async (teamId: string) => (teamId === 'CIN' ? 'Reds' : 'Yankees'))
+  }
+}));
+
+// Keep the real repositories (and their database connection) out of the test
+jest.mock('../../../../database/repositories/SimulationRepository', () => ({
+  simulationRepository: {}
+}));
+jest.mock('../../../../database/repositories/TeamStatsRepository', () => ({
+  teamStatsRepository: {}
+}));
+jest.mock('../../player/PlayerService', () => ({
+  PlayerService: { getInstance: jest.fn() }
+}));
+jest.mock('../../playData/PlayDataService', () => ({
+  PlayDataService: { getInstance: jest.fn() }
+}));
+
+import { SimulationService, SIMULATED_GAME_ID_PREFIX } from '../SimulationService';
+import { SimulatedGameStore } from '../SimulatedGameStore';
+import { SimulatedPlayDataService } from '../SimulatedPlayDataService';
+import { BadRequestError, NotFoundError } from '../../../../core/errors';
+import { ResourceNotFoundError } from '../../../../types/errors/GameErrors';
+
+function createLineupRow(teamId: string, season = 2019): LatestLineupRow {
+  const prefix = teamId.toLowerCase();
+  const row: Record<string, unknown> = { gid: `${teamId}${season}09290`, team: teamId, season };
+  for (let i = 1; i <= 9; i++) {
+    row[`start_l${i}`] = `${prefix}b${i}`;
+    // The ninth batter is the DH; the pitcher does not bat
+    row[`start_f${i}`] = i === 1 ? `${prefix}p` : `${prefix}b${i - 1}`;
+  }
+  return row as unknown as LatestLineupRow;
+}
+
+/**
+ * Fielders at positions 2-9 of a play, as in the plays table
+ */
+function fielders(teamId: string): Partial<PlayData> {
+  const prefix = teamId.toLowerCase();
+  return Object.fromEntries(Array.from({ length: 8 }, (_, i) => [`f${i + 2}`, `${prefix}b${i + 1}`]));
+}
+
+/**
+ * The first inning and a half of a replay
+ */
+function createReplayPlays(): PlayData[] {
+  const top = { gid: 'CIN201904150', inning: 1, top_bot: 0, batteam: 'NYA', pitteam: 'CIN', pitcher: 'cinp', ...fielders('CIN') };
+  const bottom = { ...top, top_bot: 1, batteam: 'CIN', pitteam: 'NYA', pitcher: 'nyap', ...fielders('NYA') };
+  return [
+    { ...top, pn: 1, batter: 'nyab1', outs_pre: 0, outs_post: 1, event: 'K', runs: 0 },
+    { ...top, pn: 2, batter: 'nyab2', outs_pre: 1, outs_post: 1, event: 'S8', runs: 0 },
+    { ...top, pn: 3, batter: 'nyab3', outs_pre: 1, outs_post: 2, br1_pre: 'nyab2', event: '63/G6.1-2', runs: 0 },
+    { ...top, pn: 4, batter: 'nyab4', outs_pre: 2, outs_post: 3, br2_pre: 'nyab2', event: 'K', runs: 0 },
+    { ...bottom, pn: 5, batter: 'cinb1', outs_pre: 0, outs_post: 0, event: 'HR/F7', runs: 1 }
+  ];
+}
+
+describe('SimulationService', () => {
+  let repository: jest.Mocked<ISimulationRepository>;
+  let playerService: jest.Mocked<Pick<IPlayerService, 'getPlayersByIds'>>;
+  let playDataService: jest.Mocked<Pick<IPlayDataService, 'fetchAllPlaysForGame'>>;
+  let teamStatsRepository: jest.Mocked<Pick<ITeamStatsRepository, 'getStartingLineup'>>;
+  let replayPlays: PlayData[];
+  let store: SimulatedGameStore;
+  let service: SimulationService;
+
+  beforeEach(() => {
+    repository = {
+      getLatestLineup: jest.fn(async (teamId: string) => createLineupRow(teamId, teamId === 'CIN' ? 2019 : 2018)),
+      getPlayerEventCounts: jest.fn().mockResolvedValue([{ playerId: 'cinb1', event: 'HR/F8', count: 5 }]),
+      getLeagueEventCounts: jest.fn().mockResolvedValue([
+        { event: 'K', count: 200 },
+        { event: 'S8', count: 150 },
+        { event: '63/G6', count: 300 },
+        { event: '8/F8', count: 300 },
+        { event: 'W', count: 50 }
+      ])
+    };
+    playerService = {
+      getPlayersByIds: jest.fn(async (ids: string[]) => new Map<string, PlayerInfo>(
+        ids.map(id => [id, { id, firstName: 'First', lastName: id.toUpperCase(), fullName: `First ${id.toUpperCase()}` }])
+      ))
+    };
+    replayPlays = createReplayPlays();
+    playDataService = {
+      fetchAllPlaysForGame: jest.fn(async (_gameId: string) => replayPlays)
+    };
+    teamStatsRepository = {
+      getStartingLineup: jest.fn(async (_gameId: string, teamId: string) => ({
+        battingOrder: Array.from({ length: 9 }, (_, i) => `${teamId.toLowerCase()}b${i + 1}`),
+        pitcher: `${teamId.toLowerCase()}p`
+      }))
+    };
+    store = new SimulatedGameStore();
+    service = new SimulationService({
+      simulationRepository: repository,
+      playerService: playerService as unknown as IPlayerService,
+      playDataService: playDataService as unknown as IPlayDataService,
+      teamStatsRepository: teamStatsRepository as unknown as ITeamStatsRepository,
+      store
+    });
+  });
+
+  it('simulates a game between the teams and keeps it in the store', async () => {
+    const game = await service.createSimulation('CIN', 'NYA', { seed: 42 });
+
+    expect(game.gameId.startsWith(SIMULATED_GAME_ID_PREFIX)).toBe(true);
+    expect(game.plays.length).toBeGreaterThan(50);
+    expect(game.plays[0]).toMatchObject({ gid: game.gameId, pn: 1, batteam: 'NYA', pitcher: 'cinp' });
+    expect(store.get(game.gameId)).toBe(game);
+    expect(service.getSimulation(game.gameId)).toBe(game);
+  });
+
+  it('uses the later of the teams\' latest seasons by default', async () => {
+    const game = await service.createSimulation('CIN', 'NYA', { seed: 1 });
+
+    expect(game.season).toBe(2019);
+    expect(repository.getLeagueEventCounts).toHaveBeenCalledWith(2019);
+    expect(repository.getPlayerEventCounts).toHaveBeenCalledWith('pitcher', ['cinp', 'nyap'], 2019);
+  });
+
+  it('reproduces the plays of a seeded simulation', async () => {
+    const first = await service.createSimulation('CIN', 'NYA', { season: 2019, seed: 7 });
+    const second = await service.createSimulation('CIN', 'NYA', { season: 2019, seed: 7 });
+
+    expect(second.gameId).not.toBe(first.gameId);
+    expect(second.plays.map(play => play.event)).toEqual(first.plays.map(play => play.event));
+  });
+
+  it('names the teams and the lineups with their positions', async () => {
+    const game = await service.createSimulation('CIN', 'NYA', { seed: 1 });
+
+    expect(game.home).toMatchObject({ id: 'CIN', displayName: 'Cincinnati Reds', shortName: 'Reds' });
+    expect(game.home.lineup[0]).toEqual({ position: 'C', firstName: 'First', lastName: 'CINB1', retrosheet_id: 'cinb1' });
+    expect(game.home.lineup[8].position).toBe('DH');
+    expect(game.home.pitcher).toMatchObject({ position: 'P', retrosheet_id: 'cinp' });
+  });
+
+  it('rejects a team playing itself', async () => {
+    await expect(service.createSimulation('CIN', 'CIN')).rejects.toThrow(BadRequestError);
+  });
+
+  it('throws when a team has no games in the season', async () => {
+    repository.getLatestLineup.mockResolvedValueOnce(null);
+
+    await expect(service.createSimulation('CIN', 'NYA', { season: 1900 })).rejects.toThrow(NotFoundError);
+  });
+
+  describe('forkGame', () => {
+    const sessionId = '123e4567-e89b-12d3-a456-426614174000';
+
+    it('keeps the plays before the fork and plays the new event', async () => {
+      const game = await service.forkGame('CIN201904150', sessionId, 4, 'HR/F8', { seed: 3 });
+
+      expect(game.gameId.startsWith(SIMULATED_GAME_ID_PREFIX)).toBe(true);
+      expect(game.plays.slice(0, 3).map(play => play.event)).toEqual(['K', 'S8', '63/G6.1-2']);
+      expect(game.plays.slice(0, 4).every(play => play.gid === game.gameId)).toBe(true);
+      expect(game.plays[3]).toMatchObject({ pn: 4, batter: 'nyab4', event: 'HR/F8', runs: 2, outs_post: 2 });
+      expect(game.fork).toEqual({
+        parentGameId: 'CIN201904150',
+        parentSessionId: sessionId,
+        forkedAtPlay: 4,
+        originalEvent: 'K',
+        alteredEvent: 'HR/F8'
+      });
+      expect(store.get(game.gameId)).toBe(game);
+    });
+
+    it('simulates the rest of the game from the altered situation', async () => {
+      const game = await service.forkGame('CIN201904150', sessionId, 4, 'HR/F8', { seed: 3 });
+      const next = game.plays[4];
+
+      // Two outs and the bases empty after the home run, with the next batter up
+      expect(next).toMatchObject({ pn: 5, inning: 1, top_bot: 0, batter: 'nyab5', outs_pre: 2, pitcher: 'cinp' });
+      expect(next.br1_pre ?? next.br2_pre ?? next.br3_pre).toBeUndefined();
+      expect(game.plays.length).toBeGreaterThan(50);
+      expect(repository.getLeagueEventCounts).toHaveBeenCalledWith(2019);
+    });
+
+    it('leaves the parent game as it was', async () => {
+      await service.forkGame('CIN201904150', sessionId, 4, 'HR/F8', { seed: 3 });
+
+      expect(replayPlays[3]).toMatchObject({ gid: 'CIN201904150', event: 'K' });
+    });
+
+    it('starts the fork with the teams\' starting lineups', async () => {
+      const game = await service.forkGame('CIN201904150', sessionId, 2, 'W', { seed: 3 });
+
+      expect(teamStatsRepository.getStartingLineup).toHaveBeenCalledWith('CIN201904150', 'CIN');
+      expect(game.home.lineup.map(player => player.retrosheet_id)).toEqual(
+        Array.from({ length: 9 }, (_, i) => `cinb${i + 1}`)
+      );
+      expect(game.visitors.pitcher.retrosheet_id).toBe('nyap');
+    });
+
+    it('forks a simulated game with its teams', async () => {
+      const parent = await service.createSimulation('CIN', 'NYA', { seed: 42 });
+      const game = await service.forkGame(parent.gameId, sessionId, 10, 'HR/F7', { seed: 1 });
+
+      expect(game.home).toBe(parent.home);
+      expect(game.plays.slice(0, 9).map(play => play.event)).toEqual(parent.plays.slice(0, 9).map(play => play.event));
+      expect(game.plays[9]).toMatchObject({ pn: 10, event: 'HR/F7' });
+      expect(playDataService.fetchAllPlaysForGame).not.toHaveBeenCalled();
+    });
+
+    it('throws when the play does not exist', async () => {
+      await expect(service.forkGame('CIN201904150', sessionId, 99, 'HR/F8')).rejects.toThrow(NotFoundError);
+    });
+
+    it('rejects events it cannot read', async () => {
+      await expect(service.forkGame('CIN201904150', sessionId, 4, 'XYZ')).rejects.toThrow(BadRequestError);
+    });
+  });
+});
+
+describe('SimulatedPlayDataService', () => {
+  let store: SimulatedGameStore;
+  let service: SimulatedPlayDataService;
+
+  beforeEach(async () => {
+    store = new SimulatedGameStore();
+    service = new SimulatedPlayDataService(store);
+    store.save({
+      gameId: 'SIM-1',
+      season: 2019,
+      seed: 1,
+      home: {} as any,
+      visitors: {} as any,
+      plays: [
+        { gid: 'SIM-1', pn: 1, inning: 1, top_bot: 0, batteam: 'NYA', pitteam: 'CIN', batter: 'a', pitcher: 'p', outs_pre: 0, outs_post: 1, event: 'K' },
+        { gid: 'SIM-1', pn: 2, inning: 1, top_bot: 0, batteam: 'NYA', pitteam: 'CIN', batter: 'b', pitcher: 'p', outs_pre: 1, outs_post: 1, event: 'S8' }
+      ],
+      createdAt: new Date()
+    });
+  });
+
+  it('starts the game with a placeholder play before the first play', async () => {
+    const result = await service.fetchPlayData('SIM-1', 0);
+
+    expect(result.currentPlayData.pn).toBe(0);
+    expect(result.nextPlayData.pn).toBe(1);
+  });
+
+  it('returns a play and the play after it as copies', async () => {
+    const result = await service.fetchPlayData('SIM-1', 1);
+    result.nextPlayData.event = 'HR';
+
+    expect(result.currentPlayData.event).toBe('K');
+    expect(store.get('SIM-1')!.plays[1].event).toBe('S8');
+  });
+
+  it('throws at the end of the game and for unknown games', async () => {
+    await expect(service.fetchPlayData('SIM-1', 2)).rejects.toThrow(ResourceNotFoundError);
+    await expect(service.fetchPlayData('SIM-2', 0)).rejects.toThrow(ResourceNotFoundError);
+  });
+});
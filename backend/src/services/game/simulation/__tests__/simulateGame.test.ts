@@ -0,0 +1,239 @@
+/**
+ * Simulation Engine Unit Tests
+ *
+ * These tests check the outcome distributions plate appearances are drawn
+ * from, and that simulated games are reproducible and read like the plays
+ * table: a proper ending, consistent outs and runners, and valid events.
+ */
+
+import { PlayData } from '../../../../../../common/types/PlayData';
+import {
+  DEFAULT_LEAGUE_DISTRIBUTION,
+  EventDistribution,
+  SIMULATED_OUTCOMES,
+  classifyEvent,
+  combineMatchup,
+  countOutcomes,
+  drawOutcome,
+  toDistribution
+} from '../eventDistribution';
+import { MAX_SIMULATED_INNINGS, SimulationInput, createRandom, resolvePlateAppearance, simulateGame } from '../simulateGame';
+
+function createTeam(id: string) {
+  return {
+    id,
+    battingOrder: Array.from({ length: 9 }, (_, i) => `${id.toLowerCase()}b${i + 1}`),
+    pitcher: `${id.toLowerCase()}p`,
+    fielders: Object.fromEntries(
+      Array.from({ length: 8 }, (_, i) => [i + 2, `${id.toLowerCase()}b${i + 1}`])
+    ) as Record<number, string>
+  };
+}
+
+function createInput(distribution: EventDistribution = DEFAULT_LEAGUE_DISTRIBUTION): SimulationInput {
+  return {
+    gameId: 'SIM-TEST',
+    home: createTeam('CIN'),
+    visitors: createTeam('NYA'),
+    getDistribution: () => distribution
+  };
+}
+
+function totalRuns(plays: PlayData[], topBot: number): number {
+  return plays.filter(play => play.top_bot === topBot).reduce((sum, play) => sum + (play.runs ?? 0), 0);
+}
+
+describe('eventDistribution', () => {
+  describe('classifyEvent', () => {
+    it.each([
+      ['S8', 'S'],
+      ['DGR', 'D'],
+      ['HR/F7.2-H', 'HR'],
+      ['IW', 'W'],
+      ['K', 'K'],
+      ['E6', 'E'],
+      ['63/G6', 'G'],
+      ['64(1)3/GDP', 'G'],
+      ['8/F8', 'F'],
+      ['6/P6', 'F'],
+      ['9/SF.3-H', 'F']
+    ])('classifies %s as %s', (event, outcome) => {
+      expect(classifyEvent(event)).toBe(outcome);
+    });
+
+    it('skips events without a plate appearance', () => {
+      expect(classifyEvent('SB2')).toBeNull();
+      expect(classifyEvent('WP.1-2')).toBeNull();
+      expect(classifyEvent(undefined)).toBeNull();
+    });
+  });
+
+  it('regresses a player toward the prior', () => {
+    const counts = countOutcomes([{ event: 'HR/F8', count: 10 }]);
+    const distribution = toDistribution(counts, DEFAULT_LEAGUE_DISTRIBUTION, 190);
+
+    expect(distribution.HR).toBeCloseTo((10 + 190 * DEFAULT_LEAGUE_DISTRIBUTION.HR) / 200);
+    expect(SIMULATED_OUTCOMES.reduce((sum, outcome) => sum + distribution[outcome], 0)).toBeCloseTo(1);
+  });
+
+  it('returns the prior when there are no plate appearances', () => {
+    expect(toDistribution(countOutcomes([]))).toEqual(DEFAULT_LEAGUE_DISTRIBUTION);
+  });
+
+  it('favors outcomes both the batter and the pitcher are prone to', () => {
+    const league = DEFAULT_LEAGUE_DISTRIBUTION;
+    const strikeoutPitcher = toDistribution(countOutcomes([{ event: 'K', count: 100 }]), league, 200);
+    const matchup = combineMatchup(league, strikeoutPitcher, league);
+
+    expect(matchup.K).toBeGreaterThan(league.K);
+    expect(SIMULATED_OUTCOMES.reduce((sum, outcome) => sum + matchup[outcome], 0)).toBeCloseTo(1);
+  });
+
+  it('draws outcomes by their probabilities', () => {
+    const distribution = { ...toDistribution(countOutcomes([])), K: 0.5, W: 0.5, HP: 0, S: 0, D: 0, T: 0, HR: 0, E: 0, G: 0, F: 0 };
+
+    expect(drawOutcome(distribution, () => 0.2)).toBe('K');
+    expect(drawOutcome(distribution, () => 0.7)).toBe('W');
+  });
+});
+
+describe('resolvePlateAppearance', () => {
+  const random = () => 0.99;
+
+  it('forces runners along on a walk with the bases loaded', () => {
+    const result = resolvePlateAppearance('W', 'bat', ['r1', 'r2', 'r3'], 0, random);
+
+    expect(result.event).toBe('W.3-H;2-3;1-2');
+    expect(result.runs).toBe(1);
+    expect(result.bases).toEqual(['bat', 'r1', 'r2']);
+  });
+
+  it('scores everyone on a home run', () => {
+    const result = resolvePlateAppearance('HR', 'bat', ['r1', null, 'r3'], 1, random);
+
+    expect(result.event).toMatch(/^HR\/F[789]\.3-H;1-H$/);
+    expect(result.runs).toBe(3);
+    expect(result.bases).toEqual([null, null, null]);
+  });
+
+  it('turns a double play on a grounder with a runner on first', () => {
+    const result = resolvePlateAppearance('G', 'bat', ['r1', null, null], 0, () => 0.1);
+
+    expect(result.event).toBe('64(1)3/GDP');
+    expect(result.outs).toBe(2);
+    expect(result.bases).toEqual([null, null, null]);
+  });
+});
+
+describe('simulateGame', () => {
+  it('reproduces a game from its seed', () => {
+    const first = simulateGame(createInput(), createRandom(42));
+    const second = simulateGame(createInput(), createRandom(42));
+    const other = simulateGame(createInput(), createRandom(43));
+
+    expect(second).toEqual(first);
+    expect(other).not.toEqual(first);
+  });
+
+  it('writes plays in the form of the plays table', () => {
+    const plays = simulateGame(createInput(), createRandom(7));
+
+    plays.forEach((play, index) => {
+      expect(play.gid).toBe('SIM-TEST');
+      expect(play.pn).toBe(index + 1);
+      expect(play.batteam).toBe(play.top_bot === 0 ? 'NYA' : 'CIN');
+      expect(play.pitcher).toBe(play.top_bot === 0 ? 'cinp' : 'nyap');
+      expect(play.f2).toBeDefined();
+      expect(classifyEvent(play.event)).not.toBeNull();
+    });
+  });
+
+  it('carries outs and runners from play to play within a half-inning', () => {
+    const plays = simulateGame(createInput(), createRandom(11));
+
+    for (let i = 1; i < plays.length; i++) {
+      const [previous, play] = [plays[i - 1], plays[i]];
+      if (play.inning === previous.inning && play.top_bot === previous.top_bot) {
+        expect(play.outs_pre).toBe(previous.outs_post);
+      } else {
+        expect(previous.outs_post).toBe(3);
+        expect(play.outs_pre).toBe(0);
+        expect(play.br1_pre ?? play.br2_pre ?? play.br3_pre).toBeUndefined();
+      }
+    }
+  });
+
+  it('ends with a winner or after the last inning', () => {
+    for (let seed = 1; seed <= 25; seed++) {
+      const plays = simulateGame(createInput(), createRandom(seed));
+      const last = plays[plays.length - 1];
+      const home = totalRuns(plays, 1);
+      const visitors = totalRuns(plays, 0);
+
+      expect(last.inning).toBeGreaterThanOrEqual(9);
+      if (home === visitors) {
+        expect(last.inning).toBe(MAX_SIMULATED_INNINGS);
+      } else if (home > visitors && last.top_bot === 1) {
+        // A walk-off: the home team took the lead on the last play
+        expect(home - (last.runs ?? 0)).toBeLessThanOrEqual(visitors);
+      } else {
+        expect(last.outs_post).toBe(3);
+      }
+    }
+  });
+
+  it('skips the bottom of the ninth when the home team leads', () => {
+    const homeScores: EventDistribution = { ...DEFAULT_LEAGUE_DISTRIBUTION };
+    const input = createInput();
+    input.getDistribution = batter => (batter.startsWith('cin')
+      ? { ...homeScores, K: 0, W: 0, HP: 0, S: 0, D: 0, T: 0, HR: 0.2, E: 0, G: 0, F: 0.8 }
+      : { ...homeScores, K: 1, W: 0, HP: 0, S: 0, D: 0, T: 0, HR: 0, E: 0, G: 0, F: 0 });
+
+    const plays = simulateGame(input, createRandom(3));
+    const last = plays[plays.length - 1];
+
+    expect(last.inning).toBe(9);
+    expect(last.top_bot).toBe(0);
+  });
+
+  describe('from a start', () => {
+    const situation = {
+      inning: 6,
+      isTopInning: false,
+      outs: 1,
+      onFirst: null,
+      onSecond: 'cinb2',
+      onThird: null,
+      score: { home: 2, visitors: 4 },
+      batter: 'cinb3'
+    };
+
+    it('continues the game from the situation and the batting orders', () => {
+      const input = { ...createInput(), start: { situation, nextInOrder: { home: 3, visitors: 5 }, firstPlayNumber: 40 } };
+      const plays = simulateGame(input, createRandom(5));
+
+      expect(plays[0]).toMatchObject({ pn: 40, inning: 6, top_bot: 1, outs_pre: 1, br2_pre: 'cinb2', batter: 'cinb4' });
+      expect(plays.find(play => play.top_bot === 0)?.batter).toBe('nyab6');
+      plays.forEach((play, index) => expect(play.pn).toBe(40 + index));
+    });
+
+    it('counts the runs scored before the start', () => {
+      const input = { ...createInput(), start: { situation, nextInOrder: { home: 3, visitors: 5 }, firstPlayNumber: 40 } };
+      input.getDistribution = () => ({ ...DEFAULT_LEAGUE_DISTRIBUTION, K: 1, W: 0, HP: 0, S: 0, D: 0, T: 0, HR: 0, E: 0, G: 0, F: 0 });
+
+      const plays = simulateGame(input, createRandom(5));
+      const last = plays[plays.length - 1];
+
+      // Nobody scores again, so the visitors' 4-2 lead holds through nine innings
+      expect(last).toMatchObject({ inning: 9, top_bot: 1, outs_post: 3 });
+      expect(plays.every(play => play.runs === 0)).toBe(true);
+    });
+
+    it('returns no plays when the situation already ends the game', () => {
+      const walkOff = { ...situation, inning: 9, onSecond: null, score: { home: 5, visitors: 4 } };
+      const input = { ...createInput(), start: { situation: walkOff, nextInOrder: { home: 0, visitors: 0 }, firstPlayNumber: 80 } };
+
+      expect(simulateGame(input, createRandom(5))).toEqual([]);
+    });
+  });
+});
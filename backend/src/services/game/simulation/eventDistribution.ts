@@ -0,0 +1,204 @@
+import { EventCountRow } from '../../interfaces';
+import { getBatterEventType } from '../../../utils/LinescoreUtils';
+
+/**
+ * Outcomes of a plate appearance in a simulated game, using Retrosheet event
+ * types: strikeout, walk, hit by pitch, the four hits, reaching on an error,
+ * and an out on a ground ball (G) or in the air (F)
+ */
+export const SIMULATED_OUTCOMES = ['K', 'W', 'HP', 'S', 'D', 'T', 'HR', 'E', 'G', 'F'] as const;
+
+export type SimulatedOutcome = typeof SIMULATED_OUTCOMES[number];
+
+/**
+ * Number of plate appearances ending in each outcome
+ */
+export type OutcomeCounts = Record<SimulatedOutcome, number>;
+
+/**
+ * Probability of each outcome; the probabilities add up to 1
+ */
+export type EventDistribution = Record<SimulatedOutcome, number>;
+
+/**
+ * Outcome rates of a typical major league season, used when the plays table
+ * has no plays for the season
+ */
+export const DEFAULT_LEAGUE_DISTRIBUTION: EventDistribution = {
+  K: 0.23,
+  W: 0.085,
+  HP: 0.011,
+  S: 0.143,
+  D: 0.045,
+  T: 0.005,
+  HR: 0.036,
+  E: 0.01,
+  G: 0.205,
+  F: 0.23
+};
+
+/**
+ * Plate appearances of league-average results added to every player's own,
+ * so that players with few plate appearances are not simulated from a handful
+ * of results
+ */
+export const PLAYER_PRIOR_PLATE_APPEARANCES = 200;
+
+/**
+ * Batted ball modifiers of outs in the air: fly balls, line drives, pop ups,
+ * bunt pop ups and line drives, sacrifice flies, infield flies, and fly ball
+ * or line drive double plays
+ */
+const AIR_OUT_MODIFIERS = ['F', 'L', 'P', 'BP', 'BL', 'SF', 'IF', 'FDP', 'LDP', 'BPDP', 'FL'];
+
+/**
+ * Determines whether a fielded out was made in the air, from its modifiers
+ * ("8/F8", "6/P6", "9/SF.3-H")
+ */
+function isAirOut(event: string): boolean {
+  return event
+    .split('.')[0]
+    .split('/')
+    .slice(1)
+    .some(modifier => AIR_OUT_MODIFIERS.includes(modifier.replace(/\d.*$/, '')));
+}
+
+/**
+ * Classifies a Retrosheet event as a simulated outcome
+ *
+ * Ground rule doubles count as doubles, intentional walks as walks, sacrifice
+ * bunts and fielder's choices as ground balls, and sacrifice flies as outs in
+ * the air. Events without a plate appearance (stolen bases, wild pitches,
+ * catcher interference) have no outcome.
+ *
+ * @param event The event string (e.g., "S8", "63/G6", "9/SF.3-H")
+ * @returns The outcome, or null if the event is not the end of a plate appearance
+ */
+export function classifyEvent(event: string | undefined): SimulatedOutcome | null {
+  const eventType = getBatterEventType(event);
+
+  switch (eventType) {
+    case 'S':
+    case 'D':
+    case 'T':
+    case 'HR':
+    case 'K':
+    case 'W':
+    case 'HP':
+    case 'E':
+      return eventType;
+    case 'DGR':
+      return 'D';
+    case 'IW':
+      return 'W';
+    case 'F':
+    case 'L':
+    case 'P':
+    case 'SF':
+      return 'F';
+    case 'SH':
+    case 'FC':
+      return 'G';
+    case 'G':
+      return isAirOut(event as string) ? 'F' : 'G';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Creates outcome counts of zero
+ */
+export function emptyOutcomeCounts(): OutcomeCounts {
+  return { K: 0, W: 0, HP: 0, S: 0, D: 0, T: 0, HR: 0, E: 0, G: 0, F: 0 };
+}
+
+/**
+ * Tallies event counts by outcome, skipping events that are not plate appearances
+ * @param rows Event counts, e.g. from SimulationRepository
+ * @returns The number of plate appearances ending in each outcome
+ */
+export function countOutcomes(rows: EventCountRow[]): OutcomeCounts {
+  const counts = emptyOutcomeCounts();
+  for (const row of rows) {
+    const outcome = classifyEvent(row.event);
+    if (outcome) {
+      counts[outcome] += row.count;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Turns outcome counts into probabilities, optionally adding plate appearances
+ * distributed like a prior distribution
+ * @param counts The outcome counts
+ * @param prior The distribution to regress toward
+ * @param priorWeight The number of plate appearances the prior counts for
+ * @returns The distribution; the prior if there are no plate appearances at all
+ */
+export function toDistribution(
+  counts: OutcomeCounts,
+  prior: EventDistribution = DEFAULT_LEAGUE_DISTRIBUTION,
+  priorWeight = 0
+): EventDistribution {
+  const total = SIMULATED_OUTCOMES.reduce((sum, outcome) => sum + counts[outcome], 0);
+  if (total + priorWeight <= 0) {
+    return { ...prior };
+  }
+
+  const distribution = {} as EventDistribution;
+  for (const outcome of SIMULATED_OUTCOMES) {
+    distribution[outcome] = (counts[outcome] + priorWeight * prior[outcome]) / (total + priorWeight);
+  }
+  return distribution;
+}
+
+/**
+ * Combines a batter's and a pitcher's distributions into the distribution of
+ * their matchup with the odds ratio method: each outcome is weighted by the
+ * batter's rate times the pitcher's rate over the league rate
+ * @param batter The batter's distribution
+ * @param pitcher The pitcher's distribution (of the plate appearances against them)
+ * @param league The league distribution
+ * @returns The matchup distribution
+ */
+export function combineMatchup(
+  batter: EventDistribution,
+  pitcher: EventDistribution,
+  league: EventDistribution
+): EventDistribution {
+  const weights = {} as EventDistribution;
+  let total = 0;
+  for (const outcome of SIMULATED_OUTCOMES) {
+    weights[outcome] = league[outcome] > 0 ? (batter[outcome] * pitcher[outcome]) / league[outcome] : 0;
+    total += weights[outcome];
+  }
+
+  if (total <= 0) {
+    return { ...league };
+  }
+
+  for (const outcome of SIMULATED_OUTCOMES) {
+    weights[outcome] /= total;
+  }
+  return weights;
+}
+
+/**
+ * Draws an outcome from a distribution
+ * @param distribution The distribution
+ * @param random Random number generator returning values in [0, 1)
+ * @returns The outcome
+ */
+export function drawOutcome(distribution: EventDistribution, random: () => number): SimulatedOutcome {
+  let remaining = random();
+  for (const outcome of SIMULATED_OUTCOMES) {
+    remaining -= distribution[outcome];
+    if (remaining < 0) {
+      return outcome;
+    }
+  }
+  // Rounding can leave a sliver past the last outcome
+  return SIMULATED_OUTCOMES[SIMULATED_OUTCOMES.length - 1];
+}
@@ -0,0 +1,7 @@
+export { SimulationService, SimulationDependencies, SIMULATED_GAME_ID_PREFIX } from './SimulationService';
+export { SimulatedGameStore, simulatedGameStore } from './SimulatedGameStore';
+export { SimulatedPlayDataService } from './SimulatedPlayDataService';
+export { SimulatedScoreRepository } from './SimulatedScoreRepository';
+export { SimulationGameInitializer } from './SimulationGameInitializer';
+export { simulateGame, createRandom, MAX_SIMULATED_INNINGS } from './simulateGame';
+export { classifyEvent, SIMULATED_OUTCOMES, SimulatedOutcome, EventDistribution } from './eventDistribution';
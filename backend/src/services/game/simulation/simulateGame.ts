@@ -0,0 +1,382 @@
+import { PlayData } from '../../../../../common/types/PlayData';
+import { GameSituation } from '../state/gameSituation';
+import { EventDistribution, SimulatedOutcome, drawOutcome } from './eventDistribution';
+
+/**
+ * A team as the simulation engine sees it: player IDs only
+ */
+export interface SimulationTeamInput {
+  id: string;
+  battingOrder: string[];           // Nine batter IDs
+  pitcher: string;
+  fielders: Record<number, string>; // Player ID by fielding position 2-9
+}
+
+/**
+ * Where a simulation picks up a game already under way
+ */
+export interface SimulationStart {
+  situation: GameSituation;                     // Its batter is ignored; see nextInOrder
+  nextInOrder: { home: number; visitors: number }; // Index in each batting order of the team's next batter
+  firstPlayNumber: number;                      // Play number of the first simulated play
+}
+
+/**
+ * Everything needed to simulate a game
+ */
+export interface SimulationInput {
+  gameId: string;
+  home: SimulationTeamInput;
+  visitors: SimulationTeamInput;
+  getDistribution: (batterId: string, pitcherId: string) => EventDistribution;
+  start?: SimulationStart;          // Omit to simulate from the first pitch
+}
+
+/**
+ * A game still tied after this many innings is ended as a tie
+ */
+export const MAX_SIMULATED_INNINGS = 19;
+
+/**
+ * Runners on first, second and third; null for an empty base
+ */
+type Bases = [string | null, string | null, string | null];
+
+/**
+ * Result of a plate appearance: the Retrosheet event describing it and the
+ * situation afterwards
+ */
+interface PlateAppearanceResult {
+  event: string;
+  outs: number;  // Outs made on the play
+  runs: number;
+  bases: Bases;
+}
+
+const BASE_LABELS = ['1', '2', '3'];
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32), so that a
+ * simulation can be reproduced from its seed
+ * @param seed The seed
+ * @returns A function returning values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks one of the options at random
+ */
+function pick<T>(options: T[], random: () => number): T {
+  return options[Math.floor(random() * options.length)];
+}
+
+/**
+ * Formats runner advances as the advance section of an event, lead runner first
+ * ("3-H;1-2"); empty when no runner moved
+ */
+function formatAdvances(advances: [number, number][]): string {
+  const parts = advances
+    .sort((a, b) => b[0] - a[0])
+    .map(([from, to]) => `${BASE_LABELS[from]}-${to >= 3 ? 'H' : BASE_LABELS[to]}`);
+  return parts.length > 0 ? `.${parts.join(';')}` : '';
+}
+
+/**
+ * Moves runners to new bases and counts those who reached home
+ * @param bases The runners before the play
+ * @param targets The base each runner ends on, by the base they started on; 3 is home
+ * @returns The new bases, runs scored and the advances to write in the event
+ */
+function moveRunners(
+  bases: Bases,
+  targets: Partial<Record<number, number>>
+): { bases: Bases; runs: number; advances: [number, number][] } {
+  const next: Bases = [null, null, null];
+  const advances: [number, number][] = [];
+  let runs = 0;
+
+  for (let base = 2; base >= 0; base--) {
+    const runner = bases[base];
+    if (!runner) {
+      continue;
+    }
+    const target = targets[base] ?? base;
+    if (target !== base) {
+      advances.push([base, target]);
+    }
+    if (target >= 3) {
+      runs++;
+    } else {
+      next[target] = runner;
+    }
+  }
+
+  return { bases: next, runs, advances };
+}
+
+/**
+ * Targets for runners forced along by the batter taking first base
+ */
+function forcedTargets(bases: Bases): Partial<Record<number, number>> {
+  const targets: Partial<Record<number, number>> = {};
+  if (bases[0]) {
+    targets[0] = 1;
+    if (bases[1]) {
+      targets[1] = 2;
+      if (bases[2]) {
+        targets[2] = 3;
+      }
+    }
+  }
+  return targets;
+}
+
+/**
+ * Resolves an outcome into a Retrosheet event, choosing fielders and runner
+ * advances at random with rough major league frequencies
+ * @param outcome The outcome drawn for the plate appearance
+ * @param batter The batter's ID
+ * @param bases The runners before the play
+ * @param outs The outs before the play
+ * @param random Random number generator
+ * @returns The event and the situation after the play
+ */
+export function resolvePlateAppearance(
+  outcome: SimulatedOutcome,
+  batter: string,
+  bases: Bases,
+  outs: number,
+  random: () => number
+): PlateAppearanceResult {
+  switch (outcome) {
+    case 'K':
+      return { event: 'K', outs: 1, runs: 0, bases };
+
+    case 'W':
+    case 'HP':
+    case 'E': {
+      const moved = moveRunners(bases, forcedTargets(bases));
+      const prefix = outcome === 'E' ? `E${pick([1, 3, 4, 5, 6], random)}` : outcome;
+      return {
+        event: prefix + formatAdvances(moved.advances),
+        outs: 0,
+        runs: moved.runs,
+        bases: [batter, moved.bases[1], moved.bases[2]]
+      };
+    }
+
+    case 'S': {
+      // Runners on second usually score; a runner on first sometimes takes third
+      const secondScores = random() < 0.6;
+      const targets: Partial<Record<number, number>> = { 2: 3, 1: secondScores ? 3 : 2, 0: 1 };
+      if ((secondScores || !bases[1]) && random() < 0.3) {
+        targets[0] = 2;
+      }
+      const moved = moveRunners(bases, targets);
+      return {
+        event: `S${pick([7, 8, 9], random)}${formatAdvances(moved.advances)}`,
+        outs: 0,
+        runs: moved.runs,
+        bases: [batter, moved.bases[1], moved.bases[2]]
+      };
+    }
+
+    case 'D': {
+      const moved = moveRunners(bases, { 2: 3, 1: 3, 0: random() < 0.45 ? 3 : 2 });
+      return {
+        event: `D${pick([7, 8, 9], random)}${formatAdvances(moved.advances)}`,
+        outs: 0,
+        runs: moved.runs,
+        bases: [null, batter, moved.bases[2]]
+      };
+    }
+
+    case 'T': {
+      const moved = moveRunners(bases, { 2: 3, 1: 3, 0: 3 });
+      return {
+        event: `T${pick([7, 8, 9], random)}${formatAdvances(moved.advances)}`,
+        outs: 0,
+        runs: moved.runs,
+        bases: [null, null, batter]
+      };
+    }
+
+    case 'HR': {
+      const moved = moveRunners(bases, { 2: 3, 1: 3, 0: 3 });
+      return {
+        event: `HR/F${pick([7, 8, 9], random)}${formatAdvances(moved.advances)}`,
+        outs: 0,
+        runs: moved.runs + 1,
+        bases: [null, null, null]
+      };
+    }
+
+    case 'G': {
+      const fielder = pick([6, 4, 5, 3, 1], random);
+
+      // Double play started by a middle infielder or the third baseman
+      if (bases[0] && outs < 2 && fielder !== 3 && fielder !== 1 && random() < 0.45) {
+        const pivot = fielder === 4 ? 6 : 4;
+        const inningOver = outs + 2 >= 3;
+        const moved = inningOver
+          ? { bases: [null, null, null] as Bases, runs: 0, advances: [] as [number, number][] }
+          : moveRunners([null, bases[1], bases[2]], { 2: 3, 1: 2 });
+        return {
+          event: `${fielder}${pivot}(1)3/GDP${formatAdvances(moved.advances)}`,
+          outs: 2,
+          runs: moved.runs,
+          bases: moved.bases
+        };
+      }
+
+      const putout = fielder === 3 ? '3' : `${fielder}3`;
+      if (outs + 1 >= 3) {
+        return { event: `${putout}/G${fielder}`, outs: 1, runs: 0, bases: [null, null, null] };
+      }
+
+      // Forced runners move up; the others half the time
+      const targets = forcedTargets(bases);
+      if (random() < 0.5) {
+        targets[2] = 3;
+        targets[1] = Math.max(targets[1] ?? 1, 2);
+      }
+      const moved = moveRunners(bases, targets);
+      return {
+        event: `${putout}/G${fielder}${formatAdvances(moved.advances)}`,
+        outs: 1,
+        runs: moved.runs,
+        bases: moved.bases
+      };
+    }
+
+    case 'F': {
+      // A quarter of outs in the air are infield pop ups
+      if (random() < 0.25) {
+        const fielder = pick([2, 3, 4, 5, 6], random);
+        return { event: `${fielder}/P${fielder}`, outs: 1, runs: 0, bases };
+      }
+
+      const fielder = pick([7, 8, 9], random);
+      if (bases[2] && outs < 2 && random() < 0.5) {
+        const moved = moveRunners(bases, { 2: 3 });
+        return {
+          event: `${fielder}/SF${formatAdvances(moved.advances)}`,
+          outs: 1,
+          runs: moved.runs,
+          bases: moved.bases
+        };
+      }
+      return { event: `${fielder}/F${fielder}`, outs: 1, runs: 0, bases };
+    }
+  }
+}
+
+/**
+ * Simulates a game, one plate appearance at a time
+ *
+ * Each plate appearance is drawn from the batter's and pitcher's matchup
+ * distribution and written as a play in the form of the plays table, so the
+ * game can be played back like a replay. The starting pitchers pitch the whole
+ * game and there are no substitutions. The game ends after nine innings unless
+ * tied, without the bottom of the ninth when the home team leads, and on the
+ * winning run in the bottom of the ninth or later.
+ *
+ * Given a start, the simulation continues a game from its situation instead,
+ * e.g. after a play whose outcome was changed; it returns no plays if that
+ * situation already ends the game.
+ *
+ * @param input The teams and their matchup distributions
+ * @param random Random number generator returning values in [0, 1)
+ * @returns The plays of the game in order, numbered from 1 or the start's first play number
+ */
+export function simulateGame(input: SimulationInput, random: () => number): PlayData[] {
+  const plays: PlayData[] = [];
+  const start = input.start;
+  const firstPlayNumber = start?.firstPlayNumber ?? 1;
+  const runs = { ...(start?.situation.score ?? { home: 0, visitors: 0 }) };
+  const nextInOrder = { ...(start?.nextInOrder ?? { home: 0, visitors: 0 }) };
+
+  let inning = start?.situation.inning ?? 1;
+  let topBot = start && !start.situation.isTopInning ? 1 : 0;
+  let outs = start?.situation.outs ?? 0;
+  let bases: Bases = start
+    ? [start.situation.onFirst, start.situation.onSecond, start.situation.onThird]
+    : [null, null, null];
+
+  while (inning <= MAX_SIMULATED_INNINGS) {
+    const battingSide = topBot === 0 ? 'visitors' : 'home';
+    const batting = input[battingSide];
+    const fielding = topBot === 0 ? input.home : input.visitors;
+
+    // The game is over once a team leads after nine innings, and the home
+    // team does not bat when already ahead in the ninth or later
+    if (topBot === 0 && inning > 9 && runs.home !== runs.visitors) {
+      return plays;
+    }
+    if (topBot === 1 && inning >= 9 && runs.home > runs.visitors) {
+      return plays;
+    }
+
+    while (outs < 3) {
+      const batter = batting.battingOrder[nextInOrder[battingSide] % batting.battingOrder.length];
+      nextInOrder[battingSide]++;
+
+      const outcome = drawOutcome(input.getDistribution(batter, fielding.pitcher), random);
+      const result = resolvePlateAppearance(outcome, batter, bases, outs, random);
+
+      plays.push({
+        gid: input.gameId,
+        pn: firstPlayNumber + plays.length,
+        inning,
+        top_bot: topBot,
+        batteam: batting.id,
+        pitteam: fielding.id,
+        batter,
+        pitcher: fielding.pitcher,
+        outs_pre: outs,
+        outs_post: Math.min(outs + result.outs, 3),
+        ...(bases[0] ? { br1_pre: bases[0] } : {}),
+        ...(bases[1] ? { br2_pre: bases[1] } : {}),
+        ...(bases[2] ? { br3_pre: bases[2] } : {}),
+        f2: fielding.fielders[2],
+        f3: fielding.fielders[3],
+        f4: fielding.fielders[4],
+        f5: fielding.fielders[5],
+        f6: fielding.fielders[6],
+        f7: fielding.fielders[7],
+        f8: fielding.fielders[8],
+        f9: fielding.fielders[9],
+        event: result.event,
+        runs: result.runs
+      });
+
+      outs += result.outs;
+      bases = result.bases;
+      runs[battingSide] += result.runs;
+
+      // Walk-off: the game ends as soon as the home team takes the lead
+      if (topBot === 1 && inning >= 9 && runs.home > runs.visitors) {
+        return plays;
+      }
+    }
+
+    // On to the next half-inning
+    if (topBot === 1) {
+      inning++;
+    }
+    topBot = 1 - topBot;
+    outs = 0;
+    bases = [null, null, null];
+  }
+
+  return plays;
+}
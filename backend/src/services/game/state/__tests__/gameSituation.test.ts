@@ -0,0 +1,151 @@
+/**
+ * Game Situation Reducer Unit Tests
+ *
+ * These tests apply parsed Retrosheet events to base/out/score situations,
+ * and check a sequence of recorded plays against the reducer: applying each
+ * play's event to its recorded situation should give the next play's.
+ */
+
+import { PlayData } from '../../../../../../common/types/PlayData';
+import { parseDetailedEvent } from '../../../eventTranslation';
+import { GameSituation, applyEvent, createGameSituation, endsPlateAppearance, situationFromPlay } from '../gameSituation';
+
+function situation(overrides: Partial<GameSituation> = {}): GameSituation {
+  return { ...createGameSituation('bat'), ...overrides };
+}
+
+function apply(before: GameSituation, event: string): GameSituation {
+  return applyEvent(before, parseDetailedEvent(event));
+}
+
+describe('applyEvent', () => {
+  it('puts the batter on base on hits, walks and errors', () => {
+    expect(apply(situation(), 'S8').onFirst).toBe('bat');
+    expect(apply(situation(), 'D7/L7D').onSecond).toBe('bat');
+    expect(apply(situation(), 'T9').onThird).toBe('bat');
+    expect(apply(situation(), 'HP').onFirst).toBe('bat');
+    expect(apply(situation(), 'E6').onFirst).toBe('bat');
+    expect(apply(situation(), 'C/E2').onFirst).toBe('bat');
+  });
+
+  it('moves runners by their advances and scores those reaching home', () => {
+    const after = apply(situation({ onFirst: 'r1', onSecond: 'r2' }), 'D7.2-H;1-3');
+
+    expect(after).toMatchObject({ onFirst: null, onSecond: 'bat', onThird: 'r1', outs: 0 });
+    expect(after.score).toEqual({ home: 0, visitors: 1 });
+  });
+
+  it('scores the batter and the runners on a home run', () => {
+    const after = apply(situation({ isTopInning: false, onThird: 'r3' }), 'HR/F7.3-H');
+
+    expect(after.score).toEqual({ home: 2, visitors: 0 });
+    expect(after.onThird).toBeNull();
+  });
+
+  it('moves runners the batter passes when the event leaves their advances out', () => {
+    const homeRun = apply(situation({ onFirst: 'r1', onSecond: 'r2' }), 'HR');
+    expect(homeRun.score.visitors).toBe(3);
+    expect(homeRun).toMatchObject({ onFirst: null, onSecond: null });
+
+    expect(apply(situation({ onFirst: 'r1' }), 'D8')).toMatchObject({ onSecond: 'bat', onThird: 'r1' });
+  });
+
+  it('forces runners ahead when the batter takes their base', () => {
+    const after = apply(situation({ onFirst: 'r1', onSecond: 'r2', onThird: 'r3' }), 'W');
+
+    expect(after).toMatchObject({ onFirst: 'bat', onSecond: 'r1', onThird: 'r2' });
+    expect(after.score.visitors).toBe(1);
+  });
+
+  it('counts outs on strikeouts, outs in the field and runners thrown out', () => {
+    expect(apply(situation(), 'K').outs).toBe(1);
+    expect(apply(situation(), '8/F8D').outs).toBe(1);
+
+    const thrownOut = apply(situation({ onFirst: 'r1' }), 'S9.1X3(95)');
+    expect(thrownOut).toMatchObject({ outs: 1, onFirst: 'bat', onThird: null });
+  });
+
+  it('keeps runners safe on errors', () => {
+    const after = apply(situation({ onFirst: 'r1' }), 'S8.1-3(E8);B-2');
+
+    expect(after).toMatchObject({ onSecond: 'bat', onThird: 'r1', outs: 0 });
+    expect(apply(situation({ onSecond: 'r2' }), 'CS3(5E6)').onThird).toBe('r2');
+  });
+
+  it('turns double plays and force outs marked in the fielding sequence', () => {
+    const doublePlay = apply(situation({ onFirst: 'r1', onThird: 'r3' }), '64(1)3/GDP');
+    expect(doublePlay).toMatchObject({ outs: 2, onFirst: null, onThird: 'r3' });
+
+    const forceOut = apply(situation({ onFirst: 'r1' }), '54(1)/FO');
+    expect(forceOut).toMatchObject({ outs: 1, onFirst: 'bat', onSecond: null });
+  });
+
+  it('leaves the batter at the plate on base running events', () => {
+    expect(apply(situation({ onFirst: 'r1' }), 'SB2')).toMatchObject({ onFirst: null, onSecond: 'r1', outs: 0 });
+    expect(apply(situation({ onFirst: 'r1' }), 'CS2(24)')).toMatchObject({ onFirst: null, outs: 1 });
+    expect(apply(situation({ onSecond: 'r2' }), 'WP.2-3').onThird).toBe('r2');
+    expect(apply(situation({ onFirst: 'r1' }), 'DI.1-2').onSecond).toBe('r1');
+  });
+
+  it('applies base running events combined with strikeouts and walks', () => {
+    expect(apply(situation({ onFirst: 'r1' }), 'K+SB2')).toMatchObject({ outs: 1, onSecond: 'r1' });
+    expect(apply(situation(), 'K+WP.B-1')).toMatchObject({ outs: 0, onFirst: 'bat' });
+    expect(apply(situation({ onFirst: 'r1' }), 'W+SB3.1-3')).toMatchObject({ onFirst: 'bat', onThird: 'r1' });
+  });
+
+  it('moves to the next half-inning on the third out', () => {
+    const after = apply(situation({ inning: 4, isTopInning: false, outs: 2, onSecond: 'r2' }), '63/G6');
+
+    expect(after).toMatchObject({ inning: 5, isTopInning: true, outs: 0, onSecond: null });
+  });
+
+  it('does not modify the situation passed in', () => {
+    const before = situation({ onFirst: 'r1' });
+    const copy = JSON.parse(JSON.stringify(before));
+
+    apply(before, 'HR/F8.1-H');
+
+    expect(before).toEqual(copy);
+  });
+});
+
+describe('recorded plays', () => {
+  // The bottom of an inning, as recorded in the plays table
+  const base = { gid: 'CIN201904150', inning: 3, top_bot: 1, batteam: 'CIN', pitteam: 'PIT', pitcher: 'p' };
+  const plays: PlayData[] = [
+    { ...base, pn: 20, batter: 'a', outs_pre: 0, outs_post: 0, event: 'S7' },
+    { ...base, pn: 21, batter: 'b', outs_pre: 0, outs_post: 0, br1_pre: 'a', event: 'W.1-2' },
+    { ...base, pn: 22, batter: 'c', outs_pre: 0, outs_post: 1, br1_pre: 'b', br2_pre: 'a', event: '8/F8D.2-3' },
+    { ...base, pn: 23, batter: 'd', outs_pre: 1, outs_post: 1, br1_pre: 'b', br3_pre: 'a', event: 'SB2' },
+    { ...base, pn: 24, batter: 'd', outs_pre: 1, outs_post: 1, br2_pre: 'b', br3_pre: 'a', event: 'S9/L9.3-H;2-H', runs: 2 },
+    { ...base, pn: 25, batter: 'e', outs_pre: 1, outs_post: 3, br1_pre: 'd', event: '64(1)3/GDP' },
+    { ...base, pn: 26, inning: 4, top_bot: 0, batteam: 'PIT', pitteam: 'CIN', batter: 'f', outs_pre: 0, outs_post: 1, event: 'K' }
+  ];
+
+  it('gives the next play\'s recorded situation for every play', () => {
+    let score = { home: 1, visitors: 2 };
+
+    for (let i = 0; i < plays.length - 1; i++) {
+      const after = applyEvent(situationFromPlay(plays[i], score), parseDetailedEvent(plays[i].event!));
+      score = after.score;
+
+      expect({ ...after, batter: plays[i + 1].batter }).toEqual(situationFromPlay(plays[i + 1], score));
+    }
+    expect(score).toEqual({ home: 3, visitors: 2 });
+  });
+});
+
+describe('endsPlateAppearance', () => {
+  it('is true when the batter reaches base or is out', () => {
+    expect(endsPlateAppearance(parseDetailedEvent('S8'))).toBe(true);
+    expect(endsPlateAppearance(parseDetailedEvent('K'))).toBe(true);
+    expect(endsPlateAppearance(parseDetailedEvent('64(1)3/GDP'))).toBe(true);
+    expect(endsPlateAppearance(parseDetailedEvent('K+WP.B-1'))).toBe(true);
+  });
+
+  it('is false on base running events', () => {
+    expect(endsPlateAppearance(parseDetailedEvent('SB2'))).toBe(false);
+    expect(endsPlateAppearance(parseDetailedEvent('WP.1-2'))).toBe(false);
+    expect(endsPlateAppearance(parseDetailedEvent('CS2(24)'))).toBe(false);
+  });
+});
@@ -0,0 +1,224 @@
+import { PlayData } from '../../../../../common/types/PlayData';
+import { BaseRunningInfo, DetailedBaseballEvent } from '../../eventTranslation/detailedEventTypes';
+import { getBatterEventType } from '../../../utils/LinescoreUtils';
+
+/**
+ * The base/out/score situation of a game between plays
+ */
+export interface GameSituation {
+  inning: number;
+  isTopInning: boolean;
+  outs: number;
+  onFirst: string | null;   // Runner IDs; null for an empty base
+  onSecond: string | null;
+  onThird: string | null;
+  score: {
+    home: number;
+    visitors: number;
+  };
+  batter: string;           // The batter at the plate
+}
+
+/**
+ * Bases in the order runners take them; runners reaching H score
+ */
+const BASES = ['1', '2', '3', 'H'];
+
+/**
+ * Base the batter takes by default on each event type; explicit batter
+ * advances ("B-2") take precedence
+ */
+const BATTER_BASES: Record<string, string> = {
+  S: '1',
+  D: '2',
+  DGR: '2',
+  T: '3',
+  HR: 'H',
+  W: '1',
+  IW: '1',
+  HP: '1',
+  E: '1',
+  FC: '1',
+  C: '1'
+};
+
+/**
+ * Event types on which the batter is out unless an advance says otherwise
+ * ("K+WP.B-1")
+ */
+const BATTER_OUT_EVENTS = ['K', 'G', 'F', 'L', 'P', 'SF', 'SH'];
+
+/**
+ * Creates the situation at the start of a game
+ * @param leadoffBatter The visitors' first batter
+ * @returns The situation before the first pitch
+ */
+export function createGameSituation(leadoffBatter: string): GameSituation {
+  return {
+    inning: 1,
+    isTopInning: true,
+    outs: 0,
+    onFirst: null,
+    onSecond: null,
+    onThird: null,
+    score: { home: 0, visitors: 0 },
+    batter: leadoffBatter
+  };
+}
+
+/**
+ * Reads the situation before a play from its recorded columns
+ * @param play The play
+ * @param score The score before the play, which the play does not record
+ * @returns The situation before the play
+ */
+export function situationFromPlay(play: PlayData, score: { home: number; visitors: number }): GameSituation {
+  return {
+    inning: play.inning,
+    isTopInning: play.top_bot === 0,
+    outs: play.outs_pre,
+    onFirst: play.br1_pre || null,
+    onSecond: play.br2_pre || null,
+    onThird: play.br3_pre || null,
+    score: { ...score },
+    batter: play.batter
+  };
+}
+
+/**
+ * Determines whether an event ends the batter's plate appearance: the batter
+ * reaches base or is out. Base running events such as stolen bases, wild
+ * pitches and pickoffs leave the batter at the plate.
+ * @param event The parsed event
+ * @returns True if the next play has a new batter
+ */
+export function endsPlateAppearance(event: DetailedBaseballEvent): boolean {
+  const eventType = event.primaryEventType || getBatterEventType(event.rawEvent);
+  return event.baseRunning.some(advance => advance.fromBase === 'B')
+    || eventType in BATTER_BASES
+    || BATTER_OUT_EVENTS.includes(eventType);
+}
+
+/**
+ * Applies a parsed event to a game situation
+ *
+ * Runners move as the event's advances say and stay put otherwise, except that
+ * runners the batter reaches or passes are pushed ahead of the batter (the
+ * forced advances Retrosheet may leave implicit, and everyone scoring on a
+ * home run written as plain "HR"). The batter takes the base their hit, walk or
+ * error gives them, or is out on strikeouts and outs in the field, unless a
+ * batter advance ("B-2", "BX2(84)") says otherwise; base running events such
+ * as stolen bases leave the batter at the plate. Runners reaching home score
+ * for the batting team. The third out ends the half-inning: the situation
+ * moves to the next half-inning with the bases empty.
+ *
+ * The batter is left as is, since the batting order is not part of the
+ * situation; set the next batter when the plate appearance is over.
+ *
+ * This is a pure function: the situation passed in is not modified.
+ *
+ * @param situation The situation before the event
+ * @param event The parsed event (see parseDetailedEvent)
+ * @returns The situation after the event
+ *
+ * @example
+ * ```typescript
+ * const after = applyEvent(before, parseDetailedEvent('D7.2-H;1-3'));
+ * ```
+ */
+export function applyEvent(situation: GameSituation, event: DetailedBaseballEvent): GameSituation {
+  const eventType = event.primaryEventType || getBatterEventType(event.rawEvent);
+
+  // The last advance of a runner is where they ended up
+  const advances = new Map<string, BaseRunningInfo>();
+  for (const advance of event.baseRunning) {
+    advances.set(advance.fromBase, advance);
+  }
+
+  const bases: (string | null)[] = [null, null, null];
+  let outs = situation.outs;
+  let runs = 0;
+
+  // Puts a runner on a base, pushing any runner already there ahead
+  const place = (runner: string, base: string): void => {
+    let carried: string | null = runner;
+    for (let index = BASES.indexOf(base); carried; index++) {
+      if (index >= 3) {
+        runs++;
+        return;
+      }
+      [bases[index], carried] = [carried, bases[index]];
+    }
+  };
+
+  // Moves runners the batter reaches or passes on the way to a base ahead of them
+  const clearFor = (base: string): void => {
+    const target = BASES.indexOf(base);
+    for (let index = Math.min(target, 2); index >= 0; index--) {
+      const runner = bases[index];
+      if (runner) {
+        bases[index] = null;
+        place(runner, BASES[target + 1] ?? 'H');
+      }
+    }
+  };
+
+  // Lead runners first, so that trailing runners find their base free
+  const runners: [string, string | null][] = [
+    ['3', situation.onThird],
+    ['2', situation.onSecond],
+    ['1', situation.onFirst]
+  ];
+  for (const [base, runner] of runners) {
+    if (!runner) {
+      continue;
+    }
+    const advance = advances.get(base);
+    if (advance?.isOut) {
+      outs++;
+    } else {
+      place(runner, advance?.toBase ?? base);
+    }
+  }
+
+  const batterAdvance = advances.get('B');
+  if (batterAdvance) {
+    if (batterAdvance.isOut) {
+      outs++;
+    } else {
+      clearFor(batterAdvance.toBase);
+      place(situation.batter, batterAdvance.toBase);
+    }
+  } else if (BATTER_BASES[eventType]) {
+    clearFor(BATTER_BASES[eventType]);
+    place(situation.batter, BATTER_BASES[eventType]);
+  } else if (BATTER_OUT_EVENTS.includes(eventType)) {
+    outs++;
+  }
+
+  const score = situation.isTopInning
+    ? { home: situation.score.home, visitors: situation.score.visitors + runs }
+    : { home: situation.score.home + runs, visitors: situation.score.visitors };
+
+  if (outs >= 3) {
+    return {
+      inning: situation.isTopInning ? situation.inning : situation.inning + 1,
+      isTopInning: !situation.isTopInning,
+      outs: 0,
+      onFirst: null,
+      onSecond: null,
+      onThird: null,
+      score,
+      batter: situation.batter
+    };
+  }
+
+  return {
+    ...situation,
+    outs,
+    onFirst: bases[0],
+    onSecond: bases[1],
+    onThird: bases[2],
+    score
+  };
+}
@@ -0,0 +1,223 @@
+import {
+  IGamePlaybackService,
+  StreamControl,
+  StreamOptions,
+  StreamSink,
+  StreamStatus
+} from '../../interfaces';
+import { ResourceNotFoundError } from '../../../types/errors/GameErrors';
+import { contextLogger } from '../../../core/logging';
+
+/**
+ * A single running playback stream
+ *
+ * Drives getNextPlay in a loop for one (gameId, sessionId) pair and pushes every
+ * resulting state to its sink. Between plays the loop either sleeps for the
+ * configured delay (scaled by speed) or waits for the client to acknowledge the
+ * last play. Control commands wake the loop so that pause, resume, ack and speed
+ * changes take effect immediately.
+ */
+export class PlaybackStream {
+  private currentPlay: number;
+  private speed: number;
+  private paused = false;
+  private stopped = false;
+  private acknowledged = false;
+  private wake: (() => void) | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly gameId: string,
+    private readonly sessionId: string,
+    private readonly options: StreamOptions,
+    private readonly sink: StreamSink,
+    private readonly playbackService: IGamePlaybackService,
+    private readonly onFinished: (stream: PlaybackStream) => void = () => {}
+  ) {
+    this.currentPlay = options.startPlay;
+    this.speed = options.speed;
+  }
+
+  /**
+   * Runs the stream until the game ends, an error occurs or the stream is stopped
+   */
+  public async run(): Promise<void> {
+    const streamLogger = contextLogger({
+      service: 'PlaybackStream',
+      gameId: this.gameId,
+      sessionId: this.sessionId
+    });
+    let playsSent = 0;
+
+    streamLogger.info('Starting playback stream', {
+      startPlay: this.currentPlay,
+      pacing: this.options.pacing,
+      delayMs: this.options.delayMs,
+      speed: this.speed
+    });
+
+    while (!this.stopped) {
+      await this.waitWhilePaused();
+      if (this.stopped) {
+        break;
+      }
+
+      try {
+        const state = await this.playbackService.getNextPlay(
+          this.gameId,
+          this.sessionId,
+          this.currentPlay,
+          {
+            skipLLM: this.options.skipLLM,
+            announcerStyle: this.options.announcerStyle,
+            aiProvider: this.options.aiProvider,
+            commentaryCache: this.options.commentaryCache,
+            booth: this.options.booth,
+            mode: this.options.mode,
+            highlightCriteria: this.options.highlightCriteria
+          }
+        );
+        if (this.stopped) {
+          break;
+        }
+
+        this.currentPlay = state.currentPlay;
+        this.acknowledged = false;
+        this.sink.send('play', state);
+        playsSent++;
+      } catch (error) {
+        // Running out of plays after at least one play means the game is over
+        if (error instanceof ResourceNotFoundError && playsSent > 0) {
+          streamLogger.info('Playback stream reached the end of the game', { currentPlay: this.currentPlay });
+          this.sink.send('end', { gameId: this.gameId, currentPlay: this.currentPlay });
+        } else {
+          const message = error instanceof Error ? error.message : String(error);
+          streamLogger.error('Playback stream failed', { currentPlay: this.currentPlay, error: message });
+          this.sink.send('error', { message });
+        }
+        break;
+      }
+
+      await this.waitForPacing();
+    }
+
+    this.finish();
+  }
+
+  /**
+   * Applies a control command
+   * @param control The command to apply
+   */
+  public control(control: StreamControl): void {
+    switch (control.action) {
+      case 'pause':
+        this.paused = true;
+        break;
+      case 'resume':
+        this.paused = false;
+        break;
+      case 'ack':
+        this.acknowledged = true;
+        break;
+      case 'speed':
+        this.speed = control.speed;
+        break;
+    }
+
+    this.sink.send('status', this.getStatus());
+    this.signal();
+  }
+
+  /**
+   * Stops the stream; the loop exits at its next wake-up
+   */
+  public stop(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.stopped = true;
+    this.signal();
+  }
+
+  /**
+   * Whether this stream delivers its events to the given sink
+   */
+  public hasSink(sink: StreamSink): boolean {
+    return this.sink === sink;
+  }
+
+  /**
+   * Gets a snapshot of the stream
+   */
+  public getStatus(): StreamStatus {
+    return {
+      gameId: this.gameId,
+      sessionId: this.sessionId,
+      currentPlay: this.currentPlay,
+      pacing: this.options.pacing,
+      delayMs: this.options.delayMs,
+      speed: this.speed,
+      paused: this.paused
+    };
+  }
+
+  private finish(): void {
+    this.stopped = true;
+    this.clearTimer();
+    this.sink.close();
+    this.onFinished(this);
+  }
+
+  private async waitWhilePaused(): Promise<void> {
+    while (this.paused && !this.stopped) {
+      await this.waitForSignal();
+    }
+  }
+
+  /**
+   * Waits between plays. A speed change during a fixed delay rescales what is left of it.
+   */
+  private async waitForPacing(): Promise<void> {
+    if (this.options.pacing === 'ack') {
+      while (!this.acknowledged && !this.stopped) {
+        await this.waitForSignal();
+      }
+      return;
+    }
+
+    const startedAt = Date.now();
+    while (!this.stopped) {
+      const remaining = this.options.delayMs / this.speed - (Date.now() - startedAt);
+      if (remaining <= 0) {
+        return;
+      }
+      await this.waitForSignal(remaining);
+    }
+  }
+
+  /**
+   * Resolves on the next control command, on stop, or after timeoutMs if given
+   */
+  private waitForSignal(timeoutMs?: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wake = resolve;
+      if (timeoutMs !== undefined) {
+        this.timer = setTimeout(() => this.signal(), timeoutMs);
+      }
+    });
+  }
+
+  private signal(): void {
+    this.clearTimer();
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
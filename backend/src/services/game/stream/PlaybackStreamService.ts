@@ -0,0 +1,156 @@
+import {
+  IGamePlaybackService,
+  IPlaybackStreamService,
+  StreamControl,
+  StreamOptions,
+  StreamSink,
+  StreamStatus
+} from '../../interfaces';
+import { BaseService } from '../../BaseService';
+import { GamePlaybackService } from '../playback/GamePlaybackService';
+import { NotFoundError } from '../../../core/errors';
+import { contextLogger } from '../../../core/logging';
+import { PlaybackStream } from './PlaybackStream';
+
+/**
+ * Dependencies for PlaybackStreamService
+ */
+export interface PlaybackStreamDependencies {
+  gamePlaybackService?: IGamePlaybackService;
+}
+
+/**
+ * Service that lets a game play itself
+ *
+ * Keeps at most one running PlaybackStream per (gameId, sessionId). Each stream
+ * advances through the game with GamePlaybackService.getNextPlay, so commentary,
+ * lineup tracking and the playback session are updated exactly as if the client
+ * had requested every play itself.
+ *
+ * @example
+ * ```typescript
+ * const service = PlaybackStreamService.getInstance();
+ * service.startStream(gameId, sessionId, { pacing: 'fixed', delayMs: 4000, speed: 1, startPlay: 0 }, sink);
+ * service.controlStream(gameId, sessionId, { action: 'pause' });
+ * ```
+ */
+export class PlaybackStreamService extends BaseService implements IPlaybackStreamService {
+  // Overrides the playback service of every game; see getGamePlaybackService
+  private gamePlaybackService?: IGamePlaybackService;
+  private streams = new Map<string, PlaybackStream>();
+
+  // Singleton instance for backward compatibility during transition
+  private static instance: PlaybackStreamService;
+
+  /**
+   * Creates a new instance of the PlaybackStreamService
+   * @param dependencies Optional dependencies to inject
+   */
+  constructor(dependencies: PlaybackStreamDependencies = {}) {
+    super(dependencies);
+    this.gamePlaybackService = dependencies.gamePlaybackService;
+  }
+
+  /**
+   * Gets the singleton instance
+   * @returns The singleton instance
+   */
+  public static getInstance(): PlaybackStreamService {
+    if (!PlaybackStreamService.instance) {
+      PlaybackStreamService.instance = new PlaybackStreamService();
+    }
+    return PlaybackStreamService.instance;
+  }
+
+  /**
+   * Starts streaming a game to a sink, replacing any stream already running for the session
+   */
+  public startStream(
+    gameId: string,
+    sessionId: string,
+    options: StreamOptions,
+    sink: StreamSink
+  ): StreamStatus {
+    const key = this.getKey(gameId, sessionId);
+    const existing = this.streams.get(key);
+    if (existing) {
+      contextLogger({ service: 'PlaybackStreamService', gameId, sessionId })
+        .info('Replacing running playback stream');
+      existing.stop();
+    }
+
+    const stream = new PlaybackStream(
+      gameId,
+      sessionId,
+      options,
+      sink,
+      this.getGamePlaybackService(gameId),
+      finished => {
+        // A replaced stream finishes after its successor registered; leave the successor alone
+        if (this.streams.get(key) === finished) {
+          this.streams.delete(key);
+        }
+      }
+    );
+    this.streams.set(key, stream);
+    void stream.run();
+
+    return stream.getStatus();
+  }
+
+  /**
+   * Applies a control command to a running stream
+   * @throws {NotFoundError} If no stream is running for the session
+   */
+  public controlStream(gameId: string, sessionId: string, control: StreamControl): StreamStatus {
+    const stream = this.streams.get(this.getKey(gameId, sessionId));
+    if (!stream) {
+      throw new NotFoundError(`No playback stream running for session ${sessionId} of game ${gameId}`);
+    }
+
+    stream.control(control);
+    return stream.getStatus();
+  }
+
+  /**
+   * Stops a running stream; does nothing if there is none.
+   * Passing the sink keeps a closing connection from stopping a stream that replaced it.
+   */
+  public stopStream(gameId: string, sessionId: string, sink?: StreamSink): void {
+    const stream = this.streams.get(this.getKey(gameId, sessionId));
+    if (stream && (!sink || stream.hasSink(sink))) {
+      stream.stop();
+    }
+  }
+
+  /**
+   * Gets the service that plays a game back: the injected one, otherwise the
+   * instance for a replay or a simulated game
+   * @param gameId The game ID
+   */
+  private getGamePlaybackService(gameId: string): IGamePlaybackService {
+    return this.gamePlaybackService ?? GamePlaybackService.forGame(gameId);
+  }
+
+  private getKey(gameId: string, sessionId: string): string {
+    return `${gameId}:${sessionId}`;
+  }
+
+  // Static methods for backward compatibility during transition
+  public static startStream(
+    gameId: string,
+    sessionId: string,
+    options: StreamOptions,
+    sink: StreamSink
+  ): StreamStatus {
+    return PlaybackStreamService.getInstance().startStream(gameId, sessionId, options, sink);
+  }
+
+  public static controlStream(gameId: string, sessionId: string, control: StreamControl): StreamStatus {
+    return PlaybackStreamService.getInstance().controlStream(gameId, sessionId, control);
+  }
+
+  public static stopStream(gameId: string, sessionId: string, sink?: StreamSink): void {
+    PlaybackStreamService.getInstance().stopStream(gameId, sessionId, sink);
+  }
+}
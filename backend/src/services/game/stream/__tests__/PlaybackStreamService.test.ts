@@ -0,0 +1,185 @@
+/**
+ * PlaybackStreamService Unit Tests
+ *
+ * These tests drive streams with a mock playback service and a recording sink
+ * to verify pacing (fixed delay and acknowledgements), pause/resume, speed
+ * changes, end of game handling and stream replacement.
+ */
+
+import { IGamePlaybackService, StreamEventType, StreamOptions, StreamSink } from '../../../interfaces';
+import { createMockSimplifiedBaseballState } from '../../../../test/utils';
+import { ResourceNotFoundError } from '../../../../types/errors/GameErrors';
+import { NotFoundError } from '../../../../core/errors';
+
+// Keep the real GamePlaybackService (and its database dependencies) out of the test
+jest.mock('../../playback/GamePlaybackService', () => ({
+  GamePlaybackService: { getInstance: jest.fn(), forGame: jest.fn() }
+}));
+
+import { PlaybackStreamService } from '../PlaybackStreamService';
+import { GamePlaybackService } from '../../playback/GamePlaybackService';
+
+const GAME_ID = 'CIN201904150';
+const SESSION_ID = '123e4567-e89b-12d3-a456-426614174000';
+
+/**
+ * Sink that records every event and lets tests wait for a number of events
+ */
+class RecordingSink implements StreamSink {
+  public events: Array<{ event: StreamEventType; data: any }> = [];
+  public closed = false;
+
+  send(event: StreamEventType, data: unknown): void {
+    this.events.push({ event, data });
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  plays(): number[] {
+    return this.events.filter(e => e.event === 'play').map(e => e.data.currentPlay);
+  }
+}
+
+/**
+ * Waits until a condition holds, polling on short real timers
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 1000): Promise<void> {
+  const startedAt = Date.now();
+  while (!condition()) {
+    if (Date.now() - startedAt > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('PlaybackStreamService', () => {
+  let mockGetNextPlay: jest.Mock;
+  let service: PlaybackStreamService;
+  let sink: RecordingSink;
+
+  const options = (overrides: Partial<StreamOptions> = {}): StreamOptions => ({
+    pacing: 'fixed',
+    delayMs: 10,
+    speed: 1,
+    startPlay: 1,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    // Each call narrates the requested play and moves on to the next one; play 4 is the last
+    mockGetNextPlay = jest.fn().mockImplementation(async (_gameId, _sessionId, currentPlay: number) => {
+      if (currentPlay >= 4) {
+        throw new ResourceNotFoundError(`No more plays found for the specified game ID: ${GAME_ID}`);
+      }
+      return createMockSimplifiedBaseballState({ currentPlay: currentPlay + 1 });
+    });
+    service = new PlaybackStreamService({
+      gamePlaybackService: { getNextPlay: mockGetNextPlay } as unknown as IGamePlaybackService
+    });
+    sink = new RecordingSink();
+  });
+
+  afterEach(() => {
+    service.stopStream(GAME_ID, SESSION_ID);
+  });
+
+  it('plays the game to the end with a fixed delay and closes the sink', async () => {
+    service.startStream(GAME_ID, SESSION_ID, options({ skipLLM: true, announcerStyle: 'modern' }), sink);
+
+    await waitFor(() => sink.closed);
+
+    expect(sink.plays()).toEqual([2, 3, 4]);
+    expect(sink.events[sink.events.length - 1]).toEqual({
+      event: 'end',
+      data: { gameId: GAME_ID, currentPlay: 4 }
+    });
+    expect(mockGetNextPlay).toHaveBeenCalledWith(GAME_ID, SESSION_ID, 1, { skipLLM: true, announcerStyle: 'modern' });
+  });
+
+  it('plays a simulated game with the playback service of that game', async () => {
+    const simulatedGameId = 'SIM-5b7f3a52-3c1e-4a8e-9a43-1f0c6d2b8e11';
+    jest.mocked(GamePlaybackService.forGame).mockReturnValue(
+      { getNextPlay: mockGetNextPlay } as unknown as GamePlaybackService
+    );
+    const defaultService = new PlaybackStreamService();
+
+    defaultService.startStream(simulatedGameId, SESSION_ID, options(), sink);
+    await waitFor(() => sink.closed);
+
+    expect(GamePlaybackService.forGame).toHaveBeenCalledWith(simulatedGameId);
+    expect(GamePlaybackService.getInstance).not.toHaveBeenCalled();
+    expect(sink.plays()).toEqual([2, 3, 4]);
+    expect(mockGetNextPlay).toHaveBeenCalledWith(simulatedGameId, SESSION_ID, 1, {});
+  });
+
+  it('waits for an acknowledgement before each play in ack mode', async () => {
+    service.startStream(GAME_ID, SESSION_ID, options({ pacing: 'ack' }), sink);
+
+    await waitFor(() => sink.plays().length === 1);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(sink.plays()).toEqual([2]);
+
+    service.controlStream(GAME_ID, SESSION_ID, { action: 'ack' });
+    await waitFor(() => sink.plays().length === 2);
+    expect(sink.plays()).toEqual([2, 3]);
+  });
+
+  it('stops advancing while paused and continues on resume', async () => {
+    service.startStream(GAME_ID, SESSION_ID, options({ delayMs: 20 }), sink);
+    await waitFor(() => sink.plays().length === 1);
+
+    const status = service.controlStream(GAME_ID, SESSION_ID, { action: 'pause' });
+    expect(status.paused).toBe(true);
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(sink.plays()).toEqual([2]);
+
+    service.controlStream(GAME_ID, SESSION_ID, { action: 'resume' });
+    await waitFor(() => sink.closed);
+    expect(sink.plays()).toEqual([2, 3, 4]);
+  });
+
+  it('rescales the remaining delay when the speed changes', async () => {
+    service.startStream(GAME_ID, SESSION_ID, options({ delayMs: 5000 }), sink);
+    await waitFor(() => sink.plays().length === 1);
+
+    const status = service.controlStream(GAME_ID, SESSION_ID, { action: 'speed', speed: 1000 });
+
+    expect(status.speed).toBe(1000);
+    await waitFor(() => sink.plays().length === 2);
+    expect(sink.events).toContainEqual({ event: 'status', data: expect.objectContaining({ speed: 1000 }) });
+  });
+
+  it('reports an error when the first play cannot be loaded', async () => {
+    mockGetNextPlay.mockRejectedValue(new ResourceNotFoundError('No plays found'));
+
+    service.startStream(GAME_ID, SESSION_ID, options(), sink);
+    await waitFor(() => sink.closed);
+
+    expect(sink.events).toEqual([{ event: 'error', data: { message: 'No plays found' } }]);
+  });
+
+  it('replaces a running stream for the same session', async () => {
+    service.startStream(GAME_ID, SESSION_ID, options({ pacing: 'ack' }), sink);
+    await waitFor(() => sink.plays().length === 1);
+
+    const replacement = new RecordingSink();
+    service.startStream(GAME_ID, SESSION_ID, options({ pacing: 'ack', startPlay: 3 }), replacement);
+
+    await waitFor(() => sink.closed && replacement.plays().length === 1);
+    // Closing the old connection must not stop the new stream
+    service.stopStream(GAME_ID, SESSION_ID, sink);
+    service.controlStream(GAME_ID, SESSION_ID, { action: 'ack' });
+
+    await waitFor(() => replacement.closed);
+    expect(sink.plays()).toEqual([2]);
+    expect(replacement.plays()).toEqual([4]);
+  });
+
+  it('throws NotFoundError when controlling a session without a stream', () => {
+    expect(() => service.controlStream(GAME_ID, SESSION_ID, { action: 'pause' })).toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,2 @@
+export { PlaybackStreamService, PlaybackStreamDependencies } from './PlaybackStreamService';
+export { PlaybackStream } from './PlaybackStream';
@@ -0,0 +1,251 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  IGamePlaybackService,
+  IPlayDataService,
+  NextPlayOptions,
+  PlayData
+} from '../../interfaces';
+import {
+  GameTranscript,
+  TranscriptFormat,
+  TranscriptHalfInning
+} from '../../../../../common/types/TranscriptTypes';
+import { getLogEntryText } from '../../../../../common/types/BaseballTypes';
+import { BaseService } from '../../BaseService';
+import { GamePlaybackService } from '../playback/GamePlaybackService';
+import { PlayDataService } from '../playData/PlayDataService';
+import { simulatedGameStore } from '../simulation/SimulatedGameStore';
+import { SimulatedPlayDataService } from '../simulation/SimulatedPlayDataService';
+import { gameRepository } from '../../../database/repositories/GameRepository';
+import { translateEvent } from '../../eventTranslation/translateEvent';
+import { buildLinescore } from '../../../utils/LinescoreUtils';
+import { DEFAULT_ANNOUNCER_STYLE } from '../../../constants/GameConstants';
+import { contextLogger } from '../../../core/logging';
+import { renderTranscriptHtml, renderTranscriptMarkdown } from './transcriptRenderers';
+
+/**
+ * Dependencies for GameTranscriptService
+ */
+export interface GameTranscriptDependencies {
+  gamePlaybackService?: IGamePlaybackService;
+  playDataService?: IPlayDataService;
+}
+
+/**
+ * Service for rendering a whole game as a single document
+ *
+ * The transcript is produced by playing the game from start to finish through
+ * GamePlaybackService.getNextPlay on a dedicated session, so descriptions and
+ * commentary are exactly what a viewer would have seen. Plays are grouped under
+ * inning headers and the document ends with a linescore.
+ *
+ * @example
+ * ```typescript
+ * const transcript = await GameTranscriptService.generateTranscript("CIN201904150", { skipLLM: true });
+ * const markdown = GameTranscriptService.getInstance().render(transcript, 'md');
+ * ```
+ */
+export class GameTranscriptService extends BaseService {
+  // Override the services of every game; see getGamePlaybackService and getPlayDataService
+  private gamePlaybackService?: IGamePlaybackService;
+  private playDataService?: IPlayDataService;
+  private simulatedPlayDataService = new SimulatedPlayDataService();
+
+  // Singleton instance for backward compatibility during transition
+  private static instance: GameTranscriptService;
+
+  /**
+   * Creates a new instance of the GameTranscriptService
+   * @param dependencies Optional dependencies to inject
+   */
+  constructor(dependencies: GameTranscriptDependencies = {}) {
+    super(dependencies);
+    this.gamePlaybackService = dependencies.gamePlaybackService;
+    this.playDataService = dependencies.playDataService;
+  }
+
+  /**
+   * Gets the singleton instance
+   * @returns The singleton instance
+   */
+  public static getInstance(): GameTranscriptService {
+    if (!GameTranscriptService.instance) {
+      GameTranscriptService.instance = new GameTranscriptService();
+    }
+    return GameTranscriptService.instance;
+  }
+
+  /**
+   * Plays a game and collects its transcript, from the first pitch to the last
+   * or, so as not to give away the rest of the game, up to a play
+   *
+   * The final play has no following play, so getNextPlay cannot narrate it; it
+   * is described with translateEvent only.
+   *
+   * @param gameId The game ID
+   * @param options Commentary options (announcer style, skipLLM)
+   * @param upToPlay Only include plays before this play index; omit for the whole game
+   * @returns The structured transcript
+   * @throws {ResourceNotFoundError} If the game has no plays
+   */
+  public async generateTranscript(
+    gameId: string,
+    options: NextPlayOptions = {},
+    upToPlay?: number
+  ): Promise<GameTranscript> {
+    const sessionId = uuidv4();
+    const announcerStyle = options.announcerStyle ?? DEFAULT_ANNOUNCER_STYLE;
+    const serviceLogger = contextLogger({
+      service: 'GameTranscriptService',
+      method: 'generateTranscript',
+      gameId,
+      sessionId
+    });
+
+    const gamePlaybackService = this.getGamePlaybackService(gameId);
+    const allPlays = await this.getPlayDataService(gameId).fetchAllPlaysForGame(gameId);
+    const plays = upToPlay === undefined ? allPlays : allPlays.filter(play => play.pn < upToPlay);
+    const teams = await this.getTeams(allPlays[0]);
+
+    serviceLogger.info('Generating game transcript', {
+      plays: plays.length,
+      upToPlay,
+      announcerStyle,
+      skipLLM: options.skipLLM ?? false
+    });
+
+    // Initialization returns the pre-game commentary
+    const initialState = await gamePlaybackService.getNextPlay(gameId, sessionId, 0, {
+      ...options,
+      announcerStyle
+    });
+
+    const halfInnings: TranscriptHalfInning[] = [];
+    const score = { home: 0, visitors: 0 };
+
+    for (let i = 0; i < plays.length; i++) {
+      const play = plays[i];
+      const isLastPlay = i === allPlays.length - 1;
+      const half = play.top_bot === 0 ? 'top' : 'bottom';
+
+      let halfInning = halfInnings[halfInnings.length - 1];
+      if (!halfInning || halfInning.inning !== play.inning || halfInning.half !== half) {
+        halfInning = {
+          inning: play.inning,
+          half,
+          battingTeam: half === 'top' ? teams.visitors.name : teams.home.name,
+          plays: []
+        };
+        halfInnings.push(halfInning);
+      }
+
+      let description = play.event ? translateEvent(play.event) : '';
+      let commentary: string[] = [];
+      if (!isLastPlay) {
+        const state = await gamePlaybackService.getNextPlay(gameId, sessionId, play.pn, {
+          ...options,
+          announcerStyle
+        });
+        description = state.playDescription || description;
+        commentary = state.game.log.map(getLogEntryText);
+      }
+
+      const runs = play.runs ?? 0;
+      score[half === 'top' ? 'visitors' : 'home'] += runs;
+
+      halfInning.plays.push({
+        playIndex: play.pn,
+        description,
+        eventString: play.event,
+        commentary,
+        runs,
+        score: { ...score }
+      });
+    }
+
+    serviceLogger.info('Generated game transcript', { halfInnings: halfInnings.length });
+
+    return {
+      gameId,
+      title: `${teams.visitors.name} at ${teams.home.name}`,
+      announcerStyle,
+      generatedAt: new Date().toISOString(),
+      upToPlay: upToPlay ?? null,
+      introduction: initialState.game.log.map(getLogEntryText),
+      halfInnings,
+      linescore: buildLinescore(plays, teams, { complete: plays.length === allPlays.length })
+    };
+  }
+
+  /**
+   * Renders a transcript as a downloadable document
+   * @param transcript The transcript to render
+   * @param format 'md', 'html' or 'json'
+   * @returns The document text
+   */
+  public render(transcript: GameTranscript, format: TranscriptFormat): string {
+    switch (format) {
+      case 'md':
+        return renderTranscriptMarkdown(transcript);
+      case 'html':
+        return renderTranscriptHtml(transcript);
+      case 'json':
+        return JSON.stringify(transcript, null, 2);
+    }
+  }
+
+  /**
+   * Gets the service that plays a game back: the injected one, otherwise the
+   * instance for a replay or a simulated game
+   * @param gameId The game ID
+   */
+  private getGamePlaybackService(gameId: string): IGamePlaybackService {
+    return this.gamePlaybackService ?? GamePlaybackService.forGame(gameId);
+  }
+
+  /**
+   * Gets the plays of a game: the injected service, otherwise the plays table
+   * for a replay or the simulated game store for a simulated game
+   * @param gameId The game ID
+   */
+  private getPlayDataService(gameId: string): IPlayDataService {
+    if (this.playDataService) {
+      return this.playDataService;
+    }
+    return simulatedGameStore.has(gameId) ? this.simulatedPlayDataService : PlayDataService.getInstance();
+  }
+
+  /**
+   * Resolves team IDs from the first play and looks up their display names
+   */
+  private async getTeams(firstPlay: PlayData): Promise<{
+    home: { id: string; name: string };
+    visitors: { id: string; name: string };
+  }> {
+    const homeId = firstPlay.top_bot === 0 ? firstPlay.pitteam : firstPlay.batteam;
+    const visitorsId = firstPlay.top_bot === 0 ? firstPlay.batteam : firstPlay.pitteam;
+
+    const [homeName, visitorsName] = await Promise.all([
+      gameRepository.getTeamDisplayName(homeId),
+      gameRepository.getTeamDisplayName(visitorsId)
+    ]);
+
+    return {
+      home: { id: homeId, name: homeName },
+      visitors: { id: visitorsId, name: visitorsName }
+    };
+  }
+
+  // Static methods for backward compatibility during transition
+  public static async generateTranscript(
+    gameId: string,
+    options?: NextPlayOptions,
+    upToPlay?: number
+  ): Promise<GameTranscript> {
+    return GameTranscriptService.getInstance().generateTranscript(gameId, options, upToPlay);
+  }
+
+  public static render(transcript: GameTranscript, format: TranscriptFormat): string {
+    return GameTranscriptService.getInstance().render(transcript, format);
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * GameTranscriptService Unit Tests
+ *
+ * These tests play a short mock game through the transcript service and check
+ * the structured transcript, the linescore and the Markdown/HTML renderings.
+ */
+
+import { IGamePlaybackService, IPlayDataService, PlayData, SimulatedGame } from '../../../interfaces';
+import { createMockSimplifiedBaseballState } from '../../../../test/utils';
+
+jest.mock('../../../../database/repositories/GameRepository', () => ({
+  gameRepository: {
+    getTeamDisplayName: jest.fn(async (teamId: string) => (teamId === 'CIN' ? 'Cincinnati Reds' : 'Pittsburgh Pirates'))
+  }
+}));
+
+// Keep the real services (and their database dependencies) out of the test
+jest.mock('../../playback/GamePlaybackService', () => ({
+  GamePlaybackService: { getInstance: jest.fn(), forGame: jest.fn() }
+}));
+jest.mock('../../playData/PlayDataService', () => ({
+  PlayDataService: { getInstance: jest.fn() }
+}));
+
+import { GameTranscriptService } from '../GameTranscriptService';
+import { ordinal } from '../transcriptRenderers';
+import { GamePlaybackService } from '../../playback/GamePlaybackService';
+import { PlayDataService } from '../../playData/PlayDataService';
+import { simulatedGameStore } from '../../simulation/SimulatedGameStore';
+
+const GAME_ID = 'CIN201904150';
+
+function createPlay(pn: number, inning: number, topBot: number, event: string, runs = 0): PlayData {
+  return {
+    gid: GAME_ID,
+    pn,
+    inning,
+    top_bot: topBot,
+    batteam: topBot === 0 ? 'PIT' : 'CIN',
+    pitteam: topBot === 0 ? 'CIN' : 'PIT',
+    batter: `batter${pn}`,
+    pitcher: `pitcher${pn}`,
+    outs_pre: 0,
+    outs_post: 1,
+    event,
+    runs
+  };
+}
+
+describe('GameTranscriptService', () => {
+  const plays = [
+    createPlay(1, 1, 0, 'S8'),
+    createPlay(2, 1, 0, 'HR/F78', 2),
+    createPlay(3, 1, 1, 'E6'),
+    createPlay(4, 9, 0, 'K')
+  ];
+
+  let mockGetNextPlay: jest.Mock;
+  let service: GameTranscriptService;
+
+  beforeEach(() => {
+    mockGetNextPlay = jest.fn().mockImplementation(async (_gameId, _sessionId, currentPlay: number) => {
+      if (currentPlay === 0) {
+        return createMockSimplifiedBaseballState({
+          currentPlay: 1,
+          game: { ...createMockSimplifiedBaseballState().game, log: ['Welcome to <Great American> Ball Park!'] }
+        });
+      }
+      return createMockSimplifiedBaseballState({
+        currentPlay: currentPlay + 1,
+        playDescription: `Description of play ${currentPlay}`,
+        game: { ...createMockSimplifiedBaseballState().game, log: [`Commentary for play ${currentPlay}`] }
+      });
+    });
+
+    service = new GameTranscriptService({
+      gamePlaybackService: { getNextPlay: mockGetNextPlay } as unknown as IGamePlaybackService,
+      playDataService: { fetchAllPlaysForGame: jest.fn().mockResolvedValue(plays) } as unknown as IPlayDataService
+    });
+  });
+
+  describe('generateTranscript', () => {
+    it('plays the game on one session and groups plays by half-inning', async () => {
+      const transcript = await service.generateTranscript(GAME_ID, { skipLLM: true, announcerStyle: 'poetic' });
+
+      const sessionIds = new Set(mockGetNextPlay.mock.calls.map(call => call[1]));
+      expect(sessionIds.size).toBe(1);
+      expect(mockGetNextPlay.mock.calls.map(call => call[2])).toEqual([0, 1, 2, 3]);
+      expect(mockGetNextPlay).toHaveBeenCalledWith(GAME_ID, expect.any(String), 1, {
+        skipLLM: true,
+        announcerStyle: 'poetic'
+      });
+
+      expect(transcript.title).toBe('Pittsburgh Pirates at Cincinnati Reds');
+      expect(transcript.introduction).toEqual(['Welcome to <Great American> Ball Park!']);
+      expect(transcript.halfInnings.map(h => [h.inning, h.half, h.plays.length])).toEqual([
+        [1, 'top', 2],
+        [1, 'bottom', 1],
+        [9, 'top', 1]
+      ]);
+      expect(transcript.halfInnings[0].plays[1]).toMatchObject({
+        playIndex: 2,
+        description: 'Description of play 2',
+        commentary: ['Commentary for play 2'],
+        runs: 2,
+        score: { visitors: 2, home: 0 }
+      });
+    });
+
+    it('describes the final play with translateEvent alone', async () => {
+      const transcript = await service.generateTranscript(GAME_ID);
+      const lastPlay = transcript.halfInnings[2].plays[0];
+
+      expect(mockGetNextPlay).not.toHaveBeenCalledWith(GAME_ID, expect.any(String), 4, expect.anything());
+      expect(lastPlay.commentary).toEqual([]);
+      expect(lastPlay.description.length).toBeGreaterThan(0);
+    });
+
+    it('builds the linescore from the plays', async () => {
+      const { linescore } = await service.generateTranscript(GAME_ID);
+
+      expect(linescore.innings).toBe(9);
+      expect(linescore.visitors).toMatchObject({ teamId: 'PIT', runs: 2, hits: 2, errors: 1 });
+      expect(linescore.visitors.runsByInning).toEqual([2, null, null, null, null, null, null, null, 0]);
+      expect(linescore.home).toMatchObject({ teamId: 'CIN', runs: 0, hits: 0, errors: 0 });
+      expect(linescore.home.runsByInning[8]).toBeNull();
+    });
+
+    it('stops before upToPlay without giving away the rest of the game', async () => {
+      const transcript = await service.generateTranscript(GAME_ID, {}, 3);
+
+      expect(mockGetNextPlay.mock.calls.map(call => call[2])).toEqual([0, 1, 2]);
+      expect(transcript.upToPlay).toBe(3);
+      expect(transcript.halfInnings.flatMap(h => h.plays.map(play => play.playIndex))).toEqual([1, 2]);
+      expect(transcript.halfInnings[0].plays[1].commentary).toEqual(['Commentary for play 2']);
+      expect(transcript.linescore).toMatchObject({ complete: false, visitors: { runs: 2 }, home: { runs: 0 } });
+      expect(service.render(transcript, 'md')).toContain('## Linescore So Far');
+    });
+
+    it('plays a simulated game with the plays and playback service of that game', async () => {
+      const simulatedGameId = 'SIM-5b7f3a52-3c1e-4a8e-9a43-1f0c6d2b8e11';
+      simulatedGameStore.save({
+        gameId: simulatedGameId,
+        plays: plays.map(play => ({ ...play, gid: simulatedGameId }))
+      } as SimulatedGame);
+      jest.mocked(GamePlaybackService.forGame).mockReturnValue(
+        { getNextPlay: mockGetNextPlay } as unknown as GamePlaybackService
+      );
+
+      try {
+        const transcript = await new GameTranscriptService().generateTranscript(simulatedGameId);
+
+        expect(GamePlaybackService.forGame).toHaveBeenCalledWith(simulatedGameId);
+        expect(PlayDataService.getInstance).not.toHaveBeenCalled();
+        expect(mockGetNextPlay.mock.calls.map(call => call[2])).toEqual([0, 1, 2, 3]);
+        expect(transcript.halfInnings.flatMap(h => h.plays.map(play => play.playIndex))).toEqual([1, 2, 3, 4]);
+        expect(transcript.linescore.complete).toBe(true);
+      } finally {
+        simulatedGameStore.delete(simulatedGameId);
+      }
+    });
+  });
+
+  describe('render', () => {
+    it('renders Markdown with inning headers and a linescore table', async () => {
+      const markdown = service.render(await service.generateTranscript(GAME_ID), 'md');
+
+      expect(markdown).toContain('# Pittsburgh Pirates at Cincinnati Reds');
+      expect(markdown).toContain('## Top of the 1st: Pittsburgh Pirates batting');
+      expect(markdown).toContain('## Bottom of the 1st: Cincinnati Reds batting');
+      expect(markdown).toContain('> Commentary for play 2');
+      expect(markdown).toContain('_Score: Pittsburgh Pirates 2, Cincinnati Reds 0_');
+      expect(markdown).toContain('| Pittsburgh Pirates | 2 | X | X | X | X | X | X | X | 0 | 2 | 2 | 1 |');
+    });
+
+    it('renders escaped HTML', async () => {
+      const html = service.render(await service.generateTranscript(GAME_ID), 'html');
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('<p>Welcome to &lt;Great American&gt; Ball Park!</p>');
+      expect(html).toContain('<h2>Top of the 9th: Pittsburgh Pirates batting</h2>');
+      expect(html).toContain('<table class="linescore">');
+    });
+
+    it('renders JSON that parses back to the transcript', async () => {
+      const transcript = await service.generateTranscript(GAME_ID);
+
+      expect(JSON.parse(service.render(transcript, 'json'))).toEqual(transcript);
+    });
+  });
+
+  describe('ordinal', () => {
+    it('formats inning numbers', () => {
+      expect([1, 2, 3, 4, 11, 12, 13, 21, 22].map(ordinal))
+        .toEqual(['1st', '2nd', '3rd', '4th', '11th', '12th', '13th', '21st', '22nd']);
+    });
+  });
+});
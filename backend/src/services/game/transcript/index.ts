@@ -0,0 +1,2 @@
+export { GameTranscriptService, GameTranscriptDependencies } from './GameTranscriptService';
+export { renderTranscriptMarkdown, renderTranscriptHtml } from './transcriptRenderers';
@@ -0,0 +1,175 @@
+import {
+  GameTranscript,
+  TranscriptHalfInning,
+  TranscriptPlay
+} from '../../../../../common/types/TranscriptTypes';
+import { Linescore, LinescoreLine } from '../../../../../common/types/LinescoreTypes';
+
+/**
+ * Renderers that turn a GameTranscript into a downloadable document
+ */
+
+/**
+ * Formats an inning number as an ordinal (1st, 2nd, 3rd, 11th, ...)
+ */
+export function ordinal(n: number): string {
+  const lastTwo = n % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) {
+    return `${n}th`;
+  }
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+}
+
+function halfInningTitle(halfInning: TranscriptHalfInning): string {
+  const half = halfInning.half === 'top' ? 'Top' : 'Bottom';
+  return `${half} of the ${ordinal(halfInning.inning)}: ${halfInning.battingTeam} batting`;
+}
+
+function scoreLine(transcript: GameTranscript, play: TranscriptPlay): string {
+  const { visitors, home } = transcript.linescore;
+  return `${visitors.name} ${play.score.visitors}, ${home.name} ${play.score.home}`;
+}
+
+/**
+ * Half-innings without plays are marked X when they were not needed, and left
+ * blank in a transcript that stops before the end of the game
+ */
+function linescoreCells(line: LinescoreLine, complete: boolean): string[] {
+  return [
+    line.name,
+    ...line.runsByInning.map(runs => (runs === null ? (complete ? 'X' : '') : String(runs))),
+    String(line.runs),
+    String(line.hits),
+    String(line.errors)
+  ];
+}
+
+function linescoreHeader(linescore: Linescore): string[] {
+  return ['', ...Array.from({ length: linescore.innings }, (_, i) => String(i + 1)), 'R', 'H', 'E'];
+}
+
+function linescoreTitle(linescore: Linescore): string {
+  return linescore.complete ? 'Final' : 'Linescore So Far';
+}
+
+/**
+ * Renders a transcript as Markdown
+ * @param transcript The transcript
+ * @returns The Markdown document
+ */
+export function renderTranscriptMarkdown(transcript: GameTranscript): string {
+  const lines: string[] = [
+    `# ${transcript.title}`,
+    '',
+    `_Game ${transcript.gameId}, ${transcript.announcerStyle} commentary, generated ${transcript.generatedAt}_`,
+    ''
+  ];
+
+  if (transcript.introduction.length > 0) {
+    lines.push('## Pregame', '', ...transcript.introduction.flatMap(line => [line, '']));
+  }
+
+  for (const halfInning of transcript.halfInnings) {
+    lines.push(`## ${halfInningTitle(halfInning)}`, '');
+    for (const play of halfInning.plays) {
+      lines.push(`**${play.description}**${play.eventString ? ` \`${play.eventString}\`` : ''}`, '');
+      for (const commentary of play.commentary) {
+        lines.push(`> ${commentary}`, '');
+      }
+      if (play.runs > 0) {
+        lines.push(`_Score: ${scoreLine(transcript, play)}_`, '');
+      }
+    }
+  }
+
+  const { linescore } = transcript;
+  const header = linescoreHeader(linescore);
+  lines.push(
+    `## ${linescoreTitle(linescore)}`,
+    '',
+    `| ${header.join(' | ')} |`,
+    `| ${header.map((_, i) => (i === 0 ? '---' : ':-:')).join(' | ')} |`,
+    `| ${linescoreCells(linescore.visitors, linescore.complete).join(' | ')} |`,
+    `| ${linescoreCells(linescore.home, linescore.complete).join(' | ')} |`,
+    ''
+  );
+
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders a transcript as a standalone HTML page
+ * @param transcript The transcript
+ * @returns The HTML document
+ */
+export function renderTranscriptHtml(transcript: GameTranscript): string {
+  const body: string[] = [
+    `<h1>${escapeHtml(transcript.title)}</h1>`,
+    `<p class="meta">Game ${escapeHtml(transcript.gameId)}, ${escapeHtml(transcript.announcerStyle)} commentary, generated ${escapeHtml(transcript.generatedAt)}</p>`
+  ];
+
+  if (transcript.introduction.length > 0) {
+    body.push('<h2>Pregame</h2>', ...transcript.introduction.map(line => `<p>${escapeHtml(line)}</p>`));
+  }
+
+  for (const halfInning of transcript.halfInnings) {
+    body.push(`<h2>${escapeHtml(halfInningTitle(halfInning))}</h2>`);
+    for (const play of halfInning.plays) {
+      body.push('<div class="play">');
+      body.push(`<p class="description">${escapeHtml(play.description)}${play.eventString ? ` <code>${escapeHtml(play.eventString)}</code>` : ''}</p>`);
+      body.push(...play.commentary.map(line => `<blockquote>${escapeHtml(line)}</blockquote>`));
+      if (play.runs > 0) {
+        body.push(`<p class="score">Score: ${escapeHtml(scoreLine(transcript, play))}</p>`);
+      }
+      body.push('</div>');
+    }
+  }
+
+  const { linescore } = transcript;
+  const row = (cells: string[], tag: 'th' | 'td') =>
+    `<tr>${cells.map(cell => `<${tag}>${escapeHtml(cell)}</${tag}>`).join('')}</tr>`;
+  body.push(
+    `<h2>${linescoreTitle(linescore)}</h2>`,
+    '<table class="linescore">',
+    row(linescoreHeader(linescore), 'th'),
+    row(linescoreCells(linescore.visitors, linescore.complete), 'td'),
+    row(linescoreCells(linescore.home, linescore.complete), 'td'),
+    '</table>'
+  );
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(transcript.title)}</title>`,
+    '<style>',
+    'body { font-family: Georgia, serif; max-width: 760px; margin: 2em auto; line-height: 1.5; }',
+    '.meta, .score { color: #666; font-style: italic; }',
+    'blockquote { margin: 0.5em 1.5em; }',
+    '.linescore { border-collapse: collapse; }',
+    '.linescore th, .linescore td { border: 1px solid #999; padding: 2px 8px; text-align: center; }',
+    '.linescore td:first-child { text-align: left; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
@@ -8,13 +8,36 @@
  */
 
 import { PlayData, PlayDataResult } from '../../../../common/types/PlayData';
-import { BaseballState } from '../../../../common/types/BaseballTypes';
+import { BaseballState, LogEntry, Player } from '../../../../common/types/BaseballTypes';
 import { SimplifiedBaseballState } from '../../../../common/types/SimplifiedBaseballState';
+import { PartyClientMessage, PartyServerMessage, PartySnapshot } from '../../../../common/types/WatchPartyTypes';
+import { BoxScore } from '../../../../common/types/BoxScoreTypes';
+import { GameSearchCriteria, GameSearchResponse, GameSortField } from '../../../../common/types/GameSearchTypes';
+import { GameFork } from '../../../../common/types/ApiTypes';
+import { RunExpectancyMatrix } from '../../../../common/types/RunExpectancyTypes';
+import { WinProbabilitySeries } from '../../../../common/types/WinProbabilityTypes';
+import {
+  GameExcitement,
+  RecommendedGamesCriteria,
+  RecommendedGamesResponse
+} from '../../../../common/types/GameExcitementTypes';
 
 // Re-export types that are commonly used with these interfaces
 export { PlayData, PlayDataResult } from '../../../../common/types/PlayData';
-export { BaseballState } from '../../../../common/types/BaseballTypes';
+export { BaseballState, BoothSpeaker, LogEntry, Player, SpokenLine } from '../../../../common/types/BaseballTypes';
 export { SimplifiedBaseballState } from '../../../../common/types/SimplifiedBaseballState';
+export { PartyClientMessage, PartyServerMessage, PartySnapshot } from '../../../../common/types/WatchPartyTypes';
+export { BoxScore } from '../../../../common/types/BoxScoreTypes';
+export { GameSearchCriteria, GameSearchResponse, GameSortField } from '../../../../common/types/GameSearchTypes';
+export { GameFork } from '../../../../common/types/ApiTypes';
+export { BaseState, RunExpectancyMatrix, RunExpectancyState } from '../../../../common/types/RunExpectancyTypes';
+export { WinProbabilityPoint, WinProbabilitySeries } from '../../../../common/types/WinProbabilityTypes';
+export {
+  GameExcitement,
+  RecommendedGame,
+  RecommendedGamesCriteria,
+  RecommendedGamesResponse
+} from '../../../../common/types/GameExcitementTypes';
 
 /**
  * Player information returned by player services
@@ -41,6 +64,35 @@ export interface ScoreResult {
  */
 export type AnnouncerStyle = 'classic' | 'modern' | 'enthusiastic' | 'poetic';
 
+/**
+ * AI adapters commentary can be generated with (see AIAdapterFactory)
+ * - openai: the OpenAI API
+ * - openai-compatible: any OpenAI-compatible endpoint, see config.openaiCompatible
+ * - template: offline calls from phrase templates
+ */
+export type AIProvider = 'openai' | 'openai-compatible' | 'template';
+
+/**
+ * When commentary logged to openai_completions_log is reused for a play
+ * instead of calling the AI adapter again
+ * - reuse: always, however old the logged call
+ * - reuseIfFresh: if logged within config.commentaryCache.maxAgeMs
+ * - regenerate: never; the play is called again
+ */
+export type CommentaryCachePolicy = 'reuse' | 'reuseIfFresh' | 'regenerate';
+
+/**
+ * What a play's call is cached by: the same play, called by the same
+ * announcer, from the same prompt, by the same model
+ */
+export interface CommentaryCacheKey {
+  gameId: string;
+  playIndex: number;
+  announcerStyle: AnnouncerStyle;
+  promptHash: string;
+  model: string;
+}
+
 // =============================================================================
 // Service Interfaces
 // =============================================================================
@@ -162,6 +214,13 @@ export interface IPlayDataService {
    * @returns The play data for the batter, or null if not found
    */
   fetchPlayForBatter(gameId: string, batter: string): Promise<PlayData | null>;
+
+  /**
+   * Fetches every play for a game in play order
+   * @param gameId The game ID
+   * @returns All plays for the game
+   */
+  fetchAllPlaysForGame(gameId: string): Promise<PlayData[]>;
 }
 
 /**
@@ -195,6 +254,10 @@ export interface ICommentaryService {
    * @param skipLLM Whether to skip LLM calls (for testing)
    * @param gameId The game ID
    * @param announcerStyle Optional announcer style
+   * @param skippedPlays The plays skipped to reach this one, for commentary that bridges the gap
+   * @param aiProvider The AI adapter to use instead of the service's own
+   * @param commentaryCache When to reuse the play's logged call; defaults to config.commentaryCache.policy
+   * @param booth Whether a color analyst joins the announcer, tagging each line with its speaker
    * @returns Array of commentary lines
    */
   generateDetailedPlayCompletion(
@@ -203,8 +266,12 @@ export interface ICommentaryService {
     currentPlayIndex: number,
     skipLLM: boolean,
     gameId: string,
-    announcerStyle?: AnnouncerStyle
-  ): Promise<string[]>;
+    announcerStyle?: AnnouncerStyle,
+    skippedPlays?: SkippedPlays,
+    aiProvider?: AIProvider,
+    commentaryCache?: CommentaryCachePolicy,
+    booth?: boolean
+  ): Promise<LogEntry[]>;
 
   /**
    * Sets the AI adapter to use for generating completions
@@ -213,6 +280,21 @@ export interface ICommentaryService {
   setAIAdapter(adapterName: string): void;
 }
 
+/**
+ * Interface for CommentaryCacheService
+ *
+ * Finds the logged call of a play to reuse instead of calling the AI adapter.
+ */
+export interface ICommentaryCacheService {
+  /**
+   * Finds the logged call of a play, if the policy allows reusing it
+   * @param key The play, announcer style, prompt and model of the call
+   * @param policy When to reuse a logged call; defaults to config.commentaryCache.policy
+   * @returns The call, or null to call the play again
+   */
+  findCommentary(key: CommentaryCacheKey, policy?: CommentaryCachePolicy): Promise<string | null>;
+}
+
 /**
  * Interface for LineupService
  *
@@ -240,13 +322,27 @@ export interface ILineupService {
    * @param sessionId The session ID
    * @param currentPlayData The current play data
    * @param nextPlayData The next play data
+   * @returns True if a substitution or other lineup change was detected
    */
   processLineupChanges(
     gameId: string,
     sessionId: string,
     currentPlayData: PlayData,
     nextPlayData: PlayData
-  ): Promise<void>;
+  ): Promise<boolean>;
+
+  /**
+   * Discards the lineup states recorded after a play for a session
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   * @param playIndex The last play index whose lineup state should be kept
+   * @returns The number of lineup states deleted
+   */
+  rollbackLineupChanges(
+    gameId: string,
+    sessionId: string,
+    playIndex: number
+  ): Promise<number>;
 
   /**
    * Gets the next batter for a team
@@ -446,6 +542,232 @@ export interface ITeamStatsRepository {
   getStartingPitcher(gameId: string, teamId: string): Promise<string | null>;
 }
 
+/**
+ * A gameinfo row returned by a game search, with the innings played and the
+ * final score margin computed in SQL
+ */
+export interface GameInfoRow {
+  gid: string;
+  date: string | Date;
+  number: number;
+  season: number;
+  site: string;
+  hometeam: string;
+  visteam: string;
+  hruns: number;
+  vruns: number;
+  attendance: number | null;
+  innings: number;
+  margin: number;
+}
+
+/**
+ * Sorting and paging of a game search, already validated
+ */
+export interface GameSearchQuery {
+  sort: { field: GameSortField; direction: 'asc' | 'desc' };
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Interface for GameSearchRepository
+ *
+ * Thin data access layer for searching the gameinfo table.
+ */
+export interface IGameSearchRepository {
+  /**
+   * Finds the games matching the criteria
+   * @param criteria The filters to apply
+   * @param query How to sort the games, and which page to return
+   * @returns One page of matching games and the total number of matches
+   */
+  searchGames(criteria: GameSearchCriteria, query: GameSearchQuery): Promise<{ rows: GameInfoRow[]; total: number }>;
+}
+
+/**
+ * A team's starting lineup in a game, with the starting fielder at every position
+ * and the season of the game
+ */
+export interface LatestLineupRow extends TeamStatsData {
+  gid: string;
+  season: number;
+  start_f2: string;
+  start_f3: string;
+  start_f4: string;
+  start_f5: string;
+  start_f6: string;
+  start_f7: string;
+  start_f8: string;
+  start_f9: string;
+}
+
+/**
+ * Number of plays with an event string, for one player or the whole league
+ */
+export interface EventCountRow {
+  playerId?: string;
+  event: string;
+  count: number;
+}
+
+/**
+ * Interface for SimulationRepository
+ *
+ * Thin data access layer for the lineups and play-by-play event counts that
+ * simulated games are drawn from.
+ */
+export interface ISimulationRepository {
+  /**
+   * Gets a team's starting lineup in its most recent game
+   * @param teamId The team ID
+   * @param season Only consider games of this season; omit for the latest game on record
+   * @returns The lineup, or null if the team has no games
+   */
+  getLatestLineup(teamId: string, season?: number): Promise<LatestLineupRow | null>;
+
+  /**
+   * Counts the events of players' plays in a season
+   * @param role Whether to count the plays the players batted or pitched in
+   * @param playerIds The player IDs
+   * @param season The season
+   * @returns One row per player and event string
+   */
+  getPlayerEventCounts(role: 'batter' | 'pitcher', playerIds: string[], season: number): Promise<EventCountRow[]>;
+
+  /**
+   * Counts the events of every play in a season
+   * @param season The season
+   * @returns One row per event string
+   */
+  getLeagueEventCounts(season: number): Promise<EventCountRow[]>;
+}
+
+/**
+ * Plays that started in a base-out state and the runs scored from them to the
+ * end of their half-inning, summed over a range of seasons
+ */
+export interface BaseOutRunsRow {
+  bases: string;       // Base state code, e.g. "1_3"
+  outs: number;
+  occurrences: number;
+  runs: number;
+}
+
+/**
+ * A row of the run_expectancy table: one base-out state of a season range
+ */
+export interface RunExpectancyRow {
+  start_season: number;
+  end_season: number;
+  bases: string;
+  outs: number;
+  occurrences: number;
+  runs: number;
+  run_expectancy: number;
+  computed_at: Date;
+}
+
+/**
+ * Interface for RunExpectancyRepository
+ *
+ * Thin data access layer for the run totals of base-out states in the plays
+ * table and the run expectancy tables computed from them.
+ */
+export interface IRunExpectancyRepository {
+  /**
+   * Sums the runs scored from every base-out state to the end of the
+   * half-inning, over the complete half-innings of a range of seasons
+   * @param startSeason The first season
+   * @param endSeason The last season
+   * @returns One row per base-out state that occurred
+   */
+  getBaseOutRuns(startSeason: number, endSeason: number): Promise<BaseOutRunsRow[]>;
+
+  /**
+   * Gets a stored run expectancy table
+   * @param startSeason The first season
+   * @param endSeason The last season
+   * @returns The table's rows; empty if it has not been computed
+   */
+  getRunExpectancy(startSeason: number, endSeason: number): Promise<RunExpectancyRow[]>;
+
+  /**
+   * Stores a run expectancy table, replacing any stored for its seasons
+   * @param rows The rows of one season range
+   */
+  saveRunExpectancy(rows: RunExpectancyRow[]): Promise<void>;
+}
+
+/**
+ * A row of the game_excitement table: the excitement of one game
+ */
+export interface GameExcitementRow {
+  gid: string;
+  score: number;
+  lead_changes: number;
+  comeback_runs: number;
+  extra_innings: number;
+  wp_swing: number;
+  no_hit_innings: number;
+}
+
+/**
+ * Interface for GameExcitementRepository
+ *
+ * Thin data access layer for the excitement scores stored with the games of
+ * the gameinfo table.
+ */
+export interface IGameExcitementRepository {
+  /**
+   * Finds the games of a season that have no stored excitement score
+   * @param season The season
+   * @param team Only games of this team, home or away
+   * @returns The game IDs
+   */
+  findUnscoredGameIds(season: number, team?: string): Promise<string[]>;
+
+  /**
+   * Stores the excitement of games, replacing any stored for them
+   * @param rows One row per game
+   */
+  saveExcitement(rows: GameExcitementRow[]): Promise<void>;
+
+  /**
+   * Finds the scored games of a season with the highest excitement scores
+   * @param season The season
+   * @param team Only games of this team, home or away
+   * @param limit The most games to return
+   * @returns The games, most exciting first
+   */
+  findMostExciting(season: number, team: string | undefined, limit: number): Promise<(GameInfoRow & GameExcitementRow)[]>;
+}
+
+/**
+ * A completion logged to the openai_completions_log table, as read back for
+ * the commentary cache
+ */
+export interface CompletionLogRow {
+  id: number;
+  content: string;
+  created_at: Date;
+}
+
+/**
+ * Interface for CompletionLogRepository
+ *
+ * Thin data access layer for the completions logged by the AI adapters.
+ */
+export interface ICompletionLogRepository {
+  /**
+   * Finds the latest completion logged for a play
+   * @param key The play, announcer style, prompt hash and model of the completion
+   * @param loggedSince Only completions logged at or after this time
+   * @returns The completion, or null if none was logged
+   */
+  findLatestCompletion(key: CommentaryCacheKey, loggedSince?: Date): Promise<CompletionLogRow | null>;
+}
+
 // =============================================================================
 // Lineup Tracking Interfaces (from lineupTracking.ts)
 // =============================================================================
@@ -542,22 +864,158 @@ export interface ILineupTrackingService {
 // GamePlaybackService Interface
 // =============================================================================
 
+/**
+ * Playback modes that skip ahead to the next highlight instead of playing
+ * every play; see MODE_CRITERIA in playback/highlights.ts
+ */
+export type PlaybackMode = 'condensed' | 'highlights';
+
+/**
+ * Kinds of plays playback stops at in the condensed and highlights modes
+ * - scoringPlay: one or more runs score
+ * - homeRun: the batter homers
+ * - leadChange: a team takes a lead it did not have before the play
+ * - outAtHome: a runner is thrown out at the plate
+ * - pitchingChange: a new pitcher faces their first batter
+ * - finalOut: the last play called, which brings playback to the end of the game
+ */
+export type HighlightCriterion = 'scoringPlay' | 'homeRun' | 'leadChange' | 'outAtHome' | 'pitchingChange' | 'finalOut';
+
 /**
  * Options for getNextPlay
  */
 export interface NextPlayOptions {
   skipLLM?: boolean;
   announcerStyle?: AnnouncerStyle;
+  aiProvider?: AIProvider;                 // Defaults to the session's, then the commentary service's
+  commentaryCache?: CommentaryCachePolicy; // Defaults to config.commentaryCache.policy
+  booth?: boolean;                         // Add a color analyst to the play-by-play announcer
+  mode?: PlaybackMode;                     // Skip ahead to the next highlight; every play when unset
+  highlightCriteria?: HighlightCriterion[]; // Overrides the plays the mode stops at
+}
+
+/**
+ * What happened in the plays skipped to reach a highlight
+ */
+export interface SkippedPlays {
+  count: number;
+  from: { inning: number; isTopInning: boolean }; // Half-inning of the first skipped play
+  to: { inning: number; isTopInning: boolean };   // Half-inning of the last skipped play
+  runs: { home: number; visitors: number };
+  hits: { home: number; visitors: number };
+}
+
+/**
+ * Builds the opening state of a game for GamePlaybackService. Replays use the
+ * functions in gameInitialization.ts; simulated games provide their own.
+ */
+export interface IGameInitializer {
+  fetchFirstPlay(gameId: string): Promise<PlayData>;
+  generateInitializationCompletion(gameId: string, sessionId: string, skipLLM: boolean): Promise<string[]>;
+  initializeLineupTracking(gameId: string, sessionId: string): Promise<void>;
+  constructInitialGameState(
+    gameId: string,
+    sessionId: string,
+    firstPlay: PlayData,
+    logEntries: string[]
+  ): Promise<BaseballState>;
+}
+
+/**
+ * Target of a seek operation.
+ * Either a play number, or an inning with an optional half (defaults to the top).
+ */
+export interface SeekTarget {
+  playIndex?: number;
+  inning?: number;
+  half?: 'top' | 'bottom';
 }
 
 /**
- * Game state for playback (for future session management)
+ * Game state for playback, as persisted by the playback session store
  */
 export interface GamePlaybackState {
   gameId: string;
   sessionId: string;
   currentPlayIndex: number;
   baseballState: SimplifiedBaseballState;
+  announcerStyle: AnnouncerStyle;
+  aiProvider?: AIProvider; // Last AI adapter requested for the session, used until another is requested
+  log: LogEntry[]; // Every log entry generated so far in the session, oldest first
+  updatedAt: Date;
+}
+
+/**
+ * Interface for PlaybackSessionStore
+ *
+ * Persists the last playback state of each (gameId, sessionId) pair so that
+ * playback can be resumed without the client resending currentPlay.
+ */
+export interface IPlaybackSessionStore {
+  /**
+   * Gets the stored state for a session
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   * @returns The stored state or null if the session is unknown
+   */
+  get(gameId: string, sessionId: string): Promise<GamePlaybackState | null>;
+
+  /**
+   * Creates or replaces the stored state for a session
+   * @param state The state to store
+   */
+  save(state: GamePlaybackState): Promise<void>;
+
+  /**
+   * Deletes the stored state for a session
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   * @returns True if a session was deleted
+   */
+  delete(gameId: string, sessionId: string): Promise<boolean>;
+}
+
+/**
+ * Interface for CommentaryPrefetcher
+ *
+ * Generates the commentary of the plays a session is about to reach in the
+ * background, and buffers it for getNextPlay.
+ */
+export interface ICommentaryPrefetcher {
+  /**
+   * Starts generating the commentary of upcoming plays that is not buffered yet
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   * @param settingsKey What the commentary depends on besides the play, such
+   * as the announcer style; a different key discards what is buffered
+   * @param playIndexes The upcoming plays, in the order they will be reached
+   * @param generate Generates the commentary of a play
+   */
+  prefetch(
+    gameId: string,
+    sessionId: string,
+    settingsKey: string,
+    playIndexes: number[],
+    generate: (playIndex: number) => Promise<LogEntry[]>
+  ): void;
+
+  /**
+   * Takes the buffered commentary of a play, waiting for it if it is still
+   * being generated
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   * @param settingsKey The settings the commentary must have been generated with
+   * @param playIndex The play
+   * @returns The commentary, or null if none was prefetched or it failed
+   */
+  take(gameId: string, sessionId: string, settingsKey: string, playIndex: number): Promise<LogEntry[] | null>;
+
+  /**
+   * Discards the commentary buffered for a session
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   */
+  invalidate(gameId: string, sessionId: string): void;
 }
 
 /**
@@ -597,10 +1055,397 @@ export interface IGamePlaybackService {
   ): Promise<SimplifiedBaseballState>;
 
   /**
-   * Gets the current game state (for future session management)
+   * Gets the current game state of a session from the playback session store
    * @param gameId The game ID
    * @param sessionId The session ID
    * @returns The current game state
    */
   getCurrentGameState(gameId: string, sessionId: string): Promise<GamePlaybackState>;
+
+  /**
+   * Jumps to a play, inning or half-inning without generating commentary
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   * @param target The play or inning to jump to
+   * @param options Playback options (announcerStyle is recorded on the session)
+   * @returns The reconstructed simplified baseball state before the target play
+   */
+  seek(
+    gameId: string,
+    sessionId: string,
+    target: SeekTarget,
+    options?: NextPlayOptions
+  ): Promise<SimplifiedBaseballState>;
+
+  /**
+   * Steps back to the play before the current one without generating commentary.
+   * Lineup tracking rows recorded after that play are discarded for the session.
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   * @param currentPlayIndex The current play index
+   * @param options Playback options (announcerStyle is recorded on the session)
+   * @returns The reconstructed simplified baseball state before the previous play
+   */
+  getPreviousPlay(
+    gameId: string,
+    sessionId: string,
+    currentPlayIndex: number,
+    options?: NextPlayOptions
+  ): Promise<SimplifiedBaseballState>;
+}
+
+// =============================================================================
+// PlaybackStreamService Interface
+// =============================================================================
+
+/**
+ * How a playback stream decides when to push the next play.
+ * - fixed: wait delayMs (divided by speed) after each play
+ * - ack: wait until the client acknowledges that it finished typing the play
+ */
+export type StreamPacing = 'fixed' | 'ack';
+
+/**
+ * Options for starting a playback stream
+ */
+export interface StreamOptions extends NextPlayOptions {
+  pacing: StreamPacing;
+  delayMs: number;
+  speed: number;
+  startPlay: number; // Play index to pass to the first getNextPlay call
+}
+
+/**
+ * Events pushed to a stream consumer
+ */
+export type StreamEventType = 'play' | 'status' | 'end' | 'error';
+
+/**
+ * Receives the events of a playback stream (e.g. an SSE response)
+ */
+export interface StreamSink {
+  send(event: StreamEventType, data: unknown): void;
+  close(): void;
+}
+
+/**
+ * Control commands accepted by a running stream
+ */
+export type StreamControl =
+  | { action: 'pause' }
+  | { action: 'resume' }
+  | { action: 'ack' }
+  | { action: 'speed'; speed: number };
+
+/**
+ * Snapshot of a running stream
+ */
+export interface StreamStatus {
+  gameId: string;
+  sessionId: string;
+  currentPlay: number;
+  pacing: StreamPacing;
+  delayMs: number;
+  speed: number;
+  paused: boolean;
+}
+
+/**
+ * Interface for PlaybackStreamService
+ *
+ * Plays a game by itself: repeatedly calls getNextPlay and pushes each state to a
+ * sink, paced by a fixed delay or by client acknowledgements.
+ */
+export interface IPlaybackStreamService {
+  /**
+   * Starts streaming a game to a sink, replacing any stream already running for the session
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   * @param options Pacing and playback options
+   * @param sink The consumer of the stream events
+   * @returns The status of the new stream
+   */
+  startStream(gameId: string, sessionId: string, options: StreamOptions, sink: StreamSink): StreamStatus;
+
+  /**
+   * Applies a control command (pause, resume, ack, speed) to a running stream
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   * @param control The command to apply
+   * @returns The status of the stream after the command
+   */
+  controlStream(gameId: string, sessionId: string, control: StreamControl): StreamStatus;
+
+  /**
+   * Stops a running stream; does nothing if there is none
+   * @param gameId The game ID
+   * @param sessionId The session ID
+   * @param sink If given, the stream is only stopped while it still delivers to this sink
+   */
+  stopStream(gameId: string, sessionId: string, sink?: StreamSink): void;
+}
+
+// =============================================================================
+// WatchPartyService Interface
+// =============================================================================
+
+/**
+ * A member's connection to a watch party (e.g. a WebSocket)
+ */
+export interface PartyConnection {
+  send(message: PartyServerMessage): void;
+}
+
+/**
+ * Options for joining a watch party
+ */
+export interface PartyJoinOptions {
+  name: string;
+  gameId?: string; // Required when the party does not exist yet
+  announcerStyle?: AnnouncerStyle;
+}
+
+/**
+ * Interface for WatchPartyService
+ *
+ * Keeps a group of clients on one shared playback session. The host drives
+ * playback; every state and chat line is broadcast to all members.
+ */
+export interface IWatchPartyService {
+  /**
+   * Adds a member to a party, creating the party (with the member as host) if needed
+   * @param partyId The party ID
+   * @param options The member's display name and, for a new party, the game to watch
+   * @param connection Where to send the party's messages
+   * @returns The ID assigned to the new member
+   */
+  join(partyId: string, options: PartyJoinOptions, connection: PartyConnection): string;
+
+  /**
+   * Removes a member; the party is discarded when its last member leaves
+   * @param partyId The party ID
+   * @param memberId The member ID
+   */
+  leave(partyId: string, memberId: string): void;
+
+  /**
+   * Handles a message sent by a member
+   * @param partyId The party ID
+   * @param memberId The member ID
+   * @param message The client message
+   */
+  handleMessage(partyId: string, memberId: string, message: PartyClientMessage): Promise<void>;
+
+  /**
+   * Gets a snapshot of a party, or null if it does not exist
+   * @param partyId The party ID
+   */
+  getParty(partyId: string): PartySnapshot | null;
+}
+
+// =============================================================================
+// BoxScoreService Interface
+// =============================================================================
+
+/**
+ * Interface for BoxScoreService
+ *
+ * Computes batting lines and team totals from the plays table.
+ */
+export interface IBoxScoreService {
+  /**
+   * Computes the box score of a game
+   * @param gameId The game ID
+   * @param upToPlay Only count plays before this play index; omit for the whole game
+   * @returns The box score
+   */
+  getBoxScore(gameId: string, upToPlay?: number): Promise<BoxScore>;
+}
+
+// =============================================================================
+// GameSearchService Interface
+// =============================================================================
+
+/**
+ * Sorting, paging and display options for a game search, as given by the client
+ */
+export interface GameSearchOptions {
+  page?: number;
+  limit?: number;
+  sort?: string;
+  direction?: string;
+  spoilerFree?: boolean;    // Hide final scores, margins and innings played
+}
+
+/**
+ * Interface for GameSearchService
+ *
+ * Searches the games in the gameinfo table for a game picker.
+ */
+export interface IGameSearchService {
+  /**
+   * Finds games matching the criteria, with team display names and final scores
+   * @param criteria The filters to apply
+   * @param options Page, page size and sort order
+   * @returns One page of matching games
+   */
+  searchGames(criteria: GameSearchCriteria, options?: GameSearchOptions): Promise<GameSearchResponse>;
+
+  /**
+   * Recommends the most exciting games of a season
+   * @param criteria The season, and optionally a team, how many games to return
+   * and whether to hide results
+   * @returns The games with their excitement, most exciting first
+   */
+  getRecommendedGames(criteria: RecommendedGamesCriteria): Promise<RecommendedGamesResponse>;
+}
+
+// =============================================================================
+// RunExpectancyService Interface
+// =============================================================================
+
+/**
+ * Interface for RunExpectancyService
+ */
+export interface IRunExpectancyService {
+  /**
+   * Gets the run expectancy table of a season or a range of seasons
+   * @param startSeason The first season
+   * @param endSeason The last season; defaults to startSeason
+   * @returns The 24 base-out states and their run expectancies
+   */
+  getRunExpectancy(startSeason: number, endSeason?: number): Promise<RunExpectancyMatrix>;
+}
+
+// =============================================================================
+// WinProbabilityService Interface
+// =============================================================================
+
+/**
+ * Interface for WinProbabilityService
+ */
+export interface IWinProbabilityService {
+  /**
+   * Gets the home team's win probability before and after every play of a game
+   * @param gameId The game ID, of a replay or a simulated game
+   * @returns One point per play
+   */
+  getWinProbability(gameId: string): Promise<WinProbabilitySeries>;
+}
+
+// =============================================================================
+// ExcitementService Interface
+// =============================================================================
+
+/**
+ * Interface for ExcitementService
+ */
+export interface IExcitementService {
+  /**
+   * Computes how exciting a game was
+   * @param gameId The game ID
+   * @returns The game's excitement
+   */
+  getExcitement(gameId: string): Promise<GameExcitement>;
+
+  /**
+   * Finds the most exciting games of a season, scoring the games that have
+   * not been scored yet
+   * @param season The season
+   * @param team Only games of this team, home or away
+   * @param limit The most games to return
+   * @returns The games and their excitement, most exciting first
+   */
+  getMostExciting(
+    season: number,
+    team: string | undefined,
+    limit: number
+  ): Promise<{ game: GameInfoRow; excitement: GameExcitement }[]>;
+}
+
+// =============================================================================
+// SimulationService Interface
+// =============================================================================
+
+/**
+ * Options for a simulated game
+ */
+export interface SimulationOptions {
+  season?: number; // Season whose lineups and event distributions are used; defaults to the latest on record
+  seed?: number;   // Seed of the random number generator, to reproduce a simulation
+}
+
+/**
+ * A team in a simulated game: its starting lineup and the fielders behind the pitcher
+ */
+export interface SimulatedTeam {
+  id: string;
+  displayName: string;
+  shortName: string;
+  lineup: Player[];                 // Batting order
+  pitcher: Player;
+  fielders: Record<number, string>; // Player ID by fielding position 2-9
+}
+
+/**
+ * Options for forking a game
+ */
+export interface ForkOptions {
+  seed?: number; // Seed of the random number generator for the simulated rest of the game
+}
+
+/**
+ * A simulated game and the plays generated for it
+ */
+export interface SimulatedGame {
+  gameId: string;
+  season: number;
+  seed: number;
+  home: SimulatedTeam;
+  visitors: SimulatedTeam;
+  plays: PlayData[];
+  createdAt: Date;
+  fork?: GameFork; // Set for alternate timelines forked from another game
+}
+
+/**
+ * Interface for SimulationService
+ *
+ * Generates the plays of a game between any two teams by drawing each plate
+ * appearance from the players' event distributions in the plays table.
+ */
+export interface ISimulationService {
+  /**
+   * Simulates a game and keeps it for playback
+   * @param homeTeamId The home team ID
+   * @param visitingTeamId The visiting team ID
+   * @param options Season and random seed
+   * @returns The simulated game
+   */
+  createSimulation(homeTeamId: string, visitingTeamId: string, options?: SimulationOptions): Promise<SimulatedGame>;
+
+  /**
+   * Forks a game at a play: the play's outcome is replaced and the rest of
+   * the game is simulated from the altered situation
+   * @param parentGameId The game to fork, a replay or a simulated game
+   * @param parentSessionId The session forking the game
+   * @param playIndex The play whose outcome is replaced
+   * @param event The Retrosheet event to play instead
+   * @param options Random seed
+   * @returns The forked game
+   */
+  forkGame(
+    parentGameId: string,
+    parentSessionId: string,
+    playIndex: number,
+    event: string,
+    options?: ForkOptions
+  ): Promise<SimulatedGame>;
+
+  /**
+   * Gets a simulated game
+   * @param gameId The game ID
+   * @returns The game, or null if no simulation has this ID
+   */
+  getSimulation(gameId: string): SimulatedGame | null;
 }
@@ -0,0 +1,93 @@
+/**
+ * Play-by-Play Prompt Unit Tests
+ *
+ * These tests check that the prompt only tells the announcer what has happened
+ * up to the play being called, so the commentary cannot foreshadow later plays,
+ * and that the color analyst's prompt answers the announcer's call.
+ */
+
+import { createMockSimplifiedBaseballState } from '../../../test/utils';
+
+const mockGetLineupStateForPlay = jest.fn();
+jest.mock('../../game/lineupTracking', () => ({
+  getLineupStateForPlay: (...args: any[]) => mockGetLineupStateForPlay(...args)
+}));
+
+jest.mock('../../game/player/PlayerService', () => ({
+  PlayerService: {
+    getPlayersByIds: jest.fn(async () => new Map())
+  }
+}));
+
+import { generateColorCommentaryPrompt, generatePlayByPlayPrompt } from '../playByPlay';
+
+// Suppress noisy logs during tests
+beforeAll(() => { jest.spyOn(console, 'log').mockImplementation(() => {}); });
+afterAll(() => { jest.restoreAllMocks(); });
+
+describe('generatePlayByPlayPrompt', () => {
+  // As built by CommentaryService, both states are of the play being called
+  const beforeState = createMockSimplifiedBaseballState({ currentPlay: 42 });
+
+  // The state shown after the play already knows who comes up and pitches next
+  const afterState = createMockSimplifiedBaseballState({
+    currentPlay: 42,
+    home: {
+      ...beforeState.home,
+      currentPitcher: 'Relief Pitcher',
+      nextPitcher: 'Relief Pitcher'
+    },
+    visitors: {
+      ...beforeState.visitors,
+      nextBatter: 'Pinch Hitter'
+    }
+  });
+
+  beforeEach(() => {
+    mockGetLineupStateForPlay.mockReset().mockResolvedValue(null);
+  });
+
+  it('leaves out the next batter and pitcher', async () => {
+    const prompt = await generatePlayByPlayPrompt(afterState, beforeState);
+
+    expect(prompt).not.toContain('Pinch Hitter');
+    expect(prompt).not.toContain('Relief Pitcher');
+    expect(prompt).toContain('Pitcher: PITCHER_001 (Home Team)');
+  });
+
+  it('uses the lineups of the play being called', async () => {
+    await generatePlayByPlayPrompt(afterState, beforeState);
+
+    expect(mockGetLineupStateForPlay).toHaveBeenCalledWith('TEST_GAME_001', 'TEST_SESSION_001', 42);
+  });
+
+  it('tells the announcer not to foreshadow', async () => {
+    const prompt = await generatePlayByPlayPrompt(afterState, beforeState);
+
+    expect(prompt).toContain('you know nothing about what happens after this play');
+  });
+});
+
+describe('generateColorCommentaryPrompt', () => {
+  const beforeState = createMockSimplifiedBaseballState({ currentPlay: 42 });
+  const afterState = createMockSimplifiedBaseballState({
+    currentPlay: 42,
+    visitors: { ...beforeState.visitors, nextBatter: 'Pinch Hitter' }
+  });
+  const call = ['It\'s a long drive to left!', 'Gone!'];
+
+  it('quotes the announcer\'s call for the analyst of the announcer style', () => {
+    const prompt = generateColorCommentaryPrompt(afterState, beforeState, 'enthusiastic', call);
+
+    expect(prompt).toContain('You are Steve Stone');
+    expect(prompt).toContain('next to play-by-play announcer Harry Caray');
+    expect(prompt).toContain('It\'s a long drive to left!\nGone!');
+  });
+
+  it('leaves out the next batter and tells the analyst not to foreshadow', () => {
+    const prompt = generateColorCommentaryPrompt(afterState, beforeState, 'classic', call);
+
+    expect(prompt).not.toContain('Pinch Hitter');
+    expect(prompt).toContain('you know nothing about what happens after this play');
+  });
+});
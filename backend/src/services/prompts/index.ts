@@ -2,4 +2,4 @@
 export { generateInitGamePrompt } from './initGame';
 export { generateNextPlayPrompt } from './nextPlay';
 export { generateLineupAnnouncementPrompt } from './lineupAnnouncement';
-export { generatePlayByPlayPrompt } from './playByPlay';
+export { generatePlayByPlayPrompt, generateColorCommentaryPrompt, AlternateTimeline, PlayMoment } from './playByPlay';
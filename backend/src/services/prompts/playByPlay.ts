@@ -1,7 +1,12 @@
 import { SimplifiedBaseballState } from '../../../../common/types/SimplifiedBaseballState';
+import { LogEntry } from '../../../../common/types/BaseballTypes';
 import Handlebars from 'handlebars';
 import { getLineupStateForPlay } from '../game/lineupTracking';
 import { PlayerService } from '../game/player/PlayerService';
+import { MomentSize } from '../game/analytics/winProbability';
+import { LeverageLevel, classifyLeverage } from '../game/analytics/leverage';
+import { ordinal } from '../game/transcript/transcriptRenderers';
+import { SkippedPlays } from '../interfaces';
 
 /**
  * Announcer profile for play-by-play commentary
@@ -11,10 +16,47 @@ interface AnnouncerProfile {
   style: string;
   catchphrases: string[];
   era: string;
+  intensity: Record<LeverageLevel, string>; // How long and how excited a call is at each leverage level
+  analyst: ColorAnalystProfile;             // Partner in the two-voice booth
+}
+
+/**
+ * Color analyst who adds insight after the announcer's call in the two-voice booth
+ */
+interface ColorAnalystProfile {
+  name: string;
+  style: string;
+  focus: string; // What the analyst explains about a play
+}
+
+/**
+ * How a forked game departs from the game it was forked from, for commentary
+ * on plays of the alternate timeline
+ */
+export interface AlternateTimeline {
+  forkedAtPlay: number;
+  originalPlay: string;  // What actually happened at the fork play
+  alteredPlay: string;   // What happens instead
+  isForkPlay: boolean;   // True for the altered play itself
+}
+
+/**
+ * How big a moment a play is, by how much it changed the batting team's
+ * chances of winning
+ */
+export interface PlayMoment {
+  battingTeamBefore: number; // Batting team's win probability before the play, in percent
+  battingTeamAfter: number;  // And after the play
+  size: MomentSize;
+  leverageIndex: number;     // Leverage of the situation the play started in; 1 is average
 }
 
 /**
  * Extended baseball state with additional data needed for play-by-play
+ *
+ * Nothing in it may come from a later play: the announcer calls the game as it
+ * happens, so the next batter, a pitching change before the next play or the
+ * lineups at the next play would give away what comes next.
  */
 interface ExtendedBaseballState {
   announcer: AnnouncerProfile;
@@ -39,16 +81,12 @@ interface ExtendedBaseballState {
     onThird: string;
     homeRuns: number;
     visitorsRuns: number;
-    nextBatter: string | null;
-    currentPitcher: string | null;
   };
   home: {
     displayName: string;
     shortName: string;
     currentBatter: string | null;
     currentPitcher: string | null;
-    nextBatter: string | null;
-    nextPitcher: string | null;
     runs: number;
     lineup: Array<{
       name: string;
@@ -61,8 +99,6 @@ interface ExtendedBaseballState {
     shortName: string;
     currentBatter: string | null;
     currentPitcher: string | null;
-    nextBatter: string | null;
-    nextPitcher: string | null;
     runs: number;
     lineup: Array<{
       name: string;
@@ -73,7 +109,19 @@ interface ExtendedBaseballState {
   currentPlay: number;
   playDescription?: string;
   eventString?: string;
-  log: string[];
+  log: LogEntry[];
+  alternateTimeline?: AlternateTimeline;
+  moment?: PlayMoment & { guidance: string };
+  leverage?: {
+    index: string;          // Leverage index to one decimal
+    level: LeverageLevel;
+    isLow: boolean;
+    rule: string;           // The announcer's intensity rule for the level
+  };
+  skippedPlays?: SkippedPlays & {
+    fromHalfInning: string; // e.g. "the top of the 3rd"
+    toHalfInning: string;
+  };
 }
 
 /**
@@ -88,7 +136,17 @@ const DEFAULT_ANNOUNCERS: Record<string, AnnouncerProfile> = {
       'He\'s done it again!', 
       'That\'s one for the highlight reel'
     ],
-    era: '1980s-2010s'
+    era: '1980s-2010s',
+    intensity: {
+      high: 'Build the call: set the stakes, follow the action pitch by pitch and give the result its due. Four to six sentences, rising with the play.',
+      medium: 'Two or three crisp sentences: the situation, the play and what it means.',
+      low: 'One sentence. Call the play cleanly and move on.'
+    },
+    analyst: {
+      name: 'Tony Kubek',
+      style: 'Blunt, analytical, old-school infielder\'s eye',
+      focus: 'Fundamentals: positioning, footwork, the throw, and whether the play was made the right way'
+    }
   },
   'modern': {
     name: 'Joe Buck',
@@ -98,7 +156,17 @@ const DEFAULT_ANNOUNCERS: Record<string, AnnouncerProfile> = {
       'We will see you tomorrow night!', 
       'Unbelievable!'
     ],
-    era: '1990s-Present'
+    era: '1990s-Present',
+    intensity: {
+      high: 'Go big: short, punchy bursts that build with the action, then let the moment land. Four or five sentences.',
+      medium: 'Two or three quick sentences with some energy.',
+      low: 'One short line, no build-up.'
+    },
+    analyst: {
+      name: 'John Smoltz',
+      style: 'Conversational, confident, a pitcher\'s perspective',
+      focus: 'The pitcher-batter matchup: pitch selection, sequencing and what the hitter was looking for'
+    }
   },
   'enthusiastic': {
     name: 'Harry Caray',
@@ -108,7 +176,17 @@ const DEFAULT_ANNOUNCERS: Record<string, AnnouncerProfile> = {
       'It might be, it could be, it IS! A home run!', 
       'Cubs win! Cubs win!'
     ],
-    era: '1940s-1990s'
+    era: '1940s-1990s',
+    intensity: {
+      high: 'Let it all out: shout the call, reach for a catchphrase and revel in it with the fans. Four to six sentences.',
+      medium: 'Two or three lively sentences, with a folksy aside if it fits.',
+      low: 'One cheerful sentence; save the hollering for later.'
+    },
+    analyst: {
+      name: 'Steve Stone',
+      style: 'Sharp, dry, predictive, a foil to the excitement',
+      focus: 'Strategy: the count, the manager\'s options and what the situation called for'
+    }
   },
   'poetic': {
     name: 'Vin Scully',
@@ -118,10 +196,30 @@ const DEFAULT_ANNOUNCERS: Record<string, AnnouncerProfile> = {
       'In a year that has been so improbable, the impossible has happened!', 
       'It\'s time for Dodger baseball!'
     ],
-    era: '1950s-2010s'
+    era: '1950s-2010s',
+    intensity: {
+      high: 'Paint the whole scene: the crowd, the stakes, the action and what it will mean. Five to seven sentences, then let the moment breathe.',
+      medium: 'Three sentences, with a touch of storytelling.',
+      low: 'One graceful sentence, as if between stories.'
+    },
+    analyst: {
+      name: 'Orel Hershiser',
+      style: 'Thoughtful, detailed, a craftsman explaining the craft',
+      focus: 'The mechanics and the mental game behind the play: grips, timing and preparation'
+    }
   }
 };
 
+/**
+ * How to call a play of each size of moment
+ */
+const MOMENT_GUIDANCE: Record<MomentSize, string> = {
+  huge: 'This is one of the biggest moments of the game. Let the call rise to it.',
+  big: 'This play swings the game. Give it energy.',
+  notable: 'This play moves the needle. Note what it means for the game.',
+  routine: 'This play barely changes the game. Keep the call measured.'
+};
+
 /**
  * Register Handlebars helpers
  */
@@ -145,18 +243,31 @@ function registerHandlebarsHelpers() {
   });
 }
 
+/**
+ * Describes a half-inning, e.g. "the top of the 3rd"
+ */
+function describeHalfInning(halfInning: { inning: number; isTopInning: boolean }): string {
+  return `the ${halfInning.isTopInning ? 'top' : 'bottom'} of the ${ordinal(halfInning.inning)}`;
+}
+
 /**
  * Generate a play-by-play commentary prompt for OpenAI based on the baseball state before and after a play
  *
  * @param afterState - The baseball state after the play
  * @param beforeState - The baseball state before the play (optional, will use afterState as fallback)
  * @param announcerType - The type of announcer to use (classic, modern, enthusiastic, poetic)
+ * @param alternateTimeline - Set when the play belongs to a forked game's alternate timeline
+ * @param moment - How much the play changed the batting team's chances of winning, if known
+ * @param skippedPlays - The plays skipped to reach this one in a condensed playback mode
  * @returns A prompt string to send to OpenAI for play-by-play commentary generation
  */
 export async function generatePlayByPlayPrompt(
   afterState: SimplifiedBaseballState,
   beforeState: SimplifiedBaseballState | null = null,
-  announcerType: keyof typeof DEFAULT_ANNOUNCERS = 'classic'
+  announcerType: keyof typeof DEFAULT_ANNOUNCERS = 'classic',
+  alternateTimeline?: AlternateTimeline,
+  moment?: PlayMoment,
+  skippedPlays?: SkippedPlays
 ): Promise<string> {
   // Register Handlebars helpers
   registerHandlebarsHelpers();
@@ -179,6 +290,9 @@ export async function generatePlayByPlayPrompt(
   // If beforeState is not provided, use afterState as a fallback
   const stateBeforePlay = beforeState || afterState;
 
+  // The announcer's call grows with the leverage of the situation the play started in
+  const leverageLevel = moment && classifyLeverage(moment.leverageIndex);
+
   // Create extended state with defaults for missing data
   const extendedState: ExtendedBaseballState = {
     announcer: DEFAULT_ANNOUNCERS[announcerType],
@@ -206,21 +320,13 @@ export async function generatePlayByPlayPrompt(
       onSecond: afterState.game.onSecond || '',
       onThird: afterState.game.onThird || '',
       homeRuns: afterState.home.runs,
-      visitorsRuns: afterState.visitors.runs,
-      nextBatter: afterState.game.isTopInning ?
-        afterState.visitors.nextBatter :
-        afterState.home.nextBatter,
-      currentPitcher: afterState.game.isTopInning ?
-        afterState.home.currentPitcher :
-        afterState.visitors.currentPitcher
+      visitorsRuns: afterState.visitors.runs
     },
     home: {
       displayName: afterState.home.displayName,
       shortName: afterState.home.shortName,
       currentBatter: afterState.home.currentBatter,
       currentPitcher: afterState.home.currentPitcher,
-      nextBatter: afterState.home.nextBatter,
-      nextPitcher: afterState.home.nextPitcher,
       runs: afterState.home.runs,
       lineup: [] // Will be populated below
     },
@@ -229,15 +335,26 @@ export async function generatePlayByPlayPrompt(
       shortName: afterState.visitors.shortName,
       currentBatter: afterState.visitors.currentBatter,
       currentPitcher: afterState.visitors.currentPitcher,
-      nextBatter: afterState.visitors.nextBatter,
-      nextPitcher: afterState.visitors.nextPitcher,
       runs: afterState.visitors.runs,
       lineup: [] // Will be populated below
     },
     currentPlay: afterState.currentPlay,
     playDescription: afterState.playDescription || 'Unknown play',
     eventString: afterState.eventString || '',
-    log: afterState.game.log || []
+    log: afterState.game.log || [],
+    alternateTimeline,
+    moment: moment && { ...moment, guidance: MOMENT_GUIDANCE[moment.size] },
+    leverage: moment && leverageLevel && {
+      index: moment.leverageIndex.toFixed(1),
+      level: leverageLevel,
+      isLow: leverageLevel === 'low',
+      rule: DEFAULT_ANNOUNCERS[announcerType].intensity[leverageLevel]
+    },
+    skippedPlays: skippedPlays && {
+      ...skippedPlays,
+      fromHalfInning: describeHalfInning(skippedPlays.from),
+      toHalfInning: describeHalfInning(skippedPlays.to)
+    }
   };
 
   // Debug log the extended state
@@ -323,8 +440,6 @@ You are an experienced baseball announcer providing play-by-play commentary for
 - Outs: {{after.outs}}
 - Runners: {{#if after.onFirst}}Runner on first ({{after.onFirst}}){{/if}}{{#if after.onSecond}}{{#if after.onFirst}}, {{/if}}Runner on second ({{after.onSecond}}){{/if}}{{#if after.onThird}}{{#if after.onFirst}}{{#if after.onSecond}}, {{else}}, {{/if}}{{else}}{{#if after.onSecond}}, {{/if}}{{/if}}Runner on third ({{after.onThird}}){{/if}}{{#unless after.onFirst}}{{#unless after.onSecond}}{{#unless after.onThird}}Bases empty{{/unless}}{{/unless}}{{/unless}}
 - Score: {{home.displayName}} {{after.homeRuns}}, {{visitors.displayName}} {{after.visitorsRuns}}
-- Next batter: {{after.nextBatter}} ({{#if after.isTopInning}}{{visitors.displayName}}{{else}}{{home.displayName}}{{/if}})
-- Pitcher: {{after.currentPitcher}} ({{#if after.isTopInning}}{{home.displayName}}{{else}}{{visitors.displayName}}{{/if}})
 
 # Team Lineups
 ## {{home.displayName}} Lineup:
@@ -340,8 +455,40 @@ You are an experienced baseball announcer providing play-by-play commentary for
 # Play Result
 - Play description: {{playDescription}}
 - Event code: {{eventString}}
+{{#if moment}}
+
+# Size of the Moment
+- {{#if before.isTopInning}}{{visitors.displayName}}{{else}}{{home.displayName}}{{/if}} chances of winning: {{moment.battingTeamBefore}}% before the play, {{moment.battingTeamAfter}}% after
+- {{moment.guidance}}
+{{/if}}
+{{#if leverage}}
+
+# Call Length and Intensity
+- Leverage index: {{leverage.index}} ({{leverage.level}} leverage; 1.0 is an average plate appearance)
+- {{leverage.rule}}
+{{/if}}
+{{#if skippedPlays}}
+
+# Since the Last Call
+The broadcast has skipped ahead {{skippedPlays.count}} play(s) since your last call, from {{skippedPlays.fromHalfInning}} to {{skippedPlays.toHalfInning}}. In those plays:
+- {{visitors.displayName}}: {{skippedPlays.runs.visitors}} run(s) on {{skippedPlays.hits.visitors}} hit(s)
+- {{home.displayName}}: {{skippedPlays.runs.home}} run(s) on {{skippedPlays.hits.home}} hit(s)
+Open with one or two sentences catching the listener up on what happened in between, then call this play.
+{{/if}}
+{{#if alternateTimeline}}
+
+# Alternate Timeline
+This game is a "what if": at play {{alternateTimeline.forkedAtPlay}}, instead of "{{alternateTimeline.originalPlay}}", the result was "{{alternateTimeline.alteredPlay}}", and the game has gone on differently from there.
+{{#if alternateTimeline.isForkPlay}}
+This is that play. Call it as it happens here, and acknowledge that in the real game it went differently.
+{{else}}
+Call the play as it happens in this alternate timeline. You may note now and then how the game has departed from what really happened, but never describe the real game's later plays as if they happened here.
+{{/if}}
+{{/if}}
 
-Provide a play-by-play commentary that authentically captures the specified announcer's unique style, catchphrases, and era. Start by describing the state before the play (inning, score, outs, runners, batter, pitcher), then describe the action of the play, and finally mention the state after the play. Do not include any introductory text or phrases like "Here's the play-by-play" or "Let me describe what happened."
+Provide a play-by-play commentary that authentically captures the specified announcer's unique style, catchphrases, and era. {{#if leverage.isLow}}Describe only the action of the play and its result, keeping to the call length above.{{else}}Start by describing the state before the play (inning, score, outs, runners, batter, pitcher), then describe the action of the play, and finally mention the state after the play.{{#if leverage}} Keep to the call length above.{{/if}}{{/if}} Do not include any introductory text or phrases like "Here's the play-by-play" or "Let me describe what happened."
+
+Call the game as if it were live: you know nothing about what happens after this play. Never hint at, foreshadow or predict later plays, pitching changes or how the game ends.
 
 Mention the players involved by name and the outcome. Use varied language and authentic baseball terminology that would be appropriate for the announcer's era. Do not simply repeat the play description verbatim. Elaborate on what happened, add color commentary, and make it sound like a real baseball broadcast. Consider the context of the game situation when describing the play. If appropriate for the announcer, incorporate one of their catchphrases naturally into the commentary.
 `);
@@ -350,6 +497,86 @@ Mention the players involved by name and the outcome. Use varied language and au
   return promptTemplate(extendedState).trim();
 }
 
+/**
+ * Generate the prompt for the color analyst's comment on a play in the
+ * two-voice booth, given the announcer's call of it
+ *
+ * @param afterState - The baseball state after the play
+ * @param beforeState - The baseball state before the play
+ * @param announcerType - The announcer style, which picks the analyst
+ * @param call - The announcer's call of the play, line by line
+ * @param moment - How much the play changed the batting team's chances of winning, if known
+ * @returns A prompt string for the analyst's comment
+ */
+export function generateColorCommentaryPrompt(
+  afterState: SimplifiedBaseballState,
+  beforeState: SimplifiedBaseballState,
+  announcerType: keyof typeof DEFAULT_ANNOUNCERS = 'classic',
+  call: string[],
+  moment?: PlayMoment
+): string {
+  registerHandlebarsHelpers();
+
+  const announcer = DEFAULT_ANNOUNCERS[announcerType];
+  const isTopInning = beforeState.game.isTopInning;
+
+  const promptTemplate = Handlebars.compile(`
+You are {{analyst.name}}, the color analyst in the broadcast booth next to play-by-play announcer {{announcer.name}}, who has just called the play below. Add the insight the call leaves out.
+
+# Color Analyst
+- Name: {{analyst.name}}
+- Style: {{analyst.style}}
+- Focus: {{analyst.focus}}
+
+# Situation Before the Play
+- Inning: {{inning}}, {{#if isTopInning}}Top{{else}}Bottom{{/if}} half
+- Outs: {{outs}}
+- Score: {{home.displayName}} {{home.before}}, {{visitors.displayName}} {{visitors.before}}
+- Batter: {{batter}}
+- Pitcher: {{pitcher}}
+
+# Play Result
+- Play description: {{playDescription}}
+- Score after the play: {{home.displayName}} {{home.after}}, {{visitors.displayName}} {{visitors.after}}
+{{#if moment}}
+- {{battingTeam}} chances of winning: {{moment.battingTeamBefore}}% before the play, {{moment.battingTeamAfter}}% after
+{{/if}}
+
+# {{announcer.name}}'s Call
+{{#each call}}
+{{this}}
+{{/each}}
+
+Speak only as {{analyst.name}}, in two or three conversational sentences, as if answering your partner. Do not repeat the call: explain why the play happened or what it means, in keeping with your focus. Do not name the speaker, use quotation marks or add any introductory text.
+
+Talk about the game as if it were live: you know nothing about what happens after this play. Never hint at, foreshadow or predict later plays, pitching changes or how the game ends.
+`, { noEscape: true }); // The call is quoted as spoken, apostrophes and all
+
+  return promptTemplate({
+    announcer,
+    analyst: announcer.analyst,
+    inning: beforeState.game.inning,
+    isTopInning,
+    outs: beforeState.game.outs,
+    home: {
+      displayName: afterState.home.displayName,
+      before: beforeState.home.runs,
+      after: afterState.home.runs
+    },
+    visitors: {
+      displayName: afterState.visitors.displayName,
+      before: beforeState.visitors.runs,
+      after: afterState.visitors.runs
+    },
+    battingTeam: isTopInning ? afterState.visitors.displayName : afterState.home.displayName,
+    batter: isTopInning ? beforeState.visitors.currentBatter : beforeState.home.currentBatter,
+    pitcher: isTopInning ? beforeState.home.currentPitcher : beforeState.visitors.currentPitcher,
+    playDescription: afterState.playDescription || 'Unknown play',
+    call,
+    moment
+  }).trim();
+}
+
 /**
  * Example usage:
  *
@@ -362,4 +589,4 @@ Mention the players involved by name and the outcome. Use varied language and au
  *
  * // Send the prompt to OpenAI
  * const playByPlay = await generateCompletion(prompt, gameId);
- */
\ No newline at end of file
+ */
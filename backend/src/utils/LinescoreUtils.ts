@@ -0,0 +1,130 @@
+import { PlayData } from '../../../common/types/PlayData';
+import { Linescore, LinescoreLine } from '../../../common/types/LinescoreTypes';
+import { parseDetailedEvent } from '../services/eventTranslation/translateEvent';
+
+/**
+ * Utility functions for building linescores from play data
+ */
+
+/**
+ * Retrosheet event types that count as hits
+ */
+const HIT_EVENT_TYPES = ['S', 'D', 'DGR', 'T', 'HR'];
+
+/**
+ * Determines the batter's result of a Retrosheet event
+ *
+ * Wraps parseDetailedEvent and fills the gaps that matter for statistics:
+ * defensive indifference ("DI") is not a double, walks with a base running
+ * event ("W+SB2") are walks, unparsed fielding sequences ("64(1)3/GDP") are
+ * outs in the field, and catcher interference is reported as 'C'.
+ *
+ * @param event The event string (e.g., "S8", "HR/F78", "W+WP")
+ * @returns A primary event type such as 'S', 'HR', 'K', 'W', 'G', or 'NP' for plays with no batter result
+ */
+export function getBatterEventType(event: string | undefined): string {
+  if (!event || /^(DI|OA|FLE)/.test(event)) {
+    return 'NP';
+  }
+  const eventType = parseDetailedEvent(event).primaryEventType;
+  if (eventType) {
+    return eventType;
+  }
+  if (/^IW?([+/.]|$)/.test(event)) {
+    return 'IW';
+  }
+  if (/^W([+/.]|$)/.test(event)) {
+    return 'W';
+  }
+  if (/^C([/.]|$)/.test(event)) {
+    return 'C';
+  }
+  return /^\d/.test(event) ? 'G' : 'NP';
+}
+
+/**
+ * Determines whether a Retrosheet event is a hit
+ * @param event The event string (e.g., "S8", "HR/F78")
+ * @returns True for singles, doubles, triples and home runs
+ */
+export function isHitEvent(event: string | undefined): boolean {
+  return HIT_EVENT_TYPES.includes(getBatterEventType(event));
+}
+
+/**
+ * Counts the errors charged on a Retrosheet event, including errors on base
+ * running advances such as "S8.1-3(E8)"
+ * @param event The event string
+ * @returns The number of errors on the play
+ */
+export function countErrors(event: string | undefined): number {
+  return event ? (event.match(/E\d/g) || []).length : 0;
+}
+
+/**
+ * Options for buildLinescore
+ */
+export interface LinescoreOptions {
+  complete?: boolean;       // The plays are the whole game
+  currentHalfInning?: {     // The half-inning in progress, shown with the runs scored so far
+    inning: number;
+    isTopInning: boolean;
+  };
+}
+
+/**
+ * Builds an inning-by-inning linescore with R/H/E totals from a game's plays
+ *
+ * Hits are credited to the batting team and errors to the fielding team. Half
+ * innings without plays are reported as null: those not reached yet, or the
+ * bottom of the last inning when the home team did not need to bat. At least
+ * nine innings are listed, and more once the game goes to extra innings.
+ *
+ * @param plays The plays of the game, in any order
+ * @param teams IDs and display names of both teams
+ * @param options Whether the plays are the whole game, and the half-inning in progress
+ * @returns The linescore
+ */
+export function buildLinescore(
+  plays: PlayData[],
+  teams: {
+    home: { id: string; name: string };
+    visitors: { id: string; name: string };
+  },
+  options: LinescoreOptions = {}
+): Linescore {
+  const { complete = false, currentHalfInning } = options;
+  const lastInning = plays.reduce((max, play) => Math.max(max, play.inning), currentHalfInning?.inning ?? 0);
+  const innings = Math.max(lastInning, 9);
+
+  const createLine = (team: { id: string; name: string }): LinescoreLine => ({
+    teamId: team.id,
+    name: team.name,
+    runsByInning: Array.from({ length: innings }, () => null),
+    runs: 0,
+    hits: 0,
+    errors: 0
+  });
+  const visitors = createLine(teams.visitors);
+  const home = createLine(teams.home);
+
+  if (currentHalfInning) {
+    const batting = currentHalfInning.isTopInning ? visitors : home;
+    batting.runsByInning[currentHalfInning.inning - 1] = 0;
+  }
+
+  for (const play of plays) {
+    const batting = play.top_bot === 0 ? visitors : home;
+    const fielding = play.top_bot === 0 ? home : visitors;
+    const runs = play.runs ?? 0;
+
+    batting.runsByInning[play.inning - 1] = (batting.runsByInning[play.inning - 1] ?? 0) + runs;
+    batting.runs += runs;
+    if (isHitEvent(play.event)) {
+      batting.hits++;
+    }
+    fielding.errors += countErrors(play.event);
+  }
+
+  return { innings, complete, visitors, home };
+}
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { AnyZodObject, ZodError } from 'zod';
+import { ZodTypeAny, ZodError } from 'zod';
 import { ValidationError } from '../core/errors';
 import { logger, contextLogger } from '../core/logging';
 
@@ -10,7 +10,7 @@ import { logger, contextLogger } from '../core/logging';
  * @param source Where to find the data to validate ('body', 'query', 'params', or 'headers')
  * @returns Express middleware function
  */
-export const validate = (schema: AnyZodObject, source: 'body' | 'query' | 'params' | 'headers' = 'body') => {
+export const validate = (schema: ZodTypeAny, source: 'body' | 'query' | 'params' | 'headers' = 'body') => {
   return async (req: Request, res: Response, next: NextFunction) => {
     const routeLogger = contextLogger({ 
       middleware: 'validate',
@@ -59,7 +59,7 @@ export const validate = (schema: AnyZodObject, source: 'body' | 'query' | 'param
  * @param schema The Zod schema to validate against
  * @returns Express middleware function
  */
-export const validateBody = (schema: AnyZodObject) => validate(schema, 'body');
+export const validateBody = (schema: ZodTypeAny) => validate(schema, 'body');
 
 /**
  * Middleware for validating request query parameters
@@ -67,7 +67,7 @@ export const validateBody = (schema: AnyZodObject) => validate(schema, 'body');
  * @param schema The Zod schema to validate against
  * @returns Express middleware function
  */
-export const validateQuery = (schema: AnyZodObject) => validate(schema, 'query');
+export const validateQuery = (schema: ZodTypeAny) => validate(schema, 'query');
 
 /**
  * Middleware for validating request path parameters
@@ -75,7 +75,7 @@ export const validateQuery = (schema: AnyZodObject) => validate(schema, 'query')
  * @param schema The Zod schema to validate against
  * @returns Express middleware function
  */
-export const validateParams = (schema: AnyZodObject) => validate(schema, 'params');
+export const validateParams = (schema: ZodTypeAny) => validate(schema, 'params');
 
 /**
  * Middleware for validating request headers
@@ -83,4 +83,4 @@ export const validateParams = (schema: AnyZodObject) => validate(schema, 'params
  * @param schema The Zod schema to validate against
  * @returns Express middleware function
  */
-export const validateHeaders = (schema: AnyZodObject) => validate(schema, 'headers');
\ No newline at end of file
+export const validateHeaders = (schema: ZodTypeAny) => validate(schema, 'headers');
\ No newline at end of file
@@ -1,4 +1,50 @@
 import { z } from 'zod';
+import { STREAM_DEFAULTS } from '../constants/GameConstants';
+
+/**
+ * Comma-separated highlight criteria of the condensed playback modes, e.g.
+ * "homeRun,leadChange"
+ */
+const HighlightCriteriaQuerySchema = z.string().optional()
+  .transform(val => val ? val.split(',') : undefined)
+  .pipe(z.array(z.enum(['scoringPlay', 'homeRun', 'leadChange', 'outAtHome', 'pitchingChange', 'finalOut'])).optional());
+
+/**
+ * AI adapter to generate commentary with, for the request and the rest of
+ * the session
+ */
+const AIProviderQuerySchema = z.enum(['openai', 'openai-compatible', 'template']).optional();
+
+/**
+ * When to reuse the commentary logged for a play instead of generating it
+ * again, for the request only
+ */
+const CommentaryCacheQuerySchema = z.enum(['reuse', 'reuseIfFresh', 'regenerate']).optional();
+
+/**
+ * Whether a color analyst joins the play-by-play announcer
+ */
+const BoothQuerySchema = z.enum(['true', 'false']).optional()
+  .transform(val => val === 'true');
+
+/**
+ * Play index before which a box score or transcript stops, e.g. the
+ * currentPlay of the state being displayed
+ */
+const UpToPlayQuerySchema = z.string().optional()
+  .refine(val => !val || !isNaN(parseInt(val)), {
+    message: "upToPlay must be a valid number"
+  })
+  .transform(val => val ? parseInt(val) : undefined)
+  .refine(val => val === undefined || val >= 0, {
+    message: "upToPlay must be a non-negative integer"
+  });
+
+/**
+ * Whether to hide how a game turns out
+ */
+const SpoilerFreeQuerySchema = z.enum(['true', 'false']).optional()
+  .transform(val => val === 'true');
 
 /**
  * Schema for validating query parameters in the nextPlay route
@@ -14,6 +60,154 @@ export const NextPlayQuerySchema = z.object({
     }),
   skipLLM: z.enum(['true', 'false']).optional()
     .transform(val => val === 'true'),
+  announcerStyle: z.enum(['classic', 'modern', 'enthusiastic', 'poetic']).optional(),
+  aiProvider: AIProviderQuerySchema,
+  commentaryCache: CommentaryCacheQuerySchema,
+  booth: BoothQuerySchema,
+  mode: z.enum(['condensed', 'highlights']).optional(),
+  criteria: HighlightCriteriaQuerySchema
+})
+  .refine(query => query.criteria === undefined || query.mode !== undefined, {
+    message: "criteria can only be used together with mode"
+  });
+
+/**
+ * Schema for validating query parameters in the previous play route
+ */
+export const PreviousPlayQuerySchema = z.object({
+  currentPlay: z.string()
+    .refine(val => !isNaN(parseInt(val)), {
+      message: "currentPlay must be a valid number"
+    })
+    .transform(val => parseInt(val))
+    .refine(val => val > 0, {
+      message: "currentPlay must be a positive integer"
+    }),
+  announcerStyle: z.enum(['classic', 'modern', 'enthusiastic', 'poetic']).optional()
+});
+
+/**
+ * Schema for validating query parameters in the seek route.
+ * Exactly one of playIndex or inning must be given; half only applies to inning.
+ */
+export const SeekQuerySchema = z.object({
+  playIndex: z.string().optional()
+    .refine(val => !val || !isNaN(parseInt(val)), {
+      message: "playIndex must be a valid number"
+    })
+    .transform(val => val ? parseInt(val) : undefined)
+    .refine(val => val === undefined || val >= 0, {
+      message: "playIndex must be a non-negative integer"
+    }),
+  inning: z.string().optional()
+    .refine(val => !val || !isNaN(parseInt(val)), {
+      message: "inning must be a valid number"
+    })
+    .transform(val => val ? parseInt(val) : undefined)
+    .refine(val => val === undefined || val > 0, {
+      message: "inning must be a positive integer"
+    }),
+  half: z.enum(['top', 'bottom']).optional(),
+  announcerStyle: z.enum(['classic', 'modern', 'enthusiastic', 'poetic']).optional()
+})
+  .refine(query => (query.playIndex === undefined) !== (query.inning === undefined), {
+    message: "Exactly one of playIndex or inning is required"
+  })
+  .refine(query => query.half === undefined || query.inning !== undefined, {
+    message: "half can only be used together with inning"
+  });
+
+/**
+ * Schema for validating query parameters in the stream route.
+ * The session ID is a query parameter because EventSource cannot send headers.
+ */
+export const StreamQuerySchema = z.object({
+  sessionId: z.string().uuid({
+    message: "Invalid session ID format. Must be a valid UUID."
+  }),
+  currentPlay: z.string().optional()
+    .refine(val => !val || !isNaN(parseInt(val)), {
+      message: "currentPlay must be a valid number"
+    })
+    .transform(val => val ? parseInt(val) : undefined)
+    .refine(val => val === undefined || val >= 0, {
+      message: "currentPlay must be a non-negative integer"
+    }),
+  pacing: z.enum(['fixed', 'ack']).optional(),
+  delayMs: z.string().optional()
+    .refine(val => !val || !isNaN(parseInt(val)), {
+      message: "delayMs must be a valid number"
+    })
+    .transform(val => val ? parseInt(val) : undefined)
+    .refine(val => val === undefined || val >= 0, {
+      message: "delayMs must be a non-negative integer"
+    }),
+  speed: z.string().optional()
+    .refine(val => !val || !isNaN(parseFloat(val)), {
+      message: "speed must be a valid number"
+    })
+    .transform(val => val ? parseFloat(val) : undefined)
+    .refine(val => val === undefined || (val >= STREAM_DEFAULTS.MIN_SPEED && val <= STREAM_DEFAULTS.MAX_SPEED), {
+      message: `speed must be between ${STREAM_DEFAULTS.MIN_SPEED} and ${STREAM_DEFAULTS.MAX_SPEED}`
+    }),
+  skipLLM: z.enum(['true', 'false']).optional()
+    .transform(val => val === 'true'),
+  announcerStyle: z.enum(['classic', 'modern', 'enthusiastic', 'poetic']).optional(),
+  aiProvider: AIProviderQuerySchema,
+  commentaryCache: CommentaryCacheQuerySchema,
+  booth: BoothQuerySchema,
+  mode: z.enum(['condensed', 'highlights']).optional(),
+  criteria: HighlightCriteriaQuerySchema
+})
+  .refine(query => query.criteria === undefined || query.mode !== undefined, {
+    message: "criteria can only be used together with mode"
+  });
+
+/**
+ * Schema for validating query parameters in the transcript route
+ */
+export const TranscriptQuerySchema = z.object({
+  format: z.enum(['md', 'html', 'json']).optional(),
+  skipLLM: z.enum(['true', 'false']).optional()
+    .transform(val => val === 'true'),
+  announcerStyle: z.enum(['classic', 'modern', 'enthusiastic', 'poetic']).optional(),
+  upToPlay: UpToPlayQuerySchema,
+  spoilerFree: SpoilerFreeQuerySchema
+})
+  .refine(query => !query.spoilerFree || query.upToPlay !== undefined, {
+    message: "spoilerFree requires upToPlay"
+  });
+
+/**
+ * Schema for validating query parameters in the box score route
+ */
+export const BoxScoreQuerySchema = z.object({
+  upToPlay: UpToPlayQuerySchema,
+  spoilerFree: SpoilerFreeQuerySchema
+})
+  .refine(query => !query.spoilerFree || query.upToPlay !== undefined, {
+    message: "spoilerFree requires upToPlay"
+  });
+
+/**
+ * Schema for validating a watch party ID in route parameters
+ */
+export const PartyIdParamSchema = z.object({
+  partyId: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, {
+    message: "Party ID must be 1-64 letters, digits, dashes or underscores"
+  })
+});
+
+/**
+ * Schema for validating the query parameters of a watch party connection
+ */
+export const PartyJoinQuerySchema = z.object({
+  name: z.string().trim().min(1, {
+    message: "name is required"
+  }).max(40, {
+    message: "name must be at most 40 characters"
+  }),
+  gameId: z.string().min(1).optional(),
   announcerStyle: z.enum(['classic', 'modern', 'enthusiastic', 'poetic']).optional()
 });
 
@@ -35,6 +229,18 @@ export const GameIdParamSchema = z.object({
   })
 });
 
+/**
+ * Schema for validating game ID and session ID in route parameters
+ */
+export const SessionParamSchema = z.object({
+  gameId: z.string().min(1, {
+    message: "Game ID is required"
+  }),
+  sessionId: z.string().uuid({
+    message: "Invalid session ID format. Must be a valid UUID."
+  })
+});
+
 /**
  * Schema for validating play index in route parameters
  */
@@ -78,4 +284,120 @@ export const LineupHistoryQuerySchema = z.object({
     .refine(val => !val || val >= 0, {
       message: "offset must be a non-negative integer"
     })
-});
\ No newline at end of file
+});
+
+/**
+ * Schema for validating query parameters in the game search route
+ */
+export const GameSearchQuerySchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+    message: "startDate must be a date in YYYY-MM-DD format"
+  }).optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+    message: "endDate must be a date in YYYY-MM-DD format"
+  }).optional(),
+  team: z.string().regex(/^[A-Z0-9]{3}$/, {
+    message: "team must be a 3-character team ID"
+  }).optional(),
+  opponent: z.string().regex(/^[A-Z0-9]{3}$/, {
+    message: "opponent must be a 3-character team ID"
+  }).optional(),
+  ballpark: z.string().min(1).max(5).optional(),
+  season: z.string().optional()
+    .refine(val => !val || /^\d{4}$/.test(val), {
+      message: "season must be a four-digit year"
+    })
+    .transform(val => val ? parseInt(val) : undefined),
+  minMargin: z.string().optional()
+    .refine(val => !val || !isNaN(parseInt(val)), {
+      message: "minMargin must be a valid number"
+    })
+    .transform(val => val ? parseInt(val) : undefined)
+    .refine(val => val === undefined || val >= 0, {
+      message: "minMargin must be a non-negative integer"
+    }),
+  maxMargin: z.string().optional()
+    .refine(val => !val || !isNaN(parseInt(val)), {
+      message: "maxMargin must be a valid number"
+    })
+    .transform(val => val ? parseInt(val) : undefined)
+    .refine(val => val === undefined || val >= 0, {
+      message: "maxMargin must be a non-negative integer"
+    }),
+  extraInnings: z.enum(['true', 'false']).optional(),
+  page: z.string().optional()
+    .refine(val => !val || !isNaN(parseInt(val)), {
+      message: "page must be a valid number"
+    })
+    .transform(val => val ? parseInt(val) : undefined)
+    .refine(val => val === undefined || val > 0, {
+      message: "page must be a positive integer"
+    }),
+  limit: z.string().optional()
+    .refine(val => !val || !isNaN(parseInt(val)), {
+      message: "limit must be a valid number"
+    })
+    .transform(val => val ? parseInt(val) : undefined)
+    .refine(val => val === undefined || (val > 0 && val <= 100), {
+      message: "limit must be between 1 and 100"
+    }),
+  sort: z.enum(['date', 'margin', 'innings', 'attendance']).optional(),
+  direction: z.enum(['asc', 'desc']).optional(),
+  spoilerFree: SpoilerFreeQuerySchema
+})
+  .refine(query => !query.spoilerFree || (
+    query.minMargin === undefined &&
+    query.maxMargin === undefined &&
+    query.extraInnings === undefined &&
+    query.sort !== 'margin' &&
+    query.sort !== 'innings'
+  ), {
+    message: "margin and innings filters and sorts give results away and cannot be used with spoilerFree"
+  })
+  .refine(query => !query.startDate || !query.endDate || query.startDate <= query.endDate, {
+    message: "startDate must not be after endDate"
+  })
+  .refine(query => query.minMargin === undefined || query.maxMargin === undefined || query.minMargin <= query.maxMargin, {
+    message: "minMargin must not be greater than maxMargin"
+  });
+
+/**
+ * Schema for validating query parameters in the recommended games route
+ */
+export const RecommendedGamesQuerySchema = z.object({
+  season: z.string({ required_error: "season is required" })
+    .regex(/^\d{4}$/, {
+      message: "season must be a four-digit year"
+    })
+    .transform(val => parseInt(val)),
+  team: z.string().regex(/^[A-Z0-9]{3}$/, {
+    message: "team must be a 3-character team ID"
+  }).optional(),
+  limit: z.string().optional()
+    .refine(val => !val || !isNaN(parseInt(val)), {
+      message: "limit must be a valid number"
+    })
+    .transform(val => val ? parseInt(val) : undefined)
+    .refine(val => val === undefined || (val > 0 && val <= 50), {
+      message: "limit must be between 1 and 50"
+    }),
+  spoilerFree: SpoilerFreeQuerySchema
+});
+
+/**
+ * Schema for validating query parameters in the run expectancy route
+ * season is a year ("2019") or a range of years ("2010-2019")
+ */
+export const RunExpectancyQuerySchema = z.object({
+  season: z.string({ required_error: "season is required" })
+    .regex(/^\d{4}(-\d{4})?$/, {
+      message: "season must be a four-digit year or a range of years such as 2010-2019"
+    })
+    .transform(val => {
+      const [startSeason, endSeason = startSeason] = val.split('-').map(year => parseInt(year));
+      return { startSeason, endSeason };
+    })
+    .refine(range => range.startSeason <= range.endSeason, {
+      message: "season range must not end before it starts"
+    })
+});
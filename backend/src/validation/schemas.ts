@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { STREAM_DEFAULTS } from '../constants/GameConstants';
 
 /**
  * Base schemas for common types
@@ -67,15 +68,70 @@ export const BaseballStateSchema = z.object({
 // CreateGame endpoint schemas
 export const CreateGameRequestSchema = z.object({
   homeTeamId: z.string().min(1, "Home team ID is required"),
-  visitingTeamId: z.string().min(1, "Visiting team ID is required")
+  visitingTeamId: z.string().min(1, "Visiting team ID is required"),
+  gameId: z.string().min(1, "Game ID must not be empty").optional(),
+  announcerStyle: z.enum(['classic', 'modern', 'enthusiastic', 'poetic']).optional(),
+  gameType: z.enum(['replay', 'simulation']).optional(),
+  season: z.number().int().min(1871, "Season must be 1871 or later").max(2100).optional(),
+  seed: z.number().int().nonnegative().max(2 ** 32 - 1).optional()
+}).refine(data => data.gameType !== 'simulation' || data.gameId === undefined, {
+  message: "A simulated game is given a new game ID; gameId must not be set",
+  path: ['gameId']
+}).refine(data => data.gameType === 'simulation' || (data.season === undefined && data.seed === undefined), {
+  message: "season and seed only apply to simulated games",
+  path: ['gameType']
 });
 
 export const CreateGameResponseSchema = z.object({
   gameId: z.string().min(1, "Game ID is required"),
   sessionId: z.string().min(1, "Session ID is required"),
+  announcerStyle: z.enum(['classic', 'modern', 'enthusiastic', 'poetic']),
   gameState: BaseballStateSchema
 });
 
+// Fork endpoint schema
+export const ForkGameRequestSchema = z.object({
+  playIndex: z.number().int().positive("playIndex must be a positive integer"),
+  event: z.string().trim().min(1, "Event is required"),
+  seed: z.number().int().nonnegative().max(2 ** 32 - 1).optional(),
+  announcerStyle: z.enum(['classic', 'modern', 'enthusiastic', 'poetic']).optional()
+});
+
+// Stream control endpoint schema
+export const StreamControlRequestSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('pause') }),
+  z.object({ action: z.literal('resume') }),
+  z.object({ action: z.literal('ack') }),
+  z.object({
+    action: z.literal('speed'),
+    speed: z.number()
+      .min(STREAM_DEFAULTS.MIN_SPEED, `speed must be at least ${STREAM_DEFAULTS.MIN_SPEED}`)
+      .max(STREAM_DEFAULTS.MAX_SPEED, `speed must be at most ${STREAM_DEFAULTS.MAX_SPEED}`)
+  })
+]);
+
+// Watch party client message schema
+export const PartyClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('advance') }),
+  z.object({
+    type: z.literal('seek'),
+    playIndex: z.number().int().nonnegative().optional(),
+    inning: z.number().int().positive().optional(),
+    half: z.enum(['top', 'bottom']).optional()
+  }),
+  z.object({
+    type: z.literal('style'),
+    announcerStyle: z.enum(['classic', 'modern', 'enthusiastic', 'poetic'])
+  }),
+  z.object({
+    type: z.literal('chat'),
+    text: z.string().trim().min(1, "Chat message is empty").max(500, "Chat message is too long")
+  })
+])
+  .refine(message => message.type !== 'seek' || (message.playIndex === undefined) !== (message.inning === undefined), {
+    message: "seek requires exactly one of playIndex or inning"
+  });
+
 // PlayData schema
 export const PlayDataSchema = z.object({
   gid: z.string().min(1, "Game ID is required"),
@@ -4,6 +4,7 @@
 
 import { BaseballState } from './BaseballTypes';
 import { PlayData } from './PlayData';
+import { SimplifiedBaseballState } from './SimplifiedBaseballState';
 
 /**
  * CreateGame endpoint types
@@ -11,14 +12,48 @@ import { PlayData } from './PlayData';
 export interface CreateGameRequest {
     homeTeamId: string;
     visitingTeamId: string;
+    gameId?: string; // Retrosheet game ID of the game to play back; a new ID is generated if omitted
+    announcerStyle?: 'classic' | 'modern' | 'enthusiastic' | 'poetic';
+    gameType?: 'replay' | 'simulation'; // 'simulation' generates a new game between the two teams; defaults to 'replay'
+    season?: number; // Simulations only: season of the lineups and player statistics, defaults to the latest
+    seed?: number;   // Simulations only: random seed, to reproduce a simulated game
 }
 
 export interface CreateGameResponse {
     gameId: string;
     sessionId: string;
+    announcerStyle: 'classic' | 'modern' | 'enthusiastic' | 'poetic';
     gameState: BaseballState;
 }
 
+/**
+ * Fork endpoint types
+ */
+export interface ForkGameRequest {
+    playIndex: number; // Play whose outcome is changed
+    event: string;     // Retrosheet event to play instead (e.g. "HR/F7" for a "K")
+    seed?: number;     // Random seed of the simulated rest of the game
+    announcerStyle?: 'classic' | 'modern' | 'enthusiastic' | 'poetic';
+}
+
+/**
+ * Where an alternate timeline split off from the game it was forked from
+ */
+export interface GameFork {
+    parentGameId: string;
+    parentSessionId: string;
+    forkedAtPlay: number;
+    originalEvent: string;
+    alteredEvent: string;
+}
+
+export interface ForkGameResponse {
+    gameId: string;    // The forked game, played back like a simulation
+    sessionId: string; // A new session; the parent session is left untouched
+    fork: GameFork;
+    gameState: SimplifiedBaseballState; // The state before the altered play
+}
+
 /**
  * GameInfo endpoint types
  */
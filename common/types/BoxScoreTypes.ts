@@ -0,0 +1,80 @@
+import { TeamStats } from './BaseballTypes';
+
+/**
+ * A player's batting line in a box score
+ */
+export interface BattingLine {
+  playerId: string;
+  name: string;
+  ab: number;        // At bats
+  r: number;         // Runs scored
+  h: number;         // Hits
+  doubles: number;
+  triples: number;
+  hr: number;
+  rbi: number;
+  bb: number;        // Walks, including intentional walks
+  k: number;         // Strikeouts
+  lob: number;       // Runners left on base when the batter made an out
+}
+
+/**
+ * Batting totals for a team (the sum of its batting lines)
+ */
+export type BattingTotals = Omit<BattingLine, 'playerId' | 'name'>;
+
+/**
+ * Official pitcher decisions: win, loss, save and hold
+ */
+export type PitcherDecision = 'W' | 'L' | 'SV' | 'H';
+
+/**
+ * A pitcher's line in a box score
+ */
+export interface PitchingLine {
+  playerId: string;
+  name: string;
+  outs: number;      // Outs recorded; innings pitched are outs / 3
+  h: number;         // Hits allowed
+  r: number;         // Runs charged, including runners left on base who scored later
+  er: number;        // Earned runs charged
+  bb: number;        // Walks, including intentional walks
+  k: number;         // Strikeouts
+  hr: number;        // Home runs allowed
+  bf: number;        // Batters faced
+  decision: PitcherDecision | null;
+}
+
+/**
+ * Player IDs of the pitchers credited with each decision
+ */
+export interface PitcherDecisions {
+  win: string | null;
+  loss: string | null;
+  save: string | null;
+  holds: string[];
+}
+
+/**
+ * One team's side of a box score
+ */
+export interface TeamBoxScore {
+  teamId: string;
+  name: string;
+  batting: BattingLine[];   // In order of first appearance
+  battingTotals: BattingTotals;
+  pitching: PitchingLine[]; // In order of appearance
+  stats: TeamStats;         // Runs by inning, and R/H/E
+}
+
+/**
+ * Box score of a game, optionally as of a point in playback
+ */
+export interface BoxScore {
+  gameId: string;
+  upToPlay: number | null;  // Only plays before this play index are counted; null for the whole game
+  plays: number;            // Number of plays counted
+  decisions: PitcherDecisions | null; // Only once the whole game is counted
+  home: TeamBoxScore;
+  visitors: TeamBoxScore;
+}
@@ -0,0 +1,43 @@
+import { GameSummary } from './GameSearchTypes';
+
+/**
+ * How exciting a game was, and what made it so
+ */
+export interface GameExcitement {
+  gameId: string;
+  score: number;            // 0 to 100
+  leadChanges: number;      // Times the team ahead changed, ties in between not counting
+  comebackRuns: number;     // Largest deficit the winner faced from the 7th inning on
+  extraInnings: number;     // Innings played past the ninth
+  wpSwing: number;          // Win probability swung by all plays, either way, summed
+  noHitInnings: number;     // Most innings a team went without a hit from the start of the game
+}
+
+/**
+ * A game's excitement score alone, without what made the game exciting
+ */
+export type GameExcitementScore = Pick<GameExcitement, 'gameId' | 'score'>;
+
+/**
+ * Filters for game recommendations
+ */
+export interface RecommendedGamesCriteria {
+  season: number;
+  team?: string;            // Team ID, home or away
+  limit?: number;           // At most 50; defaults to 10
+  spoilerFree?: boolean;    // Hide final scores and what made each game exciting
+}
+
+/**
+ * A game worth watching: a game search result with its excitement
+ */
+export interface RecommendedGame extends GameSummary {
+  excitement: GameExcitement | GameExcitementScore; // Only the score in spoiler-free results
+}
+
+/**
+ * The most exciting games matching the filters, most exciting first
+ */
+export interface RecommendedGamesResponse {
+  data: RecommendedGame[];
+}
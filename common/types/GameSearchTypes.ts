@@ -0,0 +1,60 @@
+/**
+ * Filters for searching games in the gameinfo table. All filters are optional
+ * and combined with AND.
+ */
+export interface GameSearchCriteria {
+  startDate?: string;       // Earliest game date, YYYY-MM-DD (inclusive)
+  endDate?: string;         // Latest game date, YYYY-MM-DD (inclusive)
+  team?: string;            // Team ID, home or away
+  opponent?: string;        // Team ID of the other side; with `team`, only games between the two
+  ballpark?: string;        // Retrosheet ballpark (site) ID
+  season?: number;
+  minMargin?: number;       // Smallest final score margin, in runs
+  maxMargin?: number;       // Largest final score margin, in runs
+  extraInnings?: boolean;   // Only games that went past nine innings (true) or did not (false)
+}
+
+/**
+ * Fields game search results can be sorted by
+ */
+export type GameSortField = 'date' | 'margin' | 'innings' | 'attendance';
+
+/**
+ * One team's side of a game search result
+ */
+export interface GameSummaryTeam {
+  id: string;
+  displayName: string;
+  runs: number | null;      // Final score; null in spoiler-free results
+}
+
+/**
+ * A game found by a game search
+ */
+export interface GameSummary {
+  gameId: string;
+  date: string;             // YYYY-MM-DD
+  gameNumber: number;       // 0 for a single game, 1 or 2 for a doubleheader
+  season: number;
+  ballpark: string;
+  innings: number | null;   // Innings played; null in spoiler-free results
+  margin: number | null;    // Final score margin, in runs; null in spoiler-free results
+  attendance: number | null;
+  home: GameSummaryTeam;
+  visitors: GameSummaryTeam;
+}
+
+/**
+ * One page of game search results
+ */
+export interface GameSearchResponse {
+  data: GameSummary[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * One team's row of a linescore
+ */
+export interface LinescoreLine {
+  teamId: string;
+  name: string;
+  runsByInning: Array<number | null>; // null for a half-inning that has not been played
+  runs: number;
+  hits: number;
+  errors: number;
+}
+
+/**
+ * Inning-by-inning runs with R/H/E totals
+ */
+export interface Linescore {
+  innings: number;          // Number of innings to show: at least 9, more in extra innings
+  complete: boolean;        // Every play of the game is counted, so a null half-inning was not needed
+  visitors: LinescoreLine;
+  home: LinescoreLine;
+}
@@ -0,0 +1,25 @@
+/**
+ * Runners on base, one character per base: the base number if occupied,
+ * `_` if empty ("1_3" is runners on first and third, "___" the bases empty)
+ */
+export type BaseState = '___' | '1__' | '_2_' | '12_' | '__3' | '1_3' | '_23' | '123';
+
+/**
+ * Expected runs from a base-out state to the end of the half-inning
+ */
+export interface RunExpectancyState {
+  bases: BaseState;
+  outs: number;             // 0, 1 or 2
+  runExpectancy: number;    // Average runs scored from this state to the end of the half-inning
+  occurrences: number;      // Plays that started in this state
+}
+
+/**
+ * The 24 base-out state run expectancy table of a season or an era
+ */
+export interface RunExpectancyMatrix {
+  startSeason: number;
+  endSeason: number;        // Equal to startSeason for a single season
+  states: RunExpectancyState[]; // All 24 states, by outs then bases
+  computedAt: string;       // ISO timestamp of when the table was computed from the plays
+}
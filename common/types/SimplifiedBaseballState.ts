@@ -1,3 +1,6 @@
+import { Linescore } from './LinescoreTypes';
+import { LogEntry } from './BaseballTypes';
+
 /**
  * Interface representing a simplified baseball state
  * This is a more focused version of the BaseballState that only includes
@@ -10,7 +13,7 @@ export interface SimplifiedBaseballState {
     inning: number;
     isTopInning: boolean;
     outs: number;
-    log: string[];
+    log: LogEntry[];  // Plain strings, or speaker-tagged lines in booth mode
     onFirst: string;
     onSecond: string;
     onThird: string;
@@ -38,4 +41,7 @@ export interface SimplifiedBaseballState {
   currentPlay: number;
   playDescription?: string;  // One-line description of the play
   eventString?: string;  // The raw event string from the play data
+  linescore?: Linescore;  // Runs by inning with R/H/E for the plays before currentPlay
+  winProbability?: number;  // Home team's win probability before currentPlay, 0 to 1
+  wpa?: number;  // Win probability added by the play before currentPlay, for the team that batted
 }
\ No newline at end of file
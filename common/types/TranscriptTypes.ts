@@ -0,0 +1,46 @@
+import { Linescore } from './LinescoreTypes';
+
+/**
+ * Types for full-game transcripts
+ */
+
+/**
+ * A single play in a transcript
+ */
+export interface TranscriptPlay {
+  playIndex: number;
+  description: string;      // One-line description from translateEvent
+  eventString?: string;     // The raw Retrosheet event
+  commentary: string[];     // Play-by-play commentary lines
+  runs: number;             // Runs scored on the play
+  score: {                  // Score after the play
+    home: number;
+    visitors: number;
+  };
+}
+
+/**
+ * The plays of one half-inning
+ */
+export interface TranscriptHalfInning {
+  inning: number;
+  half: 'top' | 'bottom';
+  battingTeam: string;      // Display name of the batting team
+  plays: TranscriptPlay[];
+}
+
+/**
+ * A game rendered as text, whole or up to a play
+ */
+export interface GameTranscript {
+  gameId: string;
+  title: string;
+  announcerStyle: string;
+  generatedAt: string;
+  upToPlay: number | null;  // Only plays before this play index are included; null for the whole game
+  introduction: string[];   // Pre-game commentary
+  halfInnings: TranscriptHalfInning[];
+  linescore: Linescore;
+}
+
+export type TranscriptFormat = 'md' | 'html' | 'json';
@@ -0,0 +1,64 @@
+import { SimplifiedBaseballState } from './SimplifiedBaseballState';
+
+/**
+ * Types for the watch-party WebSocket protocol
+ *
+ * Every message is a JSON object with a `type` field. Clients connect to
+ * `/ws/party/:partyId?name=<display name>&gameId=<game>`; the first member to
+ * join creates the party (gameId is required then) and becomes its host.
+ */
+
+export type PartyAnnouncerStyle = 'classic' | 'modern' | 'enthusiastic' | 'poetic';
+
+/**
+ * A connected member of a party
+ */
+export interface PartyMember {
+  memberId: string;
+  name: string;
+  isHost: boolean;
+  joinedAt: string;
+}
+
+/**
+ * A chat line shown alongside the play log
+ */
+export interface PartyChatMessage {
+  memberId: string;
+  name: string;
+  text: string;
+  sentAt: string;
+}
+
+/**
+ * Everything a member needs to catch up when joining
+ */
+export interface PartySnapshot {
+  partyId: string;
+  gameId: string;
+  hostId: string;
+  announcerStyle: PartyAnnouncerStyle;
+  members: PartyMember[];
+  state: SimplifiedBaseballState | null;
+  chat: PartyChatMessage[];
+}
+
+/**
+ * Messages sent by clients. advance, seek and style are only accepted from the host.
+ */
+export type PartyClientMessage =
+  | { type: 'advance' }
+  | { type: 'seek'; playIndex?: number; inning?: number; half?: 'top' | 'bottom' }
+  | { type: 'style'; announcerStyle: PartyAnnouncerStyle }
+  | { type: 'chat'; text: string };
+
+/**
+ * Messages sent by the server
+ */
+export type PartyServerMessage =
+  | { type: 'welcome'; memberId: string; party: PartySnapshot }
+  | { type: 'presence'; hostId: string; members: PartyMember[] }
+  | { type: 'state'; state: SimplifiedBaseballState }
+  | { type: 'style'; announcerStyle: PartyAnnouncerStyle }
+  | { type: 'chat'; message: PartyChatMessage }
+  | { type: 'error'; message: string };
@@ -0,0 +1,22 @@
+/**
+ * The home team's chances of winning before and after one play
+ */
+export interface WinProbabilityPoint {
+  playIndex: number;        // The play's pn
+  inning: number;
+  isTopInning: boolean;
+  event: string;            // The play's Retrosheet event
+  homeWinProbabilityBefore: number; // 0 to 1
+  homeWinProbability: number;       // After the play, 0 to 1
+  wpa: number;              // Win probability added by the play, for the batting team
+  leverageIndex: number;    // How much the play's situation could swing the game; 1 is average
+}
+
+/**
+ * The home team's win probability through a game, one point per play
+ */
+export interface WinProbabilitySeries {
+  gameId: string;
+  season: number;           // Season whose run environment the probabilities are computed in
+  points: WinProbabilityPoint[];
+}
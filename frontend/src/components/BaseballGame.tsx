@@ -2,11 +2,27 @@
 
 import { useState, useEffect, KeyboardEvent, useRef } from "react"
 import "./BaseballGame.css"
-import { getFullName, BaseballState, Player, createEmptyBaseballState } from "../../../common/types/BaseballTypes"
+import { getFullName, BaseballState, Player, TeamState, createEmptyBaseballState } from "../../../common/types/BaseballTypes"
+import { SimplifiedBaseballState } from "../../../common/types/SimplifiedBaseballState"
 import { config } from "../config/config"
 import TypedText from "./TypedText"
 import Scoreboard from "./Scoreboard"
 import LineupPanel from "./LineupPanel"
+import WatchPartyPanel from "./WatchPartyPanel"
+import { PartyChatMessage, PartyClientMessage, PartyMember, PartyServerMessage } from "../../../common/types/WatchPartyTypes"
+import { Linescore } from "../../../common/types/LinescoreTypes"
+import { WinProbabilityPoint } from "../../../common/types/WinProbabilityTypes"
+
+// Updates a team with a played state, keeping its lineup and stats other than runs
+const mergeTeamState = (team: TeamState, played: SimplifiedBaseballState['home']): TeamState => ({
+  ...team,
+  id: played.id,
+  displayName: played.displayName,
+  shortName: played.shortName,
+  currentBatter: played.currentBatter,
+  currentPitcher: played.currentPitcher ?? '',
+  stats: { ...team.stats, runs: played.runs }
+});
 
 function BaseballGame() {
   // Get gameId from URL parameters
@@ -15,18 +31,49 @@ function BaseballGame() {
     return params.get('gameId') || '-1';
   };
 
+  // Watch party to join, if any (?party=<id>&name=<display name>)
+  const getPartyFromUrl = () => {
+    const params = new URLSearchParams(window.location.search);
+    const partyId = params.get('party');
+    return partyId ? { partyId, name: params.get('name') || 'Guest' } : null;
+  };
+
   // Status bar visibility state
   const [isStatusBarVisible, setIsStatusBarVisible] = useState(false);
   
-  // Announcer style state
-  const [announcerStyle, setAnnouncerStyle] = useState<'classic' | 'modern' | 'enthusiastic' | 'poetic'>('classic');
+  // Announcer style state, starting with the style picked on the landing page (?style=)
+  const [announcerStyle, setAnnouncerStyle] = useState<'classic' | 'modern' | 'enthusiastic' | 'poetic'>(() => {
+    const style = new URLSearchParams(window.location.search).get('style');
+    return style === 'modern' || style === 'enthusiastic' || style === 'poetic' ? style : 'classic';
+  });
+  
+  // Two-voice booth: a color analyst follows the announcer's call of the plays that matter
+  const [booth, setBooth] = useState(false);
   
-  // Generate a session ID if not already set
+  // Use the session started on the landing page (?session=), or generate one
   const [sessionId] = useState(() => {
-    // Generate a random session ID
-    return `session-${Math.random().toString(36).substring(2, 15)}`;
+    // The API requires session IDs to be UUIDs
+    const session = new URLSearchParams(window.location.search).get('session');
+    return session && /^[0-9a-f-]{36}$/i.test(session) ? session : crypto.randomUUID();
   });
 
+  // Watch mode state: the server streams plays instead of waiting for "Next Play"
+  const [isWatching, setIsWatching] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [watchSpeed, setWatchSpeed] = useState(1);
+  const eventSourceRef = useRef<EventSource | null>(null);
+  // Set when a streamed play arrives, cleared once it has been acknowledged
+  const awaitingAckRef = useRef(false);
+
+  // Watch party state: the host drives playback for every member
+  const [party] = useState(getPartyFromUrl);
+  const [partyMemberId, setPartyMemberId] = useState<string | null>(null);
+  const [partyHostId, setPartyHostId] = useState<string | null>(null);
+  const [partyMembers, setPartyMembers] = useState<PartyMember[]>([]);
+  const [partyChat, setPartyChat] = useState<PartyChatMessage[]>([]);
+  const partySocketRef = useRef<WebSocket | null>(null);
+  const isPartyGuest = party !== null && partyMemberId !== partyHostId;
+
   // Combined game state object suitable for REST API
   const [gameState, setGameState] = useState<BaseballState>({
     ...createEmptyBaseballState(),
@@ -34,9 +81,18 @@ function BaseballGame() {
     sessionId: sessionId
   });
 
+  // Running linescore sent with each play
+  const [linescore, setLinescore] = useState<Linescore | null>(null);
+
+  // Win probability of every play of the game; only the plays played so far are charted
+  const [winProbability, setWinProbability] = useState<WinProbabilityPoint[]>([]);
+
   // API endpoints for game state updates
   const initGameEndpoint = `${config.api.baseUrl}${config.api.endpoints.initGame}`;
   const nextPlayEndpoint = `${config.api.baseUrl}${config.api.endpoints.nextPlay}`;
+  const streamEndpoint = `${config.api.baseUrl}${config.api.endpoints.stream ?? '/api/game/stream'}`;
+  const winProbabilityEndpoint = `${config.api.baseUrl}${config.api.endpoints.winProbability ?? '/api/game/winprob'}`;
+  const partySocketEndpoint = `${config.api.baseUrl.replace(/^http/, 'ws')}${config.api.endpoints.partySocket ?? '/ws/party'}`;
   const gameId = getGameIdFromUrl();
 
   // Create a teams object for convenience
@@ -97,6 +153,7 @@ function BaseballGame() {
 
         const initialState = await response.json();
         setGameState(initialState);
+        setLinescore(initialState.linescore ?? null);
         setRenderedEntryCount(0);
         setIsTypingComplete(false);
       } catch (error) {
@@ -115,6 +172,24 @@ function BaseballGame() {
     initializeGame();
   }, []);
 
+  // Load the win probability series once; the chart is drawn without it if it cannot be computed
+  useEffect(() => {
+    const loadWinProbability = async () => {
+      try {
+        const response = await fetch(`${winProbabilityEndpoint}/${gameId}`);
+        if (!response.ok) {
+          throw new Error('Failed to load win probability');
+        }
+        const series = await response.json();
+        setWinProbability(series.points ?? []);
+      } catch (error) {
+        console.error('Error loading win probability:', error);
+      }
+    };
+
+    loadWinProbability();
+  }, []);
+
   // State to track typing completion
   const [isTypingComplete, setIsTypingComplete] = useState(true);
   
@@ -191,18 +266,187 @@ function BaseballGame() {
     return () => {
       document.removeEventListener('keydown', handleKeyDown as any);
     };
-  }, [gameState, isTypingComplete]); // Re-add listener when gameState or typing state changes
+  }, [gameState, isTypingComplete, isWatching, isPartyGuest]); // Re-add listener when gameState, typing, watch or party state changes
+
+  // Send a control command (pause, resume, ack, speed) to the running stream
+  const sendStreamControl = async (control: { action: 'pause' | 'resume' | 'ack' } | { action: 'speed'; speed: number }) => {
+    try {
+      await fetch(`${streamEndpoint}/${gameId}/control`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'session-id': sessionId
+        },
+        body: JSON.stringify(control)
+      });
+    } catch (error) {
+      console.error('Error sending stream control:', error);
+    }
+  };
+
+  const stopWatching = () => {
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
+    awaitingAckRef.current = false;
+    setIsWatching(false);
+    setIsPaused(false);
+  };
+
+  // Let the game play itself: the server pushes a play whenever the last one has been typed out
+  const startWatching = () => {
+    const params = new URLSearchParams({
+      sessionId,
+      currentPlay: String(gameState.currentPlay),
+      pacing: 'ack',
+      speed: String(watchSpeed),
+      announcerStyle,
+      ...(booth ? { booth: 'true' } : {})
+    });
+    const eventSource = new EventSource(`${streamEndpoint}/${gameId}?${params}`);
+
+    eventSource.addEventListener('play', (event) => {
+      awaitingAckRef.current = true;
+      const playState: SimplifiedBaseballState = JSON.parse((event as MessageEvent).data);
+      showPlayState(playState);
+    });
+    eventSource.addEventListener('end', stopWatching);
+    eventSource.addEventListener('error', (event) => {
+      console.error('Game stream failed:', (event as MessageEvent).data ?? event);
+      stopWatching();
+    });
+
+    eventSourceRef.current = eventSource;
+    setIsWatching(true);
+  };
+
+  const togglePause = () => {
+    sendStreamControl({ action: isPaused ? 'resume' : 'pause' });
+    setIsPaused(!isPaused);
+  };
+
+  const changeWatchSpeed = (speed: number) => {
+    setWatchSpeed(speed);
+    if (isWatching) {
+      sendStreamControl({ action: 'speed', speed });
+    }
+  };
+
+  // Acknowledge a streamed play once all of its entries have been typed
+  useEffect(() => {
+    if (isWatching && isTypingComplete && awaitingAckRef.current) {
+      awaitingAckRef.current = false;
+      sendStreamControl({ action: 'ack' });
+    }
+  }, [isWatching, isTypingComplete]);
+
+  // Close the stream when leaving the page
+  useEffect(() => {
+    return () => eventSourceRef.current?.close();
+  }, []);
+
+  // Send a message to the watch party
+  const sendPartyMessage = (message: PartyClientMessage) => {
+    if (partySocketRef.current?.readyState === WebSocket.OPEN) {
+      partySocketRef.current.send(JSON.stringify(message));
+    }
+  };
+
+  // Join the watch party named in the URL and mirror the host's playback
+  useEffect(() => {
+    if (!party) {
+      return;
+    }
+
+    const params = new URLSearchParams({ name: party.name, gameId, announcerStyle });
+    const socket = new WebSocket(`${partySocketEndpoint}/${encodeURIComponent(party.partyId)}?${params}`);
+
+    socket.onmessage = (event) => {
+      const message: PartyServerMessage = JSON.parse(event.data);
+      switch (message.type) {
+        case 'welcome':
+          setPartyMemberId(message.memberId);
+          setPartyHostId(message.party.hostId);
+          setPartyMembers(message.party.members);
+          setPartyChat(message.party.chat);
+          setAnnouncerStyle(message.party.announcerStyle);
+          if (message.party.state) {
+            showPlayState(message.party.state);
+          }
+          break;
+        case 'presence':
+          setPartyHostId(message.hostId);
+          setPartyMembers(message.members);
+          break;
+        case 'state':
+          showPlayState(message.state);
+          break;
+        case 'style':
+          setAnnouncerStyle(message.announcerStyle);
+          break;
+        case 'chat':
+          setPartyChat(prev => [...prev, message.message]);
+          break;
+        case 'error':
+          console.error('Watch party error:', message.message);
+          break;
+      }
+    };
+
+    partySocketRef.current = socket;
+    return () => socket.close();
+  }, []);
+
+  const changeAnnouncerStyle = (style: 'classic' | 'modern' | 'enthusiastic' | 'poetic') => {
+    setAnnouncerStyle(style);
+    if (party) {
+      sendPartyMessage({ type: 'style', announcerStyle: style });
+    }
+  };
+
+  // Show a new play and start typing out its log entries
+  const showPlayState = (updatedState: SimplifiedBaseballState) => {
+    // Clear the log panel by resetting the game state with new log entries;
+    // played states carry no lineups or team stats, so those are kept
+    setGameState(prevState => ({
+      ...prevState,
+      gameId: updatedState.gameId,
+      sessionId: updatedState.sessionId,
+      currentPlay: updatedState.currentPlay,
+      game: {
+        ...updatedState.game,
+        log: updatedState.game.log || [], // Ensure log is an array
+      },
+      home: mergeTeamState(prevState.home, updatedState.home),
+      visitors: mergeTeamState(prevState.visitors, updatedState.visitors)
+    }));
+    setLinescore(updatedState.linescore ?? null);
+
+    // Reset the rendered entry count to start fresh
+    setRenderedEntryCount(0);
+    setIsTypingComplete(false);
+  };
 
   // Function to handle the next play action
   const handleNextPlay = async () => {
+    // The stream advances the game while watching, and only the host advances a party
+    if (isWatching || isPartyGuest) {
+      return;
+    }
+
     // Don't add new entries while typing is in progress
     if (!isTypingComplete) {
       console.log("Typing not complete, ignoring next play");
       return;
     }
     
+    // The party generates the play once and sends it to every member
+    if (party) {
+      sendPartyMessage({ type: 'advance' });
+      return;
+    }
+
     try {
-      const response = await fetch(`${nextPlayEndpoint}/${gameId}?currentPlay=${gameState.currentPlay}&announcerStyle=${announcerStyle}`, {
+      const response = await fetch(`${nextPlayEndpoint}/${gameId}?currentPlay=${gameState.currentPlay}&announcerStyle=${announcerStyle}${booth ? '&booth=true' : ''}`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -214,20 +458,8 @@ function BaseballGame() {
         throw new Error('Failed to update game state');
       }
 
-      const updatedState = await response.json();
-      
-      // Clear the log panel by resetting the game state with new log entries
-      setGameState({
-        ...updatedState,
-        game: {
-          ...updatedState.game,
-          log: updatedState.game.log || [], // Ensure log is an array
-        }
-      });
-      
-      // Reset the rendered entry count to start fresh
-      setRenderedEntryCount(0);
-      setIsTypingComplete(false);
+      const playState: SimplifiedBaseballState = await response.json();
+      showPlayState(playState);
     } catch (error) {
       console.error('Error updating game state:', error);
       // For development/demo purposes, just add a dummy log entry
@@ -260,6 +492,8 @@ function BaseballGame() {
             battingTeam={battingTeam}
             currentBatter={currentBatter}
             currentPitcherName={currentPitcherName}
+            linescore={linescore}
+            winProbability={winProbability.filter(point => point.playIndex < gameState.currentPlay)}
           />
 
           {/* Right panel - Team Lineups (Blue background) */}
@@ -277,7 +511,7 @@ function BaseballGame() {
             {renderedEntryCount > 0 && gameState.game.log.length > 0 && (
               <TypedText 
                 text={gameState.game.log[renderedEntryCount - 1]} 
-                typingSpeed={20}
+                typingSpeed={20 / watchSpeed}
                 className="typed-log-entry"
                 onComplete={handleEntryTypingComplete}
                 clearHistory={false}
@@ -285,6 +519,15 @@ function BaseballGame() {
               />
             )}
           </div>
+          {party && (
+            <WatchPartyPanel
+              partyId={party.partyId}
+              memberId={partyMemberId}
+              members={partyMembers}
+              chat={partyChat}
+              onSendChat={(text) => sendPartyMessage({ type: 'chat', text })}
+            />
+          )}
         </div>
 
         {/* Status Bar */}
@@ -306,13 +549,26 @@ function BaseballGame() {
           <select
             id="announcer-style"
             value={announcerStyle}
-            onChange={(e) => setAnnouncerStyle(e.target.value as 'classic' | 'modern' | 'enthusiastic' | 'poetic')}
+            disabled={isPartyGuest}
+            onChange={(e) => changeAnnouncerStyle(e.target.value as 'classic' | 'modern' | 'enthusiastic' | 'poetic')}
           >
             <option value="classic">Classic (Bob Costas)</option>
             <option value="modern">Modern (Joe Buck)</option>
             <option value="enthusiastic">Enthusiastic (Harry Caray)</option>
             <option value="poetic">Poetic (Vin Scully)</option>
           </select>
+          {/* The party's plays are generated for every member, with a single announcer */}
+          {!party && (
+            <label className="booth-toggle" title="Add a color analyst to the announcer's call">
+              <input
+                type="checkbox"
+                checked={booth}
+                disabled={isWatching}
+                onChange={(e) => setBooth(e.target.checked)}
+              />
+              Color Analyst
+            </label>
+          )}
         </div>
 
         {/* Control Buttons */}
@@ -320,10 +576,39 @@ function BaseballGame() {
         <button 
           className="next-play-button" 
           onClick={handleNextPlay}
+          disabled={isWatching || isPartyGuest}
           title="Press Enter or click to advance to the next play"
         >
           Next Play
         </button>
+        {!party && (
+          <button
+            className="next-play-button"
+            onClick={isWatching ? stopWatching : startWatching}
+            title="Let the game play itself"
+          >
+            {isWatching ? 'Stop' : 'Watch'}
+          </button>
+        )}
+        {isWatching && (
+          <button
+            className="info-button"
+            onClick={togglePause}
+          >
+            {isPaused ? 'Resume' : 'Pause'}
+          </button>
+        )}
+        <select
+          className="watch-speed-selector"
+          value={watchSpeed}
+          onChange={(e) => changeWatchSpeed(parseFloat(e.target.value))}
+          title="Playback speed"
+        >
+          <option value={0.5}>0.5x</option>
+          <option value={1}>1x</option>
+          <option value={2}>2x</option>
+          <option value={4}>4x</option>
+        </select>
         <button 
           className="info-button"
           onClick={() => setIsStatusBarVisible(!isStatusBarVisible)}
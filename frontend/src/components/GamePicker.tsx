@@ -0,0 +1,311 @@
+"use client"
+
+import { useState, useEffect, FormEvent } from "react"
+import { config } from "../config/config"
+import { CreateGameRequest, CreateGameResponse } from "../../../common/types/ApiTypes"
+import { GameSearchResponse, GameSummary } from "../../../common/types/GameSearchTypes"
+// Shares the page, button and selector styles of the game view
+import "./BaseballGame.css"
+import "./GamePicker.css"
+
+type AnnouncerStyle = 'classic' | 'modern' | 'enthusiastic' | 'poetic';
+
+// Retrosheet IDs of the current major league teams
+const TEAMS: { id: string; name: string }[] = [
+  { id: 'ANA', name: 'Los Angeles Angels' },
+  { id: 'ARI', name: 'Arizona Diamondbacks' },
+  { id: 'ATL', name: 'Atlanta Braves' },
+  { id: 'BAL', name: 'Baltimore Orioles' },
+  { id: 'BOS', name: 'Boston Red Sox' },
+  { id: 'CHA', name: 'Chicago White Sox' },
+  { id: 'CHN', name: 'Chicago Cubs' },
+  { id: 'CIN', name: 'Cincinnati Reds' },
+  { id: 'CLE', name: 'Cleveland Guardians' },
+  { id: 'COL', name: 'Colorado Rockies' },
+  { id: 'DET', name: 'Detroit Tigers' },
+  { id: 'HOU', name: 'Houston Astros' },
+  { id: 'KCA', name: 'Kansas City Royals' },
+  { id: 'LAN', name: 'Los Angeles Dodgers' },
+  { id: 'MIA', name: 'Miami Marlins' },
+  { id: 'MIL', name: 'Milwaukee Brewers' },
+  { id: 'MIN', name: 'Minnesota Twins' },
+  { id: 'NYA', name: 'New York Yankees' },
+  { id: 'NYN', name: 'New York Mets' },
+  { id: 'OAK', name: 'Oakland Athletics' },
+  { id: 'PHI', name: 'Philadelphia Phillies' },
+  { id: 'PIT', name: 'Pittsburgh Pirates' },
+  { id: 'SDN', name: 'San Diego Padres' },
+  { id: 'SEA', name: 'Seattle Mariners' },
+  { id: 'SFN', name: 'San Francisco Giants' },
+  { id: 'SLN', name: 'St. Louis Cardinals' },
+  { id: 'TBA', name: 'Tampa Bay Rays' },
+  { id: 'TEX', name: 'Texas Rangers' },
+  { id: 'TOR', name: 'Toronto Blue Jays' },
+  { id: 'WAS', name: 'Washington Nationals' },
+];
+
+const PAGE_SIZE = 12;
+
+interface GameFilters {
+  startDate: string;
+  endDate: string;
+  team: string;
+  opponent: string;
+  ballpark: string;
+}
+
+const emptyFilters: GameFilters = {
+  startDate: '',
+  endDate: '',
+  team: '',
+  opponent: '',
+  ballpark: '',
+};
+
+interface GamePickerProps {
+  // Called with the new session instead of navigating to the game (for tests and embedding)
+  onGameStarted?: (session: CreateGameResponse) => void;
+}
+
+/**
+ * Landing view: search games by date, team and ballpark, then start a
+ * playback session for the picked game with the chosen announcer style.
+ * Games are listed spoiler-free, without final scores, unless the user asks
+ * to see them.
+ */
+export default function GamePicker({ onGameStarted }: GamePickerProps) {
+  const [filters, setFilters] = useState<GameFilters>(emptyFilters);
+  // The filters of the results shown, used when paging
+  const [appliedFilters, setAppliedFilters] = useState<GameFilters>(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [results, setResults] = useState<GameSearchResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showScores, setShowScores] = useState(false);
+  const [announcerStyle, setAnnouncerStyle] = useState<AnnouncerStyle>('classic');
+  const [startingGameId, setStartingGameId] = useState<string | null>(null);
+
+  const gamesEndpoint = `${config.api.baseUrl}${config.api.endpoints.games ?? '/api/games'}`;
+  const createGameEndpoint = `${config.api.baseUrl}${config.api.endpoints.createGame ?? '/api/game/createGame'}`;
+
+  const searchGames = async (searchFilters: GameFilters, searchPage: number, withScores = showScores) => {
+    const params = new URLSearchParams({ page: String(searchPage), limit: String(PAGE_SIZE) });
+    Object.entries(searchFilters).forEach(([key, value]) => {
+      if (value) {
+        params.set(key, value);
+      }
+    });
+    // The final scores are only fetched once the user asks to see them
+    if (!withScores) {
+      params.set('spoilerFree', 'true');
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`${gamesEndpoint}?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to search games');
+      }
+      setResults(await response.json());
+      setAppliedFilters(searchFilters);
+      setPage(searchPage);
+    } catch (error) {
+      console.error('Error searching games:', error);
+      setError('Could not load games. Check the filters and try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Show the first page of games on load
+  useEffect(() => {
+    searchGames(emptyFilters, 1);
+  }, []);
+
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault();
+    searchGames(filters, 1);
+  };
+
+  const toggleScores = (withScores: boolean) => {
+    setShowScores(withScores);
+    searchGames(appliedFilters, page, withScores);
+  };
+
+  const updateFilter = (key: keyof GameFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const startGame = async (game: GameSummary) => {
+    setStartingGameId(game.gameId);
+    try {
+      const request: CreateGameRequest = {
+        homeTeamId: game.home.id,
+        visitingTeamId: game.visitors.id,
+        gameId: game.gameId,
+        announcerStyle
+      };
+      const response = await fetch(createGameEndpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      });
+      if (!response.ok) {
+        throw new Error('Failed to start game');
+      }
+
+      const session: CreateGameResponse = await response.json();
+      if (onGameStarted) {
+        onGameStarted(session);
+        return;
+      }
+      const params = new URLSearchParams({
+        gameId: session.gameId,
+        session: session.sessionId,
+        style: session.announcerStyle
+      });
+      window.location.search = params.toString();
+    } catch (error) {
+      console.error('Error starting game:', error);
+      setError('Could not start the game. Try again.');
+    } finally {
+      setStartingGameId(null);
+    }
+  };
+
+  return (
+    <div className="game-picker">
+      <h1 className="picker-title">Pick a Game</h1>
+
+      <form className="picker-filters" onSubmit={handleSearch}>
+        <label>
+          From
+          <input
+            type="date"
+            value={filters.startDate}
+            onChange={(e) => updateFilter('startDate', e.target.value)}
+          />
+        </label>
+        <label>
+          To
+          <input
+            type="date"
+            value={filters.endDate}
+            min={filters.startDate || undefined}
+            onChange={(e) => updateFilter('endDate', e.target.value)}
+          />
+        </label>
+        <label>
+          Team
+          <select value={filters.team} onChange={(e) => updateFilter('team', e.target.value)}>
+            <option value="">Any team</option>
+            {TEAMS.map(team => (
+              <option key={team.id} value={team.id}>{team.name}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Opponent
+          <select value={filters.opponent} onChange={(e) => updateFilter('opponent', e.target.value)}>
+            <option value="">Any opponent</option>
+            {TEAMS.map(team => (
+              <option key={team.id} value={team.id}>{team.name}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Ballpark
+          <input
+            type="text"
+            value={filters.ballpark}
+            maxLength={5}
+            placeholder="e.g. CIN09"
+            onChange={(e) => updateFilter('ballpark', e.target.value.toUpperCase())}
+          />
+        </label>
+        <button type="submit" className="next-play-button" disabled={isLoading}>
+          Search
+        </button>
+      </form>
+
+      <div className="picker-options">
+        <label>
+          <input
+            type="checkbox"
+            checked={showScores}
+            onChange={(e) => toggleScores(e.target.checked)}
+          />
+          Show final scores
+        </label>
+        <div className="announcer-style-selector">
+          <label htmlFor="picker-announcer-style">Announcer Style:</label>
+          <select
+            id="picker-announcer-style"
+            value={announcerStyle}
+            onChange={(e) => setAnnouncerStyle(e.target.value as AnnouncerStyle)}
+          >
+            <option value="classic">Classic (Bob Costas)</option>
+            <option value="modern">Modern (Joe Buck)</option>
+            <option value="enthusiastic">Enthusiastic (Harry Caray)</option>
+            <option value="poetic">Poetic (Vin Scully)</option>
+          </select>
+        </div>
+      </div>
+
+      {error && <div className="picker-error">{error}</div>}
+      {isLoading && <div className="picker-status">Loading games...</div>}
+      {!isLoading && results && results.data.length === 0 && (
+        <div className="picker-status">No games match these filters.</div>
+      )}
+
+      <div className="game-cards">
+        {results?.data.map(game => (
+          <button
+            key={game.gameId}
+            className="game-card"
+            onClick={() => startGame(game)}
+            disabled={startingGameId !== null}
+            data-testid="game-card"
+          >
+            <span className="game-card-date">
+              {game.date}{game.gameNumber > 0 ? ` (game ${game.gameNumber})` : ''}
+            </span>
+            <span className="game-card-teams">
+              {game.visitors.displayName}
+              {showScores && game.visitors.runs !== null ? ` ${game.visitors.runs}` : ''}
+              {' at '}
+              {game.home.displayName}
+              {showScores && game.home.runs !== null ? ` ${game.home.runs}` : ''}
+            </span>
+            <span className="game-card-venue">
+              {game.ballpark}
+              {showScores && game.innings !== null && game.innings > 9 ? ` · ${game.innings} innings` : ''}
+            </span>
+            {startingGameId === game.gameId && <span className="game-card-status">Starting...</span>}
+          </button>
+        ))}
+      </div>
+
+      {results && results.pagination.totalPages > 1 && (
+        <div className="picker-pagination">
+          <button
+            className="info-button"
+            disabled={!results.pagination.hasPrev || isLoading}
+            onClick={() => searchGames(appliedFilters, page - 1)}
+          >
+            Prev
+          </button>
+          <span>Page {results.pagination.page} of {results.pagination.totalPages}</span>
+          <button
+            className="info-button"
+            disabled={!results.pagination.hasNext || isLoading}
+            onClick={() => searchGames(appliedFilters, page + 1)}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
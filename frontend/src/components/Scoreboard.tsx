@@ -1,6 +1,9 @@
 "use client"
 
 import { BaseballState } from "../types/BaseballTypes"
+import { Linescore } from "../../../common/types/LinescoreTypes"
+import { WinProbabilityPoint } from "../../../common/types/WinProbabilityTypes"
+import WinProbabilityChart from "./WinProbabilityChart"
 import "./Scoreboard.css"
 
 interface ScoreboardProps {
@@ -26,6 +29,32 @@ interface ScoreboardProps {
   };
   currentBatter: string;
   currentPitcherName: string;
+  linescore?: Linescore | null;
+  winProbability?: WinProbabilityPoint[];
+}
+
+interface LinescoreRow {
+  runsByInning: Array<number | null>;
+  runs: number;
+  hits: number;
+  errors: number;
+}
+
+// Runs by inning and R/H/E of a team, from the linescore when the server sent one
+const getLinescoreRow = (
+  linescore: Linescore | null | undefined,
+  stats: BaseballState["home"]["stats"] | undefined,
+  side: "home" | "visitors"
+): LinescoreRow => {
+  if (linescore) {
+    return linescore[side];
+  }
+  return {
+    runsByInning: stats?.innings ?? [],
+    runs: stats?.runs ?? 0,
+    hits: stats?.hits ?? 0,
+    errors: stats?.errors ?? 0
+  };
 }
 
 export default function Scoreboard({
@@ -35,15 +64,33 @@ export default function Scoreboard({
   currentInning,
   battingTeam,
   currentBatter,
-  currentPitcherName
+  currentPitcherName,
+  linescore,
+  winProbability = []
 }: ScoreboardProps) {
+  // Nine innings, or as many as the game has gone into extra innings
+  const innings = Array.from({ length: Math.max(linescore?.innings ?? 9, 9) }, (_, i) => i + 1);
+  const rows = [
+    { side: "visitors", team: teams.away, row: getLinescoreRow(linescore, gameState.visitors.stats, "visitors") },
+    { side: "home", team: teams.home, row: getLinescoreRow(linescore, gameState.home.stats, "home") }
+  ];
+
+  // A half-inning without runs recorded is blank until the game is over, when
+  // it can only be a bottom of the ninth (or later) the home team did not need to bat
+  const renderInningScore = (runs: number | null | undefined) => {
+    if (runs === null || runs === undefined) {
+      return linescore?.complete ? "X" : "";
+    }
+    return runs;
+  };
+
   return (
-    <div className="scoreboard">
+    <div className={`scoreboard ${innings.length > 9 ? "extra-innings" : ""}`}>
       {/* Innings row */}
       <div className="innings-row">
         <div className="team-name-spacer"></div>
         <div className="innings-container">
-          {[1, 2, 3, 4, 5, 6, 7, 8, 9].map((inning) => (
+          {innings.map((inning) => (
             <span 
               key={inning} 
               className={`inning-number ${inning === currentInning ? "current-inning" : ""}`}
@@ -63,36 +110,23 @@ export default function Scoreboard({
 
       {/* Teams and scores */}
       <div className="teams-container">
-        <div className={`team-row ${battingTeam.id === teams.away.id ? "batting-team" : ""}`}>
-          <span className="team-name">{teams.away.displayName}</span>
-          <div className="innings-container">
-            {gameState.visitors.stats.innings.map((score: number, i: number) => (
-              <span key={i} className="score">
-                {score}
-              </span>
-            ))}
-          </div>
-          <div className="stats-container" data-testid="stats-container">
-            <span className="score">{gameState.visitors.stats.runs}</span>
-            <span className="score">{gameState.visitors.stats.hits}</span>
-            <span className="score">{gameState.visitors.stats.errors}</span>
-          </div>
-        </div>
-        <div className={`team-row ${battingTeam.id === teams.home.id ? "batting-team" : ""}`}>
-          <span className="team-name">{teams.home.displayName}</span>
-          <div className="innings-container">
-            {gameState.home.stats.innings.map((score: number, i: number) => (
-              <span key={i} className="score">
-                {score}
-              </span>
-            ))}
+        {rows.map(({ side, team, row }) => (
+          <div key={side} className={`team-row ${battingTeam.id === team.id ? "batting-team" : ""}`}>
+            <span className="team-name">{team.displayName}</span>
+            <div className="innings-container">
+              {(linescore ? innings : row.runsByInning).map((_, i) => (
+                <span key={i} className="score">
+                  {renderInningScore(row.runsByInning[i])}
+                </span>
+              ))}
+            </div>
+            <div className="stats-container" data-testid="stats-container">
+              <span className="score">{row.runs}</span>
+              <span className="score">{row.hits}</span>
+              <span className="score">{row.errors}</span>
+            </div>
           </div>
-          <div className="stats-container" data-testid="stats-container">
-            <span className="score">{gameState.home.stats.runs}</span>
-            <span className="score">{gameState.home.stats.hits}</span>
-            <span className="score">{gameState.home.stats.errors}</span>
-          </div>
-        </div>
+        ))}
       </div>
 
       <div className="game-info">
@@ -127,6 +161,12 @@ export default function Scoreboard({
           </div>
         </div>
       </div>
+
+      <WinProbabilityChart
+        points={winProbability}
+        homeTeamName={teams.home.shortName || teams.home.displayName}
+        awayTeamName={teams.away.shortName || teams.away.displayName}
+      />
     </div>
   );
 } 
\ No newline at end of file
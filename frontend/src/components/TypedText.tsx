@@ -1,11 +1,24 @@
 import { useState, useEffect, useRef } from 'react';
 import './TypedText.css';
+import { BoothSpeaker, LogEntry, getLogEntryText } from '../../../common/types/BaseballTypes';
+
+// A typed line, with the voice of the booth that spoke it if any
+interface TypedLine {
+  text: string;
+  speaker?: BoothSpeaker;
+}
 
 // Global history to persist across renders
-const globalHistory: string[] = [];
+const globalHistory: TypedLine[] = [];
+
+// Labels of the voices of the two-voice booth
+const SPEAKER_LABELS: Record<BoothSpeaker, string> = {
+  playByPlay: 'PBP',
+  color: 'COLOR'
+};
 
 interface TypedTextProps {
-  text: string;
+  text: LogEntry; // Lines of the booth are labeled and styled by speaker
   typingSpeed?: number;
   className?: string;
   onComplete?: () => void;
@@ -14,13 +27,15 @@ interface TypedTextProps {
 }
 
 const TypedText = ({ 
-  text, 
+  text: entry, 
   typingSpeed = 30, 
   className = '', 
   onComplete,
   clearHistory = false,
   lineDelay = 1000
 }: TypedTextProps) => {
+  const text = getLogEntryText(entry);
+  const speaker = typeof entry === 'string' ? undefined : entry.speaker;
   const [displayedText, setDisplayedText] = useState<string>('');
   const [currentCharIndex, setCurrentCharIndex] = useState(0);
   const [isComplete, setIsComplete] = useState(false);
@@ -38,7 +53,9 @@ const TypedText = ({
     setDisplayedText('');
     setCurrentCharIndex(0);
     setIsComplete(false);
-  }, [text]);
+  }, [text, speaker]);
+
+  const isInHistory = globalHistory.some(line => line.text === text && line.speaker === speaker);
 
   // Type the current text character by character
   useEffect(() => {
@@ -56,8 +73,8 @@ const TypedText = ({
       setIsComplete(true);
       
       // Only add to history if it's not already there
-      if (!globalHistory.includes(text)) {
-        globalHistory.push(text);
+      if (!isInHistory) {
+        globalHistory.push({ text, speaker });
       }
       
       // Call onComplete callback if provided after the line delay
@@ -67,7 +84,7 @@ const TypedText = ({
         }, lineDelay); // Use lineDelay instead of fixed 100ms
       }
     }
-  }, [currentCharIndex, text, typingSpeed, isComplete, onComplete, lineDelay]);
+  }, [currentCharIndex, text, speaker, isInHistory, typingSpeed, isComplete, onComplete, lineDelay]);
 
   // Auto-scroll to bottom when new content is added
   useEffect(() => {
@@ -86,14 +103,16 @@ const TypedText = ({
     >
       {/* Render history lines */}
       {globalHistory.map((line, index) => (
-        <div key={`history-${index}`} className="typed-line">
-          {line}
+        <div key={`history-${index}`} className={`typed-line ${speakerClassName(line.speaker)}`}>
+          <SpeakerLabel speaker={line.speaker} />
+          {line.text}
         </div>
       ))}
       
       {/* Render current line being typed */}
-      {text && !globalHistory.includes(text) && (
-        <div className={`typed-line ${!isComplete ? 'typing' : ''}`}>
+      {text && !isInHistory && (
+        <div className={`typed-line ${speakerClassName(speaker)} ${!isComplete ? 'typing' : ''}`}>
+          <SpeakerLabel speaker={speaker} />
           {displayedText}
           {!isComplete && currentCharIndex < text.length && (
             <span className="cursor">|</span>
@@ -104,4 +123,11 @@ const TypedText = ({
   );
 };
 
+// Class that styles the lines of each voice of the booth
+const speakerClassName = (speaker?: BoothSpeaker) => speaker ? `speaker-${speaker}` : '';
+
+// Label in front of a line of the booth; single announcers' lines have none
+const SpeakerLabel = ({ speaker }: { speaker?: BoothSpeaker }) =>
+  speaker ? <span className="speaker-label">{SPEAKER_LABELS[speaker]}:</span> : null;
+
 export default TypedText; 
\ No newline at end of file
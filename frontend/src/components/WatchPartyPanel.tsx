@@ -0,0 +1,72 @@
+import { useState, FormEvent, useEffect, useRef } from "react";
+import { PartyChatMessage, PartyMember } from "../../../common/types/WatchPartyTypes";
+import "./WatchPartyPanel.css";
+
+interface WatchPartyPanelProps {
+  partyId: string;
+  memberId: string | null;
+  members: PartyMember[];
+  chat: PartyChatMessage[];
+  onSendChat: (text: string) => void;
+}
+
+export default function WatchPartyPanel({
+  partyId,
+  memberId,
+  members,
+  chat,
+  onSendChat,
+}: WatchPartyPanelProps) {
+  const [draft, setDraft] = useState("");
+  const chatRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest chat line in view
+  useEffect(() => {
+    if (chatRef.current) {
+      chatRef.current.scrollTop = chatRef.current.scrollHeight;
+    }
+  }, [chat.length]);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const text = draft.trim();
+    if (text) {
+      onSendChat(text);
+      setDraft("");
+    }
+  };
+
+  return (
+    <div className="watch-party-panel">
+      <div className="party-title">Party: {partyId}</div>
+      <div className="party-members">
+        {members.map((member) => (
+          <span
+            key={member.memberId}
+            className={`party-member ${member.memberId === memberId ? "is-me" : ""}`}
+          >
+            {member.isHost ? "★ " : ""}{member.name}
+          </span>
+        ))}
+      </div>
+      <div className="party-chat" ref={chatRef}>
+        {chat.map((message, index) => (
+          <div key={index} className="chat-line">
+            <span className="chat-name">{message.name}:</span> {message.text}
+          </div>
+        ))}
+      </div>
+      <form className="chat-form" onSubmit={handleSubmit}>
+        <input
+          className="chat-input"
+          value={draft}
+          maxLength={500}
+          placeholder="Say something..."
+          onChange={(e) => setDraft(e.target.value)}
+          // Keep Enter from also advancing the game
+          onKeyDown={(e) => e.stopPropagation()}
+        />
+      </form>
+    </div>
+  );
+}
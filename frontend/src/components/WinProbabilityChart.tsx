@@ -0,0 +1,64 @@
+"use client"
+
+import { WinProbabilityPoint } from "../../../common/types/WinProbabilityTypes"
+import "./WinProbabilityChart.css"
+
+interface WinProbabilityChartProps {
+  // Points of the plays played so far, in order
+  points: WinProbabilityPoint[];
+  homeTeamName: string;
+  awayTeamName: string;
+}
+
+// Chart size in SVG units; the SVG scales to the width of the scoreboard
+const WIDTH = 300;
+const HEIGHT = 60;
+
+const toPercent = (probability: number) => Math.round(probability * 100);
+
+export default function WinProbabilityChart({ points, homeTeamName, awayTeamName }: WinProbabilityChartProps) {
+  if (points.length === 0) {
+    return null;
+  }
+
+  // The home team's chances from the first pitch through the last play, from
+  // top (home wins) to bottom (away team wins)
+  const probabilities = [points[0].homeWinProbabilityBefore, ...points.map(point => point.homeWinProbability)];
+  const coordinates = probabilities
+    .map((probability, i) => `${(i / (probabilities.length - 1)) * WIDTH},${(1 - probability) * HEIGHT}`)
+    .join(" ");
+
+  const homeChance = toPercent(probabilities[probabilities.length - 1]);
+  const leader = homeChance >= 50
+    ? { name: homeTeamName, chance: homeChance }
+    : { name: awayTeamName, chance: 100 - homeChance };
+  const lastPlay = points[points.length - 1];
+
+  return (
+    <div className="win-probability">
+      <div className="win-probability-header">
+        <span className="label">Win Probability: </span>
+        <span className="value" data-testid="win-probability-leader">{leader.name} {leader.chance}%</span>
+        {Math.abs(lastPlay.wpa) >= 0.005 && (
+          <span className="win-probability-wpa" data-testid="win-probability-wpa">
+            Last play {lastPlay.wpa > 0 ? "+" : ""}{toPercent(lastPlay.wpa)}% for the {lastPlay.isTopInning ? awayTeamName : homeTeamName}
+          </span>
+        )}
+      </div>
+      <svg
+        className="win-probability-chart"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`${homeTeamName} win probability by play`}
+      >
+        <line className="win-probability-midline" x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} />
+        <polyline className="win-probability-line" points={coordinates} />
+      </svg>
+      <div className="win-probability-legend">
+        <span>&#9650; {homeTeamName}</span>
+        <span>&#9660; {awayTeamName}</span>
+      </div>
+    </div>
+  );
+}
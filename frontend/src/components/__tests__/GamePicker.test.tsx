@@ -0,0 +1,96 @@
+import { render, screen, fireEvent, waitFor } from '../../test/utils';
+import GamePicker from '../GamePicker';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const game = {
+  gameId: 'CIN201909150',
+  date: '2019-09-15',
+  gameNumber: 0,
+  season: 2019,
+  ballpark: 'CIN09',
+  innings: 11,
+  margin: 1,
+  attendance: 24311,
+  home: { id: 'CIN', displayName: 'Cincinnati Reds', runs: 4 },
+  visitors: { id: 'NYN', displayName: 'New York Mets', runs: 3 }
+};
+
+const searchResponse = {
+  data: [game],
+  pagination: { total: 1, page: 1, limit: 12, totalPages: 1, hasNext: false, hasPrev: false }
+};
+
+const jsonResponse = (body: unknown) => Promise.resolve({
+  ok: true,
+  json: () => Promise.resolve(body)
+} as Response);
+
+describe('GamePicker Component', () => {
+  beforeEach(() => {
+    vi.mocked(fetch).mockImplementation((input: RequestInfo | URL) => {
+      const url = typeof input === 'string' ? input : input.toString();
+      if (url.includes('/createGame')) {
+        return jsonResponse({ gameId: game.gameId, sessionId: 'SESSION_001', announcerStyle: 'poetic', gameState: {} });
+      }
+      return jsonResponse(searchResponse);
+    });
+  });
+
+  it('lists games with teams and venue, hiding the final score by default', async () => {
+    render(<GamePicker />);
+
+    expect(await screen.findByText('New York Mets at Cincinnati Reds')).toBeInTheDocument();
+    expect(screen.getByText('CIN09')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Show final scores'));
+
+    expect(await screen.findByText('New York Mets 3 at Cincinnati Reds 4')).toBeInTheDocument();
+  });
+
+  it('searches spoiler-free until the final scores are shown', async () => {
+    render(<GamePicker />);
+    await screen.findByTestId('game-card');
+
+    const lastUrl = () => String(vi.mocked(fetch).mock.calls[vi.mocked(fetch).mock.calls.length - 1][0]);
+    expect(lastUrl()).toContain('spoilerFree=true');
+
+    fireEvent.click(screen.getByLabelText('Show final scores'));
+
+    await waitFor(() => expect(lastUrl()).not.toContain('spoilerFree'));
+  });
+
+  it('searches with the chosen filters', async () => {
+    const { container } = render(<GamePicker />);
+    await screen.findByTestId('game-card');
+
+    const [teamSelect] = Array.from(container.querySelectorAll('.picker-filters select'));
+    fireEvent.change(teamSelect, { target: { value: 'CIN' } });
+    fireEvent.change(screen.getByPlaceholderText('e.g. CIN09'), { target: { value: 'cin09' } });
+    fireEvent.click(screen.getByText('Search'));
+
+    await waitFor(() => {
+      const url = String(vi.mocked(fetch).mock.calls[vi.mocked(fetch).mock.calls.length - 1][0]);
+      expect(url).toContain('team=CIN');
+      expect(url).toContain('ballpark=CIN09');
+      expect(url).toContain('page=1');
+    });
+  });
+
+  it('starts a session for the picked game with the chosen announcer style', async () => {
+    const onGameStarted = vi.fn();
+    render(<GamePicker onGameStarted={onGameStarted} />);
+
+    fireEvent.change(screen.getByLabelText('Announcer Style:'), { target: { value: 'poetic' } });
+    fireEvent.click(await screen.findByTestId('game-card'));
+
+    await waitFor(() => expect(onGameStarted).toHaveBeenCalled());
+    const [, init] = vi.mocked(fetch).mock.calls.find(([url]) => String(url).includes('/createGame'))!;
+    expect(JSON.parse(String(init?.body))).toEqual({
+      homeTeamId: 'CIN',
+      visitingTeamId: 'NYN',
+      gameId: 'CIN201909150',
+      announcerStyle: 'poetic'
+    });
+    expect(onGameStarted).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'SESSION_001' }));
+  });
+});
@@ -213,4 +213,83 @@ describe('Scoreboard Component', () => {
     expect(screen.getByText('Batting :')).toBeInTheDocument();
     expect(screen.getByText('John Doe')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('expands the linescore for extra innings and marks an unneeded bottom half with X', () => {
+    const line = (runsByInning: Array<number | null>, runs: number, hits: number, errors: number) => ({
+      teamId: '',
+      name: '',
+      runsByInning,
+      runs,
+      hits,
+      errors
+    });
+    const linescore = {
+      innings: 10,
+      complete: true,
+      visitors: line([0, 0, 1, 0, 0, 0, 0, 0, 0, 2], 3, 7, 0),
+      home: line([0, 1, 0, 0, 0, 0, 0, 0, 0, null], 1, 5, 2)
+    };
+
+    const { container } = render(
+      <Scoreboard
+        gameState={mockGameState}
+        teams={mockTeams}
+        isTopInning={false}
+        currentInning={10}
+        battingTeam={mockTeams.home}
+        currentBatter={mockCurrentBatter}
+        currentPitcherName={mockCurrentPitcher}
+        linescore={linescore}
+      />
+    );
+
+    expect(screen.getByText('10')).toHaveClass('inning-number');
+    const [awayRow, homeRow] = Array.from(container.querySelectorAll('.team-row'));
+    expect(awayRow.querySelectorAll('.innings-container .score')[9]).toHaveTextContent('2');
+    expect(homeRow.querySelectorAll('.innings-container .score')[9]).toHaveTextContent('X');
+
+    const statsContainer = screen.getAllByTestId('stats-container');
+    expect(statsContainer[1]).toHaveTextContent('370');
+    expect(statsContainer[2]).toHaveTextContent('152');
+  });
+
+  it('charts the win probability of the plays so far', () => {
+    const winProbability = [
+      { playIndex: 1, inning: 1, isTopInning: true, event: 'HR/F8', homeWinProbabilityBefore: 0.54, homeWinProbability: 0.44, wpa: 0.1, leverageIndex: 0.9 },
+      { playIndex: 2, inning: 1, isTopInning: true, event: 'K', homeWinProbabilityBefore: 0.44, homeWinProbability: 0.46, wpa: -0.02, leverageIndex: 0.8 }
+    ];
+
+    const { container } = render(
+      <Scoreboard
+        gameState={mockGameState}
+        teams={mockTeams}
+        isTopInning={true}
+        currentInning={1}
+        battingTeam={mockBattingTeam}
+        currentBatter={mockCurrentBatter}
+        currentPitcherName={mockCurrentPitcher}
+        winProbability={winProbability}
+      />
+    );
+
+    expect(screen.getByTestId('win-probability-leader')).toHaveTextContent('AWAY 54%');
+    expect(screen.getByTestId('win-probability-wpa')).toHaveTextContent('Last play -2% for the AWAY');
+    expect(container.querySelector('.win-probability-line')?.getAttribute('points')?.split(' ')).toHaveLength(3);
+  });
+
+  it('leaves out the win probability chart before the first play', () => {
+    const { container } = render(
+      <Scoreboard
+        gameState={mockGameState}
+        teams={mockTeams}
+        isTopInning={true}
+        currentInning={1}
+        battingTeam={mockBattingTeam}
+        currentBatter={mockCurrentBatter}
+        currentPitcherName={mockCurrentPitcher}
+      />
+    );
+
+    expect(container.querySelector('.win-probability')).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { render, screen, act } from '../../test/utils';
+import TypedText from '../TypedText';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+describe('TypedText', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Types out the whole line
+  const typeOut = (text: string) => {
+    for (let i = 0; i <= text.length; i++) {
+      act(() => {
+        vi.advanceTimersByTime(10);
+      });
+    }
+  };
+
+  it('types a single announcer\'s line without a speaker label', () => {
+    const { container } = render(<TypedText text="Ball one." typingSpeed={10} clearHistory />);
+    typeOut('Ball one.');
+
+    expect(screen.getByText('Ball one.')).toBeInTheDocument();
+    expect(container.querySelector('.speaker-label')).toBeNull();
+  });
+
+  it('labels and styles the lines of the two-voice booth by speaker', () => {
+    const { container, rerender } = render(
+      <TypedText text={{ speaker: 'playByPlay', text: 'Gone!' }} typingSpeed={10} clearHistory />
+    );
+    typeOut('Gone!');
+    rerender(<TypedText text={{ speaker: 'color', text: 'Hung a slider.' }} typingSpeed={10} />);
+    typeOut('Hung a slider.');
+
+    expect(screen.getByText('PBP:')).toBeInTheDocument();
+    expect(screen.getByText('COLOR:')).toBeInTheDocument();
+    expect(container.querySelector('.speaker-color')).toHaveTextContent('Hung a slider.');
+  });
+});
@@ -8,6 +8,10 @@ interface Config {
       initGame: string;
       nextPlay: string;
       createGame?: string;
+      games?: string;
+      stream?: string;
+      winProbability?: string;
+      partySocket?: string;
     };
   };
   featureFlags?: FeatureFlags;
@@ -36,6 +40,10 @@ const defaultConfig: Config = {
       initGame: '/api/game/init',
       nextPlay: '/api/game/next',
       createGame: '/api/game/createGame',
+      games: '/api/games',
+      stream: '/api/game/stream',
+      winProbability: '/api/game/winprob',
+      partySocket: '/ws/party',
     },
   },
   featureFlags: {
@@ -64,6 +72,10 @@ const productionConfig: Config = {
       initGame: '/api/v1/game/init',
       nextPlay: '/api/v1/game/next',
       createGame: '/api/v1/game/createGame',
+      games: '/api/v1/games',
+      stream: '/api/v1/game/stream',
+      winProbability: '/api/v1/game/winprob',
+      partySocket: '/ws/party',
     },
   },
   featureFlags: {
@@ -92,6 +104,10 @@ const testConfig: Config = {
       initGame: '/api/test/game/init',
       nextPlay: '/api/test/game/next',
       createGame: '/api/test/game/createGame',
+      games: '/api/test/games',
+      stream: '/api/test/game/stream',
+      winProbability: '/api/test/game/winprob',
+      partySocket: '/ws/party',
     },
   },
   featureFlags: {
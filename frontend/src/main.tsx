@@ -1,10 +1,14 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import BaseballGame from './components/BaseballGame'
+import GamePicker from './components/GamePicker'
+
+// Without a game in the URL, show the landing page to pick one
+const hasGame = new URLSearchParams(window.location.search).has('gameId')
 
 // For React 18+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <BaseballGame />
+    {hasGame ? <BaseballGame /> : <GamePicker />}
   </React.StrictMode>
 )
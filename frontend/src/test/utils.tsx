@@ -123,6 +123,7 @@ export function setupMockFetch() {
         json: () => Promise.resolve({
           gameId: 'TEST_GAME_001',
           sessionId: 'TEST_SESSION_001',
+          announcerStyle: 'classic',
           gameState: mockGameResponse
         })
       } as Response);
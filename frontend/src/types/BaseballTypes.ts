@@ -37,12 +37,24 @@ export interface TeamState {
   currentBatter: string | null;
 }
 
+// Voices of the two-voice booth: the play-by-play announcer and the color analyst
+export type BoothSpeaker = 'playByPlay' | 'color';
+
+// A line of commentary spoken by one voice of the booth
+export interface SpokenLine {
+  speaker: BoothSpeaker;
+  text: string;
+}
+
+// A line of the game log: plain text from a single announcer, or a line of the booth
+export type LogEntry = string | SpokenLine;
+
 // Game state
 export interface GameState {
   inning: number;
   isTopInning: boolean;
   outs: number;
-  log: string[];
+  log: LogEntry[];
   onFirst: string;
   onSecond: string;
   onThird: string;
@@ -63,6 +75,10 @@ export interface BaseballState {
 export const getFullName = (firstName: string, lastName: string): string => 
   `${firstName} ${lastName}`;
 
+// Helper to get the text of a log entry, whichever voice spoke it
+export const getLogEntryText = (entry: LogEntry): string =>
+  typeof entry === 'string' ? entry : entry.text;
+
 // Function to create an empty baseball state
 export const createEmptyBaseballState = (): BaseballState => ({
   gameId: "-1",